@@ -11,11 +11,13 @@ declare module '@OneObjectInterfaces' {
         GlobalLLMSettings: GlobalLLMSettings;
         Keyword: Keyword;
         ProposalConfig: ProposalConfig;
+        ConversationSharing: ConversationSharing;
     }
 
     // Add our custom ID object types
     export interface OneIdObjectInterfaces {
         LLM: LLM;
+        ConversationSharing: Pick<ConversationSharing, '$type$' | 'conversationId'>;
     }
 
     // Define our custom object interfaces
@@ -31,6 +33,7 @@ declare module '@OneObjectInterfaces' {
         systemPrompt?: string;
         streamResponses?: boolean;
         autoSummarize?: boolean;
+        summaryLanguage?: string; // 'auto' (conversation's language) or a language code
         enableMCP?: boolean;
     }
 
@@ -66,4 +69,12 @@ declare module '@OneObjectInterfaces' {
         maxProposals: number; // 1-50 - maximum number of proposals to return
         updated: number; // Unix timestamp of last update
     }
+
+    export interface ConversationSharing {
+        $type$: 'ConversationSharing';
+        conversationId: string; // ID property - topic id
+        enabled: boolean; // Whether the conversation goes into the training corpus
+        sharedSince?: number; // Unix timestamp - earlier messages stay private; unset shares all of them
+        updatedAt: number; // Unix timestamp
+    }
 }
\ No newline at end of file
@@ -9,7 +9,10 @@ import { DataDashboard } from '@/components/DataDashboard'
 import { DevicesView } from '@/components/DevicesView'
 import { LoginDeploy } from '@/components/LoginDeploy'
 import { ModelOnboarding } from '@/components/ModelOnboarding'
-import { MessageSquare, BookOpen, Users, Settings, Loader2, Smartphone, BarChart3 } from 'lucide-react'
+import { ToolPermissionDialog } from '@/components/ToolPermissionDialog'
+import { KnowledgeGraphView } from '@/components/KnowledgeGraph/KnowledgeGraphView'
+import { KeywordTrendsDashboard } from '@/components/KeywordTrendsDashboard'
+import { MessageSquare, BookOpen, Users, Settings, Loader2, Smartphone, BarChart3, Network, TrendingUp } from 'lucide-react'
 import { useLamaInit } from '@/hooks/useLamaInit'
 import { lamaBridge } from '@/bridge/lama-bridge'
 import { ipcStorage } from '@/services/ipc-storage'
@@ -157,6 +160,8 @@ function App() {
   const tabs = [
     { id: 'chats', label: 'Chats', icon: MessageSquare },
     { id: 'journal', label: 'Journal', icon: BookOpen },
+    { id: 'knowledge', label: 'Knowledge', icon: Network },
+    { id: 'trends', label: 'Trends', icon: TrendingUp },
     { id: 'contacts', label: 'Contacts', icon: Users },
     { id: 'devices', label: 'Devices', icon: Smartphone },
     { id: 'settings', label: null, icon: Settings },  // No label for settings, just icon
@@ -181,6 +186,10 @@ function App() {
         return <ChatLayout selectedConversationId={selectedConversationId} />
       case 'journal':
         return <JournalView />
+      case 'knowledge':
+        return <KnowledgeGraphView onOpenTopic={(topicId) => handleNavigate('chats', topicId)} />
+      case 'trends':
+        return <KeywordTrendsDashboard onOpenTopic={(topicId) => handleNavigate('chats', topicId)} />
       case 'contacts':
         return <ContactsView onNavigateToChat={async (topicId, contactName) => {
           // Add or update the conversation in localStorage
@@ -290,6 +299,9 @@ function App() {
         {renderContent()}
       </div>
 
+      {/* Confirmation before AI tools with side effects run */}
+      <ToolPermissionDialog />
+
       {/* Status Bar */}
       <div className="border-t bg-card px-6 py-2">
         <div className="flex items-center justify-between text-xs text-muted-foreground">
@@ -53,6 +53,96 @@ export interface Message {
   attachments?: any[]
   topicId?: string
   topicName?: string
+  alternatives?: MessageAlternatives // Regenerated AI answers, if any
+}
+
+export interface MessageAlternatives {
+  messageId: string
+  promptMessageId?: string
+  selectedVersion: number
+  alternatives: Array<{
+    version: number
+    hash: string
+    text: string
+    author?: string
+    modelId?: string
+    created: number
+  }>
+}
+
+// One tool invocation during an AI reply (sent as message:toolStep)
+export interface ToolStep {
+  id: string
+  step: number
+  tool: string
+  arguments: Record<string, any>
+  status: 'running' | 'done' | 'error' | 'denied'
+  result?: string
+  error?: string
+}
+
+// Full-text search across all topics (search:query)
+export interface MessageSearchQuery {
+  query: string
+  topicId?: string
+  sender?: string
+  from?: number // ms since epoch, inclusive
+  to?: number // ms since epoch, inclusive
+  hasAttachment?: boolean
+  isAI?: boolean
+  limit?: number
+}
+
+export interface MessageSearchResult {
+  messageId: string
+  topicId: string
+  sender: string
+  isAI: boolean
+  hasAttachment: boolean
+  timestamp: number
+  snippet: string
+  score: number
+}
+
+// Subjects, keywords and topics of all conversations (knowledgeGraph:get)
+export interface KnowledgeGraphNode {
+  id: string
+  type: 'topic' | 'subject' | 'keyword'
+  label: string
+  weight: number
+  topicIds: string[]
+}
+
+export interface KnowledgeGraphEdge {
+  source: string
+  target: string
+  type: 'discussed-in' | 'has-keyword' | 'co-occurrence' | 'shared-keywords'
+  weight: number
+}
+
+export interface KnowledgeGraph {
+  nodes: KnowledgeGraphNode[]
+  edges: KnowledgeGraphEdge[]
+}
+
+export interface KeywordTrend {
+  term: string
+  counts: number[]        // One per bucket, oldest first
+  total: number
+  recent: number          // Mentions in the last window
+  previous: number        // Mentions in the window before
+  change: number
+  direction: 'rising' | 'falling' | 'steady'
+  topics: Record<string, number>
+}
+
+export interface KeywordTrendReport {
+  granularity: 'day' | 'week'
+  buckets: number[]       // Bucket start times, oldest first
+  window: number
+  keywords: KeywordTrend[]
+  rising: KeywordTrend[]
+  falling: KeywordTrend[]
 }
 
 export interface Peer {
@@ -224,7 +314,8 @@ class LamaBridge implements LamaAPI {
       isAI: msg.isAI || false,
       topicId: conversationId,
       topicName: 'Chat',
-      attachments: msg.attachments
+      attachments: msg.attachments,
+      alternatives: msg.alternatives
     }))
   }
   
@@ -297,6 +388,69 @@ class LamaBridge implements LamaAPI {
     return result.success
   }
   
+  async cancelAIResponse(topicId: string): Promise<boolean> {
+    if (!window.electronAPI) {
+      throw new Error('IPC not available')
+    }
+    const result = await window.electronAPI.invoke('ai:cancel', { topicId })
+    return result.success && result.data?.cancelled
+  }
+  
+  async regenerateMessage(conversationId: string, messageId: string, modelId?: string): Promise<MessageAlternatives> {
+    if (!window.electronAPI) {
+      throw new Error('IPC not available')
+    }
+    const result = await window.electronAPI.invoke('chat:regenerateMessage', { conversationId, messageId, modelId })
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to regenerate message')
+    }
+    return result.data
+  }
+
+  async selectMessageAlternative(conversationId: string, messageId: string, version: number): Promise<MessageAlternatives> {
+    if (!window.electronAPI) {
+      throw new Error('IPC not available')
+    }
+    const result = await window.electronAPI.invoke('chat:selectMessageAlternative', { conversationId, messageId, version })
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to select alternative')
+    }
+    return result.data
+  }
+
+  async searchMessages(query: MessageSearchQuery): Promise<MessageSearchResult[]> {
+    if (!window.electronAPI) {
+      throw new Error('IPC not available')
+    }
+    const result = await window.electronAPI.invoke('search:query', query)
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to search messages')
+    }
+    return result.data.results
+  }
+
+  async getKnowledgeGraph(options: { topicIds?: string[]; includeArchived?: boolean; maxKeywords?: number; minEdgeWeight?: number } = {}): Promise<KnowledgeGraph> {
+    if (!window.electronAPI) {
+      throw new Error('IPC not available')
+    }
+    const result = await window.electronAPI.invoke('knowledgeGraph:get', options)
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to load knowledge graph')
+    }
+    return result.data
+  }
+
+  async getKeywordTrends(options: { granularity?: 'day' | 'week'; buckets?: number; window?: number; topicId?: string; limit?: number } = {}): Promise<KeywordTrendReport> {
+    if (!window.electronAPI) {
+      throw new Error('IPC not available')
+    }
+    const result = await window.electronAPI.invoke('keywordTrends:get', options)
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to load keyword trends')
+    }
+    return result.data
+  }
+
   async enableAIForTopic(topicId: string): Promise<boolean> {
     if (!window.electronAPI) {
       throw new Error('IPC not available')
@@ -486,7 +640,7 @@ declare global {
       platform: string
       isElectron: boolean
       invoke: (channel: string, ...args: any[]) => Promise<any>
-      on: (channel: string, callback: (...args: any[]) => void) => void
+      on: (channel: string, callback: (...args: any[]) => void) => () => void
       off: (channel: string, callback: (...args: any[]) => void) => void
     }
   }
@@ -1,10 +1,11 @@
 import { useState, useEffect, useCallback } from 'react'
-import { MessageSquare, Plus, Trash2, Bot, Loader2, MoreVertical, Edit, Check, CheckCheck, UserPlus, Users, ChevronLeft, ChevronRight } from 'lucide-react'
+import { MessageSquare, Plus, Trash2, Bot, Loader2, MoreVertical, Edit, Check, CheckCheck, UserPlus, Users, ChevronLeft, ChevronRight, TextSearch } from 'lucide-react'
 import { ChatView } from './ChatView'
 import { Button } from '@/components/ui/button'
 import { ScrollArea } from '@/components/ui/scroll-area'
 import { Input } from '@/components/ui/input'
-import { lamaBridge } from '@/bridge/lama-bridge'
+import { lamaBridge, type MessageSearchResult } from '@/bridge/lama-bridge'
+import { useLamaAuth } from '@/hooks/useLama'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -14,6 +15,8 @@ import {
 import { InputDialog } from './InputDialog'
 import { UserSelectionDialog } from './UserSelectionDialog'
 import { GroupChatDialog } from './GroupChatDialog'
+import { MessageSearchPanel } from './chat/MessageSearchPanel'
+import { MessageHistory } from './chat/MessageHistory'
 
 interface Conversation {
   id: string
@@ -36,6 +39,9 @@ export function ChatLayout({ selectedConversationId }: ChatLayoutProps = {}) {
   const [conversations, setConversations] = useState<Conversation[]>([])
   const [selectedConversation, setSelectedConversation] = useState<string | null>(selectedConversationId || null)
   const [searchQuery, setSearchQuery] = useState('')
+  const [showMessageSearch, setShowMessageSearch] = useState(false)
+  const [searchHit, setSearchHit] = useState<{ messageId: string; query: string } | null>(null)
+  const { user } = useLamaAuth()
   const [processingConversations, setProcessingConversations] = useState<Set<string>>(new Set())
   const [showNewChatDialog, setShowNewChatDialog] = useState(false)
   const [showNewGroupDialog, setShowNewGroupDialog] = useState(false)
@@ -476,6 +482,12 @@ export function ChatLayout({ selectedConversationId }: ChatLayoutProps = {}) {
     ))
   }, [selectedConversation])
 
+  // Open the conversation of a search result and the message's history at the matching version
+  const handleSearchResultSelect = useCallback((result: MessageSearchResult, query: string) => {
+    setSelectedConversation(result.topicId)
+    setSearchHit({ messageId: result.messageId, query })
+  }, [])
+
   return (
     <>
     <div className="flex h-full overflow-hidden">
@@ -490,7 +502,7 @@ export function ChatLayout({ selectedConversationId }: ChatLayoutProps = {}) {
       >
         {/* Header */}
         <div className={`${isCollapsed ? 'p-1' : 'p-4'} border-b border-border`}>
-          <div className={`flex items-center justify-between ${isCollapsed ? '' : 'mb-3'}`}>
+          <div className={`flex items-center justify-between ${isCollapsed || showMessageSearch ? '' : 'mb-3'}`}>
             {!isCollapsed && <h2 className="text-lg font-semibold">Conversations</h2>}
             <div className={`flex items-center gap-1 ${isCollapsed ? 'mx-auto' : ''}`}>
               {!isCollapsed && (
@@ -516,6 +528,17 @@ export function ChatLayout({ selectedConversationId }: ChatLayoutProps = {}) {
                   </DropdownMenuContent>
                 </DropdownMenu>
               )}
+              {!isCollapsed && (
+                <Button
+                  onClick={() => setShowMessageSearch(!showMessageSearch)}
+                  size="icon"
+                  variant={showMessageSearch ? 'secondary' : 'ghost'}
+                  className="h-8 w-8"
+                  title={showMessageSearch ? 'Back to conversations' : 'Search messages'}
+                >
+                  <TextSearch className="h-4 w-4" />
+                </Button>
+              )}
               <Button
                 onClick={() => setIsCollapsed(!isCollapsed)}
                 size="icon"
@@ -529,7 +552,7 @@ export function ChatLayout({ selectedConversationId }: ChatLayoutProps = {}) {
           </div>
           
           {/* Search */}
-          {!isCollapsed && (
+          {!isCollapsed && !showMessageSearch && (
             <Input
               placeholder="Search conversations..."
               value={searchQuery}
@@ -540,7 +563,14 @@ export function ChatLayout({ selectedConversationId }: ChatLayoutProps = {}) {
         </div>
 
         <>
-          {/* Conversation list */}
+          {/* Message search results or conversation list */}
+          {showMessageSearch && !isCollapsed ? (
+            <MessageSearchPanel
+              conversations={conversations}
+              currentUserId={user?.id}
+              onSelectResult={handleSearchResultSelect}
+            />
+          ) : (
           <ScrollArea className="flex-1">
             <div className={isCollapsed ? "space-y-1" : "p-2 space-y-1"}>
               {filteredConversations.length === 0 ? (
@@ -672,6 +702,7 @@ export function ChatLayout({ selectedConversationId }: ChatLayoutProps = {}) {
               }
             </div>
           </ScrollArea>
+          )}
 
           {/* Resize handle */}
           {!isCollapsed && (
@@ -765,6 +796,16 @@ export function ChatLayout({ selectedConversationId }: ChatLayoutProps = {}) {
       onOpenChange={setShowNewGroupDialog}
       onSubmit={handleCreateGroupConversation}
     />
+
+    {/* Search result in the message's version history */}
+    {searchHit && (
+      <MessageHistory
+        key={searchHit.messageId}
+        messageId={searchHit.messageId}
+        highlightQuery={searchHit.query}
+        onClose={() => setSearchHit(null)}
+      />
+    )}
   </>
   )
 }
\ No newline at end of file
@@ -2,14 +2,15 @@ import { useState, useEffect, useRef, useCallback, memo } from 'react'
 import { Card, CardContent } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { MessageView } from './MessageView'
+import { MessageView, type MessageSpanRequest } from './MessageView'
 import { useLamaMessages } from '@/hooks/useLamaMessages'
 import { useLamaAuth, useLamaPeers } from '@/hooks/useLama'
-import { lamaBridge } from '@/bridge/lama-bridge'
+import { lamaBridge, type ToolStep } from '@/bridge/lama-bridge'
 import { topicAnalysisService } from '@/services/topic-analysis-service'
 import { useChatSubjects } from '@/hooks/useChatSubjects'
 import { ChatHeader } from './chat/ChatHeader'
 import { ChatContext } from './chat/ChatContext'
+import { SubjectTimeline } from './chat/SubjectTimeline'
 import { KeywordDetailPanel } from './KeywordDetail/KeywordDetailPanel'
 
 export const ChatView = memo(function ChatView({
@@ -51,10 +52,13 @@ export const ChatView = memo(function ChatView({
   const [isProcessing, setIsProcessing] = useState(false)
   const [isAIProcessing, setIsAIProcessing] = useState(isInitiallyProcessing)
   const [aiStreamingContent, setAiStreamingContent] = useState('')
+  const [toolSteps, setToolSteps] = useState<ToolStep[]>([])
   const [lastAnalysisMessageCount, setLastAnalysisMessageCount] = useState(0)
   const [showSummary, setShowSummary] = useState(false)
   const [showSubjectDetail, setShowSubjectDetail] = useState(false)
   const [selectedSubject, setSelectedSubject] = useState<any | null>(null)
+  const [showTimeline, setShowTimeline] = useState(false)
+  const [spanRequest, setSpanRequest] = useState<MessageSpanRequest | null>(null)
 
   // Check if this is an AI conversation
   // Use the authoritative value from backend conversation metadata
@@ -70,6 +74,7 @@ export const ChatView = memo(function ChatView({
     console.log(`[ChatView] Conversation changed to: ${conversationId}, clearing AI state`)
     setIsAIProcessing(false)
     setAiStreamingContent('')
+    setToolSteps([])
   }, [conversationId])
 
   // Check if welcome message is still being generated on mount
@@ -94,6 +99,7 @@ export const ChatView = memo(function ChatView({
         console.log(`[ChatView-${conversationId}] ✅ Setting AI processing to TRUE`)
         setIsAIProcessing(true)
         setAiStreamingContent('')
+        setToolSteps([])
         onProcessingChange?.(true) // Update parent state
       } else {
         console.log(`[ChatView-${conversationId}] ❌ Ignoring event for different conversation`)
@@ -108,6 +114,19 @@ export const ChatView = memo(function ChatView({
       }
     }
     
+    // Handle tool invocations - a step is sent again when its status changes
+    const handleToolStep = (data: any) => {
+      if (data.conversationId === conversationId) {
+        setToolSteps(prev => {
+          const index = prev.findIndex(step => step.id === data.step.id)
+          if (index < 0) return [...prev, data.step]
+          const next = [...prev]
+          next[index] = data.step
+          return next
+        })
+      }
+    }
+
     // Handle message complete
     const handleComplete = (data: any) => {
       if (data.conversationId === conversationId) {
@@ -116,15 +135,32 @@ export const ChatView = memo(function ChatView({
         onProcessingChange?.(false) // Update parent state
       }
     }
+
+    // Handle end of stream - also fires when generation failed and nothing was stored
+    const handleStreamEnd = (data: any) => {
+      if (data.conversationId === conversationId) {
+        if (data.error) {
+          console.warn(`[ChatView-${conversationId}] AI stream ended without a message:`, data.error)
+        }
+        setIsAIProcessing(false)
+        setAiStreamingContent('')
+        setToolSteps([])
+        onProcessingChange?.(false)
+      }
+    }
     
     // Subscribe to streaming events via electronAPI
     const unsubThinking = window.electronAPI.on('message:thinking', handleThinking)
     const unsubStream = window.electronAPI.on('message:stream', handleStream)
+    const unsubStreamEnd = window.electronAPI.on('message:streamEnd', handleStreamEnd)
+    const unsubToolStep = window.electronAPI.on('message:toolStep', handleToolStep)
     const unsubComplete = window.electronAPI.on('message:updated', handleComplete)
     
     return () => {
       if (unsubThinking) unsubThinking()
       if (unsubStream) unsubStream()
+      if (unsubStreamEnd) unsubStreamEnd()
+      if (unsubToolStep) unsubToolStep()
       if (unsubComplete) unsubComplete()
     }
   }, [conversationId])
@@ -256,12 +292,15 @@ export const ChatView = memo(function ChatView({
     <Card className="h-full w-full flex flex-col">
       <div ref={chatHeaderRef}>
         <ChatHeader
+          conversationId={conversationId}
           conversationName={conversationName}
           subjects={subjects}
           messageCount={messages.length}
           hasAI={hasAIParticipant}
           showSummary={showSummary}
           onToggleSummary={() => setShowSummary(!showSummary)}
+          showTimeline={showTimeline}
+          onToggleTimeline={() => setShowTimeline(!showTimeline)}
           onSubjectClick={(subject) => {
             console.log('[ChatView] Subject clicked:', subject)
             setSelectedSubject(subject)
@@ -283,6 +322,18 @@ export const ChatView = memo(function ChatView({
           </div>
         )}
 
+        {/* Subject Timeline - Subjects as bands over the conversation */}
+        {showTimeline && (
+          <div className="border-b bg-muted/30 max-h-[30vh] overflow-y-auto">
+            <SubjectTimeline
+              topicId={conversationId}
+              subjects={subjects}
+              messages={messages}
+              onSelectSpan={(span) => setSpanRequest({ ...span, requestId: Date.now() })}
+            />
+          </div>
+        )}
+
         {/* Subject Detail Panel - Shows ALL subjects with the same name */}
         {showSubjectDetail && selectedSubject && (() => {
           // Find all subjects with the same name as the selected one
@@ -355,9 +406,11 @@ export const ChatView = memo(function ChatView({
           loading={loading}
           isAIProcessing={isAIProcessing}
           aiStreamingContent={aiStreamingContent}
+          toolSteps={toolSteps}
           topicId={conversationId}
           subjectsJustAppeared={subjectsJustAppeared}
           chatHeaderRef={chatHeaderRef}
+          scrollToSpan={spanRequest}
         />
       </CardContent>
     </Card>
@@ -0,0 +1,214 @@
+import { useState, useEffect, useCallback } from 'react'
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { TrendingUp, TrendingDown, Minus, RefreshCw, Loader2, AlertCircle } from 'lucide-react'
+import { lamaBridge, type KeywordTrend, type KeywordTrendReport } from '@/bridge/lama-bridge'
+
+interface KeywordTrendsDashboardProps {
+  onOpenTopic?: (topicId: string) => void
+}
+
+type Granularity = KeywordTrendReport['granularity']
+
+const selectClass = 'h-8 rounded-md border bg-background px-2 text-sm'
+
+const DIRECTION_COLORS: Record<KeywordTrend['direction'], string> = {
+  rising: '#22c55e',
+  falling: '#ef4444',
+  steady: '#64748b'
+}
+
+const formatBucket = (time: number, granularity: Granularity) =>
+  granularity === 'week'
+    ? `Week of ${new Date(time).toLocaleDateString()}`
+    : new Date(time).toLocaleDateString()
+
+const formatChange = (trend: KeywordTrend) => {
+  if (trend.previous === 0) return trend.recent > 0 ? 'new' : '±0'
+  const percent = Math.round(trend.change * 100)
+  return `${percent > 0 ? '+' : ''}${percent}%`
+}
+
+/**
+ * Counts per bucket as a small line, the compared window shaded
+ */
+function Sparkline({ trend, window, width = 120, height = 28 }: { trend: KeywordTrend, window: number, width?: number, height?: number }) {
+  const max = Math.max(...trend.counts, 1)
+  const step = trend.counts.length > 1 ? width / (trend.counts.length - 1) : width
+  const points = trend.counts
+    .map((count, i) => `${(i * step).toFixed(1)},${(height - 2 - (count / max) * (height - 4)).toFixed(1)}`)
+    .join(' ')
+  const windowStart = Math.max(0, trend.counts.length - window) * step
+
+  return (
+    <svg width={width} height={height} className="shrink-0">
+      <rect x={windowStart} y={0} width={width - windowStart} height={height} className="fill-muted" />
+      <polyline points={points} fill="none" stroke={DIRECTION_COLORS[trend.direction]} strokeWidth={1.5} />
+    </svg>
+  )
+}
+
+function TrendRow({ trend, report, topicNames, onOpenTopic }: {
+  trend: KeywordTrend
+  report: KeywordTrendReport
+  topicNames: Map<string, string>
+  onOpenTopic?: (topicId: string) => void
+}) {
+  const Icon = trend.direction === 'rising' ? TrendingUp : trend.direction === 'falling' ? TrendingDown : Minus
+  const topTopic = Object.entries(trend.topics).sort((a, b) => b[1] - a[1])[0]?.[0]
+  const peak = trend.counts.indexOf(Math.max(...trend.counts))
+
+  return (
+    <div className="flex items-center gap-3 py-1.5">
+      <Icon className="h-4 w-4 shrink-0" style={{ color: DIRECTION_COLORS[trend.direction] }} />
+      <div className="w-36 min-w-0">
+        <div className="truncate text-sm font-medium">{trend.term}</div>
+        {topTopic && (
+          <button
+            className="truncate text-xs text-muted-foreground hover:underline"
+            onClick={() => onOpenTopic?.(topTopic)}
+            title="Open the conversation that mentions it most"
+          >
+            {topicNames.get(topTopic) || topTopic}
+          </button>
+        )}
+      </div>
+      <div title={`Peak: ${formatBucket(report.buckets[peak], report.granularity)}`}>
+        <Sparkline trend={trend} window={report.window} />
+      </div>
+      <div className="ml-auto text-right text-xs text-muted-foreground">
+        <div className="font-medium text-foreground">{trend.total}</div>
+        <div>{formatChange(trend)}</div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * What conversations have been about more or less lately: keyword mentions
+ * per day or week, across all topics or in one
+ */
+export function KeywordTrendsDashboard({ onOpenTopic }: KeywordTrendsDashboardProps) {
+  const [report, setReport] = useState<KeywordTrendReport | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [granularity, setGranularity] = useState<Granularity>('day')
+  const [topicId, setTopicId] = useState('')
+  const [topics, setTopics] = useState<Array<{ id: string, name: string }>>([])
+
+  useEffect(() => {
+    window.electronAPI?.invoke('chat:getConversations').then((result: any) => {
+      if (result?.success && result.data) {
+        setTopics(result.data.map((conv: any) => ({ id: conv.id, name: conv.name || 'Unnamed Chat' })))
+      }
+    })
+  }, [])
+
+  const loadTrends = useCallback(async () => {
+    setLoading(true)
+    try {
+      setReport(await lamaBridge.getKeywordTrends({ granularity, topicId: topicId || undefined }))
+      setError(null)
+    } catch (err) {
+      console.error('[KeywordTrendsDashboard] Failed to load trends:', err)
+      setError(err instanceof Error ? err.message : 'Failed to load keyword trends')
+    } finally {
+      setLoading(false)
+    }
+  }, [granularity, topicId])
+
+  useEffect(() => {
+    loadTrends()
+  }, [loadTrends])
+
+  const topicNames = new Map(topics.map(topic => [topic.id, topic.name]))
+  const period = report
+    ? `${report.window} ${report.granularity === 'week' ? 'weeks' : 'days'}`
+    : ''
+
+  const renderList = (trends: KeywordTrend[], empty: string) => (
+    trends.length === 0
+      ? <p className="py-4 text-center text-sm text-muted-foreground">{empty}</p>
+      : trends.map(trend => (
+        <TrendRow key={trend.term} trend={trend} report={report!} topicNames={topicNames} onOpenTopic={onOpenTopic} />
+      ))
+  )
+
+  return (
+    <ScrollArea className="h-full">
+      <div className="space-y-6 p-6">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-3xl font-bold">Keyword Trends</h2>
+            <p className="text-muted-foreground">What your conversations have been about, over time</p>
+            {error && (
+              <div className="mt-2 flex items-center text-sm text-red-600">
+                <AlertCircle className="mr-2 h-4 w-4" />
+                Error: {error}
+              </div>
+            )}
+          </div>
+          <div className="flex items-center gap-2">
+            <select className={selectClass} value={topicId} onChange={(e) => setTopicId(e.target.value)}>
+              <option value="">All conversations</option>
+              {topics.map(topic => (
+                <option key={topic.id} value={topic.id}>{topic.name}</option>
+              ))}
+            </select>
+            <select className={selectClass} value={granularity} onChange={(e) => setGranularity(e.target.value as Granularity)}>
+              <option value="day">Daily</option>
+              <option value="week">Weekly</option>
+            </select>
+            <Button variant="outline" size="sm" onClick={loadTrends} disabled={loading}>
+              {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+
+        {report && (
+          <div className="grid grid-cols-2 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <TrendingUp className="h-4 w-4 text-green-500" />
+                  Rising
+                </CardTitle>
+                <CardDescription>More mentions in the last {period} than in the {period} before</CardDescription>
+              </CardHeader>
+              <CardContent>{renderList(report.rising, 'Nothing is picking up')}</CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader className="pb-2">
+                <CardTitle className="flex items-center gap-2 text-lg">
+                  <TrendingDown className="h-4 w-4 text-red-500" />
+                  Falling
+                </CardTitle>
+                <CardDescription>Fewer mentions in the last {period} than in the {period} before</CardDescription>
+              </CardHeader>
+              <CardContent>{renderList(report.falling, 'Nothing is fading')}</CardContent>
+            </Card>
+
+            <Card className="col-span-2">
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">Most mentioned</CardTitle>
+                  {report.buckets.length > 0 && (
+                    <Badge variant="secondary">
+                      {formatBucket(report.buckets[0], report.granularity)} – {formatBucket(report.buckets[report.buckets.length - 1], report.granularity)}
+                    </Badge>
+                  )}
+                </div>
+              </CardHeader>
+              <CardContent className="grid grid-cols-2 gap-x-8">
+                {renderList(report.keywords, 'No keywords mentioned in this period')}
+              </CardContent>
+            </Card>
+          </div>
+        )}
+      </div>
+    </ScrollArea>
+  )
+}
@@ -0,0 +1,400 @@
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react'
+import { Loader2, RefreshCw, MessageSquare, ZoomIn, ZoomOut } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { Badge } from '@/components/ui/badge'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { lamaBridge, type KnowledgeGraph, type KnowledgeGraphNode } from '@/bridge/lama-bridge'
+import { ForceLayout, type LayoutNode } from './force-layout'
+
+interface KnowledgeGraphViewProps {
+  onOpenTopic: (topicId: string) => void
+}
+
+type NodeType = KnowledgeGraphNode['type']
+
+const NODE_COLORS: Record<NodeType, string> = {
+  topic: '#3b82f6',
+  subject: '#a855f7',
+  keyword: '#22c55e'
+}
+
+const EDGE_COLORS: Record<string, string> = {
+  'discussed-in': '#64748b',
+  'has-keyword': '#475569',
+  'co-occurrence': '#22c55e',
+  'shared-keywords': '#3b82f6'
+}
+
+const KEYWORD_LIMITS = [30, 60, 120]
+
+const nodeRadius = (node: KnowledgeGraphNode) => {
+  const base = node.type === 'topic' ? 14 : node.type === 'subject' ? 8 : 5
+  return base + Math.min(Math.sqrt(node.weight) * 2, 16)
+}
+
+/**
+ * Force-directed graph of subjects, keywords and conversations across all topics.
+ * Drag nodes to untangle, drag the background to pan, scroll to zoom; selecting a
+ * node lists its neighbours and the conversations it comes from.
+ */
+export const KnowledgeGraphView: React.FC<KnowledgeGraphViewProps> = ({ onOpenTopic }) => {
+  const [graph, setGraph] = useState<KnowledgeGraph | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [maxKeywords, setMaxKeywords] = useState(60)
+  const [visibleTypes, setVisibleTypes] = useState<Set<NodeType>>(new Set(['topic', 'subject', 'keyword']))
+  const [filter, setFilter] = useState('')
+  const [selectedId, setSelectedId] = useState<string | null>(null)
+  const [hoveredId, setHoveredId] = useState<string | null>(null)
+  const [view, setView] = useState({ x: 0, y: 0, scale: 1 })
+  const [, setFrame] = useState(0)
+
+  const layoutRef = useRef<ForceLayout | null>(null)
+  const svgRef = useRef<SVGSVGElement>(null)
+  const dragRef = useRef<{ nodeId: string | null; startX: number; startY: number; viewX: number; viewY: number; moved: boolean } | null>(null)
+
+  const loadGraph = useCallback(async () => {
+    setLoading(true)
+    try {
+      setGraph(await lamaBridge.getKnowledgeGraph({ maxKeywords }))
+      setError(null)
+    } catch (err) {
+      console.error('[KnowledgeGraphView] Failed to load graph:', err)
+      setError((err as Error).message)
+    } finally {
+      setLoading(false)
+    }
+  }, [maxKeywords])
+
+  useEffect(() => {
+    loadGraph()
+  }, [loadGraph])
+
+  // Only the node types switched on, and the edges between them
+  const visible = useMemo(() => {
+    if (!graph) return { nodes: [], edges: [] }
+    const nodes = graph.nodes.filter(node => visibleTypes.has(node.type))
+    const ids = new Set(nodes.map(node => node.id))
+    const edges = graph.edges.filter(edge => ids.has(edge.source) && ids.has(edge.target))
+    return { nodes, edges }
+  }, [graph, visibleTypes])
+
+  const nodeById = useMemo(() => new Map(visible.nodes.map(node => [node.id, node])), [visible])
+
+  const neighbours = useMemo(() => {
+    const result = new Map<string, Set<string>>()
+    for (const edge of visible.edges) {
+      if (!result.has(edge.source)) result.set(edge.source, new Set())
+      if (!result.has(edge.target)) result.set(edge.target, new Set())
+      result.get(edge.source)!.add(edge.target)
+      result.get(edge.target)!.add(edge.source)
+    }
+    return result
+  }, [visible])
+
+  // (Re)start the simulation when the visible graph changes, keeping known positions
+  useEffect(() => {
+    const previous = new Map((layoutRef.current?.nodes || []).map(node => [node.id, node]))
+    const maxEdgeWeight = Math.max(1, ...visible.edges.map(edge => edge.weight))
+    const layout = new ForceLayout(
+      visible.nodes.map((node, i) => {
+        const known = previous.get(node.id)
+        const angle = i * 2.399963 // Golden angle spreads the start positions
+        const distance = 20 * Math.sqrt(i + 1)
+        return {
+          id: node.id,
+          x: known?.x ?? Math.cos(angle) * distance,
+          y: known?.y ?? Math.sin(angle) * distance,
+          vx: 0,
+          vy: 0,
+          radius: nodeRadius(node)
+        }
+      }),
+      visible.edges.map(edge => ({
+        source: edge.source,
+        target: edge.target,
+        strength: 0.3 + 0.7 * (edge.weight / maxEdgeWeight)
+      }))
+    )
+    layoutRef.current = layout
+
+    let frameId = 0
+    const step = () => {
+      if (layout.tick()) {
+        setFrame(frame => frame + 1)
+      }
+      frameId = requestAnimationFrame(step)
+    }
+    frameId = requestAnimationFrame(step)
+    return () => cancelAnimationFrame(frameId)
+  }, [visible])
+
+  const positions = new Map<string, LayoutNode>((layoutRef.current?.nodes || []).map(node => [node.id, node]))
+
+  // Graph coordinates of a mouse event
+  const toGraphPoint = (event: React.MouseEvent) => {
+    const rect = svgRef.current!.getBoundingClientRect()
+    return {
+      x: (event.clientX - rect.left - rect.width / 2 - view.x) / view.scale,
+      y: (event.clientY - rect.top - rect.height / 2 - view.y) / view.scale
+    }
+  }
+
+  const handleMouseDown = (event: React.MouseEvent, nodeId: string | null) => {
+    event.stopPropagation()
+    dragRef.current = { nodeId, startX: event.clientX, startY: event.clientY, viewX: view.x, viewY: view.y, moved: false }
+    if (nodeId) {
+      const node = positions.get(nodeId)
+      if (node) node.fixed = true
+    }
+  }
+
+  const handleMouseMove = (event: React.MouseEvent) => {
+    const drag = dragRef.current
+    if (!drag) return
+    drag.moved = drag.moved || Math.abs(event.clientX - drag.startX) + Math.abs(event.clientY - drag.startY) > 3
+
+    if (drag.nodeId) {
+      const node = positions.get(drag.nodeId)
+      if (node) {
+        const point = toGraphPoint(event)
+        node.x = point.x
+        node.y = point.y
+        layoutRef.current?.reheat()
+        setFrame(frame => frame + 1)
+      }
+    } else {
+      setView(v => ({ ...v, x: drag.viewX + event.clientX - drag.startX, y: drag.viewY + event.clientY - drag.startY }))
+    }
+  }
+
+  const handleMouseUp = () => {
+    const drag = dragRef.current
+    dragRef.current = null
+    if (!drag) return
+
+    if (drag.nodeId) {
+      const node = positions.get(drag.nodeId)
+      if (node) node.fixed = false
+      if (!drag.moved) setSelectedId(drag.nodeId)
+    } else if (!drag.moved) {
+      setSelectedId(null)
+    }
+  }
+
+  const zoom = (factor: number) => {
+    setView(v => ({ ...v, scale: Math.min(4, Math.max(0.2, v.scale * factor)) }))
+  }
+
+  const toggleType = (type: NodeType) => {
+    setVisibleTypes(prev => {
+      const next = new Set(prev)
+      if (next.has(type)) {
+        next.delete(type)
+      } else {
+        next.add(type)
+      }
+      return next
+    })
+  }
+
+  const filterText = filter.trim().toLowerCase()
+  const focusId = hoveredId || selectedId
+  const isDimmed = (id: string) => {
+    if (filterText && !nodeById.get(id)?.label.toLowerCase().includes(filterText)) return true
+    if (!focusId) return false
+    return id !== focusId && !neighbours.get(focusId)?.has(id)
+  }
+
+  const selected = selectedId ? nodeById.get(selectedId) : undefined
+  const topicName = (topicId: string) => nodeById.get(`topic:${topicId}`)?.label || graph?.nodes.find(node => node.id === `topic:${topicId}`)?.label || topicId
+  const selectedNeighbours = selected
+    ? Array.from(neighbours.get(selected.id) || [])
+      .map(id => nodeById.get(id))
+      .filter((node): node is KnowledgeGraphNode => !!node)
+      .sort((a, b) => b.weight - a.weight)
+    : []
+
+  return (
+    <div className="flex h-full overflow-hidden">
+      <div className="flex-1 flex flex-col min-w-0">
+        {/* Toolbar */}
+        <div className="flex items-center gap-2 p-3 border-b border-border">
+          {(['topic', 'subject', 'keyword'] as NodeType[]).map(type => (
+            <Button
+              key={type}
+              size="sm"
+              variant={visibleTypes.has(type) ? 'secondary' : 'ghost'}
+              onClick={() => toggleType(type)}
+              className="flex items-center gap-2"
+            >
+              <span className="h-2.5 w-2.5 rounded-full" style={{ backgroundColor: NODE_COLORS[type] }} />
+              {type === 'topic' ? 'Conversations' : type === 'subject' ? 'Subjects' : 'Keywords'}
+            </Button>
+          ))}
+          <select
+            className="h-8 rounded-md border bg-background px-2 text-sm"
+            value={maxKeywords}
+            onChange={(e) => setMaxKeywords(Number(e.target.value))}
+            title="Keywords shown"
+          >
+            {KEYWORD_LIMITS.map(limit => (
+              <option key={limit} value={limit}>{limit} keywords</option>
+            ))}
+          </select>
+          <Input
+            placeholder="Highlight..."
+            value={filter}
+            onChange={(e) => setFilter(e.target.value)}
+            className="h-8 w-48"
+          />
+          <div className="ml-auto flex items-center gap-1">
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => zoom(1.25)} title="Zoom in">
+              <ZoomIn className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={() => zoom(0.8)} title="Zoom out">
+              <ZoomOut className="h-4 w-4" />
+            </Button>
+            <Button size="icon" variant="ghost" className="h-8 w-8" onClick={loadGraph} title="Reload" disabled={loading}>
+              <RefreshCw className={`h-4 w-4 ${loading ? 'animate-spin' : ''}`} />
+            </Button>
+          </div>
+        </div>
+
+        {/* Graph */}
+        <div className="flex-1 relative">
+          {loading && !graph && (
+            <div className="absolute inset-0 flex items-center justify-center">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          )}
+          {error && (
+            <div className="absolute inset-0 flex items-center justify-center text-sm text-destructive">{error}</div>
+          )}
+          {graph && visible.nodes.length === 0 && !loading && (
+            <div className="absolute inset-0 flex items-center justify-center text-muted-foreground">
+              No analysed subjects yet. Chat a little and come back.
+            </div>
+          )}
+          <svg
+            ref={svgRef}
+            className="w-full h-full select-none"
+            onMouseDown={(e) => handleMouseDown(e, null)}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={handleMouseUp}
+            onWheel={(e) => zoom(e.deltaY < 0 ? 1.1 : 0.9)}
+          >
+            <g transform={`translate(${(svgRef.current?.clientWidth || 0) / 2 + view.x}, ${(svgRef.current?.clientHeight || 0) / 2 + view.y}) scale(${view.scale})`}>
+              {visible.edges.map(edge => {
+                const source = positions.get(edge.source)
+                const target = positions.get(edge.target)
+                if (!source || !target) return null
+                const dimmed = isDimmed(edge.source) || isDimmed(edge.target)
+                return (
+                  <line
+                    key={`${edge.source}|${edge.target}|${edge.type}`}
+                    x1={source.x}
+                    y1={source.y}
+                    x2={target.x}
+                    y2={target.y}
+                    stroke={EDGE_COLORS[edge.type]}
+                    strokeWidth={Math.min(1 + Math.log2(edge.weight), 5)}
+                    strokeDasharray={edge.type === 'shared-keywords' ? '4 3' : undefined}
+                    opacity={dimmed ? 0.08 : 0.5}
+                  />
+                )
+              })}
+              {visible.nodes.map(node => {
+                const position = positions.get(node.id)
+                if (!position) return null
+                const dimmed = isDimmed(node.id)
+                return (
+                  <g
+                    key={node.id}
+                    transform={`translate(${position.x}, ${position.y})`}
+                    className="cursor-pointer"
+                    opacity={dimmed ? 0.2 : 1}
+                    onMouseDown={(e) => handleMouseDown(e, node.id)}
+                    onMouseEnter={() => setHoveredId(node.id)}
+                    onMouseLeave={() => setHoveredId(null)}
+                    onDoubleClick={() => node.topicIds.length === 1 && onOpenTopic(node.topicIds[0])}
+                  >
+                    <circle
+                      r={position.radius}
+                      fill={NODE_COLORS[node.type]}
+                      stroke={node.id === selectedId ? '#f8fafc' : 'transparent'}
+                      strokeWidth={2}
+                    />
+                    {(node.type !== 'keyword' || !dimmed) && (
+                      <text
+                        y={position.radius + 12}
+                        textAnchor="middle"
+                        className="fill-foreground"
+                        style={{ fontSize: node.type === 'topic' ? 12 : 10, pointerEvents: 'none' }}
+                      >
+                        {node.label.length > 28 ? `${node.label.substring(0, 27)}…` : node.label}
+                      </text>
+                    )}
+                  </g>
+                )
+              })}
+            </g>
+          </svg>
+        </div>
+      </div>
+
+      {/* Details of the selected node */}
+      {selected && (
+        <div className="w-72 border-l border-border bg-card flex flex-col">
+          <div className="p-4 border-b border-border space-y-2">
+            <Badge variant="outline" style={{ borderColor: NODE_COLORS[selected.type] }}>
+              {selected.type === 'topic' ? 'Conversation' : selected.type === 'subject' ? 'Subject' : 'Keyword'}
+            </Badge>
+            <h3 className="font-semibold break-words">{selected.label}</h3>
+            <p className="text-xs text-muted-foreground">
+              {selected.type === 'topic' && `${selected.weight} subjects`}
+              {selected.type === 'subject' && `${selected.weight} messages in ${selected.topicIds.length} conversation(s)`}
+              {selected.type === 'keyword' && `Used by ${selected.weight} subject(s)`}
+            </p>
+          </div>
+          <ScrollArea className="flex-1">
+            <div className="p-4 space-y-4">
+              <div className="space-y-1">
+                <h4 className="text-xs font-medium uppercase text-muted-foreground">Open conversation</h4>
+                {selected.topicIds.map(topicId => (
+                  <Button
+                    key={topicId}
+                    variant="ghost"
+                    size="sm"
+                    className="w-full justify-start"
+                    onClick={() => onOpenTopic(topicId)}
+                  >
+                    <MessageSquare className="h-4 w-4 mr-2 shrink-0" />
+                    <span className="truncate">{topicName(topicId)}</span>
+                  </Button>
+                ))}
+              </div>
+              {selectedNeighbours.length > 0 && (
+                <div className="space-y-1">
+                  <h4 className="text-xs font-medium uppercase text-muted-foreground">Linked</h4>
+                  {selectedNeighbours.map(node => (
+                    <button
+                      key={node.id}
+                      className="flex items-center gap-2 w-full text-left text-sm px-2 py-1 rounded hover:bg-accent"
+                      onClick={() => setSelectedId(node.id)}
+                    >
+                      <span className="h-2 w-2 rounded-full shrink-0" style={{ backgroundColor: NODE_COLORS[node.type] }} />
+                      <span className="truncate">{node.label}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+      )}
+    </div>
+  )
+}
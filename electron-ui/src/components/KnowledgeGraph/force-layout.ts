@@ -0,0 +1,112 @@
+/**
+ * Force Layout
+ * Minimal force-directed graph layout: nodes repel each other, edges pull their
+ * ends together and a weak gravity keeps everything near the centre. Call tick()
+ * once per animation frame until it returns false (the layout has cooled down).
+ */
+
+export interface LayoutNode {
+  id: string
+  x: number
+  y: number
+  vx: number
+  vy: number
+  radius: number
+  fixed?: boolean // Pinned while dragged
+}
+
+export interface LayoutLink {
+  source: string
+  target: string
+  strength: number // 0..1
+}
+
+const REPULSION = 1800
+const LINK_DISTANCE = 70
+const GRAVITY = 0.02
+const VELOCITY_DECAY = 0.6
+const ALPHA_DECAY = 0.985
+const ALPHA_MIN = 0.005
+
+export class ForceLayout {
+  nodes: LayoutNode[]
+  private links: LayoutLink[]
+  private byId: Map<string, LayoutNode>
+  private alpha = 1
+
+  constructor(nodes: LayoutNode[], links: LayoutLink[]) {
+    this.nodes = nodes
+    this.byId = new Map(nodes.map(node => [node.id, node]))
+    this.links = links.filter(link => this.byId.has(link.source) && this.byId.has(link.target))
+  }
+
+  get isRunning(): boolean {
+    return this.alpha > ALPHA_MIN
+  }
+
+  /**
+   * Warm the layout up again, e.g. while a node is dragged
+   */
+  reheat(alpha: number = 0.3): void {
+    this.alpha = Math.max(this.alpha, alpha)
+  }
+
+  tick(): boolean {
+    if (!this.isRunning) return false
+    const alpha = this.alpha
+
+    // Repulsion between every pair - fine for the few hundred nodes we show
+    for (let i = 0; i < this.nodes.length; i++) {
+      const a = this.nodes[i]
+      for (let j = i + 1; j < this.nodes.length; j++) {
+        const b = this.nodes[j]
+        let dx = b.x - a.x
+        let dy = b.y - a.y
+        let distanceSq = dx * dx + dy * dy
+        if (distanceSq === 0) {
+          dx = Math.random() - 0.5
+          dy = Math.random() - 0.5
+          distanceSq = dx * dx + dy * dy
+        }
+        const force = (REPULSION * alpha) / distanceSq
+        const distance = Math.sqrt(distanceSq)
+        const fx = (dx / distance) * force
+        const fy = (dy / distance) * force
+        a.vx -= fx
+        a.vy -= fy
+        b.vx += fx
+        b.vy += fy
+      }
+    }
+
+    // Springs along the edges
+    for (const link of this.links) {
+      const source = this.byId.get(link.source)!
+      const target = this.byId.get(link.target)!
+      const dx = target.x - source.x
+      const dy = target.y - source.y
+      const distance = Math.sqrt(dx * dx + dy * dy) || 1
+      const rest = LINK_DISTANCE + source.radius + target.radius
+      const force = ((distance - rest) / distance) * link.strength * alpha * 0.5
+      source.vx += dx * force
+      source.vy += dy * force
+      target.vx -= dx * force
+      target.vy -= dy * force
+    }
+
+    for (const node of this.nodes) {
+      if (node.fixed) {
+        node.vx = 0
+        node.vy = 0
+        continue
+      }
+      node.vx = (node.vx - node.x * GRAVITY * alpha) * VELOCITY_DECAY
+      node.vy = (node.vy - node.y * GRAVITY * alpha) * VELOCITY_DECAY
+      node.x += node.vx
+      node.y += node.vy
+    }
+
+    this.alpha *= ALPHA_DECAY
+    return true
+  }
+}
@@ -1,7 +1,7 @@
 import { useState, useEffect, useRef } from 'react'
 import { Avatar, AvatarFallback } from '@/components/ui/avatar'
 import { Loader2 } from 'lucide-react'
-import { type Message, lamaBridge } from '@/bridge/lama-bridge'
+import { type Message, type MessageAlternatives, type ToolStep, lamaBridge } from '@/bridge/lama-bridge'
 import './MessageView.css'
 
 // Import enhanced components
@@ -18,6 +18,8 @@ import { KeywordDetailPanel } from './KeywordDetail/KeywordDetailPanel'
 
 // Import proposal carousel
 import { ProposalCarousel } from './ProposalCarousel'
+import { ToolSteps } from './chat/ToolSteps'
+import { PromptContextList } from './chat/PromptContextList'
 import { useProposals } from '@/hooks/useProposals'
 
 interface MessageViewProps {
@@ -30,9 +32,18 @@ interface MessageViewProps {
   participants?: string[] // List of participant IDs to determine if multiple people
   isAIProcessing?: boolean // Show typing indicator when AI is processing
   aiStreamingContent?: string // Show partial AI response while streaming
+  toolSteps?: ToolStep[] // Tool invocations of the AI response in progress
   topicId?: string // Topic ID for context panel
   subjectsJustAppeared?: boolean // Flag indicating subjects just appeared
   chatHeaderRef?: React.RefObject<HTMLDivElement> // Ref to ChatHeader to measure height change
+  scrollToSpan?: MessageSpanRequest | null // Time span to scroll to and flash, e.g. a subject timeline band
+}
+
+// A new requestId jumps again to the same span
+export interface MessageSpanRequest {
+  start: number
+  end: number
+  requestId: number
 }
 
 export function MessageView({
@@ -45,9 +56,11 @@ export function MessageView({
   participants = [],
   isAIProcessing = false,
   aiStreamingContent = '',
+  toolSteps = [],
   topicId,
   subjectsJustAppeared = false,
-  chatHeaderRef
+  chatHeaderRef,
+  scrollToSpan
 }: MessageViewProps) {
   console.log('[MessageView] 🎨 Rendering with', messages.length, 'messages')
   if (messages.length > 0) {
@@ -58,10 +71,16 @@ export function MessageView({
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const scrollAreaRef = useRef<HTMLDivElement>(null)
   const [isUserScrolledUp, setIsUserScrolledUp] = useState(false)
+  const [highlightedIds, setHighlightedIds] = useState<Set<string>>(new Set())
 
   // Store attachment descriptors for display
   const [attachmentDescriptors, setAttachmentDescriptors] = useState<Map<string, BlobDescriptor>>(new Map())
 
+  // Regenerated AI answers, newer than what came with the messages
+  const [alternativesById, setAlternativesById] = useState<Record<string, MessageAlternatives>>({})
+  const [regeneratingIds, setRegeneratingIds] = useState<Set<string>>(new Set())
+  const [regenerateModels, setRegenerateModels] = useState<Array<{ id: string; name: string }>>([])
+
   // Keyword detail dialog state
   const [showKeywordDetail, setShowKeywordDetail] = useState(false)
   const [selectedKeyword, setSelectedKeyword] = useState<string | null>(null)
@@ -75,7 +94,11 @@ export function MessageView({
     nextProposal,
     previousProposal,
     dismissProposal,
-    shareProposal
+    shareProposal,
+    loadPreview,
+    requestSourceAccess,
+    promptContext,
+    removePromptContext
   } = useProposals({
     topicId: topicId || '',
     autoRefresh: true
@@ -106,6 +129,23 @@ export function MessageView({
     loadContactNames()
   }, [currentUserId])
   
+  // Models offered for "Regenerate with"
+  useEffect(() => {
+    lamaBridge.getAvailableModels()
+      .then(models => setRegenerateModels(models.map((model: any) => ({ id: model.id, name: model.name || model.id }))))
+      .catch(error => console.error('[MessageView] Failed to load models for regenerate:', error))
+  }, [])
+
+  // Alternatives added or selected elsewhere (e.g. another window)
+  useEffect(() => {
+    if (!window.electronAPI || !topicId) return
+
+    return window.electronAPI.on('chat:messageAlternatives', (data: any) => {
+      if (data.conversationId !== topicId) return
+      setAlternativesById(prev => ({ ...prev, [data.messageId]: data.alternatives }))
+    })
+  }, [topicId])
+
   // Track user scroll position
   const handleScroll = () => {
     if (!scrollAreaRef.current) return
@@ -163,6 +203,33 @@ export function MessageView({
     })
   }, [messages, aiStreamingContent, isUserScrolledUp, isAIProcessing])
 
+  // Jump to the messages of a time span. A span without messages (a subject seen
+  // once is stamped when its message was analyzed) falls back to the message before it
+  useEffect(() => {
+    if (!scrollToSpan || messages.length === 0) return
+
+    const timeOf = (message: Message) => new Date(message.timestamp).getTime()
+    let inSpan = messages.filter(message => timeOf(message) >= scrollToSpan.start && timeOf(message) <= scrollToSpan.end)
+    if (inSpan.length === 0) {
+      const before = messages.filter(message => timeOf(message) <= scrollToSpan.end)
+      inSpan = [before.length > 0 ? before[before.length - 1] : messages[0]]
+    }
+
+    setIsUserScrolledUp(true)
+    setHighlightedIds(new Set(inSpan.map(message => message.id)))
+    requestAnimationFrame(() => {
+      const element = scrollAreaRef.current?.querySelector(`[data-message-id="${CSS.escape(inSpan[0].id)}"]`)
+      element?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+    })
+  }, [scrollToSpan?.requestId])
+
+  // The jump target is outlined briefly
+  useEffect(() => {
+    if (highlightedIds.size === 0) return
+    const timer = setTimeout(() => setHighlightedIds(new Set()), 2500)
+    return () => clearTimeout(timer)
+  }, [highlightedIds])
+
 
 
   // Enhanced send handler with proper attachment storage
@@ -252,6 +319,49 @@ export function MessageView({
     }
   }
 
+  // Stop the AI response for this topic - the partial text is kept by the main process
+  const handleStopGeneration = async () => {
+    if (!topicId) return
+    try {
+      await lamaBridge.cancelAIResponse(topicId)
+    } catch (error) {
+      console.error('[MessageView] Failed to stop AI response:', error)
+    }
+  }
+
+  // Ask for another answer to the prompt of an AI message, optionally from a different model
+  const handleRegenerate = async (messageId: string, modelId?: string) => {
+    if (!topicId) return
+    setRegeneratingIds(prev => new Set(prev).add(messageId))
+    try {
+      const alternatives = await lamaBridge.regenerateMessage(topicId, messageId, modelId)
+      setAlternativesById(prev => ({ ...prev, [messageId]: alternatives }))
+    } catch (error) {
+      console.error('[MessageView] Failed to regenerate message:', error)
+    } finally {
+      setRegeneratingIds(prev => {
+        const next = new Set(prev)
+        next.delete(messageId)
+        return next
+      })
+    }
+  }
+
+  // Flip to another answer - index is the 1-based position shown in the bubble
+  const handleSelectAlternative = async (messageId: string, index: number) => {
+    const message = messages.find(m => m.id === messageId)
+    const current = alternativesById[messageId] || message?.alternatives
+    const target = current?.alternatives[index - 1]
+    if (!topicId || !current || !target) return
+
+    setAlternativesById(prev => ({ ...prev, [messageId]: { ...current, selectedVersion: target.version } }))
+    try {
+      await lamaBridge.selectMessageAlternative(topicId, messageId, target.version)
+    } catch (error) {
+      console.error('[MessageView] Failed to select alternative:', error)
+    }
+  }
+
   // Handle hashtag clicks - open keyword detail dialog
   const handleHashtagClick = (hashtag: string) => {
     console.log('[MessageView] Hashtag/keyword clicked:', hashtag, '| topicId:', topicId)
@@ -325,16 +435,22 @@ export function MessageView({
             console.log(`[MessageView] Rendering message - senderId: "${message.senderId}", currentUserId: "${currentUserId}", isCurrentUser: ${isCurrentUser}, isAI: ${isAIMessage}, content: "${message.content.substring(0, 50)}..."`)
             
             // Always use EnhancedMessageBubble for consistent rendering and features
+            // Show the selected answer if this AI message was regenerated
+            const alternatives = alternativesById[message.id] || message.alternatives
+            const selectedIndex = alternatives
+              ? alternatives.alternatives.findIndex(alternative => alternative.version === alternatives.selectedVersion)
+              : -1
+            const selectedAlternative = selectedIndex >= 0 ? alternatives!.alternatives[selectedIndex] : undefined
+            const content = selectedAlternative?.text ?? message.content
+
             // Extract hashtags from message content
             const hashtagRegex = /#[\w-]+/g
-            const hashtags = message.content.match(hashtagRegex) || []
+            const hashtags = content.match(hashtagRegex) || []
             const subjects = hashtags.map(tag => tag.slice(1)) // Remove # prefix
 
-            
-
             const enhancedMessage: EnhancedMessageData = {
               id: message.id,
-              text: message.content, // Use cleaned text without attachment references
+              text: content, // Use cleaned text without attachment references
               senderId: message.senderId,
               senderName: message.senderName || contactNames[message.senderId] || 'Unknown',
               timestamp: message.timestamp,
@@ -343,7 +459,10 @@ export function MessageView({
               trustLevel: 3, // Default colleague level
               attachments: message.attachments,
               topicName: message.topicName, // Pass topic name to enhanced bubble
-              format: message.format || 'markdown' // Use message format if available, otherwise markdown
+              format: message.format || 'markdown', // Use message format if available, otherwise markdown
+              alternativeIndex: selectedIndex >= 0 ? selectedIndex + 1 : undefined,
+              alternativeCount: alternatives?.alternatives.length,
+              alternativeModel: selectedAlternative?.modelId
             }
 
             console.log(`[MessageView] Passing to EnhancedMessageBubble:`, {
@@ -354,21 +473,31 @@ export function MessageView({
             })
 
             return (
-              <EnhancedMessageBubble
+              <div
                 key={message.id}
-                message={enhancedMessage}
-                onHashtagClick={handleHashtagClick}
-                onAttachmentClick={handleAttachmentClick}
-                onDownloadAttachment={handleDownloadAttachment}
-                theme="dark"
-                attachmentDescriptors={attachmentDescriptors}
-              />
+                data-message-id={message.id}
+                className={highlightedIds.has(message.id) ? 'rounded-lg ring-2 ring-primary transition-shadow' : undefined}
+              >
+                <EnhancedMessageBubble
+                  message={enhancedMessage}
+                  onHashtagClick={handleHashtagClick}
+                  onAttachmentClick={handleAttachmentClick}
+                  onDownloadAttachment={handleDownloadAttachment}
+                  theme="dark"
+                  attachmentDescriptors={attachmentDescriptors}
+                  onRegenerate={isAIMessage && topicId ? handleRegenerate : undefined}
+                  regenerateModels={regenerateModels}
+                  isRegenerating={regeneratingIds.has(message.id)}
+                  onSelectAlternative={handleSelectAlternative}
+                />
+              </div>
             )
           })}
           
           {/* AI Typing Indicator or Streaming Content */}
           {(isAIProcessing || aiStreamingContent) && (
             <>
+              <ToolSteps steps={toolSteps} />
               {aiStreamingContent ? (
                 // Use EnhancedMessageBubble for streaming content to ensure consistent markdown rendering
                 <EnhancedMessageBubble
@@ -383,6 +512,7 @@ export function MessageView({
                     trustLevel: 5,
                     format: 'markdown' // Ensure markdown format for proper rendering
                   }}
+                  isStreaming
                   onHashtagClick={handleHashtagClick}
                   onAttachmentClick={handleAttachmentClick}
                   onDownloadAttachment={handleDownloadAttachment}
@@ -422,26 +552,38 @@ export function MessageView({
               currentIndex={currentIndex}
               onNext={nextProposal}
               onPrevious={previousProposal}
-              onShare={async (proposalId, pastSubjectIdHash) => {
-                const result = await shareProposal(proposalId, pastSubjectIdHash, false)
-                if (result.success && result.sharedContent) {
+              onShare={async (proposalId, pastSubjectIdHash, options) => {
+                const result = await shareProposal(proposalId, pastSubjectIdHash, options)
+                // Prompt context is listed above the input instead of posted
+                if (result.success && result.sharedContent && result.sharedContent.target !== 'prompt') {
                   // Insert shared content as a message
-                  const contextMessage = `Related context from "${result.sharedContent.subjectName}": ${result.sharedContent.keywords.join(', ')}`
+                  const { subjectName, keywords, summaryFragment, excerpts } = result.sharedContent
+                  const contextMessage = [
+                    `Related context from "${subjectName}": ${keywords.join(', ')}`,
+                    ...(summaryFragment ? [summaryFragment] : []),
+                    ...excerpts.map(excerpt => excerpt.text.split('\n').map(line => `> ${line}`).join('\n'))
+                  ].join('\n\n')
                   await onSendMessage(contextMessage)
                 }
               }}
               onDismiss={dismissProposal}
+              onRequestAccess={requestSourceAccess}
+              onLoadPreview={loadPreview}
             />
           </div>
         </div>
       )}
 
+      <PromptContextList items={promptContext} onRemove={removePromptContext} />
+
       {/* Message input */}
       <EnhancedMessageInput
         onSendMessage={handleEnhancedSend}
         onHashtagClick={handleHashtagClick}
         placeholder={placeholder}
         theme="dark"
+        isGenerating={isAIProcessing || !!aiStreamingContent}
+        onStopGeneration={topicId ? handleStopGeneration : undefined}
       />
     </div>
   )
@@ -5,30 +5,220 @@
  * Reference: /specs/019-above-the-chat/plan.md line 127
  */
 
-import React from 'react';
-import type { Proposal } from '../types/proposals';
+import React, { useState } from 'react';
+import type {
+  Proposal,
+  ProposalScoreExplanation,
+  ProposalPreview,
+  ShareOptions,
+  ShareTarget,
+} from '../types/proposals';
 
 interface ProposalCardProps {
   proposal: Proposal;
-  onShare: () => void;
+  onShare: (options?: ShareOptions) => void;
   onDismiss: () => void;
+  onRequestAccess?: () => Promise<void>;
+  onLoadPreview?: () => Promise<ProposalPreview>;
 }
 
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+const weight = (value: number) => value.toFixed(2);
+
+/**
+ * Debug view: the parts of a proposal's score
+ */
+const ScoreExplanation: React.FC<{ proposal: Proposal; explanation: ProposalScoreExplanation }> = ({
+  proposal,
+  explanation,
+}) => {
+  const weightsChanged = explanation.weightConfidence > 0;
+
+  return (
+    <div className="mt-3 pt-2 border-t border-blue-200 dark:border-blue-700 text-xs text-gray-600 dark:text-gray-300 space-y-1">
+      <div>
+        Match {percent(explanation.match)}
+        {proposal.semanticScore !== undefined && (
+          <span className="text-gray-400">
+            {' '}(keywords {percent(proposal.jaccardScore ?? 0)}, meaning {percent(proposal.semanticScore)})
+          </span>
+        )}
+        {' '}× {weight(explanation.matchWeight)} + recency {percent(explanation.recency)} × {weight(explanation.recencyWeight)}
+        {' '}= {percent(explanation.baseScore)}
+      </div>
+      <div className="text-gray-400">
+        {weightsChanged
+          ? `Weights learned from ${explanation.feedbackSamples} reactions (configured ${weight(explanation.configuredMatchWeight)} / ${weight(explanation.configuredRecencyWeight)}, ${percent(explanation.weightConfidence)} confidence)`
+          : `Configured weights - ${explanation.feedbackSamples} reactions so far, not enough to learn from`}
+      </div>
+      {explanation.trustFactor < 1 && proposal.sharedBy && (
+        <div>
+          Shared by {proposal.sharedBy.name} ({proposal.sharedBy.trustLevel}) - score × {weight(explanation.trustFactor)}
+        </div>
+      )}
+      {(explanation.accepted > 0 || explanation.dismissed > 0 || explanation.ignored > 0) && (
+        <div>
+          This subject: shared {explanation.accepted}×, dismissed {explanation.dismissed}×, ignored {explanation.ignored}×
+          {explanation.penalty < 1 && (
+            <span className="text-orange-600 dark:text-orange-400">
+              {' '}- score × {weight(explanation.penalty)} for repeated dismissals
+            </span>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Source excerpts and summary fragment, each selectable for sharing
+ */
+const PreviewPanel: React.FC<{
+  preview: ProposalPreview;
+  selected: Set<string>;
+  includeSummary: boolean;
+  onToggleExcerpt: (messageId: string) => void;
+  onToggleSummary: () => void;
+  onShare: (target: ShareTarget) => void;
+}> = ({ preview, selected, includeSummary, onToggleExcerpt, onToggleSummary, onShare }) => {
+  if (!preview.available) {
+    return (
+      <div className="mt-3 pt-2 border-t border-blue-200 dark:border-blue-700 text-xs text-gray-500 dark:text-gray-400">
+        The source conversation belongs to a contact - request it to see its messages.
+      </div>
+    );
+  }
+
+  if (preview.excerpts.length === 0 && !preview.summaryFragment) {
+    return (
+      <div className="mt-3 pt-2 border-t border-blue-200 dark:border-blue-700 text-xs text-gray-500 dark:text-gray-400">
+        No messages of the source conversation mention these keywords.
+      </div>
+    );
+  }
+
+  const nothingSelected = selected.size === 0 && !includeSummary;
+
+  return (
+    <div className="mt-3 pt-2 border-t border-blue-200 dark:border-blue-700 space-y-2 text-xs text-gray-700 dark:text-gray-200">
+      {preview.summaryFragment && (
+        <label className="flex items-start gap-2 cursor-pointer">
+          <input type="checkbox" checked={includeSummary} onChange={onToggleSummary} className="mt-0.5" />
+          <span>
+            <span className="font-medium">Summary: </span>
+            {preview.summaryFragment}
+          </span>
+        </label>
+      )}
+      {preview.excerpts.map((excerpt) => (
+        <label key={excerpt.messageId} className="flex items-start gap-2 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={selected.has(excerpt.messageId)}
+            onChange={() => onToggleExcerpt(excerpt.messageId)}
+            className="mt-0.5"
+          />
+          <span>
+            <span className="text-gray-400">
+              {new Date(excerpt.timestamp).toLocaleDateString()}{excerpt.isAI ? ' · AI' : ''}:{' '}
+            </span>
+            {excerpt.text}
+          </span>
+        </label>
+      ))}
+      <div className="flex gap-2 pt-1">
+        <button
+          onClick={() => onShare('chat')}
+          disabled={nothingSelected}
+          className="px-2 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded disabled:opacity-50"
+        >
+          Share to chat
+        </button>
+        <button
+          onClick={() => onShare('prompt')}
+          disabled={nothingSelected}
+          className="px-2 py-1 border border-blue-600 text-blue-600 dark:text-blue-300 rounded hover:bg-blue-100 dark:hover:bg-blue-800 disabled:opacity-50"
+        >
+          Add to AI context
+        </button>
+      </div>
+    </div>
+  );
+};
+
 export const ProposalCard: React.FC<ProposalCardProps> = ({
   proposal,
   onShare,
   onDismiss,
+  onRequestAccess,
+  onLoadPreview,
 }) => {
+  const [showExplanation, setShowExplanation] = useState(false);
+  const [requesting, setRequesting] = useState(false);
+  const [showPreview, setShowPreview] = useState(false);
+  const [preview, setPreview] = useState<ProposalPreview | null>(null);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [includeSummary, setIncludeSummary] = useState(true);
+
   const handleShare = (e: React.MouseEvent) => {
     e.stopPropagation();
     onShare();
   };
 
+  // Excerpts are only loaded once the preview is opened
+  const handleTogglePreview = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    const open = !showPreview;
+    setShowPreview(open);
+    if (!open || preview || !onLoadPreview) return;
+    try {
+      const loaded = await onLoadPreview();
+      setPreview(loaded);
+      setSelected(new Set(loaded.excerpts.map((excerpt) => excerpt.messageId)));
+      setPreviewError(null);
+    } catch (err) {
+      console.error('[ProposalCard] Failed to load preview:', err);
+      setPreviewError((err as Error).message);
+    }
+  };
+
+  const toggleExcerpt = (messageId: string) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(messageId)) {
+        next.delete(messageId);
+      } else {
+        next.add(messageId);
+      }
+      return next;
+    });
+  };
+
+  const handleShareSelection = (target: ShareTarget) => {
+    onShare({
+      excerptIds: Array.from(selected),
+      includeSummary: includeSummary && !!preview?.summaryFragment,
+      target,
+    });
+  };
+
   const handleDismiss = (e: React.MouseEvent) => {
     e.stopPropagation();
     onDismiss();
   };
 
+  const handleRequestAccess = async (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (!onRequestAccess) return;
+    setRequesting(true);
+    try {
+      await onRequestAccess();
+    } finally {
+      setRequesting(false);
+    }
+  };
+
   return (
     <div className="proposal-card bg-blue-50/80 dark:bg-blue-900/30 backdrop-blur-sm border border-blue-200 dark:border-blue-700 rounded-lg p-4 shadow-sm hover:shadow-md transition-shadow">
       <div className="flex justify-between items-start">
@@ -40,8 +230,41 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
             <span className="text-xs text-gray-500 dark:text-gray-400">
               {Math.round(proposal.relevanceScore * 100)}% match
             </span>
+            {proposal.explanation && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setShowExplanation(!showExplanation);
+                }}
+                className="text-xs text-blue-500 hover:underline"
+              >
+                {showExplanation ? 'Hide score' : 'Why?'}
+              </button>
+            )}
+            {onLoadPreview && (
+              <button onClick={handleTogglePreview} className="text-xs text-blue-500 hover:underline">
+                {showPreview ? 'Hide preview' : 'Preview'}
+              </button>
+            )}
           </div>
 
+          {proposal.sharedBy && (
+            <div className="flex items-center gap-2 mb-2 text-xs text-gray-600 dark:text-gray-300">
+              <span>From {proposal.sharedBy.name}'s conversations</span>
+              {proposal.sharedBy.accessRequested ? (
+                <span className="text-gray-400">Access requested</span>
+              ) : onRequestAccess && (
+                <button
+                  onClick={handleRequestAccess}
+                  disabled={requesting}
+                  className="text-blue-500 hover:underline disabled:opacity-50"
+                >
+                  {requesting ? 'Requesting...' : 'Request conversation'}
+                </button>
+              )}
+            </div>
+          )}
+
           <div className="flex flex-wrap gap-1">
             {proposal.matchedKeywords.map((keyword, index) => (
               <span
@@ -52,6 +275,27 @@ export const ProposalCard: React.FC<ProposalCardProps> = ({
               </span>
             ))}
           </div>
+
+          {showExplanation && proposal.explanation && (
+            <ScoreExplanation proposal={proposal} explanation={proposal.explanation} />
+          )}
+
+          {showPreview && (
+            previewError ? (
+              <div className="mt-3 text-xs text-red-600">{previewError}</div>
+            ) : preview ? (
+              <PreviewPanel
+                preview={preview}
+                selected={selected}
+                includeSummary={includeSummary}
+                onToggleExcerpt={toggleExcerpt}
+                onToggleSummary={() => setIncludeSummary(!includeSummary)}
+                onShare={handleShareSelection}
+              />
+            ) : (
+              <div className="mt-3 text-xs text-gray-500 dark:text-gray-400">Loading excerpts...</div>
+            )
+          )}
         </div>
 
         <div className="flex items-center gap-2 ml-2">
@@ -9,15 +9,17 @@
 import React from 'react';
 import { useSwipeable } from 'react-swipeable';
 import { ProposalCard } from './ProposalCard';
-import type { Proposal } from '../types/proposals';
+import type { Proposal, ProposalPreview, ShareOptions } from '../types/proposals';
 
 interface ProposalCarouselProps {
   proposals: Proposal[];
   currentIndex: number;
   onNext: () => void;
   onPrevious: () => void;
-  onShare: (proposalId: string, pastSubjectIdHash: string) => Promise<void>;
+  onShare: (proposalId: string, pastSubjectIdHash: string, options?: ShareOptions) => Promise<void>;
   onDismiss: (proposalId: string, pastSubjectIdHash: string) => Promise<void>;
+  onRequestAccess?: (pastSubjectIdHash: string) => Promise<void>;
+  onLoadPreview?: (pastSubjectIdHash: string) => Promise<ProposalPreview>;
 }
 
 export const ProposalCarousel: React.FC<ProposalCarouselProps> = ({
@@ -27,6 +29,8 @@ export const ProposalCarousel: React.FC<ProposalCarouselProps> = ({
   onPrevious,
   onShare,
   onDismiss,
+  onRequestAccess,
+  onLoadPreview,
 }) => {
   const currentProposal = proposals[currentIndex];
 
@@ -42,8 +46,8 @@ export const ProposalCarousel: React.FC<ProposalCarouselProps> = ({
     return null;
   }
 
-  const handleShare = async () => {
-    await onShare(currentProposal.id, currentProposal.pastSubject);
+  const handleShare = async (options?: ShareOptions) => {
+    await onShare(currentProposal.id, currentProposal.pastSubject, options);
   };
 
   const handleDismiss = async () => {
@@ -53,9 +57,12 @@ export const ProposalCarousel: React.FC<ProposalCarouselProps> = ({
   return (
     <div className="proposal-carousel mb-4" {...handlers}>
       <ProposalCard
+        key={currentProposal.id}
         proposal={currentProposal}
         onShare={handleShare}
         onDismiss={handleDismiss}
+        onRequestAccess={onRequestAccess && (() => onRequestAccess(currentProposal.pastSubject))}
+        onLoadPreview={onLoadPreview && (() => onLoadPreview(currentProposal.pastSubject))}
       />
 
       {proposals.length > 1 && (
@@ -0,0 +1,148 @@
+/**
+ * FeedForwardMatches Component
+ * Supply/Demand matches with contacts. Nothing is exchanged until both sides accept.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card.js';
+import { Button } from '../ui/button.js';
+import { Badge } from '../ui/badge.js';
+import { ArrowLeftRight, RefreshCw, Loader2 } from 'lucide-react';
+import type { FeedForwardMatch } from '../../types/feed-forward.js';
+
+const matchKey = (match: FeedForwardMatch) => `${match.demandId}:${match.supplyId}`;
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+export const FeedForwardMatches: React.FC = () => {
+  const [matches, setMatches] = useState<FeedForwardMatch[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [answering, setAnswering] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadMatches = useCallback(async () => {
+    setLoading(true);
+    try {
+      if (!window.electronAPI) throw new Error('IPC not available');
+      const response: any = await window.electronAPI.invoke('feedForward:getMatches');
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to load matches');
+      }
+      setMatches(response.matches || []);
+      setError(null);
+    } catch (err) {
+      console.error('[FeedForwardMatches] Failed to load matches:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadMatches();
+  }, [loadMatches]);
+
+  // Matches found in what contacts share, and answers from the other side
+  useEffect(() => {
+    if (!window.electronAPI) return;
+
+    const upsert = (match: FeedForwardMatch) => {
+      setMatches(prev => [match, ...prev.filter(m => matchKey(m) !== matchKey(match))]);
+    };
+    const unsubFound = window.electronAPI.on('feedForward:matchFound', upsert);
+    const unsubUpdated = window.electronAPI.on('feedForward:matchUpdated', upsert);
+    return () => {
+      if (unsubFound) unsubFound();
+      if (unsubUpdated) unsubUpdated();
+    };
+  }, []);
+
+  const answer = async (match: FeedForwardMatch, accept: boolean) => {
+    setAnswering(matchKey(match));
+    try {
+      if (!window.electronAPI) throw new Error('IPC not available');
+      const response: any = await window.electronAPI.invoke('feedForward:respondToMatch', {
+        demandId: match.demandId,
+        supplyId: match.supplyId,
+        accept
+      });
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to answer match');
+      }
+      if (response.match) {
+        setMatches(prev => prev.map(m => (matchKey(m) === matchKey(match) ? response.match : m)));
+      }
+      setError(null);
+    } catch (err) {
+      console.error('[FeedForwardMatches] Failed to answer match:', err);
+      setError((err as Error).message);
+    } finally {
+      setAnswering(null);
+    }
+  };
+
+  // Our own answer, once given, waits for the other side
+  const ownDecision = (match: FeedForwardMatch) =>
+    match.role === 'requester' ? match.requesterDecision : match.supplierDecision;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowLeftRight className="h-5 w-5" />
+              Knowledge Matches
+            </CardTitle>
+            <CardDescription>
+              Supplies and demands you share with contacts that match - content is exchanged once both sides accept
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadMatches} disabled={loading}>
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+        {matches.length === 0 && !loading && (
+          <p className="text-sm text-muted-foreground">No matches</p>
+        )}
+        {matches.map(match => (
+          <div key={matchKey(match)} className="flex items-center justify-between gap-2 rounded border p-2">
+            <div className="min-w-0">
+              <div className="truncate text-sm font-medium">{match.demandContext}</div>
+              <div className="text-xs text-muted-foreground">
+                {match.role === 'requester' ? `Supplied by ${match.counterpartName}` : `Asked by ${match.counterpartName}`}
+                {' · '}{match.matchedKeywords.length} keyword{match.matchedKeywords.length === 1 ? '' : 's'}, {percent(match.matchScore)} match
+                {' · '}trust {percent(match.counterpartTrust.score)}
+              </div>
+            </div>
+            {match.state === 'pending' && !ownDecision(match) ? (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => answer(match, true)}
+                  disabled={answering === matchKey(match)}
+                >
+                  Accept
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => answer(match, false)}
+                  disabled={answering === matchKey(match)}
+                >
+                  Reject
+                </Button>
+              </div>
+            ) : (
+              <Badge variant={match.state === 'accepted' ? 'default' : 'secondary'}>
+                {match.state === 'pending' ? 'Waiting for other side' : match.state === 'accepted' ? 'Accepted' : 'Rejected'}
+              </Badge>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
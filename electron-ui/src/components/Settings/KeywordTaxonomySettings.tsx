@@ -0,0 +1,171 @@
+/**
+ * KeywordTaxonomySettings Component
+ * The user's own keyword rules: pinned keywords, stop-words and synonym groups.
+ */
+
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card.js';
+import { Input } from '../ui/input.js';
+import { Button } from '../ui/button.js';
+import { Badge } from '../ui/badge.js';
+import { Tags, Trash2, Plus, X } from 'lucide-react';
+import { useKeywordTaxonomy } from '../../hooks/useKeywordTaxonomy.js';
+import type { KeywordTaxonomy } from '../../services/keyword-taxonomy-service.js';
+
+const splitTerms = (value: string): string[] =>
+  value.split(',').map(term => term.trim().toLowerCase()).filter(Boolean);
+
+/**
+ * Editable list of single terms (pinned keywords, stop-words)
+ */
+const TermList: React.FC<{
+  label: string;
+  description: string;
+  terms: string[];
+  placeholder: string;
+  onChange: (terms: string[]) => void;
+}> = ({ label, description, terms, placeholder, onChange }) => {
+  const [input, setInput] = useState('');
+
+  const add = () => {
+    const added = splitTerms(input).filter(term => !terms.includes(term));
+    if (added.length > 0) onChange([...terms, ...added]);
+    setInput('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <div>
+        <div className="text-sm font-medium">{label}</div>
+        <div className="text-xs text-muted-foreground">{description}</div>
+      </div>
+      <div className="flex flex-wrap gap-1">
+        {terms.map(term => (
+          <Badge key={term} variant="secondary" className="gap-1">
+            {term}
+            <button title={`Remove ${term}`} onClick={() => onChange(terms.filter(t => t !== term))}>
+              <X className="h-3 w-3" />
+            </button>
+          </Badge>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <Input
+          value={input}
+          placeholder={placeholder}
+          onChange={(e) => setInput(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && add()}
+        />
+        <Button size="sm" variant="outline" onClick={add} disabled={!input.trim()}>
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export const KeywordTaxonomySettings: React.FC = () => {
+  const { taxonomy, loading, error, updateTaxonomy } = useKeywordTaxonomy();
+  const [newGroup, setNewGroup] = useState({ canonical: '', variants: '' });
+
+  const save = (updates: Partial<KeywordTaxonomy>) => {
+    // Errors are shown through the hook
+    updateTaxonomy(updates).catch(() => {});
+  };
+
+  const addGroup = () => {
+    const canonical = newGroup.canonical.trim().toLowerCase();
+    const variants = splitTerms(newGroup.variants);
+    if (!canonical || variants.length === 0) return;
+
+    const others = taxonomy.synonymGroups.filter(group => group.canonical !== canonical);
+    const existing = taxonomy.synonymGroups.find(group => group.canonical === canonical);
+    save({
+      synonymGroups: [
+        ...others,
+        { canonical, variants: Array.from(new Set([...(existing?.variants || []), ...variants])) }
+      ]
+    });
+    setNewGroup({ canonical: '', variants: '' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <Tags className="h-4 w-4" />
+          <CardTitle className="text-lg">Keyword Taxonomy</CardTitle>
+        </div>
+        <CardDescription>
+          Your own rules for keywords in topic analysis and word clouds. They apply to new analyses.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {error && <div className="text-sm text-red-500">{error}</div>}
+        {loading && <div className="text-sm text-muted-foreground">Loading...</div>}
+
+        <TermList
+          label="Pinned keywords"
+          description="Always shown when they come up, even if the extractor would skip them."
+          terms={taxonomy.pinned}
+          placeholder="e.g. kubernetes, budget"
+          onChange={(pinned) => save({ pinned })}
+        />
+
+        <TermList
+          label="Stop-words"
+          description="Never used as keywords."
+          terms={taxonomy.stopWords}
+          placeholder="e.g. meeting, update"
+          onChange={(stopWords) => save({ stopWords })}
+        />
+
+        <div className="space-y-2">
+          <div>
+            <div className="text-sm font-medium">Synonym groups</div>
+            <div className="text-xs text-muted-foreground">Variants are counted and shown as the main term.</div>
+          </div>
+
+          {taxonomy.synonymGroups.map(group => (
+            <div key={group.canonical} className="flex items-center gap-2 text-sm">
+              <span className="font-medium">{group.canonical}</span>
+              <span className="text-muted-foreground">←</span>
+              <span className="flex-1 truncate text-muted-foreground">{group.variants.join(', ')}</span>
+              <Button
+                size="icon"
+                variant="ghost"
+                title="Remove group"
+                onClick={() => save({ synonymGroups: taxonomy.synonymGroups.filter(g => g.canonical !== group.canonical) })}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Input
+              className="w-40"
+              value={newGroup.canonical}
+              placeholder="Main term"
+              onChange={(e) => setNewGroup({ ...newGroup, canonical: e.target.value })}
+            />
+            <Input
+              value={newGroup.variants}
+              placeholder="Variants, comma separated"
+              onChange={(e) => setNewGroup({ ...newGroup, variants: e.target.value })}
+              onKeyDown={(e) => e.key === 'Enter' && addGroup()}
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={addGroup}
+              disabled={!newGroup.canonical.trim() || splitTerms(newGroup.variants).length === 0}
+            >
+              <Plus className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
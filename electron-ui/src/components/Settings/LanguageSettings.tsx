@@ -0,0 +1,64 @@
+/**
+ * LanguageSettings Component
+ * Which language topic summaries are written in.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card.js';
+import { Languages } from 'lucide-react';
+
+const selectClass = 'h-9 rounded-md border bg-background px-2 text-sm';
+
+export const LanguageSettings: React.FC = () => {
+  const [language, setLanguage] = useState('auto');
+  const [languages, setLanguages] = useState<Record<string, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.electronAPI?.invoke('topicAnalysis:getSummaryLanguage').then((result: any) => {
+      if (result?.success) {
+        setLanguage(result.data.language);
+        setLanguages(result.data.languages);
+      }
+    });
+  }, []);
+
+  const changeLanguage = async (value: string) => {
+    const result = await window.electronAPI?.invoke('topicAnalysis:setSummaryLanguage', { language: value });
+    if (result?.success) {
+      setLanguage(result.data.language);
+      setError(null);
+    } else {
+      setError(result?.error || 'Request failed');
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <Languages className="h-4 w-4" />
+          <CardTitle className="text-lg">Languages</CardTitle>
+        </div>
+        <CardDescription>
+          Keywords are extracted in each message's own language ({Object.values(languages).join(', ') || 'English'}).
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && <div className="text-sm text-red-500">{error}</div>}
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <div className="text-sm font-medium">Summary language</div>
+            <div className="text-xs text-muted-foreground">Language of new topic summaries</div>
+          </div>
+          <select className={selectClass} value={language} onChange={(e) => changeLanguage(e.target.value)}>
+            <option value="auto">Conversation's language</option>
+            {Object.entries(languages).map(([code, name]) => (
+              <option key={code} value={code}>{name}</option>
+            ))}
+          </select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,319 @@
+/**
+ * MCPServerSettings Component
+ * Registry of stdio MCP servers whose tools the AI can use.
+ * Changes apply immediately - servers start and stop without an app restart.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card.js';
+import { Input } from '../ui/input.js';
+import { Label } from '../ui/label.js';
+import { Button } from '../ui/button.js';
+import { Badge } from '../ui/badge.js';
+import { Plug, Plus, Pencil, Trash2, RefreshCw, Save, X } from 'lucide-react';
+
+interface MCPServer {
+  name: string;
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  description?: string;
+  enabled: boolean;
+  running: boolean;
+  toolCount: number;
+  error?: string;
+}
+
+interface ServerForm {
+  name: string;
+  command: string;
+  args: string;       // One argument per line
+  env: string;        // KEY=VALUE per line
+  cwd: string;
+  description: string;
+  enabled: boolean;
+}
+
+const EMPTY_FORM: ServerForm = {
+  name: '',
+  command: '',
+  args: '',
+  env: '',
+  cwd: '',
+  description: '',
+  enabled: true
+};
+
+function toForm(server: MCPServer): ServerForm {
+  return {
+    name: server.name,
+    command: server.command,
+    args: server.args.join('\n'),
+    env: Object.entries(server.env || {}).map(([key, value]) => `${key}=${value}`).join('\n'),
+    cwd: server.cwd || '',
+    description: server.description || '',
+    enabled: server.enabled
+  };
+}
+
+function parseEnv(text: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of text.split('\n')) {
+    const index = line.indexOf('=');
+    if (index > 0) {
+      env[line.substring(0, index).trim()] = line.substring(index + 1).trim();
+    }
+  }
+  return env;
+}
+
+const textareaClass = 'w-full min-h-[64px] rounded-md border bg-background px-3 py-2 text-sm font-mono';
+
+export const MCPServerSettings: React.FC = () => {
+  const [servers, setServers] = useState<MCPServer[]>([]);
+  const [form, setForm] = useState<ServerForm | null>(null);
+  const [editingName, setEditingName] = useState<string | null>(null);
+  const [busy, setBusy] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const call = async (channel: string, params?: any) => {
+    if (!window.electronAPI) return;
+    const result = await window.electronAPI.invoke(channel, params);
+    if (result?.success) {
+      setServers(result.data?.servers || []);
+      setError(null);
+    } else {
+      setError(result?.error || 'Request failed');
+    }
+    return result;
+  };
+
+  useEffect(() => {
+    call('mcp:listServers');
+  }, []);
+
+  const handleSave = async () => {
+    if (!form) return;
+    setBusy(form.name || 'new');
+    try {
+      const result = await call('mcp:saveServer', {
+        previousName: editingName || undefined,
+        server: {
+          name: form.name.trim(),
+          command: form.command.trim(),
+          args: form.args.split('\n').map(arg => arg.trim()).filter(Boolean),
+          env: parseEnv(form.env),
+          cwd: form.cwd.trim() || undefined,
+          description: form.description.trim() || undefined,
+          enabled: form.enabled
+        }
+      });
+      if (result?.success) {
+        setForm(null);
+        setEditingName(null);
+      }
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const runAction = async (name: string, channel: string, params: any) => {
+    setBusy(name);
+    try {
+      await call(channel, params);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleDelete = (name: string) => {
+    if (confirm(`Remove MCP server "${name}"? Its tools will no longer be available.`)) {
+      runAction(name, 'mcp:deleteServer', { name });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Plug className="h-4 w-4" />
+            <CardTitle className="text-lg">MCP Servers</CardTitle>
+          </div>
+          {!form && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => {
+                setForm({ ...EMPTY_FORM });
+                setEditingName(null);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add Server
+            </Button>
+          )}
+        </div>
+        <CardDescription>Local stdio servers that provide tools to the AI</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        {servers.map(server => (
+          <div key={server.name} className="rounded border p-3 space-y-1">
+            <div className="flex items-center justify-between">
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{server.name}</span>
+                {server.running ? (
+                  <Badge variant="default">Running · {server.toolCount} tools</Badge>
+                ) : server.error ? (
+                  <Badge variant="destructive">Failed</Badge>
+                ) : (
+                  <Badge variant="secondary">{server.enabled ? 'Stopped' : 'Disabled'}</Badge>
+                )}
+              </div>
+              <div className="flex items-center gap-1">
+                <Button
+                  size="sm"
+                  variant={server.enabled ? 'default' : 'outline'}
+                  disabled={busy === server.name}
+                  onClick={() => runAction(server.name, 'mcp:setServerEnabled', { name: server.name, enabled: !server.enabled })}
+                >
+                  {server.enabled ? 'Enabled' : 'Disabled'}
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Restart"
+                  disabled={!server.enabled || busy === server.name}
+                  onClick={() => runAction(server.name, 'mcp:restartServer', { name: server.name })}
+                >
+                  <RefreshCw className={`h-4 w-4 ${busy === server.name ? 'animate-spin' : ''}`} />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Edit"
+                  onClick={() => {
+                    setForm(toForm(server));
+                    setEditingName(server.name);
+                  }}
+                >
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  title="Remove"
+                  disabled={busy === server.name}
+                  onClick={() => handleDelete(server.name)}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+            {server.description && (
+              <div className="text-sm text-muted-foreground">{server.description}</div>
+            )}
+            <div className="text-xs font-mono text-muted-foreground truncate">
+              {[server.command, ...server.args].join(' ')}
+            </div>
+            {server.error && (
+              <div className="text-xs text-red-500">{server.error}</div>
+            )}
+          </div>
+        ))}
+
+        {servers.length === 0 && !form && (
+          <div className="text-sm text-muted-foreground">No MCP servers configured</div>
+        )}
+
+        {form && (
+          <div className="rounded border p-3 space-y-3">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input
+                  value={form.name}
+                  placeholder="my-tools"
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Command</Label>
+                <Input
+                  value={form.command}
+                  placeholder="npx, node, python..."
+                  onChange={(e) => setForm({ ...form, command: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="space-y-1">
+              <Label>Arguments (one per line)</Label>
+              <textarea
+                className={textareaClass}
+                value={form.args}
+                onChange={(e) => setForm({ ...form, args: e.target.value })}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label>Environment (KEY=VALUE per line)</Label>
+              <textarea
+                className={textareaClass}
+                value={form.env}
+                onChange={(e) => setForm({ ...form, env: e.target.value })}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Working directory</Label>
+                <Input
+                  value={form.cwd}
+                  onChange={(e) => setForm({ ...form, cwd: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label>Description</Label>
+                <Input
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex items-center justify-between">
+              <Button
+                size="sm"
+                variant={form.enabled ? 'default' : 'outline'}
+                onClick={() => setForm({ ...form, enabled: !form.enabled })}
+              >
+                {form.enabled ? 'Start when saved' : 'Save disabled'}
+              </Button>
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => {
+                    setForm(null);
+                    setEditingName(null);
+                  }}
+                >
+                  <X className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  disabled={!form.name.trim() || !form.command.trim() || busy !== null}
+                  onClick={handleSave}
+                >
+                  <Save className="h-4 w-4 mr-1" />
+                  Save
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,128 @@
+/**
+ * SubjectAccessRequests Component
+ * Requests from contacts for the conversations behind subjects we shared with them.
+ */
+
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card.js';
+import { Button } from '../ui/button.js';
+import { Badge } from '../ui/badge.js';
+import { KeyRound, RefreshCw, Loader2 } from 'lucide-react';
+import type { SubjectAccessRequest } from '../../types/proposals.js';
+
+const requestKey = (request: SubjectAccessRequest) =>
+  `${request.requester}:${request.topic}:${request.subject}`;
+
+export const SubjectAccessRequests: React.FC = () => {
+  const [requests, setRequests] = useState<SubjectAccessRequest[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [answering, setAnswering] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRequests = useCallback(async () => {
+    setLoading(true);
+    try {
+      if (!window.electronAPI) throw new Error('IPC not available');
+      const response: any = await window.electronAPI.invoke('proposals:getAccessRequests');
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to load access requests');
+      }
+      setRequests(response.data.requests || []);
+      setError(null);
+    } catch (err) {
+      console.error('[SubjectAccessRequests] Failed to load requests:', err);
+      setError((err as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadRequests();
+  }, [loadRequests]);
+
+  const answer = async (request: SubjectAccessRequest, grant: boolean) => {
+    setAnswering(requestKey(request));
+    try {
+      if (!window.electronAPI) throw new Error('IPC not available');
+      const response: any = await window.electronAPI.invoke('proposals:answerAccessRequest', {
+        requester: request.requester,
+        topic: request.topic,
+        subject: request.subject,
+        grant
+      });
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to answer request');
+      }
+      setRequests(prev => prev.map(r =>
+        requestKey(r) === requestKey(request) ? { ...r, state: response.decision.state } : r
+      ));
+      setError(null);
+    } catch (err) {
+      console.error('[SubjectAccessRequests] Failed to answer request:', err);
+      setError((err as Error).message);
+    } finally {
+      setAnswering(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <KeyRound className="h-5 w-5" />
+              Conversation Access Requests
+            </CardTitle>
+            <CardDescription>
+              Contacts who saw a subject you shared with them and asked for the whole conversation
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={loadRequests} disabled={loading}>
+            {loading ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {error && <div className="text-sm text-red-600">{error}</div>}
+        {requests.length === 0 && !loading && (
+          <p className="text-sm text-muted-foreground">No requests</p>
+        )}
+        {requests.map(request => (
+          <div key={requestKey(request)} className="flex items-center justify-between gap-2 rounded border p-2">
+            <div className="min-w-0">
+              <div className="truncate text-sm font-medium">{request.subjectName}</div>
+              <div className="text-xs text-muted-foreground">
+                {request.requesterName} · {new Date(request.requestedAt).toLocaleString()}
+              </div>
+            </div>
+            {request.state === 'pending' ? (
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => answer(request, true)}
+                  disabled={answering === requestKey(request)}
+                >
+                  Grant
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => answer(request, false)}
+                  disabled={answering === requestKey(request)}
+                >
+                  Decline
+                </Button>
+              </div>
+            ) : (
+              <Badge variant={request.state === 'granted' ? 'default' : 'secondary'}>
+                {request.state === 'granted' ? 'Granted' : 'Declined'}
+              </Badge>
+            )}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,194 @@
+/**
+ * ToolPermissionSettings Component
+ * Policy rules for AI tool execution and the audit log of what the AI ran.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card.js';
+import { Input } from '../ui/input.js';
+import { Button } from '../ui/button.js';
+import { Badge } from '../ui/badge.js';
+import { ShieldCheck, Trash2, Plus, RefreshCw, ChevronDown, ChevronRight } from 'lucide-react';
+
+type ToolPolicy = 'allow' | 'ask' | 'deny';
+type ToolPermissionScope = 'global' | 'topic' | 'model';
+
+interface ToolPermissionRule {
+  tool: string;
+  scope: ToolPermissionScope;
+  scopeId?: string;
+  policy: ToolPolicy;
+  created: number;
+}
+
+interface ToolExecution {
+  hash: string;
+  tool: string;
+  input: Record<string, any>;
+  output?: string;
+  outcome: 'success' | 'error' | 'denied';
+  error?: string;
+  durationMs: number;
+  topicId?: string;
+  modelId?: string;
+  started: number;
+}
+
+const POLICY_LABELS: Record<ToolPolicy, string> = {
+  allow: 'Always allow',
+  ask: 'Ask each time',
+  deny: 'Deny'
+};
+
+const OUTCOME_VARIANTS: Record<ToolExecution['outcome'], 'default' | 'destructive' | 'secondary'> = {
+  success: 'default',
+  error: 'destructive',
+  denied: 'secondary'
+};
+
+const selectClass = 'h-9 rounded-md border bg-background px-2 text-sm';
+
+export const ToolPermissionSettings: React.FC = () => {
+  const [rules, setRules] = useState<ToolPermissionRule[]>([]);
+  const [executions, setExecutions] = useState<ToolExecution[]>([]);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [newRule, setNewRule] = useState({ tool: '', policy: 'ask' as ToolPolicy });
+  const [error, setError] = useState<string | null>(null);
+
+  const loadRules = async () => {
+    const result = await window.electronAPI?.invoke('tools:getRules');
+    if (result?.success) setRules(result.data.rules);
+  };
+
+  const loadAuditLog = async () => {
+    const result = await window.electronAPI?.invoke('tools:getAuditLog', { days: 7, limit: 100 });
+    if (result?.success) setExecutions(result.data.executions);
+  };
+
+  useEffect(() => {
+    loadRules();
+    loadAuditLog();
+  }, []);
+
+  const updateRules = async (channel: string, rule: Partial<ToolPermissionRule>) => {
+    const result = await window.electronAPI?.invoke(channel, { rule });
+    if (result?.success) {
+      setRules(result.data.rules);
+      setError(null);
+    } else {
+      setError(result?.error || 'Request failed');
+    }
+  };
+
+  const addGlobalRule = async () => {
+    if (!newRule.tool.trim()) return;
+    await updateRules('tools:setRule', { tool: newRule.tool.trim(), scope: 'global', policy: newRule.policy });
+    setNewRule({ tool: '', policy: 'ask' });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center space-x-2">
+          <ShieldCheck className="h-4 w-4" />
+          <CardTitle className="text-lg">AI Tool Permissions</CardTitle>
+        </div>
+        <CardDescription>
+          Which tools the AI may run, and a log of what it ran. Without a rule, read-only tools run and others ask first.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {error && <div className="text-sm text-red-500">{error}</div>}
+
+        <div className="space-y-2">
+          {rules.map(rule => (
+            <div key={`${rule.tool}-${rule.scope}-${rule.scopeId || ''}`} className="flex items-center gap-2 text-sm">
+              <span className="font-mono flex-1 truncate">{rule.tool === '*' ? 'All tools' : rule.tool}</span>
+              <span className="text-xs text-muted-foreground truncate max-w-[180px]">
+                {rule.scope === 'global' ? 'everywhere' : `${rule.scope}: ${rule.scopeId}`}
+              </span>
+              <select
+                className={selectClass}
+                value={rule.policy}
+                onChange={(e) => updateRules('tools:setRule', { ...rule, policy: e.target.value as ToolPolicy })}
+              >
+                {Object.entries(POLICY_LABELS).map(([policy, label]) => (
+                  <option key={policy} value={policy}>{label}</option>
+                ))}
+              </select>
+              <Button size="icon" variant="ghost" title="Remove rule" onClick={() => updateRules('tools:removeRule', rule)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+
+          <div className="flex items-center gap-2">
+            <Input
+              value={newRule.tool}
+              placeholder="server:tool or * for all tools"
+              onChange={(e) => setNewRule({ ...newRule, tool: e.target.value })}
+            />
+            <select
+              className={selectClass}
+              value={newRule.policy}
+              onChange={(e) => setNewRule({ ...newRule, policy: e.target.value as ToolPolicy })}
+            >
+              {Object.entries(POLICY_LABELS).map(([policy, label]) => (
+                <option key={policy} value={policy}>{label}</option>
+              ))}
+            </select>
+            <Button size="sm" variant="outline" onClick={addGlobalRule} disabled={!newRule.tool.trim()}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Recent tool executions</span>
+            <Button size="icon" variant="ghost" title="Refresh" onClick={loadAuditLog}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+
+          {executions.length === 0 && (
+            <div className="text-sm text-muted-foreground">No tool executions in the last 7 days</div>
+          )}
+
+          <div className="max-h-80 overflow-y-auto space-y-1">
+            {executions.map(execution => {
+              const isOpen = expanded === execution.hash;
+              return (
+                <div key={execution.hash} className="rounded border text-xs">
+                  <button
+                    className="flex w-full items-center gap-2 px-2 py-1 text-left"
+                    onClick={() => setExpanded(isOpen ? null : execution.hash)}
+                  >
+                    {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+                    <span className="font-mono truncate">{execution.tool}</span>
+                    <Badge variant={OUTCOME_VARIANTS[execution.outcome]}>{execution.outcome}</Badge>
+                    <span className="ml-auto text-muted-foreground">
+                      {execution.durationMs}ms · {new Date(execution.started).toLocaleString()}
+                    </span>
+                  </button>
+                  {isOpen && (
+                    <div className="border-t px-2 py-1 space-y-1">
+                      {execution.modelId && <div className="text-muted-foreground">Model: {execution.modelId}</div>}
+                      <pre className="whitespace-pre-wrap break-all font-mono">{JSON.stringify(execution.input, null, 2)}</pre>
+                      {(execution.error || execution.output) && (
+                        <pre className={`max-h-48 overflow-auto whitespace-pre-wrap break-all font-mono ${execution.error ? 'text-red-500' : 'text-muted-foreground'}`}>
+                          {execution.error || execution.output}
+                        </pre>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
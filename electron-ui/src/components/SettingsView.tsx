@@ -15,6 +15,12 @@ import { lamaBridge } from '@/bridge/lama-bridge'
 import { ipcStorage } from '@/services/ipc-storage'
 import { Alert, AlertDescription } from '@/components/ui/alert'
 import InstancesView from './InstancesView'
+import { MCPServerSettings } from './Settings/MCPServerSettings'
+import { ToolPermissionSettings } from './Settings/ToolPermissionSettings'
+import { KeywordTaxonomySettings } from './Settings/KeywordTaxonomySettings'
+import { SubjectAccessRequests } from './Settings/SubjectAccessRequests'
+import { FeedForwardMatches } from './Settings/FeedForwardMatches'
+import { LanguageSettings } from './Settings/LanguageSettings'
 import {
   AlertDialog,
   AlertDialogAction,
@@ -1010,6 +1016,24 @@ export function SettingsView({ onLogout, onNavigate }: SettingsViewProps) {
             </CardContent>
           </Card>
 
+          {/* MCP Servers */}
+          <MCPServerSettings />
+
+          {/* AI Tool Permissions */}
+          <ToolPermissionSettings />
+
+          {/* Keyword Taxonomy */}
+          <KeywordTaxonomySettings />
+
+          {/* Requests for conversations behind shared subjects */}
+          <SubjectAccessRequests />
+
+          {/* Supply/Demand matches with contacts */}
+          <FeedForwardMatches />
+
+          {/* Summary and keyword languages */}
+          <LanguageSettings />
+
           {/* Privacy Settings */}
           <Card>
             <CardHeader>
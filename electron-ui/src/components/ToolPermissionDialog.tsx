@@ -0,0 +1,89 @@
+import { useState, useEffect } from 'react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogFooter } from '@/components/ui/dialog'
+import { Button } from '@/components/ui/button'
+import { ShieldAlert } from 'lucide-react'
+
+interface PermissionRequest {
+  requestId: string
+  tool: string
+  arguments: Record<string, any>
+  topicId?: string
+  modelId?: string
+  description?: string
+}
+
+type Decision = 'allow-once' | 'allow-topic' | 'allow-model' | 'deny'
+
+/**
+ * Asks before an AI runs a tool with side effects.
+ * Requests queue up; closing the dialog denies the current one.
+ */
+export function ToolPermissionDialog() {
+  const [queue, setQueue] = useState<PermissionRequest[]>([])
+  const current = queue[0]
+
+  useEffect(() => {
+    if (!window.electronAPI) return
+
+    const unsubRequest = window.electronAPI.on('tools:permissionRequest', (request: PermissionRequest) => {
+      setQueue(prev => [...prev, request])
+    })
+    // Answered in another window, timed out or cancelled
+    const unsubResolved = window.electronAPI.on('tools:permissionResolved', ({ requestId }: { requestId: string }) => {
+      setQueue(prev => prev.filter(request => request.requestId !== requestId))
+    })
+
+    return () => {
+      if (unsubRequest) unsubRequest()
+      if (unsubResolved) unsubResolved()
+    }
+  }, [])
+
+  const respond = async (decision: Decision) => {
+    if (!current || !window.electronAPI) return
+    setQueue(prev => prev.filter(request => request.requestId !== current.requestId))
+    try {
+      await window.electronAPI.invoke('tools:respondPermission', { requestId: current.requestId, decision })
+    } catch (error) {
+      console.error('[ToolPermissionDialog] Failed to send decision:', error)
+    }
+  }
+
+  if (!current) return null
+
+  return (
+    <Dialog open onOpenChange={(open) => { if (!open) respond('deny') }}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldAlert className="h-5 w-5 text-yellow-500" />
+            Allow AI to run a tool?
+          </DialogTitle>
+          <DialogDescription>
+            {current.modelId ? `${current.modelId} wants` : 'The AI wants'} to run <span className="font-mono">{current.tool}</span>
+            {current.description && <> — {current.description}</>}
+          </DialogDescription>
+        </DialogHeader>
+
+        <pre className="max-h-64 overflow-auto rounded border bg-muted/40 p-2 text-xs font-mono whitespace-pre-wrap break-all">
+          {JSON.stringify(current.arguments, null, 2)}
+        </pre>
+
+        {queue.length > 1 && (
+          <div className="text-xs text-muted-foreground">{queue.length - 1} more request(s) waiting</div>
+        )}
+
+        <DialogFooter className="flex-wrap gap-2">
+          <Button variant="outline" onClick={() => respond('deny')}>Deny</Button>
+          {current.modelId && (
+            <Button variant="outline" onClick={() => respond('allow-model')}>Always for this model</Button>
+          )}
+          {current.topicId && (
+            <Button variant="outline" onClick={() => respond('allow-topic')}>Always in this chat</Button>
+          )}
+          <Button onClick={() => respond('allow-once')}>Allow once</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
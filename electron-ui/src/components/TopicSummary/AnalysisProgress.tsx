@@ -0,0 +1,106 @@
+/**
+ * AnalysisProgress Component
+ * State of the topic's background analysis: progress, pending retries and failures
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Button } from '../ui/button.js';
+import { Loader2, AlertCircle, RotateCcw, X, Clock } from 'lucide-react';
+import type { AnalysisJob } from '../../types/topic-analysis.js';
+
+interface AnalysisProgressProps {
+  job: AnalysisJob | null;
+  onRetry: () => void;
+  onCancel: () => void;
+  className?: string;
+}
+
+const KIND_LABELS: Record<AnalysisJob['kind'], string> = {
+  analyze: 'Analyzing conversation',
+  subjects: 'Updating subjects',
+  summary: 'Updating summary'
+};
+
+export const AnalysisProgress: React.FC<AnalysisProgressProps> = ({
+  job,
+  onRetry,
+  onCancel,
+  className = ''
+}) => {
+  const [now, setNow] = useState(Date.now());
+
+  // Tick while a retry is scheduled so the countdown stays current
+  useEffect(() => {
+    if (job?.state !== 'retrying') return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [job?.state]);
+
+  if (!job || job.state === 'done') {
+    return null;
+  }
+
+  if (job.state === 'failed') {
+    return (
+      <div className={`flex items-center gap-2 rounded-md bg-red-50 px-3 py-2 text-sm text-red-700 ${className}`}>
+        <AlertCircle className="w-4 h-4 shrink-0" />
+        <span className="flex-1 truncate" title={job.error}>
+          {KIND_LABELS[job.kind]} failed{job.error ? `: ${job.error}` : ''}
+        </span>
+        {job.error !== 'Cancelled' && (
+          <Button size="sm" variant="outline" className="h-7" onClick={onRetry}>
+            <RotateCcw className="w-3 h-3 mr-1" />
+            Retry
+          </Button>
+        )}
+      </div>
+    );
+  }
+
+  if (job.state === 'retrying') {
+    const seconds = Math.max(0, Math.ceil((job.nextAttemptAt - now) / 1000));
+    return (
+      <div className={`flex items-center gap-2 rounded-md bg-amber-50 px-3 py-2 text-sm text-amber-800 ${className}`}>
+        <Clock className="w-4 h-4 shrink-0" />
+        <span className="flex-1 truncate" title={job.error}>
+          {job.error || 'Analysis failed'} – retrying in {seconds}s (attempt {job.attempts})
+        </span>
+        <Button size="sm" variant="outline" className="h-7" onClick={onRetry}>
+          Retry now
+        </Button>
+        <Button size="icon" variant="ghost" className="h-7 w-7" title="Cancel" onClick={onCancel}>
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+    );
+  }
+
+  const progress = job.progress;
+  return (
+    <div className={`space-y-1 text-sm text-muted-foreground ${className}`}>
+      <div className="flex items-center gap-2">
+        <Loader2 className={`w-4 h-4 shrink-0 ${job.state === 'running' ? 'animate-spin' : ''}`} />
+        <span className="flex-1 truncate">
+          {job.state === 'pending'
+            ? `${KIND_LABELS[job.kind]} – queued`
+            : progress
+              ? `${progress.label} (${progress.step}/${progress.total})`
+              : KIND_LABELS[job.kind]}
+        </span>
+        {job.state === 'pending' && (
+          <Button size="icon" variant="ghost" className="h-7 w-7" title="Cancel" onClick={onCancel}>
+            <X className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+      {progress && progress.total > 0 && (
+        <div className="h-1 w-full overflow-hidden rounded bg-muted">
+          <div
+            className="h-full bg-primary transition-all"
+            style={{ width: `${Math.round((progress.step / progress.total) * 100)}%` }}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -4,9 +4,11 @@
  */
 
 import React, { useMemo } from 'react';
+import { Pin } from 'lucide-react';
 import { Badge } from '../ui/badge.js';
 import type { Keyword } from '../../types/topic-analysis.js';
 import { useWordCloudSettings } from '../../hooks/useWordCloudSettings.js';
+import { useKeywordTaxonomy } from '../../hooks/useKeywordTaxonomy.js';
 
 interface KeywordCloudProps {
   keywords: Keyword[] | string[];
@@ -21,6 +23,7 @@ interface CloudKeyword {
   frequency?: number;
   score?: number;
   subjects?: string[]; // Array of subject IDs
+  pinned?: boolean;
 }
 
 export const KeywordCloud: React.FC<KeywordCloudProps> = ({
@@ -30,6 +33,7 @@ export const KeywordCloud: React.FC<KeywordCloudProps> = ({
   className = ''
 }) => {
   const { settings } = useWordCloudSettings();
+  const { mapper } = useKeywordTaxonomy();
 
   // Use settings value if maxDisplay not provided via props
   const effectiveMaxDisplay = maxDisplay ?? settings.maxWordsPerSubject;
@@ -39,36 +43,64 @@ export const KeywordCloud: React.FC<KeywordCloudProps> = ({
 
     if (keywords.length === 0) return [];
 
+    // Pinned keywords are always shown, on top of the display limit
+    const limitUnpinned = (list: CloudKeyword[]) => {
+      const pinned = list.filter(k => k.pinned);
+      return [...pinned, ...list.filter(k => !k.pinned).slice(0, effectiveMaxDisplay)];
+    };
+
     if (typeof keywords[0] === 'string') {
-      // Simple string array - assign decreasing sizes
-      cloudKeywords = (keywords as string[]).slice(0, effectiveMaxDisplay).map((text, index) => ({
+      // Simple string array - synonyms collapse into their canonical term
+      const terms = Array.from(new Set((keywords as string[]).map(mapper.canonical)))
+        .filter(text => text && !mapper.isStopWord(text));
+
+      // Assign decreasing sizes
+      cloudKeywords = limitUnpinned(terms.map((text, index) => ({
         text,
-        size: Math.max(1, 10 - Math.floor(index / 3))
-      }));
+        size: Math.max(1, 10 - Math.floor(index / 3)),
+        pinned: mapper.isPinned(text)
+      })));
     } else {
-      // Keyword objects with frequency/score
-      const keywordObjects = keywords as Keyword[];
+      // Keyword objects with frequency/score; synonyms are merged and their frequencies summed
+      const merged = new Map<string, CloudKeyword>();
+      for (const keyword of keywords as Keyword[]) {
+        const text = mapper.canonical(keyword.text || keyword.term || '');
+        if (!text || mapper.isStopWord(text)) continue;
+
+        const existing = merged.get(text);
+        if (existing) {
+          existing.frequency = (existing.frequency || 1) + (keyword.frequency || 1);
+          existing.score = Math.max(existing.score || 0, keyword.score || 0) || undefined;
+          existing.subjects = Array.from(new Set([...(existing.subjects || []), ...(keyword.subjects || [])]));
+        } else {
+          merged.set(text, {
+            text,
+            size: 0,
+            frequency: keyword.frequency,
+            score: keyword.score,
+            subjects: keyword.subjects || [],
+            pinned: mapper.isPinned(text)
+          });
+        }
+      }
 
       // Filter by minimum frequency setting
-      const filteredKeywords = keywordObjects.filter(
-        k => (k.frequency || 1) >= settings.minWordFrequency
+      const filteredKeywords = Array.from(merged.values()).filter(
+        k => k.pinned || (k.frequency || 1) >= settings.minWordFrequency
       );
 
       // Calculate weights
       const maxFreq = Math.max(...filteredKeywords.map(k => k.frequency || 1));
 
-      cloudKeywords = filteredKeywords.slice(0, effectiveMaxDisplay).map(keyword => ({
-        text: keyword.text || keyword.term || '',
-        size: Math.ceil(((keyword.frequency || 1) / maxFreq) * 10),
-        frequency: keyword.frequency,
-        score: keyword.score,
-        subjects: keyword.subjects || []
+      cloudKeywords = limitUnpinned(filteredKeywords).map(keyword => ({
+        ...keyword,
+        size: Math.ceil(((keyword.frequency || 1) / maxFreq) * 10)
       }));
     }
 
     // Shuffle for better visual distribution
     return shuffleArray(cloudKeywords);
-  }, [keywords, effectiveMaxDisplay, settings.minWordFrequency]);
+  }, [keywords, effectiveMaxDisplay, settings.minWordFrequency, mapper]);
 
   const shuffleArray = <T,>(array: T[]): T[] => {
     const newArray = [...array];
@@ -181,16 +213,17 @@ export const KeywordCloud: React.FC<KeywordCloudProps> = ({
               `}
               title={
                 keyword.frequency
-                  ? `Frequency: ${keyword.frequency}${
+                  ? `${keyword.pinned ? 'Pinned\n' : ''}Frequency: ${keyword.frequency}${
                       keyword.score ? `, Score: ${keyword.score.toFixed(2)}` : ''
                     }${
                       keyword.subjects && keyword.subjects.length > 0
                         ? `\nSubjects: ${keyword.subjects.length}`
                         : ''
                     }`
-                  : undefined
+                  : keyword.pinned ? 'Pinned' : undefined
               }
             >
+              {keyword.pinned && <Pin className="inline w-3 h-3 mr-1 -mt-0.5" />}
               {keyword.text}
             </button>
           );
@@ -0,0 +1,152 @@
+/**
+ * MergeSuggestions Component
+ * Lists near-duplicate subjects found by the background scan and lets the user
+ * merge or dismiss each pair
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Badge } from '../ui/badge.js';
+import { Button } from '../ui/button.js';
+import { Merge, X, Loader2 } from 'lucide-react';
+import { topicAnalysisService } from '../../services/topic-analysis-service.js';
+import type { SubjectMergeSuggestion } from '../../types/topic-analysis.js';
+
+interface MergeSuggestionsProps {
+  topicId: string;
+  onMerged?: () => void;
+  className?: string;
+}
+
+export const MergeSuggestions: React.FC<MergeSuggestionsProps> = ({
+  topicId,
+  onMerged,
+  className = ''
+}) => {
+  const [suggestions, setSuggestions] = useState<SubjectMergeSuggestion[]>([]);
+  const [busyPair, setBusyPair] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setSuggestions([]);
+    setError(null);
+
+    topicAnalysisService.getMergeSuggestions(topicId).then(response => {
+      if (!cancelled && response.success && response.data) {
+        setSuggestions(response.data.suggestions);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [topicId]);
+
+  // The background scan pushes fresh suggestions whenever subjects change
+  useEffect(() => {
+    if (!topicId || !window.electronAPI) return;
+
+    const unsub = window.electronAPI.on('topicAnalysis:mergeSuggestions', (data: { topicId: string; suggestions: SubjectMergeSuggestion[] }) => {
+      if (data.topicId === topicId) {
+        setSuggestions(data.suggestions);
+      }
+    });
+    return () => {
+      if (unsub) unsub();
+    };
+  }, [topicId]);
+
+  const pairKey = (suggestion: SubjectMergeSuggestion) => `${suggestion.keepId}|${suggestion.mergeId}`;
+
+  const removeSuggestion = (suggestion: SubjectMergeSuggestion) => {
+    setSuggestions(current => current.filter(s => pairKey(s) !== pairKey(suggestion)));
+  };
+
+  const handleMerge = async (suggestion: SubjectMergeSuggestion) => {
+    console.log('[MergeSuggestions] 🔀 Merging', suggestion.mergeId, 'into', suggestion.keepId);
+    setBusyPair(pairKey(suggestion));
+    setError(null);
+
+    const response = await topicAnalysisService.mergeSubjects({
+      topicId,
+      subjectId1: suggestion.keepId,
+      subjectId2: suggestion.mergeId
+    });
+
+    setBusyPair(null);
+    if (response.success) {
+      removeSuggestion(suggestion);
+      onMerged?.();
+    } else {
+      setError(response.error || 'Failed to merge subjects');
+    }
+  };
+
+  const handleDismiss = async (suggestion: SubjectMergeSuggestion) => {
+    console.log('[MergeSuggestions] 🙈 Dismissing', suggestion.keepId, suggestion.mergeId);
+    removeSuggestion(suggestion);
+    await topicAnalysisService.dismissMergeSuggestion(topicId, suggestion.keepId, suggestion.mergeId);
+  };
+
+  if (suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className={className}>
+      <p className="text-xs font-medium text-gray-500 mb-2">Possible duplicates</p>
+      <div className="space-y-2">
+        {suggestions.map((suggestion) => {
+          const busy = busyPair === pairKey(suggestion);
+          return (
+            <div key={pairKey(suggestion)} className="p-2 rounded border border-amber-200 bg-amber-50">
+              <div className="flex flex-wrap items-center gap-1 text-xs">
+                {suggestion.mergeKeywords.map((keyword) => (
+                  <Badge key={`merge-${keyword}`} variant="outline" className="text-xs">
+                    {keyword}
+                  </Badge>
+                ))}
+                <span className="text-gray-500 mx-1">→</span>
+                {suggestion.keepKeywords.map((keyword) => (
+                  <Badge key={`keep-${keyword}`} variant="default" className="text-xs">
+                    {keyword}
+                  </Badge>
+                ))}
+              </div>
+              <div className="flex items-center justify-between mt-2">
+                <span className="text-xs text-gray-500">
+                  {Math.round(suggestion.score * 100)}% similar
+                  {' • '}
+                  {suggestion.mergeMessageCount + suggestion.keepMessageCount} messages
+                </span>
+                <div className="flex gap-1">
+                  <Button
+                    onClick={() => handleMerge(suggestion)}
+                    size="sm"
+                    variant="outline"
+                    className="h-7"
+                    disabled={busy}
+                  >
+                    {busy ? <Loader2 className="w-3 h-3 animate-spin" /> : <Merge className="w-3 h-3" />}
+                    <span className="ml-1">Merge</span>
+                  </Button>
+                  <Button
+                    onClick={() => handleDismiss(suggestion)}
+                    size="sm"
+                    variant="ghost"
+                    className="h-7"
+                    disabled={busy}
+                    title="Keep both subjects"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      {error && <p className="text-xs text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
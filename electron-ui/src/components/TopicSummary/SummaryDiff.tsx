@@ -0,0 +1,94 @@
+/**
+ * SummaryDiff Component
+ * Word-level changes between two summary versions, with the reason each version was created
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Loader2 } from 'lucide-react';
+import { topicAnalysisService } from '../../services/topic-analysis-service.js';
+import type { DiffSummariesResponse } from '../../types/topic-analysis.js';
+
+interface SummaryDiffProps {
+  topicId: string;
+  fromVersion: number;
+  toVersion?: number; // Current version if omitted
+  className?: string;
+}
+
+export const SummaryDiff: React.FC<SummaryDiffProps> = ({
+  topicId,
+  fromVersion,
+  toVersion,
+  className = ''
+}) => {
+  const [diff, setDiff] = useState<DiffSummariesResponse['data'] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setError(null);
+
+    topicAnalysisService.diffSummaries({ topicId, fromVersion, toVersion }).then(response => {
+      if (cancelled) return;
+      if (response.success && response.data) {
+        setDiff(response.data);
+      } else {
+        setDiff(null);
+        setError(response.error || 'Failed to compare versions');
+      }
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [topicId, fromVersion, toVersion]);
+
+  if (loading) {
+    return (
+      <div className={`flex items-center gap-2 text-xs text-gray-500 ${className}`}>
+        <Loader2 className="w-3 h-3 animate-spin" />
+        Comparing versions...
+      </div>
+    );
+  }
+
+  if (error || !diff) {
+    return <p className={`text-xs text-red-600 ${className}`}>{error}</p>;
+  }
+
+  return (
+    <div className={className}>
+      <div className="space-y-1 text-xs text-gray-600 mb-2">
+        <div>
+          <span className="font-medium">v{diff.from.version}:</span>{' '}
+          {diff.from.changeReason || 'No reason recorded'}
+        </div>
+        <div>
+          <span className="font-medium">v{diff.to.version}:</span>{' '}
+          {diff.to.changeReason || 'No reason recorded'}
+        </div>
+      </div>
+
+      <p className="text-sm leading-relaxed whitespace-pre-wrap">
+        {diff.segments.map((segment, index) => {
+          if (segment.type === 'added') {
+            return <span key={index} className="bg-green-100 text-green-800">{segment.text}</span>;
+          }
+          if (segment.type === 'removed') {
+            return <span key={index} className="bg-red-100 text-red-700 line-through">{segment.text}</span>;
+          }
+          return <span key={index}>{segment.text}</span>;
+        })}
+      </p>
+
+      <div className="mt-2 flex gap-3 text-xs text-gray-500">
+        <span className="text-green-600">+{diff.added} words</span>
+        <span className="text-red-600">-{diff.removed} words</span>
+        <span>{diff.unchanged} unchanged</span>
+      </div>
+    </div>
+  );
+};
@@ -7,13 +7,16 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card.js';
 import { Button } from '../ui/button.js';
 import { Badge } from '../ui/badge.js';
-import { GitBranch, Clock, ChevronRight, Eye, EyeOff, FileText } from 'lucide-react';
+import { GitBranch, Clock, ChevronRight, Eye, EyeOff, FileText, RotateCcw } from 'lucide-react';
+import { SummaryDiff } from './SummaryDiff.js';
+import { topicAnalysisService } from '../../services/topic-analysis-service.js';
 import type { Summary, GetSummaryResponse } from '../../types/topic-analysis.js';
 
 interface SummaryHistoryProps {
   topicId: string;
   currentVersion?: number;
   onVersionSelect?: (version: number) => void;
+  onRestored?: (summary: Summary) => void;
   className?: string;
 }
 
@@ -21,6 +24,7 @@ export const SummaryHistory: React.FC<SummaryHistoryProps> = ({
   topicId,
   currentVersion,
   onVersionSelect,
+  onRestored,
   className = ''
 }) => {
   const [history, setHistory] = useState<Summary[]>([]);
@@ -29,6 +33,7 @@ export const SummaryHistory: React.FC<SummaryHistoryProps> = ({
   const [expandedVersions, setExpandedVersions] = useState<Set<number>>(new Set());
   const [compareMode, setCompareMode] = useState(false);
   const [compareVersions, setCompareVersions] = useState<[number | null, number | null]>([null, null]);
+  const [restoring, setRestoring] = useState<number | null>(null);
 
   useEffect(() => {
     loadHistory();
@@ -99,6 +104,21 @@ export const SummaryHistory: React.FC<SummaryHistoryProps> = ({
     }
   };
 
+  const restoreVersion = async (version: number) => {
+    setRestoring(version);
+    setError(null);
+
+    const response = await topicAnalysisService.restoreSummary({ topicId, version });
+
+    setRestoring(null);
+    if (response.success && response.data) {
+      onRestored?.(response.data.summary);
+      await loadHistory();
+    } else {
+      setError(response.error || 'Failed to restore version');
+    }
+  };
+
   const formatDate = (timestamp: number) => {
     const date = new Date(timestamp);
     return date.toLocaleDateString() + ' ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
@@ -158,6 +178,12 @@ export const SummaryHistory: React.FC<SummaryHistoryProps> = ({
           {/* Differences */}
           <div className="mt-4 pt-3 border-t">
             <p className="text-xs font-medium text-gray-500 mb-2">Changes</p>
+            <SummaryDiff
+              topicId={topicId}
+              fromVersion={Math.min(v1.version, v2.version)}
+              toVersion={Math.max(v1.version, v2.version)}
+              className="mb-3"
+            />
             <div className="space-y-1 text-xs">
               {Math.abs(v2.keywords.length - v1.keywords.length) > 0 && (
                 <div>
@@ -334,17 +360,35 @@ export const SummaryHistory: React.FC<SummaryHistoryProps> = ({
                       </div>
                     )}
 
-                    {!isCurrent && onVersionSelect && (
-                      <Button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onVersionSelect(summary.version);
-                        }}
-                        size="sm"
-                        className="mt-3"
-                      >
-                        Load This Version
-                      </Button>
+                    {!isCurrent && (
+                      <div className="mt-3 flex gap-2">
+                        {onVersionSelect && (
+                          <Button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              onVersionSelect(summary.version);
+                            }}
+                            size="sm"
+                          >
+                            Load This Version
+                          </Button>
+                        )}
+                        {index > 0 && (
+                          <Button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              restoreVersion(summary.version);
+                            }}
+                            size="sm"
+                            variant="outline"
+                            disabled={restoring !== null}
+                            title="Create a new version with this content"
+                          >
+                            <RotateCcw className="w-4 h-4 mr-1" />
+                            {restoring === summary.version ? 'Restoring...' : 'Restore This Version'}
+                          </Button>
+                        )}
+                      </div>
                     )}
                   </div>
                 )}
@@ -7,16 +7,21 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card.js';
 import { Badge } from '../ui/badge.js';
 import { Button } from '../ui/button.js';
-import { RefreshCw, History, ChevronDown, ChevronUp, Loader2, Sparkles } from 'lucide-react';
+import { RefreshCw, History, ChevronDown, ChevronUp, Loader2, Sparkles, RotateCcw } from 'lucide-react';
 import { KeywordCloud } from './KeywordCloud.js';
+import { MergeSuggestions } from './MergeSuggestions.js';
+import { SummaryDiff } from './SummaryDiff.js';
+import { AnalysisProgress } from './AnalysisProgress.js';
+import { topicAnalysisService } from '../../services/topic-analysis-service.js';
 import { KeywordDetailPanel } from '../KeywordDetail/KeywordDetailPanel.js';
+import { useAnalysisJob } from '../../hooks/useAnalysisJob.js';
 import type { Summary, GetSummaryResponse } from '../../types/topic-analysis.js';
 
 interface TopicSummaryProps {
   topicId: string;
   onRefresh?: () => void;
   className?: string;
-  messages?: any[]; // Pass messages for analysis
+  messages?: any[]; // Only counted - analysis reads the topic's messages itself
 }
 
 export const TopicSummary: React.FC<TopicSummaryProps> = ({
@@ -28,16 +33,21 @@ export const TopicSummary: React.FC<TopicSummaryProps> = ({
   const [summary, setSummary] = useState<Summary | null>(null);
   const [history, setHistory] = useState<Summary[]>([]);
   const [loading, setLoading] = useState(false);
-  const [analyzing, setAnalyzing] = useState(false);
+  const [queueing, setQueueing] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showHistory, setShowHistory] = useState(false);
   const [selectedVersion, setSelectedVersion] = useState<number | null>(null);
   const [hasAnalyzed, setHasAnalyzed] = useState(false);
+  const [restoring, setRestoring] = useState(false);
 
   // Keyword detail panel state
   const [view, setView] = useState<'summary' | 'keyword-detail'>('summary');
   const [selectedKeyword, setSelectedKeyword] = useState<string | null>(null);
 
+  // Analysis runs in the background; reload once it is done
+  const analysisJob = useAnalysisJob(topicId, () => loadSummary());
+  const analyzing = queueing || analysisJob.active;
+
   // Auto-analyze on first mount if we have messages
   useEffect(() => {
     if (!hasAnalyzed && messages.length >= 5) {
@@ -88,7 +98,7 @@ export const TopicSummary: React.FC<TopicSummaryProps> = ({
 
   const analyzeMessages = async (forceReanalysis: boolean = false) => {
     console.log('[TopicSummary] 🤖 Analyzing messages for topic:', topicId);
-    setAnalyzing(true);
+    setQueueing(true);
     setError(null);
 
     try {
@@ -96,24 +106,16 @@ export const TopicSummary: React.FC<TopicSummaryProps> = ({
         'topicAnalysis:analyzeMessages',
         {
           topicId,
-          messages: messages.map(m => ({
-            id: m.id,
-            content: m.content || m.text,
-            sender: m.sender || m.author,
-            timestamp: m.timestamp || Date.now()
-          })),
           forceReanalysis
         }
       );
 
       if (response.success) {
-        console.log('[TopicSummary] ✅ Analysis complete:', {
-          subjects: response.data?.subjects?.length || 0,
-          keywords: response.data?.keywords?.length || 0
-        });
-
-        // Reload summary after analysis
-        await loadSummary();
+        // Progress and completion arrive as job events
+        console.log('[TopicSummary] ✅ Analysis queued:', response.data?.job?.id);
+        if (response.data?.job) {
+          analysisJob.track(response.data.job);
+        }
       } else {
         console.error('[TopicSummary] ❌ Analysis failed:', response.error);
         setError(response.error || 'Analysis failed');
@@ -122,7 +124,7 @@ export const TopicSummary: React.FC<TopicSummaryProps> = ({
       console.error('[TopicSummary] ❌ Error analyzing messages:', err);
       setError('Failed to analyze messages');
     } finally {
-      setAnalyzing(false);
+      setQueueing(false);
     }
   };
 
@@ -145,6 +147,26 @@ export const TopicSummary: React.FC<TopicSummaryProps> = ({
     loadSummary(version);
   };
 
+  const handleBackToCurrent = () => {
+    setSelectedVersion(null);
+    loadSummary();
+  };
+
+  const handleRestore = async (version: number) => {
+    console.log('[TopicSummary] ⏪ Restoring version:', version, 'for topic:', topicId);
+    setRestoring(true);
+
+    const response = await topicAnalysisService.restoreSummary({ topicId, version });
+
+    setRestoring(false);
+    if (response.success) {
+      setSelectedVersion(null);
+      await loadSummary();
+    } else {
+      setError(response.error || 'Failed to restore version');
+    }
+  };
+
   const toggleHistory = () => {
     console.log('[TopicSummary] 📜 Toggling history view:', !showHistory);
     setShowHistory(!showHistory);
@@ -222,6 +244,12 @@ export const TopicSummary: React.FC<TopicSummaryProps> = ({
         <CardContent className="p-4 text-center text-gray-500">
           <Sparkles className="w-8 h-8 mx-auto mb-3 text-gray-400" />
           <p>No summary available yet</p>
+          <AnalysisProgress
+            job={analysisJob.job}
+            onRetry={analysisJob.retry}
+            onCancel={analysisJob.cancel}
+            className="mt-3 text-left"
+          />
           {messages.length >= 2 ? (
             <>
               <p className="text-sm mt-2 mb-3">Click Update to analyze the conversation</p>
@@ -252,6 +280,10 @@ export const TopicSummary: React.FC<TopicSummaryProps> = ({
     );
   }
 
+  // An older version is shown when picked from the history
+  const latestVersion = history.length > 0 ? Math.max(...history.map(h => h.version)) : summary.version;
+  const viewingOldVersion = summary.version < latestVersion;
+
   return (
     <Card className={className}>
       <CardHeader className="pb-3">
@@ -306,11 +338,46 @@ export const TopicSummary: React.FC<TopicSummaryProps> = ({
       </CardHeader>
 
       <CardContent className="pt-0">
+        <AnalysisProgress
+          job={analysisJob.job}
+          onRetry={analysisJob.retry}
+          onCancel={analysisJob.cancel}
+          className="mb-3"
+        />
+
         {/* Current Summary */}
         <div className="prose prose-sm max-w-none">
           <p className="text-gray-700 leading-relaxed">{summary.content}</p>
         </div>
 
+        {/* Changes made since the displayed older version */}
+        {viewingOldVersion && (
+          <div className="mt-4 pt-3 border-t">
+            <p className="text-xs font-medium text-gray-500 mb-2">
+              Changes from version {summary.version} to current (version {latestVersion})
+            </p>
+            <SummaryDiff topicId={topicId} fromVersion={summary.version} toVersion={latestVersion} />
+            <div className="mt-3 flex gap-2">
+              <Button
+                onClick={() => handleRestore(summary.version)}
+                size="sm"
+                disabled={restoring || analyzing}
+                title="Create a new version with this content"
+              >
+                {restoring ? (
+                  <Loader2 className="w-4 h-4 mr-1 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-4 h-4 mr-1" />
+                )}
+                Restore this version
+              </Button>
+              <Button onClick={handleBackToCurrent} size="sm" variant="outline" disabled={restoring}>
+                Back to current
+              </Button>
+            </div>
+          </div>
+        )}
+
         {/* Keywords - Using KeywordCloud for clickable keywords */}
         {summary.keywords && summary.keywords.length > 0 && (
           <div className="mt-4 pt-3 border-t">
@@ -323,6 +390,9 @@ export const TopicSummary: React.FC<TopicSummaryProps> = ({
           </div>
         )}
 
+        {/* Near-duplicate subjects found in the background */}
+        <MergeSuggestions topicId={topicId} onMerged={loadSummary} className="mt-4 pt-3 border-t" />
+
         {/* Change Reason */}
         {summary.changeReason && (
           <div className="mt-3 p-2 bg-blue-50 rounded text-sm text-blue-700">
@@ -4,9 +4,12 @@
 
 export { TopicSummary } from './TopicSummary';
 export { SubjectList } from './SubjectList';
+export { MergeSuggestions } from './MergeSuggestions';
 export { KeywordCloud, KeywordList } from './KeywordCloud';
 export { SummaryHistory } from './SummaryHistory';
+export { SummaryDiff } from './SummaryDiff';
 export { WordCloudSettings } from './WordCloudSettings';
+export { AnalysisProgress } from './AnalysisProgress';
 
 // Re-export types for convenience
 export type {
@@ -24,5 +27,13 @@ export type {
   ExtractKeywordsRequest,
   ExtractKeywordsResponse,
   MergeSubjectsRequest,
-  MergeSubjectsResponse
+  MergeSubjectsResponse,
+  SubjectMergeSuggestion,
+  SplitSubjectRequest,
+  SplitSubjectResponse,
+  DiffSummariesRequest,
+  DiffSummariesResponse,
+  RestoreSummaryRequest,
+  RestoreSummaryResponse,
+  AnalysisJob
 } from '../../types/topic-analysis.js';
\ No newline at end of file
@@ -3,6 +3,8 @@ import { ChevronUp, ChevronDown, Sparkles, RefreshCw, Loader2 } from 'lucide-rea
 import { Button } from '@/components/ui/button'
 import { Card } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
+import { AnalysisProgress } from '../TopicSummary/AnalysisProgress.js'
+import { useAnalysisJob } from '../../hooks/useAnalysisJob.js'
 import type { Summary } from '../../types/topic-analysis.js'
 
 interface ChatContextProps {
@@ -21,7 +23,11 @@ export const ChatContext: React.FC<ChatContextProps> = ({
   const [expanded, setExpanded] = useState(false)
   const [summary, setSummary] = useState<Summary | null>(null)
   const [loading, setLoading] = useState(false)
-  const [analyzing, setAnalyzing] = useState(false)
+  const [queueing, setQueueing] = useState(false)
+
+  // Analysis runs in the background; reload once it is done
+  const analysisJob = useAnalysisJob(topicId, () => loadSummary())
+  const analyzing = queueing || analysisJob.active
 
   // Format summary content with better structure
   const formatSummaryContent = (content: string) => {
@@ -113,32 +119,28 @@ export const ChatContext: React.FC<ChatContextProps> = ({
 
   const handleAnalyze = async () => {
     console.log('[ChatContext] Generate Summary button clicked!')
-    setAnalyzing(true)
+    setQueueing(true)
     try {
       console.log('[ChatContext] Calling analyzeMessages with:', { topicId, messageCount: messages.length })
       const response = await window.electronAPI.invoke('topicAnalysis:analyzeMessages', {
         topicId,
-        messages: messages.map(m => ({
-          id: m.id,
-          content: m.content || m.text,
-          sender: m.sender || m.author,
-          timestamp: m.timestamp || Date.now()
-        })),
         forceReanalysis: true
       })
 
       console.log('[ChatContext] analyzeMessages response:', response)
 
       if (response.success) {
-        console.log('[ChatContext] Analysis successful, loading summary...')
-        await loadSummary()
+        // The summary is reloaded when the job reports done
+        if (response.data?.job) {
+          analysisJob.track(response.data.job)
+        }
       } else {
         console.error('[ChatContext] Analysis failed:', response.error)
       }
     } catch (err) {
       console.error('[ChatContext] Error analyzing:', err)
     } finally {
-      setAnalyzing(false)
+      setQueueing(false)
     }
   }
 
@@ -237,6 +239,12 @@ export const ChatContext: React.FC<ChatContextProps> = ({
               <p className="text-sm text-muted-foreground mb-2">
                 No summary available yet
               </p>
+              <AnalysisProgress
+                job={analysisJob.job}
+                onRetry={analysisJob.retry}
+                onCancel={analysisJob.cancel}
+                className="mb-2 text-left"
+              />
               <Button
                 size="sm"
                 onClick={handleAnalyze}
@@ -1,11 +1,15 @@
 import React, { useState, useRef, useEffect } from 'react'
-import { MessageSquare, ChevronLeft, ChevronRight, MoreHorizontal, Brain } from 'lucide-react'
+import { MessageSquare, ChevronLeft, ChevronRight, MoreHorizontal, Brain, Users, ChartGantt } from 'lucide-react'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu'
 
@@ -17,7 +21,23 @@ interface Subject {
   timestamp: number
 }
 
+// Topic with several AI participants answering in turn
+interface CouncilConfig {
+  topicId: string
+  modelIds: string[]
+  order: 'round-robin' | 'all-at-once' | 'moderator-picks'
+  moderatorModelId?: string
+  maxTurns: number
+}
+
+const COUNCIL_ORDER_LABELS: Record<CouncilConfig['order'], string> = {
+  'round-robin': 'Round-robin',
+  'all-at-once': 'All at once',
+  'moderator-picks': 'Moderator picks'
+}
+
 interface ChatHeaderProps {
+  conversationId?: string
   conversationName: string
   subjects: Subject[]
   messageCount: number
@@ -25,10 +45,13 @@ interface ChatHeaderProps {
   hasAI?: boolean
   onToggleSummary?: () => void
   showSummary?: boolean
+  onToggleTimeline?: () => void
+  showTimeline?: boolean
   className?: string
 }
 
 export const ChatHeader: React.FC<ChatHeaderProps> = ({
+  conversationId,
   conversationName,
   subjects,
   messageCount,
@@ -36,6 +59,8 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({
   hasAI = false,
   onToggleSummary,
   showSummary = false,
+  onToggleTimeline,
+  showTimeline = false,
   className = ''
 }) => {
   console.log('[ChatHeader] Rendering with:', { conversationName, subjects: subjects?.length || 0, hasAI, messageCount })
@@ -43,6 +68,33 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({
   const [showLeftChevron, setShowLeftChevron] = useState(false)
   const [showRightChevron, setShowRightChevron] = useState(false)
   const scrollContainerRef = useRef<HTMLDivElement>(null)
+  const [council, setCouncil] = useState<CouncilConfig | null>(null)
+
+  // Load the council configuration for AI topics with several models
+  useEffect(() => {
+    if (!hasAI || !conversationId || !window.electronAPI) {
+      setCouncil(null)
+      return
+    }
+
+    window.electronAPI.invoke('ai:getCouncil', { topicId: conversationId })
+      .then((result: any) => setCouncil(result?.success ? result.data : null))
+      .catch((error: any) => console.error('[ChatHeader] Failed to load council:', error))
+  }, [conversationId, hasAI])
+
+  const updateCouncil = async (update: Partial<CouncilConfig>) => {
+    if (!conversationId || !window.electronAPI) return
+    try {
+      const result = await window.electronAPI.invoke('ai:setCouncil', { topicId: conversationId, ...update })
+      if (result?.success) {
+        setCouncil(result.data)
+      } else {
+        console.error('[ChatHeader] Failed to update council:', result?.error)
+      }
+    } catch (error) {
+      console.error('[ChatHeader] Failed to update council:', error)
+    }
+  }
 
   // Check if scrolling is needed and update chevron visibility
   const checkScrollPosition = () => {
@@ -126,6 +178,55 @@ export const ChatHeader: React.FC<ChatHeaderProps> = ({
             </Button>
           )}
 
+          {/* Subject Timeline Button - once there are subjects to show */}
+          {onToggleTimeline && subjects && subjects.length > 0 && (
+            <Button
+              variant={showTimeline ? "default" : "ghost"}
+              size="icon"
+              className="h-8 w-8"
+              onClick={onToggleTimeline}
+              title="Subject timeline"
+            >
+              <ChartGantt className="h-4 w-4" />
+            </Button>
+          )}
+
+          {/* Council turn order - only for topics with several AI participants */}
+          {council && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button variant="ghost" size="icon" className="h-8 w-8" title="AI council">
+                  <Users className="h-4 w-4" />
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuLabel>Turn order ({council.maxTurns} replies max)</DropdownMenuLabel>
+                <DropdownMenuRadioGroup
+                  value={council.order}
+                  onValueChange={(order) => updateCouncil({ order: order as CouncilConfig['order'] })}
+                >
+                  {Object.entries(COUNCIL_ORDER_LABELS).map(([order, label]) => (
+                    <DropdownMenuRadioItem key={order} value={order}>{label}</DropdownMenuRadioItem>
+                  ))}
+                </DropdownMenuRadioGroup>
+                {council.order === 'moderator-picks' && (
+                  <>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuLabel>Moderator</DropdownMenuLabel>
+                    <DropdownMenuRadioGroup
+                      value={council.moderatorModelId || council.modelIds[0]}
+                      onValueChange={(moderatorModelId) => updateCouncil({ moderatorModelId })}
+                    >
+                      {council.modelIds.map(modelId => (
+                        <DropdownMenuRadioItem key={modelId} value={modelId}>{modelId}</DropdownMenuRadioItem>
+                      ))}
+                    </DropdownMenuRadioGroup>
+                  </>
+                )}
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
+
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="ghost" size="icon" className="h-8 w-8">
@@ -8,7 +8,15 @@
 import React, { useState, useCallback } from 'react';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
-import { Copy, ThumbsUp, ThumbsDown, Check } from 'lucide-react';
+import { Copy, ThumbsUp, ThumbsDown, Check, RefreshCw, ChevronLeft, ChevronRight } from 'lucide-react';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import './EnhancedMessageBubble.css';
 import './FormattedMessageContent.css';
 import { MessageContextMenu } from './MessageContextMenu';
@@ -60,6 +68,11 @@ export interface EnhancedMessageData {
 
   // Assertion certificate
   assertionCertificate?: string;
+
+  // Alternative AI answers to the same prompt
+  alternativeIndex?: number; // 1-based position of the displayed answer
+  alternativeCount?: number;
+  alternativeModel?: string; // Model that wrote the displayed answer
 }
 
 export interface EnhancedMessageBubbleProps {
@@ -69,6 +82,11 @@ export interface EnhancedMessageBubbleProps {
   onDownloadAttachment?: (attachmentId: string) => void;
   theme?: 'light' | 'dark';
   attachmentDescriptors?: Map<string, any>; // Added to pass attachment blob data
+  isStreaming?: boolean; // Partial AI response still being generated
+  onRegenerate?: (messageId: string, modelId?: string) => void;
+  regenerateModels?: Array<{ id: string; name: string }>;
+  isRegenerating?: boolean;
+  onSelectAlternative?: (messageId: string, index: number) => void;
 }
 
 // Subject hashtag chip component
@@ -376,7 +394,12 @@ export const EnhancedMessageBubble: React.FC<EnhancedMessageBubbleProps> = ({
   onAttachmentClick,
   onDownloadAttachment,
   theme = 'dark',
-  attachmentDescriptors
+  attachmentDescriptors,
+  isStreaming = false,
+  onRegenerate,
+  regenerateModels = [],
+  isRegenerating = false,
+  onSelectAlternative
 }) => {
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null);
   const [copied, setCopied] = useState(false);
@@ -491,7 +514,7 @@ export const EnhancedMessageBubble: React.FC<EnhancedMessageBubbleProps> = ({
   return (
     <>
       <div
-        className={`enhanced-message-bubble ${message.isOwn ? 'own' : 'other'} ${theme} ${hasWideContent ? 'has-wide-content' : ''}`}
+        className={`enhanced-message-bubble ${message.isOwn ? 'own' : 'other'} ${theme} ${hasWideContent ? 'has-wide-content' : ''} ${isStreaming ? 'streaming' : ''}`}
         onContextMenu={handleContextMenu}
       >
         <div className="message-header">
@@ -534,7 +557,7 @@ export const EnhancedMessageBubble: React.FC<EnhancedMessageBubbleProps> = ({
       
       <div className="message-content">
         {/* Message actions in upper right corner for non-own messages */}
-        {!message.isOwn && (
+        {!message.isOwn && !isStreaming && (
           <div className="message-actions-top-right">
             <button
               onClick={handleCopy}
@@ -565,6 +588,35 @@ export const EnhancedMessageBubble: React.FC<EnhancedMessageBubbleProps> = ({
             >
               <ThumbsDown size={14} fill={disliked ? 'currentColor' : 'none'} />
             </button>
+            {onRegenerate && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <button
+                    className="action-button-top"
+                    title="Regenerate answer"
+                    disabled={isRegenerating}
+                  >
+                    <RefreshCw size={14} className={isRegenerating ? 'animate-spin' : ''} />
+                  </button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent align="end">
+                  <DropdownMenuItem onClick={() => onRegenerate(message.id)}>
+                    Regenerate
+                  </DropdownMenuItem>
+                  {regenerateModels.length > 0 && (
+                    <>
+                      <DropdownMenuSeparator />
+                      <DropdownMenuLabel>Regenerate with</DropdownMenuLabel>
+                      {regenerateModels.map((model) => (
+                        <DropdownMenuItem key={model.id} onClick={() => onRegenerate(message.id, model.id)}>
+                          {model.name}
+                        </DropdownMenuItem>
+                      ))}
+                    </>
+                  )}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
           </div>
         )}
 
@@ -586,6 +638,7 @@ export const EnhancedMessageBubble: React.FC<EnhancedMessageBubbleProps> = ({
                 <ReactMarkdown remarkPlugins={[remarkGfm]}>
                   {message.text}
                 </ReactMarkdown>
+                {isStreaming && <span className="streaming-cursor" aria-hidden="true" />}
               </div>
             ) : (
               <div style={{color: 'red'}}>[No message text]</div>
@@ -623,6 +676,27 @@ export const EnhancedMessageBubble: React.FC<EnhancedMessageBubbleProps> = ({
           
           {/* Timestamp and checkmarks in bottom right of bubble */}
           <div className="flex items-end gap-1 text-xs opacity-60 shrink-0 ml-2 mr-1">
+            {message.alternativeCount && message.alternativeCount > 1 && message.alternativeIndex && (
+              <span className="alternative-nav" title={message.alternativeModel}>
+                <button
+                  className="alternative-nav-button"
+                  onClick={() => onSelectAlternative?.(message.id, message.alternativeIndex! - 1)}
+                  disabled={!onSelectAlternative || message.alternativeIndex <= 1}
+                  title="Previous answer"
+                >
+                  <ChevronLeft size={12} />
+                </button>
+                <span className="text-[10px]">{message.alternativeIndex}/{message.alternativeCount}</span>
+                <button
+                  className="alternative-nav-button"
+                  onClick={() => onSelectAlternative?.(message.id, message.alternativeIndex! + 1)}
+                  disabled={!onSelectAlternative || message.alternativeIndex >= message.alternativeCount}
+                  title="Next answer"
+                >
+                  <ChevronRight size={12} />
+                </button>
+              </span>
+            )}
             <span className="text-[10px]">
               {message.timestamp.toLocaleTimeString('en-US', {
                 hour: 'numeric',
@@ -38,6 +38,8 @@ export interface EnhancedMessageInputProps {
   placeholder?: string;
   disabled?: boolean;
   theme?: 'light' | 'dark';
+  isGenerating?: boolean;       // An AI response is in flight for this chat
+  onStopGeneration?: () => void;
 }
 
 // Subject hashtag extractor (simplified web version)
@@ -248,7 +250,9 @@ export const EnhancedMessageInput: React.FC<EnhancedMessageInputProps> = ({
   onHashtagClick,
   placeholder = "Type a message...",
   disabled = false,
-  theme = 'light'
+  theme = 'light',
+  isGenerating = false,
+  onStopGeneration
 }) => {
   const [messageText, setMessageText] = useState('');
   const [attachments, setAttachments] = useState<EnhancedAttachment[]>([]);
@@ -580,15 +584,25 @@ export const EnhancedMessageInput: React.FC<EnhancedMessageInputProps> = ({
           rows={1}
         />
         
-        {/* Send button */}
-        <button
-          className={`send-button ${canSend ? 'active' : ''}`}
-          onClick={handleSend}
-          disabled={!canSend}
-          title="Send message"
-        >
-          {isUploading ? '⏳' : '➤'}
-        </button>
+        {/* Stop button while the AI is answering, send button otherwise */}
+        {isGenerating && onStopGeneration ? (
+          <button
+            className="send-button stop-button active"
+            onClick={onStopGeneration}
+            title="Stop generating"
+          >
+            ■
+          </button>
+        ) : (
+          <button
+            className={`send-button ${canSend ? 'active' : ''}`}
+            onClick={handleSend}
+            disabled={!canSend}
+            title="Send message"
+          >
+            {isUploading ? '⏳' : '➤'}
+          </button>
+        )}
       </div>
       
       {isDragOver && (
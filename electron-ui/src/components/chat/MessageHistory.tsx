@@ -1,10 +1,11 @@
 /**
  * MessageHistory Component
  *
- * Displays version history of edited and retracted messages
+ * Displays version history of edited and retracted messages.
+ * Opened from a search result, it scrolls to the newest version matching the query.
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { EnhancedMessageData } from './EnhancedMessageBubble';
 import './MessageHistory.css';
 
@@ -16,17 +17,31 @@ export interface MessageHistoryProps {
   messageId: string;
   onClose: () => void;
   theme?: 'light' | 'dark';
+  highlightQuery?: string; // Search query whose matching version is shown
 }
 
+// Newest version whose text contains a term of the query, else the newest
+const findMatchingVersion = (versions: MessageVersion[], query: string): number | undefined => {
+  const terms = query.toLowerCase().split(/\s+/).filter(term => term.length > 1);
+  const match = [...versions].reverse().find(version => {
+    const text = (version.text || '').toLowerCase();
+    return terms.some(term => text.includes(term));
+  });
+  return (match || versions[versions.length - 1])?.version;
+};
+
 export const MessageHistory: React.FC<MessageHistoryProps> = ({
   messageId,
   onClose,
-  theme = 'dark'
+  theme = 'dark',
+  highlightQuery
 }) => {
   const [versions, setVersions] = useState<MessageVersion[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [selectedVersions, setSelectedVersions] = useState<Set<number>>(new Set([1]));
+  const [highlightedVersion, setHighlightedVersion] = useState<number | undefined>(undefined);
+  const versionRefs = useRef<Map<number, HTMLDivElement>>(new Map());
 
   useEffect(() => {
     loadVersionHistory();
@@ -46,6 +61,9 @@ export const MessageHistory: React.FC<MessageHistoryProps> = ({
         if (result.data.length > 1) {
           setSelectedVersions(new Set([1, result.data.length]));
         }
+        if (highlightQuery) {
+          setHighlightedVersion(findMatchingVersion(result.data, highlightQuery));
+        }
       } else {
         setError(result.error || 'Failed to load version history');
       }
@@ -57,6 +75,12 @@ export const MessageHistory: React.FC<MessageHistoryProps> = ({
     }
   };
 
+  // Jump to the version a search result matched
+  useEffect(() => {
+    if (loading || highlightedVersion === undefined) return;
+    versionRefs.current.get(highlightedVersion)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [loading, highlightedVersion]);
+
   const toggleVersionSelection = (version: number) => {
     const newSelection = new Set(selectedVersions);
     if (newSelection.has(version)) {
@@ -92,11 +116,15 @@ export const MessageHistory: React.FC<MessageHistoryProps> = ({
 
   const renderVersion = (version: MessageVersion) => {
     const isSelected = selectedVersions.has(version.version || 1);
+    const isHighlighted = highlightedVersion === (version.version || 1);
 
     return (
       <div
         key={version.versionId}
-        className={`version-item ${isSelected ? 'selected' : ''} ${theme}`}
+        ref={element => {
+          if (element) versionRefs.current.set(version.version || 1, element);
+        }}
+        className={`version-item ${isSelected ? 'selected' : ''} ${isHighlighted ? 'highlighted' : ''} ${theme}`}
         onClick={() => toggleVersionSelection(version.version || 1)}
       >
         <div className="version-header">
@@ -0,0 +1,176 @@
+import React, { useState, useEffect } from 'react'
+import { Loader2, Paperclip, Bot, SlidersHorizontal } from 'lucide-react'
+import { Input } from '@/components/ui/input'
+import { Button } from '@/components/ui/button'
+import { ScrollArea } from '@/components/ui/scroll-area'
+import { lamaBridge, type MessageSearchResult } from '@/bridge/lama-bridge'
+
+interface MessageSearchPanelProps {
+  conversations: Array<{ id: string; name: string }>
+  currentUserId?: string
+  onSelectResult: (result: MessageSearchResult, query: string) => void
+}
+
+const selectClass = 'h-8 w-full rounded-md border bg-background px-2 text-xs'
+// Wait for a pause in typing before querying
+const SEARCH_DELAY_MS = 250
+
+/**
+ * Full-text search over the messages of all conversations (search:query).
+ * Best matches come first, newer before older; a click opens the
+ * conversation and the message's history at the matching version.
+ */
+export const MessageSearchPanel: React.FC<MessageSearchPanelProps> = ({ conversations, currentUserId, onSelectResult }) => {
+  const [query, setQuery] = useState('')
+  const [topicId, setTopicId] = useState('')
+  const [sender, setSender] = useState('')
+  const [from, setFrom] = useState('')
+  const [to, setTo] = useState('')
+  const [hasAttachment, setHasAttachment] = useState(false)
+  const [author, setAuthor] = useState<'any' | 'ai' | 'human'>('any')
+  const [showFilters, setShowFilters] = useState(false)
+  const [contacts, setContacts] = useState<Array<{ id: string; name: string }>>([])
+  const [results, setResults] = useState<MessageSearchResult[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    lamaBridge.getContacts()
+      .then(list => setContacts(list
+        .filter((contact: any) => contact.id)
+        .map((contact: any) => ({ id: contact.id, name: contact.displayName || contact.name || 'Unknown' }))))
+      .catch(err => console.error('[MessageSearchPanel] Failed to load contacts:', err))
+  }, [])
+
+  useEffect(() => {
+    const hasFilter = topicId || sender || from || to || hasAttachment || author !== 'any'
+    if (!query.trim() && !hasFilter) {
+      setResults([])
+      setError(null)
+      return
+    }
+
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      setLoading(true)
+      try {
+        const found = await lamaBridge.searchMessages({
+          query,
+          topicId: topicId || undefined,
+          sender: sender || undefined,
+          from: from ? new Date(`${from}T00:00:00`).getTime() : undefined,
+          to: to ? new Date(`${to}T23:59:59.999`).getTime() : undefined,
+          hasAttachment: hasAttachment || undefined,
+          isAI: author === 'any' ? undefined : author === 'ai'
+        })
+        if (!cancelled) {
+          setResults(found)
+          setError(null)
+        }
+      } catch (err) {
+        if (!cancelled) setError((err as Error).message)
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }, SEARCH_DELAY_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [query, topicId, sender, from, to, hasAttachment, author])
+
+  const conversationName = (id: string) => conversations.find(conv => conv.id === id)?.name || id
+  const senderName = (result: MessageSearchResult) => {
+    if (result.sender === currentUserId) return 'You'
+    return contacts.find(contact => contact.id === result.sender)?.name || (result.isAI ? 'AI' : 'Unknown')
+  }
+
+  return (
+    <div className="flex flex-col flex-1 min-h-0">
+      <div className="p-2 space-y-2 border-b border-border">
+        <div className="flex items-center gap-1">
+          <Input
+            autoFocus
+            placeholder="Search messages..."
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            className="h-8"
+          />
+          <Button
+            size="icon"
+            variant={showFilters ? 'secondary' : 'ghost'}
+            className="h-8 w-8 shrink-0"
+            title="Filters"
+            onClick={() => setShowFilters(!showFilters)}
+          >
+            <SlidersHorizontal className="h-4 w-4" />
+          </Button>
+        </div>
+
+        {showFilters && (
+          <div className="space-y-2 text-xs">
+            <select className={selectClass} value={topicId} onChange={(e) => setTopicId(e.target.value)}>
+              <option value="">All conversations</option>
+              {conversations.map(conv => (
+                <option key={conv.id} value={conv.id}>{conv.name}</option>
+              ))}
+            </select>
+            <select className={selectClass} value={sender} onChange={(e) => setSender(e.target.value)}>
+              <option value="">Anyone</option>
+              {currentUserId && <option value={currentUserId}>You</option>}
+              {contacts.filter(contact => contact.id !== currentUserId).map(contact => (
+                <option key={contact.id} value={contact.id}>{contact.name}</option>
+              ))}
+            </select>
+            <select className={selectClass} value={author} onChange={(e) => setAuthor(e.target.value as 'any' | 'ai' | 'human')}>
+              <option value="any">AI and human messages</option>
+              <option value="ai">AI messages only</option>
+              <option value="human">Human messages only</option>
+            </select>
+            <div className="flex items-center gap-1">
+              <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} className="h-8 text-xs" title="From" />
+              <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} className="h-8 text-xs" title="To" />
+            </div>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={hasAttachment} onChange={(e) => setHasAttachment(e.target.checked)} />
+              With attachments only
+            </label>
+          </div>
+        )}
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className="p-2 space-y-1">
+          {loading && (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          {error && <p className="text-xs text-destructive px-2">{error}</p>}
+          {!loading && !error && results.length === 0 && query.trim() && (
+            <p className="text-center py-8 text-sm text-muted-foreground">No messages found</p>
+          )}
+          {results.map(result => (
+            <div
+              key={result.messageId}
+              onClick={() => onSelectResult(result, query)}
+              className="p-2 rounded-lg cursor-pointer hover:bg-accent"
+            >
+              <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                <span className="truncate font-medium text-foreground">{conversationName(result.topicId)}</span>
+                <span className="shrink-0">{new Date(result.timestamp).toLocaleDateString()}</span>
+              </div>
+              <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                {result.isAI && <Bot className="h-3 w-3" />}
+                {result.hasAttachment && <Paperclip className="h-3 w-3" />}
+                <span className="truncate">{senderName(result)}</span>
+              </div>
+              <p className="text-sm line-clamp-2 break-words">{result.snippet}</p>
+            </div>
+          ))}
+        </div>
+      </ScrollArea>
+    </div>
+  )
+}
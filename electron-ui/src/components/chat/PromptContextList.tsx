@@ -0,0 +1,53 @@
+import React, { useState } from 'react'
+import { BookOpen, X } from 'lucide-react'
+import type { PromptContextItem } from '@/types/proposals'
+
+interface PromptContextListProps {
+  items: PromptContextItem[]
+  onRemove: (id: string) => Promise<void>
+}
+
+/**
+ * Context added to the AI's prompt for this conversation. Every AI reply gets it
+ * until it is removed here; hovering an item shows the text that is sent.
+ */
+export const PromptContextList: React.FC<PromptContextListProps> = ({ items, onRemove }) => {
+  const [removing, setRemoving] = useState<string | null>(null)
+
+  if (items.length === 0) return null
+
+  const remove = async (id: string) => {
+    setRemoving(id)
+    try {
+      await onRemove(id)
+    } catch (error) {
+      console.error('[PromptContextList] Failed to remove prompt context:', error)
+    } finally {
+      setRemoving(null)
+    }
+  }
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 px-4 py-1 text-xs text-muted-foreground">
+      <span>AI context:</span>
+      {items.map(item => (
+        <span
+          key={item.id}
+          className="flex items-center gap-1 rounded border bg-muted/40 px-2 py-0.5"
+          title={item.text}
+        >
+          <BookOpen className="h-3 w-3" />
+          <span className="max-w-[16rem] truncate">{item.label}</span>
+          <button
+            className="hover:text-foreground disabled:opacity-50"
+            onClick={() => remove(item.id)}
+            disabled={removing === item.id}
+            aria-label={`Remove ${item.label} from the AI context`}
+          >
+            <X className="h-3 w-3" />
+          </button>
+        </span>
+      ))}
+    </div>
+  )
+}
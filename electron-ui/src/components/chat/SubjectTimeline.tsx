@@ -0,0 +1,173 @@
+/**
+ * SubjectTimeline Component
+ *
+ * Draws each subject of a conversation as bands over its lifespan, with
+ * markers where summary versions were written. Clicking a band jumps the
+ * message list to that span.
+ */
+
+import React, { useState, useEffect, useMemo } from 'react'
+import { topicAnalysisService } from '@/services/topic-analysis-service'
+import { useAnalysisJob } from '@/hooks/useAnalysisJob'
+import type { Subject, SubjectTimeRange, Summary } from '../../types/topic-analysis.js'
+
+interface SubjectTimelineProps {
+  topicId: string
+  subjects: Subject[]
+  messages: Array<{ timestamp: Date | number | string }>
+  onSelectSpan: (span: SubjectTimeRange) => void
+  className?: string
+}
+
+interface TimelineRow {
+  subject: Subject
+  label: string
+  bands: Array<SubjectTimeRange & { left: number, width: number }>
+}
+
+const BAND_COLORS = [
+  'bg-blue-500/70 hover:bg-blue-500',
+  'bg-emerald-500/70 hover:bg-emerald-500',
+  'bg-amber-500/70 hover:bg-amber-500',
+  'bg-purple-500/70 hover:bg-purple-500',
+  'bg-rose-500/70 hover:bg-rose-500',
+  'bg-cyan-500/70 hover:bg-cyan-500'
+]
+
+// Narrowest band in percent, so single mentions stay clickable
+const MIN_BAND_WIDTH = 0.8
+
+const toTime = (value: Date | number | string) => new Date(value).getTime()
+
+const formatTime = (time: number) => new Date(time).toLocaleString(undefined, {
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit'
+})
+
+/**
+ * Place subject bands and summary markers on a common time axis spanning the
+ * messages and all subject ranges
+ */
+export function layoutTimeline(
+  subjects: Subject[],
+  messageTimes: number[],
+  summaryTimes: number[]
+): { start: number, end: number, rows: TimelineRow[], markers: Array<{ time: number, left: number }> } {
+  const rangeTimes = subjects.flatMap(subject => (subject.timeRanges || []).flatMap(range => [range.start, range.end]))
+  const times = [...messageTimes, ...rangeTimes].filter(Number.isFinite)
+  if (times.length === 0) {
+    return { start: 0, end: 0, rows: [], markers: [] }
+  }
+
+  const start = Math.min(...times)
+  const end = Math.max(...times)
+  const span = Math.max(end - start, 1)
+  const position = (time: number) => Math.min(100, Math.max(0, ((time - start) / span) * 100))
+
+  const rows = subjects
+    .filter(subject => subject.timeRanges && subject.timeRanges.length > 0)
+    .map(subject => ({
+      subject,
+      label: subject.name || subject.id,
+      bands: (subject.timeRanges || []).map(range => {
+        const left = position(range.start)
+        const width = Math.max(position(range.end) - left, MIN_BAND_WIDTH)
+        return { ...range, left: Math.min(left, 100 - width), width }
+      })
+    }))
+    // Subjects in the order they first came up
+    .sort((a, b) => Math.min(...a.bands.map(band => band.start)) - Math.min(...b.bands.map(band => band.start)))
+
+  const markers = summaryTimes
+    .filter(time => time >= start && time <= end)
+    .map(time => ({ time, left: position(time) }))
+
+  return { start, end, rows, markers }
+}
+
+export const SubjectTimeline: React.FC<SubjectTimelineProps> = ({
+  topicId,
+  subjects,
+  messages,
+  onSelectSpan,
+  className = ''
+}) => {
+  const [versions, setVersions] = useState<Summary[]>([])
+
+  const loadVersions = async () => {
+    const response = await topicAnalysisService.getSummary({ topicId, includeHistory: true })
+    if (response.success && response.data) {
+      setVersions(response.data.history || (response.data.current ? [response.data.current] : []))
+    }
+  }
+
+  useEffect(() => {
+    loadVersions()
+  }, [topicId])
+
+  // New summary versions come from background analysis
+  useAnalysisJob(topicId, () => loadVersions())
+
+  const timeline = useMemo(() => layoutTimeline(
+    subjects,
+    messages.map(message => toTime(message.timestamp)),
+    versions.map(version => version.createdAt)
+  ), [subjects, messages, versions])
+
+  const versionAt = (time: number) => versions.find(version => version.createdAt === time)
+
+  if (timeline.rows.length === 0) {
+    return (
+      <div className={`px-4 py-3 text-sm text-muted-foreground ${className}`}>
+        No subjects on the timeline yet
+      </div>
+    )
+  }
+
+  return (
+    <div className={`px-4 py-3 space-y-1 ${className}`}>
+      <div className="flex justify-between text-xs text-muted-foreground pl-[7.5rem]">
+        <span>{formatTime(timeline.start)}</span>
+        <span>{formatTime(timeline.end)}</span>
+      </div>
+
+      <div className="relative">
+        {timeline.rows.map((row, rowIndex) => (
+          <div key={row.subject.id} className="flex items-center gap-2 h-6">
+            <span className="w-28 shrink-0 truncate text-xs" title={`${row.label} – ${row.subject.messageCount} messages`}>
+              {row.label}
+            </span>
+            <div className="relative flex-1 h-3 rounded bg-muted">
+              {row.bands.map((band, bandIndex) => (
+                <button
+                  key={bandIndex}
+                  className={`absolute top-0 h-full rounded ${BAND_COLORS[rowIndex % BAND_COLORS.length]}`}
+                  style={{ left: `${band.left}%`, width: `${band.width}%` }}
+                  title={`${row.label}: ${formatTime(band.start)}${band.end > band.start ? ` – ${formatTime(band.end)}` : ''}`}
+                  onClick={() => onSelectSpan({ start: band.start, end: band.end })}
+                />
+              ))}
+            </div>
+          </div>
+        ))}
+
+        {/* Summary version boundaries, over the band area */}
+        <div className="pointer-events-none absolute inset-y-0 left-[7.5rem] right-0">
+          {timeline.markers.map(marker => (
+            <div
+              key={marker.time}
+              className="absolute inset-y-0 border-l border-dashed border-foreground/40"
+              style={{ left: `${marker.left}%` }}
+            >
+              <span className="absolute -top-4 -translate-x-1/2 text-[10px] text-muted-foreground">
+                v{versionAt(marker.time)?.version}
+              </span>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  )
+}
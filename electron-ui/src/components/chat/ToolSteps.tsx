@@ -0,0 +1,67 @@
+import React, { useState } from 'react'
+import { Wrench, Loader2, Check, X, Ban, ChevronDown, ChevronRight } from 'lucide-react'
+import type { ToolStep } from '@/bridge/lama-bridge'
+
+interface ToolStepsProps {
+  steps: ToolStep[]
+}
+
+/**
+ * Tool invocations of the AI reply in progress, one row per call.
+ * Rows expand to show the arguments and the (shortened) result.
+ */
+export const ToolSteps: React.FC<ToolStepsProps> = ({ steps }) => {
+  const [expanded, setExpanded] = useState<Set<string>>(new Set())
+
+  if (steps.length === 0) return null
+
+  const toggle = (id: string) => {
+    setExpanded(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) {
+        next.delete(id)
+      } else {
+        next.add(id)
+      }
+      return next
+    })
+  }
+
+  return (
+    <div className="flex flex-col gap-1 mb-2 ml-10 max-w-[70%]">
+      {steps.map(step => {
+        const isOpen = expanded.has(step.id)
+        return (
+          <div key={step.id} className="rounded border bg-muted/40 text-xs">
+            <button
+              className="flex w-full items-center gap-2 px-2 py-1 text-left text-muted-foreground hover:text-foreground"
+              onClick={() => toggle(step.id)}
+            >
+              {isOpen ? <ChevronDown className="h-3 w-3" /> : <ChevronRight className="h-3 w-3" />}
+              <Wrench className="h-3 w-3" />
+              <span className="font-mono truncate">{step.tool}</span>
+              <span className="ml-auto">
+                {step.status === 'running' && <Loader2 className="h-3 w-3 animate-spin" />}
+                {step.status === 'done' && <Check className="h-3 w-3 text-green-500" />}
+                {step.status === 'error' && <X className="h-3 w-3 text-red-500" />}
+                {step.status === 'denied' && <Ban className="h-3 w-3 text-muted-foreground" />}
+              </span>
+            </button>
+            {isOpen && (
+              <div className="border-t px-2 py-1 space-y-1">
+                <pre className="whitespace-pre-wrap break-all font-mono">
+                  {JSON.stringify(step.arguments, null, 2)}
+                </pre>
+                {(step.error || step.result) && (
+                  <pre className={`whitespace-pre-wrap break-all font-mono ${step.error ? 'text-red-500' : 'text-muted-foreground'}`}>
+                    {step.error || step.result}
+                  </pre>
+                )}
+              </div>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,95 @@
+/**
+ * useAnalysisJob Hook
+ * Follows the background analysis jobs of a topic
+ */
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { topicAnalysisService } from '../services/topic-analysis-service.js';
+import type { AnalysisJob } from '../types/topic-analysis';
+
+const isActive = (job: AnalysisJob) => job.state !== 'done' && job.state !== 'failed';
+
+/**
+ * The job to show: the unfinished one, otherwise the most recently updated
+ */
+function pickJob(jobs: AnalysisJob[]): AnalysisJob | null {
+  const active = jobs.filter(isActive);
+  const candidates = active.length > 0 ? active : jobs;
+  return candidates.reduce<AnalysisJob | null>(
+    (latest, job) => (!latest || job.updated > latest.updated ? job : latest),
+    null
+  );
+}
+
+export function useAnalysisJob(topicId: string, onDone?: (job: AnalysisJob) => void) {
+  const [job, setJob] = useState<AnalysisJob | null>(null);
+
+  // Keep the latest callback without resubscribing
+  const onDoneRef = useRef(onDone);
+  onDoneRef.current = onDone;
+
+  // Load jobs queued before the view opened, e.g. resumed after a restart
+  useEffect(() => {
+    if (!topicId) return;
+
+    let cancelled = false;
+    setJob(null);
+    topicAnalysisService.getAnalysisJobs(topicId).then(jobs => {
+      if (!cancelled) setJob(pickJob(jobs));
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [topicId]);
+
+  // Listen for progress events from backend
+  useEffect(() => {
+    if (!topicId || !window.electronAPI) return;
+
+    const unsub = window.electronAPI.on('topicAnalysis:jobProgress', (update: AnalysisJob) => {
+      if (update.topicId !== topicId) return;
+
+      setJob(current => {
+        // A finished job must not replace one that is still waiting
+        if (current && current.id !== update.id && isActive(current) && !isActive(update)) {
+          return current;
+        }
+        return update;
+      });
+
+      if (update.state === 'done') {
+        onDoneRef.current?.(update);
+      }
+    });
+    return () => {
+      if (unsub) unsub();
+    };
+  }, [topicId]);
+
+  const track = useCallback((queued: AnalysisJob) => setJob(queued), []);
+
+  const retry = useCallback(async () => {
+    if (!job) return;
+    const result = await topicAnalysisService.retryAnalysisJob(job.id);
+    if (!result.success) {
+      console.error('[useAnalysisJob] Retry failed:', result.error);
+    }
+  }, [job]);
+
+  const cancel = useCallback(async () => {
+    if (!job) return;
+    const result = await topicAnalysisService.cancelAnalysisJob(job.id);
+    if (!result.success) {
+      console.error('[useAnalysisJob] Cancel failed:', result.error);
+    }
+  }, [job]);
+
+  return {
+    job,
+    active: job ? isActive(job) : false,
+    track,
+    retry,
+    cancel
+  };
+}
@@ -0,0 +1,51 @@
+/**
+ * useKeywordTaxonomy Hook
+ *
+ * React hook for the user's keyword taxonomy
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import {
+  keywordTaxonomyService,
+  createTermMapper,
+  type KeywordTaxonomy,
+  EMPTY_KEYWORD_TAXONOMY
+} from '../services/keyword-taxonomy-service.js';
+
+export function useKeywordTaxonomy() {
+  const [taxonomy, setTaxonomy] = useState<KeywordTaxonomy>(EMPTY_KEYWORD_TAXONOMY);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Load taxonomy on mount
+  useEffect(() => {
+    keywordTaxonomyService.getTaxonomy()
+      .then(setTaxonomy)
+      .finally(() => setLoading(false));
+
+    // Subscribe to taxonomy changes
+    return keywordTaxonomyService.subscribe(setTaxonomy);
+  }, []);
+
+  const updateTaxonomy = useCallback(async (updates: Partial<KeywordTaxonomy>) => {
+    try {
+      setError(null);
+      // Taxonomy will be updated via subscription
+      return await keywordTaxonomyService.updateTaxonomy(updates);
+    } catch (err) {
+      console.error('[useKeywordTaxonomy] Error updating taxonomy:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update taxonomy');
+      throw err;
+    }
+  }, []);
+
+  const mapper = useMemo(() => createTermMapper(taxonomy), [taxonomy]);
+
+  return {
+    taxonomy,
+    mapper,
+    loading,
+    error,
+    updateTaxonomy
+  };
+}
@@ -5,12 +5,15 @@
  * Reference: /specs/019-above-the-chat/plan.md line 133
  */
 
-import { useState, useEffect, useCallback } from 'react';
+import { useState, useEffect, useCallback, useRef } from 'react';
 import type {
   Proposal,
   GetProposalsResponse,
   DismissProposalResponse,
   ShareProposalResponse,
+  ShareOptions,
+  ProposalPreview,
+  PromptContextItem,
 } from '../types/proposals';
 
 interface UseProposalsOptions {
@@ -31,8 +34,12 @@ interface UseProposalsResult {
   shareProposal: (
     proposalId: string,
     pastSubjectIdHash: string,
-    includeMessages?: boolean
+    options?: ShareOptions
   ) => Promise<ShareProposalResponse>;
+  loadPreview: (pastSubjectIdHash: string) => Promise<ProposalPreview>;
+  requestSourceAccess: (pastSubjectIdHash: string) => Promise<void>;
+  promptContext: PromptContextItem[];
+  removePromptContext: (id: string) => Promise<void>;
   refresh: () => Promise<void>;
 }
 
@@ -45,6 +52,8 @@ export function useProposals({
   const [currentIndex, setCurrentIndex] = useState<number>(0);
   const [loading, setLoading] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [promptContext, setPromptContext] = useState<PromptContextItem[]>([]);
+  const previews = useRef<Map<string, ProposalPreview>>(new Map());
 
   /**
    * Fetch proposals from IPC handler
@@ -171,7 +180,7 @@ export function useProposals({
     async (
       proposalId: string,
       pastSubjectIdHash: string,
-      includeMessages = false
+      options?: ShareOptions
     ): Promise<ShareProposalResponse> => {
       try {
         const response: ShareProposalResponse = await window.electronAPI.invoke(
@@ -180,11 +189,17 @@ export function useProposals({
             proposalId,
             topicId,
             pastSubjectIdHash,
-            includeMessages,
+            ...options,
           }
         );
 
         if (response.success) {
+          // Shared into the AI's prompt - listed until the user removes it
+          const added = response.sharedContent?.promptContext;
+          if (added) {
+            setPromptContext((prev) => [...prev, added]);
+          }
+
           // Remove shared proposal from local state (auto-dismissed)
           setProposals((prev) => prev.filter((p) => p.id !== proposalId));
 
@@ -206,6 +221,80 @@ export function useProposals({
     [topicId, proposals.length]
   );
 
+  /**
+   * Excerpts and summary fragment of a proposal's source, loaded once per subject
+   */
+  const loadPreview = useCallback(async (pastSubjectIdHash: string): Promise<ProposalPreview> => {
+    const cached = previews.current.get(pastSubjectIdHash);
+    if (cached) return cached;
+
+    if (!window.electronAPI) throw new Error('IPC not available');
+    const ipcResponse: any = await window.electronAPI.invoke('proposals:getPreview', {
+      pastSubjectIdHash,
+    });
+    if (!ipcResponse.success) {
+      throw new Error(ipcResponse.error || 'Failed to load preview');
+    }
+
+    previews.current.set(pastSubjectIdHash, ipcResponse.data);
+    return ipcResponse.data;
+  }, []);
+
+  /**
+   * Ask the contact who shared a proposal's subject for the source conversation
+   */
+  const requestSourceAccess = useCallback(async (pastSubjectIdHash: string) => {
+    if (!window.electronAPI) throw new Error('IPC not available');
+    const ipcResponse: any = await window.electronAPI.invoke('proposals:requestSourceAccess', {
+      pastSubjectIdHash,
+    });
+    if (!ipcResponse.success) {
+      throw new Error(ipcResponse.error || 'Failed to request access');
+    }
+
+    setProposals((prev) =>
+      prev.map((p) =>
+        p.pastSubject === pastSubjectIdHash && p.sharedBy
+          ? { ...p, sharedBy: { ...p.sharedBy, accessRequested: true } }
+          : p
+      )
+    );
+  }, []);
+
+  /**
+   * Context added to this topic's AI prompt, kept by the main process for the session
+   */
+  useEffect(() => {
+    setPromptContext([]);
+    if (!topicId || !window.electronAPI) return;
+
+    let cancelled = false;
+    window.electronAPI
+      .invoke('proposals:getPromptContext', { topicId })
+      .then((ipcResponse: any) => {
+        if (!cancelled && ipcResponse.success) {
+          setPromptContext(ipcResponse.data?.items || []);
+        }
+      })
+      .catch((err: any) => console.error('[useProposals] Error loading prompt context:', err));
+    return () => {
+      cancelled = true;
+    };
+  }, [topicId]);
+
+  /**
+   * Stop sending an item of prompt context with the AI's replies
+   */
+  const removePromptContext = useCallback(
+    async (id: string) => {
+      if (!window.electronAPI) throw new Error('IPC not available');
+      // Not found means it is gone already
+      await window.electronAPI.invoke('proposals:removePromptContext', { topicId, id });
+      setPromptContext((prev) => prev.filter((item) => item.id !== id));
+    },
+    [topicId]
+  );
+
   /**
    * Manually refresh proposals
    */
@@ -225,6 +314,10 @@ export function useProposals({
     previousProposal,
     dismissProposal,
     shareProposal,
+    loadPreview,
+    requestSourceAccess,
+    promptContext,
+    removePromptContext,
     refresh,
   };
 }
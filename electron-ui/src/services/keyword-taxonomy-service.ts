@@ -0,0 +1,146 @@
+/**
+ * Keyword Taxonomy Service
+ *
+ * Provides access to the user's keyword taxonomy (stop-words, synonym groups,
+ * pinned keywords) stored in Node.js via IPC
+ */
+
+export interface SynonymGroup {
+  canonical: string;
+  variants: string[];
+}
+
+export interface KeywordTaxonomy {
+  stopWords: string[];
+  synonymGroups: SynonymGroup[];
+  pinned: string[];
+}
+
+export const EMPTY_KEYWORD_TAXONOMY: KeywordTaxonomy = {
+  stopWords: [],
+  synonymGroups: [],
+  pinned: []
+};
+
+export interface TermMapper {
+  canonical: (term: string) => string;
+  isStopWord: (term: string) => boolean;
+  isPinned: (term: string) => boolean;
+}
+
+/**
+ * Lookup functions for a taxonomy, matching the rules the Node.js extractors apply:
+ * terms are compared lowercase, synonyms map to their canonical term and pinning
+ * wins over stop-words
+ */
+export function createTermMapper(taxonomy: KeywordTaxonomy): TermMapper {
+  const normalize = (term: string) => String(term || '').toLowerCase().trim();
+  const stopWords = new Set(taxonomy.stopWords.map(normalize));
+  const pinned = new Set(taxonomy.pinned.map(normalize));
+  const canonicalByVariant = new Map<string, string>();
+  for (const group of taxonomy.synonymGroups) {
+    for (const variant of group.variants) {
+      canonicalByVariant.set(normalize(variant), normalize(group.canonical));
+    }
+  }
+
+  const canonical = (term: string) => {
+    const normalized = normalize(term);
+    return canonicalByVariant.get(normalized) || normalized;
+  };
+  const isPinned = (term: string) => pinned.has(canonical(term));
+  const isStopWord = (term: string) =>
+    !isPinned(term) && (stopWords.has(normalize(term)) || stopWords.has(canonical(term)));
+
+  return { canonical, isStopWord, isPinned };
+}
+
+class KeywordTaxonomyService {
+  private taxonomy: KeywordTaxonomy | null = null;
+  private listeners: ((taxonomy: KeywordTaxonomy) => void)[] = [];
+
+  /**
+   * Get the current taxonomy, loading from backend if needed
+   */
+  async getTaxonomy(): Promise<KeywordTaxonomy> {
+    if (this.taxonomy) {
+      return this.taxonomy;
+    }
+
+    try {
+      if (!window.electronAPI) {
+        throw new Error('Electron API not available');
+      }
+      const result = await window.electronAPI.invoke('keywordTaxonomy:get');
+
+      if (result.success) {
+        this.taxonomy = result.data.taxonomy as KeywordTaxonomy;
+        return this.taxonomy;
+      } else {
+        console.error('[KeywordTaxonomyService] Failed to get taxonomy:', result.error);
+        return EMPTY_KEYWORD_TAXONOMY;
+      }
+    } catch (error) {
+      console.error('[KeywordTaxonomyService] Error getting taxonomy:', error);
+      return EMPTY_KEYWORD_TAXONOMY;
+    }
+  }
+
+  /**
+   * Update the taxonomy in backend and cache
+   */
+  async updateTaxonomy(updates: Partial<KeywordTaxonomy>): Promise<KeywordTaxonomy> {
+    try {
+      if (!window.electronAPI) {
+        throw new Error('Electron API not available');
+      }
+      const result = await window.electronAPI.invoke('keywordTaxonomy:update', { updates });
+
+      if (result.success) {
+        this.taxonomy = result.data.taxonomy as KeywordTaxonomy;
+        this.notifyListeners(this.taxonomy);
+        return this.taxonomy;
+      } else {
+        console.error('[KeywordTaxonomyService] Failed to update taxonomy:', result.error);
+        throw new Error(result.error);
+      }
+    } catch (error) {
+      console.error('[KeywordTaxonomyService] Error updating taxonomy:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Subscribe to taxonomy changes
+   */
+  subscribe(listener: (taxonomy: KeywordTaxonomy) => void): () => void {
+    this.listeners.push(listener);
+
+    return () => {
+      const index = this.listeners.indexOf(listener);
+      if (index > -1) {
+        this.listeners.splice(index, 1);
+      }
+    };
+  }
+
+  private notifyListeners(taxonomy: KeywordTaxonomy): void {
+    this.listeners.forEach(listener => {
+      try {
+        listener(taxonomy);
+      } catch (error) {
+        console.error('[KeywordTaxonomyService] Error in listener:', error);
+      }
+    });
+  }
+
+  /**
+   * Clear cached taxonomy (useful for logout)
+   */
+  clearCache(): void {
+    this.taxonomy = null;
+  }
+}
+
+// Export singleton instance
+export const keywordTaxonomyService = new KeywordTaxonomyService();
@@ -12,10 +12,18 @@ import type {
   GetSummaryResponse,
   UpdateSummaryRequest,
   UpdateSummaryResponse,
+  DiffSummariesRequest,
+  DiffSummariesResponse,
+  RestoreSummaryRequest,
+  RestoreSummaryResponse,
   ExtractKeywordsRequest,
   ExtractKeywordsResponse,
   MergeSubjectsRequest,
   MergeSubjectsResponse,
+  SplitSubjectRequest,
+  SplitSubjectResponse,
+  GetMergeSuggestionsResponse,
+  AnalysisJob,
   TopicAnalysisChannels
 } from '../types/topic-analysis.js';
 
@@ -27,7 +35,6 @@ class TopicAnalysisService {
     try {
       console.log('[TopicAnalysisService] 🤖 Analyzing messages:', {
         topicId: request.topicId,
-        messageCount: request.messages?.length || 0,
         forceReanalysis: request.forceReanalysis || false
       });
 
@@ -157,6 +164,59 @@ class TopicAnalysisService {
     }
   }
 
+  /**
+   * Word-level diff between two summary versions
+   */
+  async diffSummaries(request: DiffSummariesRequest): Promise<DiffSummariesResponse> {
+    try {
+      if (!window.electronAPI) {
+        throw new Error('Electron API not available');
+      }
+      return await window.electronAPI.invoke('topicAnalysis:diffSummaries', request);
+    } catch (error) {
+      console.error('[TopicAnalysisService] ❌ Error comparing summaries:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to compare summaries'
+      };
+    }
+  }
+
+  /**
+   * Restore an older summary version as a new version
+   */
+  async restoreSummary(request: RestoreSummaryRequest): Promise<RestoreSummaryResponse> {
+    try {
+      console.log('[TopicAnalysisService] ⏪ Restoring summary version:', {
+        topicId: request.topicId,
+        version: request.version
+      });
+
+      if (!window.electronAPI) {
+        throw new Error('Electron API not available');
+      }
+
+      const response = await window.electronAPI.invoke(
+        'topicAnalysis:restoreSummary',
+        request
+      );
+
+      if (response.success) {
+        console.log('[TopicAnalysisService] ✅ Summary restored as version:', response.data?.summary?.version);
+      } else {
+        console.error('[TopicAnalysisService] ❌ Failed to restore summary:', response.error);
+      }
+
+      return response;
+    } catch (error) {
+      console.error('[TopicAnalysisService] ❌ Error restoring summary:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to restore summary'
+      };
+    }
+  }
+
   /**
    * Extract keywords from text
    */
@@ -227,6 +287,133 @@ class TopicAnalysisService {
     }
   }
 
+  /**
+   * Split a subject into two by dividing its keywords
+   */
+  async splitSubject(request: SplitSubjectRequest): Promise<SplitSubjectResponse> {
+    try {
+      console.log('[TopicAnalysisService] ✂️ Splitting subject:', {
+        topicId: request.topicId,
+        subjectId: request.subjectId,
+        keywords1: request.keywords1,
+        keywords2: request.keywords2
+      });
+
+      if (!window.electronAPI) {
+        throw new Error('Electron API not available');
+      }
+
+      const response = await window.electronAPI.invoke(
+        'topicAnalysis:splitSubject',
+        request
+      );
+
+      if (response.success) {
+        console.log('[TopicAnalysisService] ✅ Subject split:', {
+          subjects: response.data?.subjects?.map((s: any) => s.id)
+        });
+      } else {
+        console.error('[TopicAnalysisService] ❌ Failed to split subject:', response.error);
+      }
+
+      return response;
+    } catch (error) {
+      console.error('[TopicAnalysisService] ❌ Error splitting subject:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to split subject'
+      };
+    }
+  }
+
+  /**
+   * Get suggested merges of near-duplicate subjects
+   */
+  async getMergeSuggestions(topicId: string): Promise<GetMergeSuggestionsResponse> {
+    try {
+      if (!window.electronAPI) {
+        throw new Error('Electron API not available');
+      }
+      return await window.electronAPI.invoke('topicAnalysis:getMergeSuggestions', { topicId });
+    } catch (error) {
+      console.error('[TopicAnalysisService] ❌ Error getting merge suggestions:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to get merge suggestions'
+      };
+    }
+  }
+
+  /**
+   * Dismiss a merge suggestion so it is not offered again
+   */
+  async dismissMergeSuggestion(topicId: string, subjectId1: string, subjectId2: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!window.electronAPI) {
+        throw new Error('Electron API not available');
+      }
+      return await window.electronAPI.invoke('topicAnalysis:dismissMergeSuggestion', { topicId, subjectId1, subjectId2 });
+    } catch (error) {
+      console.error('[TopicAnalysisService] ❌ Error dismissing merge suggestion:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to dismiss merge suggestion'
+      };
+    }
+  }
+
+  /**
+   * Queued, running and recently finished analysis jobs of a topic
+   */
+  async getAnalysisJobs(topicId: string): Promise<AnalysisJob[]> {
+    try {
+      if (!window.electronAPI) {
+        throw new Error('Electron API not available');
+      }
+      const response = await window.electronAPI.invoke('topicAnalysis:getJobs', { topicId });
+      return response.success ? response.data.jobs : [];
+    } catch (error) {
+      console.error('[TopicAnalysisService] ❌ Error getting analysis jobs:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Run a failed or retrying analysis job again now
+   */
+  async retryAnalysisJob(jobId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!window.electronAPI) {
+        throw new Error('Electron API not available');
+      }
+      return await window.electronAPI.invoke('topicAnalysis:retryJob', { jobId });
+    } catch (error) {
+      console.error('[TopicAnalysisService] ❌ Error retrying analysis job:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to retry analysis'
+      };
+    }
+  }
+
+  /**
+   * Drop a queued analysis job
+   */
+  async cancelAnalysisJob(jobId: string): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (!window.electronAPI) {
+        throw new Error('Electron API not available');
+      }
+      return await window.electronAPI.invoke('topicAnalysis:cancelJob', { jobId });
+    } catch (error) {
+      console.error('[TopicAnalysisService] ❌ Error cancelling analysis job:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to cancel analysis'
+      };
+    }
+  }
+
   /**
    * Trigger analysis after new messages
    * Returns true if analysis should be triggered based on message count
@@ -311,7 +498,7 @@ class TopicAnalysisService {
     for (let i = 0; i < topicIds.length; i += batchSize) {
       const batch = topicIds.slice(i, i + batchSize);
       const promises = batch.map(topicId =>
-        this.analyzeMessages({ topicId }).then(response => ({
+        this.analyzeMessages({ topicId, wait: true }).then(response => ({
           topicId,
           response
         }))
@@ -0,0 +1,44 @@
+/**
+ * Feed-Forward Types
+ * Supply/Demand matches with contacts, as sent by the feedForward:* handlers
+ */
+
+export type MatchState = 'pending' | 'accepted' | 'rejected';
+
+export interface TrustScore {
+  score: number;
+  components: {
+    identityVerification: number;
+    historicalAccuracy: number;
+    peerEndorsements: number;
+    activityConsistency: number;
+    accountAge: number;
+  };
+}
+
+/**
+ * A supply matching a demand - ours or a contact's. Reported on
+ * 'feedForward:matchFound' and 'feedForward:matchUpdated'.
+ */
+export interface FeedForwardMatch {
+  demandHash: string;
+  demandId: string;
+  supplyHash: string;
+  supplyId: string;
+  requesterId: string;
+  supplierId: string;
+  demandContext: string;
+  urgency: number;
+  matchScore: number;
+  trustScore: number;
+  trustWeight: number;
+  matchedKeywords: string[]; // Keyword hashes
+  conversationId: string;
+  role: 'requester' | 'supplier';
+  counterpartId: string;
+  counterpartName: string;
+  counterpartTrust: TrustScore; // Our trust score for the other side
+  state: MatchState;
+  requesterDecision?: 'accepted' | 'rejected';
+  supplierDecision?: 'accepted' | 'rejected';
+}
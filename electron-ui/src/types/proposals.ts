@@ -9,11 +9,48 @@ export interface Proposal {
   currentSubject: string; // SHA256IdHash<Subject>
   matchedKeywords: string[];
   relevanceScore: number;
+  semanticScore?: number;
+  jaccardScore?: number;
+  matchScore?: number;
+  recencyScore?: number;
+  explanation?: ProposalScoreExplanation;
+  sharedBy?: ProposalSource; // Set when the past subject is a contact's
   sourceTopicId: string;
   pastSubjectName: string;
   createdAt: number;
 }
 
+/**
+ * The contact whose knowledge a proposal comes from
+ */
+export interface ProposalSource {
+  personId: string;
+  name: string;
+  trustLevel: string;
+  trustFactor: number;
+  accessRequested: boolean;
+}
+
+/**
+ * How a proposal's relevanceScore came about
+ */
+export interface ProposalScoreExplanation {
+  match: number;
+  recency: number;
+  matchWeight: number; // Learned from feedback
+  recencyWeight: number;
+  configuredMatchWeight: number;
+  configuredRecencyWeight: number;
+  weightConfidence: number; // 0-1
+  feedbackSamples: number;
+  baseScore: number;
+  penalty: number; // Factor for a repeatedly dismissed past subject
+  trustFactor: number; // Factor for the contact who shared the subject
+  accepted: number;
+  dismissed: number;
+  ignored: number;
+}
+
 export interface ProposalConfig {
   userEmail: string;
   matchWeight: number;
@@ -47,13 +84,82 @@ export interface DismissProposalResponse {
   remainingCount: number;
 }
 
+/**
+ * A message of the proposal's source conversation that mentions its keywords
+ */
+export interface ProposalExcerpt {
+  messageId: string;
+  text: string;
+  sender: string;
+  isAI: boolean;
+  timestamp: number;
+  matchedKeywords: string[];
+}
+
+export interface ProposalPreview {
+  excerpts: ProposalExcerpt[];
+  summaryFragment: string | null;
+  available: boolean; // False when the source conversation is a contact's
+}
+
+export type ShareTarget = 'chat' | 'prompt';
+
+export interface ShareOptions {
+  excerptIds: string[];
+  includeSummary: boolean;
+  target: ShareTarget;
+}
+
+export interface PromptContextItem {
+  id: string;
+  label: string;
+  text: string;
+  added: number;
+}
+
 export interface SharedContent {
   subjectName: string;
   keywords: string[];
-  messages?: any[];
+  excerpts: ProposalExcerpt[];
+  summaryFragment?: string;
+  target: ShareTarget;
+  promptContext?: PromptContextItem;
 }
 
 export interface ShareProposalResponse {
   success: boolean;
   sharedContent: SharedContent;
 }
+
+export interface ProposalFeedbackStats {
+  weights: {
+    matchWeight: number;
+    recencyWeight: number;
+    samples: number;
+    confidence: number;
+  };
+  configured: {
+    matchWeight: number;
+    recencyWeight: number;
+  };
+  counts: {
+    accepted: number;
+    dismissed: number;
+    ignored: number;
+  };
+  eventCount: number;
+}
+
+/**
+ * A contact asking for the conversation behind a subject we shared
+ */
+export interface SubjectAccessRequest {
+  requester: string;
+  requesterName: string;
+  owner: string;
+  topic: string;
+  subject: string;
+  subjectName: string;
+  requestedAt: number;
+  state: 'pending' | 'granted' | 'declined';
+}
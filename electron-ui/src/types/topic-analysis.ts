@@ -16,6 +16,17 @@ export interface Subject {
   messageCount: number; // Number of messages related to this subject
   timestamp: number;    // Unix timestamp from latest source message
   archived?: boolean;   // Whether subject is archived (optional)
+  timeRanges?: SubjectTimeRange[]; // Spans in which the subject was discussed
+  createdAt?: number;
+  lastSeenAt?: number;
+}
+
+/**
+ * Span of a conversation in which a subject came up
+ */
+export interface SubjectTimeRange {
+  start: number; // Unix timestamp
+  end: number;   // Unix timestamp, equal to start for a single mention
 }
 
 /**
@@ -54,24 +65,44 @@ export interface Summary {
  */
 export interface AnalyzeMessagesRequest {
   topicId: string;
-  messages?: Array<{
-    id: string;
-    text: string;
-    sender: string;
-    timestamp: number;
-  }>;
   forceReanalysis?: boolean;
+  subjectsOnly?: boolean; // Skip the summary
+  wait?: boolean;         // Resolve once the queued job has finished
 }
 
 /**
  * Response from message analysis
+ * Without `wait` only the queued job is returned
  */
 export interface AnalyzeMessagesResponse {
   success: boolean;
   data?: {
-    subjects: Subject[];
-    keywords: Keyword[];
-    summaryId: string;
+    subjects?: Subject[];
+    keywords?: Keyword[];
+    summaryId?: string;
+    job?: AnalysisJob;
+  };
+  error?: string;
+}
+
+export type AnalysisJobState = 'pending' | 'running' | 'retrying' | 'done' | 'failed';
+
+/**
+ * Background analysis job, reported on 'topicAnalysis:jobProgress'
+ */
+export interface AnalysisJob {
+  id: string;
+  topicId: string;
+  kind: 'analyze' | 'subjects' | 'summary';
+  state: AnalysisJobState;
+  attempts: number;
+  nextAttemptAt: number; // When a retrying job runs again
+  created: number;
+  updated: number;
+  progress?: {
+    step: number;
+    total: number;
+    label: string;
   };
   error?: string;
 }
@@ -137,6 +168,59 @@ export interface UpdateSummaryResponse {
   error?: string;
 }
 
+/**
+ * Part of a word-level diff between two summary versions
+ */
+export interface SummaryDiffSegment {
+  type: 'equal' | 'added' | 'removed';
+  text: string;
+}
+
+/**
+ * Request to compare two summary versions
+ */
+export interface DiffSummariesRequest {
+  topicId: string;
+  fromVersion: number;
+  toVersion?: number;   // Defaults to the current version
+}
+
+/**
+ * Word-level diff between two summary versions
+ */
+export interface DiffSummariesResponse {
+  success: boolean;
+  data?: {
+    from: { version: number; changeReason?: string; createdAt: number };
+    to: { version: number; changeReason?: string; createdAt: number };
+    segments: SummaryDiffSegment[];
+    added: number;      // Words
+    removed: number;
+    unchanged: number;
+  };
+  error?: string;
+}
+
+/**
+ * Request to restore an older summary version
+ * The restored content becomes a new version; history is not changed
+ */
+export interface RestoreSummaryRequest {
+  topicId: string;
+  version: number;
+}
+
+/**
+ * Response from summary restore
+ */
+export interface RestoreSummaryResponse {
+  success: boolean;
+  data?: {
+    summary: Summary;
+  };
+  error?: string;
+}
+
 /**
  * Request to extract keywords
  */
@@ -180,6 +264,56 @@ export interface MergeSubjectsResponse {
   error?: string;
 }
 
+/**
+ * Suggested merge of two near-duplicate subjects
+ * Emitted by the background scan on 'topicAnalysis:mergeSuggestions'
+ */
+export interface SubjectMergeSuggestion {
+  topicId: string;
+  keepId: string;            // Subject that stays
+  mergeId: string;           // Subject folded into it
+  score: number;             // 0..1
+  keywordSimilarity: number; // Jaccard overlap of the keywords
+  nameSimilarity: number;
+  keepKeywords: string[];
+  mergeKeywords: string[];
+  keepMessageCount: number;
+  mergeMessageCount: number;
+}
+
+/**
+ * Response with the merge suggestions of a topic
+ */
+export interface GetMergeSuggestionsResponse {
+  success: boolean;
+  data?: {
+    suggestions: SubjectMergeSuggestion[];
+  };
+  error?: string;
+}
+
+/**
+ * Request to split a subject by dividing its keywords into two parts
+ */
+export interface SplitSubjectRequest {
+  topicId: string;
+  subjectId: string;
+  keywords1: string[];
+  keywords2: string[];
+}
+
+/**
+ * Response from subject split
+ */
+export interface SplitSubjectResponse {
+  success: boolean;
+  data?: {
+    subjects: Subject[];
+    archivedSubjects: string[];
+  };
+  error?: string;
+}
+
 /**
  * IPC channel names for topic analysis
  */
@@ -188,8 +322,18 @@ export const TopicAnalysisChannels = {
   GET_SUBJECTS: 'topicAnalysis:getSubjects',
   GET_SUMMARY: 'topicAnalysis:getSummary',
   UPDATE_SUMMARY: 'topicAnalysis:updateSummary',
+  DIFF_SUMMARIES: 'topicAnalysis:diffSummaries',
+  RESTORE_SUMMARY: 'topicAnalysis:restoreSummary',
   EXTRACT_KEYWORDS: 'topicAnalysis:extractKeywords',
-  MERGE_SUBJECTS: 'topicAnalysis:mergeSubjects'
+  MERGE_SUBJECTS: 'topicAnalysis:mergeSubjects',
+  SPLIT_SUBJECT: 'topicAnalysis:splitSubject',
+  GET_MERGE_SUGGESTIONS: 'topicAnalysis:getMergeSuggestions',
+  DISMISS_MERGE_SUGGESTION: 'topicAnalysis:dismissMergeSuggestion',
+  MERGE_SUGGESTIONS: 'topicAnalysis:mergeSuggestions',
+  GET_JOBS: 'topicAnalysis:getJobs',
+  RETRY_JOB: 'topicAnalysis:retryJob',
+  CANCEL_JOB: 'topicAnalysis:cancelJob',
+  JOB_PROGRESS: 'topicAnalysis:jobProgress'
 } as const;
 
 /**
@@ -0,0 +1,99 @@
+/**
+ * Standalone LAMA MCP Server
+ *
+ * Boots NodeOneCore against an existing instance directory and serves the
+ * LamaMCPServer tools (send_message, get_messages, list_topics, ...) over stdio,
+ * so external agents and editors can read and post to LAMA topics without the GUI.
+ *
+ * Runs under plain Node.js - 'electron' imports of the main-process code resolve
+ * to a headless stand-in without windows or safeStorage (main/startup/headless-electron.ts):
+ *
+ *   LAMA_USERNAME=alice LAMA_PASSWORD=... \
+ *     node dist/lama-mcp-server.js --storage ~/lama/OneDB
+ *
+ * Credentials are the ones used to log in to the app. Do not point it at an
+ * instance directory the GUI currently has open.
+ */
+
+import { register } from 'module';
+import path from 'path';
+
+// Before the first import of the main-process code
+register('./main/startup/headless-electron-loader.js', import.meta.url);
+
+// stdout is the MCP protocol channel - everything else goes to stderr
+console.log = console.error;
+console.info = console.error;
+console.warn = console.error;
+console.debug = console.error;
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index !== -1 ? process.argv[index + 1] : undefined;
+}
+
+const storageDir = path.resolve(getArg('storage') || process.env.LAMA_STORAGE_DIR || path.join(process.cwd(), 'OneDB'));
+const username = process.env.LAMA_USERNAME;
+const password = process.env.LAMA_PASSWORD;
+
+let shuttingDown = false;
+
+async function shutdown(code: number): Promise<void> {
+  if (shuttingDown) return;
+  shuttingDown = true;
+  console.error(`[LamaMCP] Shutting down...`);
+
+  // Each part on its own, so MCP clients and LLM connections close even if ONE.core fails to
+  try {
+    const { default: nodeOneCore } = await import('./main/core/node-one-core.js');
+    await nodeOneCore.shutdown();
+  } catch (error) {
+    console.error('[LamaMCP] Error shutting down ONE.core:', error);
+  }
+  try {
+    const { default: llmManager } = await import('./main/services/llm-manager.js');
+    await llmManager.shutdown();
+  } catch (error) {
+    console.error('[LamaMCP] Error shutting down the LLM manager:', error);
+  }
+  process.exit(code);
+}
+
+async function main(): Promise<void> {
+  if (!username || !password) {
+    console.error('[LamaMCP] LAMA_USERNAME and LAMA_PASSWORD must be set');
+    process.exit(1);
+  }
+
+  const { default: nodeOneCore } = await import('./main/core/node-one-core.js');
+  const { default: llmManager } = await import('./main/services/llm-manager.js');
+  const { LamaMCPServer } = await import('./main/services/mcp-lama-server.js');
+
+  try {
+    await llmManager.init();
+  } catch (error) {
+    console.error('[LamaMCP] LLM Manager initialization failed (non-critical):', error);
+  }
+
+  console.error(`[LamaMCP] Opening instance in ${storageDir}`);
+  const result = await nodeOneCore.initialize(username, password, storageDir);
+  if (!result.success) {
+    console.error('[LamaMCP] Failed to initialize ONE.core:', result.error);
+    await shutdown(1);
+    return;
+  }
+
+  const server = new LamaMCPServer(nodeOneCore, nodeOneCore.aiAssistantModel);
+  await server.start();
+
+  // The client closing stdin ends the session
+  process.stdin.on('close', () => shutdown(0));
+}
+
+process.on('SIGTERM', () => shutdown(0));
+process.on('SIGINT', () => shutdown(0));
+
+main().catch(async (error) => {
+  console.error('[LamaMCP] Fatal error:', error);
+  await shutdown(1);
+});
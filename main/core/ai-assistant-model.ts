@@ -10,8 +10,22 @@ import { AISettingsManager } from './ai-settings-manager.js'
 import LLMObjectManager from './llm-object-manager.js'
 import { ContextEnrichmentService } from './one-ai/services/ContextEnrichmentService.js'
 import llmManager from '../services/llm-manager.js'
+import tokenCounter from '../services/token-counter.js'
+import promptContext from '../services/prompt-context.js'
+import { buildContextWindow, type ContextMessage, type ContextWindow } from '../services/context-window-builder.js'
+import { AICouncilManager } from './ai-council.js'
 const { BrowserWindow } = electron
 
+export interface ProcessMessageOptions {
+  modelId?: string   // Answer as this model instead of the topic's model (council turns)
+  stream?: boolean   // Send message:stream chunks to the UI (default true)
+}
+
+/**
+ * Appended to a partial AI response that was stopped by the user before completion
+ */
+export const TRUNCATED_RESPONSE_MARKER = '\n\n_[Response stopped]_'
+
 export class AIAssistantModel {
   name: any;
   text: any;
@@ -28,6 +42,8 @@ export class AIAssistantModel {
   topicRestartSummaries: Map<string, any>;
   pendingMessageQueues: Map<string, Array<{message: string, senderId: any}>>;
   welcomeGenerationInProgress: Map<string, Promise<any>>;
+  activeGenerations: Map<string, { controller: AbortController, topicId: string }>;
+  councilManager: AICouncilManager;
 
   constructor(nodeOneCore: NodeOneCore) {
     this.nodeOneCore = nodeOneCore
@@ -49,6 +65,12 @@ export class AIAssistantModel {
 
     // Topics currently generating welcome messages (topicId -> promise)
     this.welcomeGenerationInProgress = new Map()
+
+    // In-flight AI responses that can be stopped (messageId -> abort controller)
+    this.activeGenerations = new Map()
+
+    // Topics where several AI participants answer in turn
+    this.councilManager = new AICouncilManager(this)
   }
 
   /**
@@ -460,8 +482,8 @@ What can I help you with today?`
             continue
           }
 
-          // Check if any participant in the Group object is an AI person
-          let aiModelId = null
+          // Collect the AI persons among the Group object's participants
+          const aiModelIds: string[] = []
 
           // Try to get the group members
           if (topic.group) {
@@ -471,13 +493,13 @@ What can I help you with today?`
               const group = await getIdObject(topic.group)
 
               // Check group members
-              if ((group as any).members) {
-                for (const memberId of (group as any).members) {
+              const members = (group as any).members || (group as any).person
+              if (members) {
+                for (const memberId of members) {
                   const modelId = this.getModelIdForPersonId(memberId)
-                  if (modelId) {
-                    aiModelId = modelId
+                  if (modelId && !aiModelIds.includes(modelId)) {
+                    aiModelIds.push(modelId)
                     console.log(`[AIAssistantModel] Found AI participant in ${topicId}: ${modelId}`)
-                    break
                   }
                 }
               }
@@ -487,10 +509,15 @@ What can I help you with today?`
           }
 
           // Register the topic if we found an AI participant
-          if (aiModelId) {
-            this.registerAITopic(topicId, aiModelId)
+          if (aiModelIds.length > 0) {
+            this.registerAITopic(topicId, aiModelIds[0])
             registeredCount++
-            console.log(`[AIAssistantModel] ✅ Registered existing AI topic: ${topicId} with model: ${aiModelId}`)
+            console.log(`[AIAssistantModel] ✅ Registered existing AI topic: ${topicId} with model: ${aiModelIds[0]}`)
+
+            // Several AI participants make it a council topic
+            if (aiModelIds.length > 1) {
+              await this.councilManager.loadCouncil(topicId, aiModelIds)
+            }
           }
         } catch (err) {
           console.warn(`[AIAssistantModel] Error scanning channel ${channelInfo.id}:`, err)
@@ -533,9 +560,14 @@ What can I help you with today?`
   /**
    * Process a message for AI response with context enrichment
    */
-  async processMessage(topicId: any, message: any, senderId: any): Promise<any> {
+  async processMessage(topicId: any, message: any, senderId: any, options: ProcessMessageOptions = {}): Promise<any> {
     console.log(`[AIAssistantModel] Processing message for topic ${topicId}: "${message}"`)
 
+    // Council topics hand the message to every AI participant in turn
+    if (!options.modelId && this.councilManager.isCouncilTopic(topicId)) {
+      return this.councilManager.respond(topicId, message, senderId)
+    }
+
     // Check if welcome generation is in progress for this topic
     const welcomeInProgress = this.welcomeGenerationInProgress.get(topicId)
     if (welcomeInProgress) {
@@ -550,7 +582,7 @@ What can I help you with today?`
 
     try {
       // Get the model ID for this topic
-      const modelId = (this.topicModelMap as any)?.get(topicId)
+      const modelId = options.modelId || (this.topicModelMap as any)?.get(topicId)
       if (!modelId) {
         console.log('[AIAssistantModel] No AI model registered for this topic')
         return null
@@ -575,83 +607,34 @@ What can I help you with today?`
       // Get conversation history
       const messages = await topicRoom.retrieveAllMessages()
 
-      // Check if we need to restart the conversation due to context window limits
-      const { needsRestart, restartContext } = await this.checkContextWindowAndPrepareRestart(topicId, messages)
-
-      // Build message history with proper role detection
-      const history: Array<{ role: "system" | "user" | "assistant", content: string }> = []
-
-      if (needsRestart && restartContext) {
-        // Use summary-based restart context
-        (history as any)?.push({
-          role: 'system',
-          content: restartContext
-        })
-        console.log('[AIAssistantModel] Using summary-based restart context')
-
-        // Only include very recent messages (last 3-5) after restart
-        const veryRecentMessages = messages.slice(-3)
-        for (const msg of veryRecentMessages) {
-          const text = (msg as any).data?.text || (msg as any).text
-          const msgSender = msg.data?.sender || msg.author
-          const isAIRestart: boolean = this.isAIPerson(msgSender)
-
-          if (text && text.trim()) {
-            (history as any)?.push({
-              role: isAIRestart ? 'assistant' : 'user',
-              content: text
-            })
-          }
-        }
-      } else {
-        // Normal context enrichment flow
-        if (this.contextEnrichmentService) {
-          try {
-            const contextHints = await this.contextEnrichmentService.buildEnhancedContext(topicId, messages)
-            if (contextHints) {
-              (history as any)?.push({
-                role: 'system',
-                content: contextHints
-              })
-              console.log(`[AIAssistantModel] Added context hints: ${String(contextHints).substring(0, 100)}...`)
-            }
-          } catch (error) {
-            console.warn('[AIAssistantModel] Context enrichment failed:', error)
-          }
-        }
-
-        // Get last 10 messages for context
-        const recentMessages = messages.slice(-10)
-        for (const msg of recentMessages) {
-          const text = (msg as any).data?.text || (msg as any).text
-          const msgSender = msg.data?.sender || msg.author
-          // Check if sender is AI using our isAIPerson method
-          const isAIMessage: boolean = this.isAIPerson(msgSender)
-
-          if (text && text.trim()) {
-            (history as any)?.push({
-              role: isAIMessage ? 'assistant' : 'user',
-              content: text
-            })
-          }
-        }
-      }
-      
-      // Add the new message if not already in history
-      const lastHistoryMsg = history[(history as any)?.length - 1]
-      if (!lastHistoryMsg || lastHistoryMsg.content !== message) {
-        (history as any)?.push({
+      // Conversation so far, plus the new message if it is not stored yet.
+      // Council turns come after other AIs' replies, so the prompt is not necessarily last.
+      const conversation = this.toContextMessages(messages, options.modelId ? aiPersonId : undefined)
+      const lastConversationMsg = conversation[conversation.length - 1]
+      const promptStored = options.modelId
+        ? conversation.some(msg => msg.role === 'user' && msg.content === message)
+        : lastConversationMsg?.content === message
+      if (!promptStored) {
+        conversation.push({
           role: 'user',
           content: message
         })
       }
-      
+
+      // Context enrichment from past subjects and keywords
+      const systemParts = await this.getEnrichmentParts(topicId, messages)
+
+      // Fit everything into the model's context window
+      const contextWindow = await this.buildContextForModel(topicId, modelId, systemParts, conversation, messages)
+      const history = contextWindow.history
+
       console.log(`[AIAssistantModel] Sending ${(history as any)?.length} messages to LLM`)
       
-      // Generate message ID for streaming
-      const messageId = `ai-${Date.now()}`
+      // Generate message ID for streaming - unique even when council members answer at once
+      const messageId = `ai-${Date.now()}-${Math.random().toString(36).substr(2, 6)}`
       const conversationId = topicId
       let fullResponse = ''
+      const toolSteps = new Map<string, any>()
       
       // Send thinking indicator to UI
       console.log(`[AIAssistantModel] 🎯🎯🎯 EMITTING message:thinking with conversationId="${conversationId}" (from topicId="${topicId}")`)
@@ -665,32 +648,73 @@ What can I help you with today?`
         })
       }
       
-      // Get AI response with analysis in a single call
-      const result: any = await this.llmManager?.chatWithAnalysis(history, modelId, {
-        onStream: (chunk: string) => {
-          fullResponse += chunk
+      // Register the generation so ai:cancel can stop it
+      const controller = new AbortController()
+      this.activeGenerations.set(messageId, { controller, topicId })
 
-          // Send streaming updates to UI
-          for (const window of BrowserWindow.getAllWindows()) {
-            window.webContents.send('message:stream', {
-              conversationId,
-              messageId,
-              chunk,
-              partial: fullResponse,
-              senderId: aiPersonId,
-              isAI: true
-            })
+      // Get AI response with analysis in a single call
+      let result: any
+      try {
+        result = await this.llmManager?.chatWithAnalysis(history, modelId, {
+          signal: controller.signal,
+          onStream: (chunk: string) => {
+            fullResponse += chunk
+            if (options.stream === false) return
+
+            // Send streaming updates to UI
+            for (const window of BrowserWindow.getAllWindows()) {
+              window.webContents.send('message:stream', {
+                conversationId,
+                messageId,
+                chunk,
+                partial: fullResponse,
+                senderId: aiPersonId,
+                isAI: true
+              })
+            }
+          },
+          onToolStep: (step: any) => {
+            // Every tool invocation shows up as a step in the chat
+            toolSteps.set(step.id, step)
+            for (const window of BrowserWindow.getAllWindows()) {
+              window.webContents.send('message:toolStep', {
+                conversationId,
+                messageId,
+                senderId: aiPersonId,
+                step
+              })
+            }
           }
+        }, topicId) // Pass topicId for analysis
+      } catch (error) {
+        if (controller.signal.aborted) {
+          return await this.storeTruncatedResponse(topicRoom, conversationId, messageId, aiPersonId, fullResponse)
         }
-      }, topicId) // Pass topicId for analysis
+
+        // Nothing is stored - tell the UI to drop the partial bubble
+        this.emitStreamEnd(conversationId, messageId, {
+          senderId: aiPersonId,
+          stored: false,
+          error: (error as Error).message
+        })
+        throw error
+      } finally {
+        this.activeGenerations.delete(messageId)
+      }
 
       const response = (result as any)?.response
       
       if (response) {
-        // Send the response to the topic
+        // Only the finished response becomes a ONE.core message
         await topicRoom.sendMessage(response as string, aiPersonId, aiPersonId)
         console.log(`[AIAssistantModel] Sent AI response to topic ${topicId}`)
 
+        this.emitStreamEnd(conversationId, messageId, {
+          senderId: aiPersonId,
+          stored: true,
+          text: response
+        })
+
         // Notify UI about the complete message
         for (const window of BrowserWindow.getAllWindows()) {
           window.webContents.send('message:updated', {
@@ -702,7 +726,8 @@ What can I help you with today?`
               senderId: aiPersonId,
               isAI: true,
               timestamp: new Date().toISOString(),
-              status: 'sent'
+              status: 'sent',
+              toolSteps: Array.from(toolSteps.values())
             }
           })
         }
@@ -815,7 +840,12 @@ What can I help you with today?`
 
         return response
       }
-      
+
+      this.emitStreamEnd(conversationId, messageId, {
+        senderId: aiPersonId,
+        stored: false,
+        error: 'Model returned an empty response'
+      })
       return null
     } catch (error) {
       console.error('[AIAssistantModel] Error processing message:', error)
@@ -823,6 +853,258 @@ What can I help you with today?`
     }
   }
 
+  /**
+   * Convert stored topic messages into chat messages, oldest first.
+   * With selfPersonId (council turns) only that AI's messages are 'assistant';
+   * other AIs' replies are attributed by name so the model can respond to them.
+   */
+  toContextMessages(messages: any[], selfPersonId?: string): ContextMessage[] {
+    const result: ContextMessage[] = []
+    for (const msg of messages) {
+      const text = (msg as any).data?.text || (msg as any).text
+      const msgSender = msg.data?.sender || msg.author
+
+      if (!text || !text.trim()) continue
+
+      if (selfPersonId && this.isAIPerson(msgSender) && String(msgSender) !== String(selfPersonId)) {
+        const otherModel = this.getModelById(this.getModelIdForPersonId(msgSender))
+        result.push({
+          role: 'user',
+          content: `[${otherModel?.name || 'Another AI'}]: ${text}`
+        })
+        continue
+      }
+
+      result.push({
+        role: this.isAIPerson(msgSender) ? 'assistant' : 'user',
+        content: text
+      })
+    }
+    return result
+  }
+
+  /**
+   * Token budget for a model: its context length minus the response and the tool
+   * descriptions LLMManager appends to the system prompt
+   */
+  async getContextBudget(modelId: string): Promise<{ contextLength: number, reservedTokens: number }> {
+    const model = this.getModelById(modelId)
+    const contextLength = this.llmManager?.resolveContextLength
+      ? await this.llmManager.resolveContextLength(modelId)
+      : model?.contextLength || 4096
+
+    const toolDescriptions = this.llmManager?.getToolDescriptions?.() || ''
+    const reservedTokens = (model?.maxTokens || 2048) + tokenCounter.countTokens(toolDescriptions, modelId)
+
+    return { contextLength, reservedTokens }
+  }
+
+  /**
+   * Sliding-window context: system parts and as many recent messages as fit.
+   * When older messages fall out, the topic summary is added in their place.
+   */
+  async buildContextForModel(topicId: string, modelId: string, systemParts: string[], conversation: ContextMessage[], rawMessages: any[]): Promise<ContextWindow> {
+    const { contextLength, reservedTokens } = await this.getContextBudget(modelId)
+
+    let contextWindow = buildContextWindow({
+      modelId,
+      contextLength,
+      reservedTokens,
+      systemParts,
+      messages: conversation
+    })
+
+    if (contextWindow.droppedMessages > 0) {
+      const summary = await this.generateConversationSummaryForRestart(topicId, rawMessages)
+      contextWindow = buildContextWindow({
+        modelId,
+        contextLength,
+        reservedTokens,
+        systemParts,
+        messages: conversation,
+        summary
+      })
+      this.lastRestartPoint.set(topicId, conversation.length - contextWindow.includedMessages)
+    }
+
+    console.log(`[AIAssistantModel] Context for ${modelId}: ${contextWindow.totalTokens}/${contextWindow.budget} tokens, ${contextWindow.includedMessages} messages, ${contextWindow.droppedMessages} summarized`)
+    return contextWindow
+  }
+
+  /**
+   * Context hints from past subjects and keywords, and context the user added
+   * to the prompt, as system prompt parts
+   */
+  private async getEnrichmentParts(topicId: string, messages: any[]): Promise<string[]> {
+    const systemParts: string[] = [...promptContext.parts(topicId)]
+    if (this.contextEnrichmentService) {
+      try {
+        const contextHints = await this.contextEnrichmentService.buildEnhancedContext(topicId, messages)
+        if (contextHints) {
+          systemParts.push(contextHints)
+          console.log(`[AIAssistantModel] Added context hints: ${String(contextHints).substring(0, 100)}...`)
+        }
+      } catch (error) {
+        console.warn('[AIAssistantModel] Context enrichment failed:', error)
+      }
+    }
+    return systemParts
+  }
+
+  /**
+   * Generate another answer to the user message that prompted an AI message.
+   * Only the conversation up to that prompt is sent, so the answer is comparable
+   * to the original. Nothing is written to the topic - the caller stores the result
+   * as a message version.
+   */
+  async generateAlternative(topicId: string, messageId: string, requestedModelId?: string): Promise<{
+    text: string
+    modelId: string
+    authorId: any
+    promptMessageId: string
+    original: { text: string, authorId: any, modelId: string | null }
+  }> {
+    const modelId = requestedModelId || this.getModelIdForTopic(topicId)
+    if (!modelId) {
+      throw new Error(`No AI model registered for topic ${topicId}`)
+    }
+
+    const aiPersonId = await this.ensureAIContactForModel(modelId)
+    if (!aiPersonId) {
+      throw new Error(`Could not get AI person ID for model ${modelId}`)
+    }
+
+    const topicRoom = await this.nodeOneCore.topicModel.enterTopicRoom(topicId)
+    const messages = await topicRoom.retrieveAllMessages()
+
+    const index = messages.findIndex((msg: any) => (msg.id || msg.channelEntryHash) === messageId)
+    if (index === -1) {
+      throw new Error(`Message ${messageId} not found in topic ${topicId}`)
+    }
+
+    const target = messages[index]
+    const targetSender = target.data?.sender || target.author
+    if (!this.isAIPerson(targetSender)) {
+      throw new Error('Only AI messages can be regenerated')
+    }
+
+    // The prompt is the closest earlier message from a human
+    let promptIndex = index - 1
+    while (promptIndex >= 0 && this.isAIPerson(messages[promptIndex].data?.sender || messages[promptIndex].author)) {
+      promptIndex--
+    }
+    if (promptIndex < 0) {
+      throw new Error('No user message found to regenerate an answer for')
+    }
+
+    const priorMessages = messages.slice(0, promptIndex + 1)
+    const systemParts = await this.getEnrichmentParts(topicId, priorMessages)
+    const contextWindow = await this.buildContextForModel(topicId, modelId, systemParts, this.toContextMessages(priorMessages), priorMessages)
+
+    console.log(`[AIAssistantModel] Regenerating answer to ${messageId} with ${modelId}`)
+
+    const controller = new AbortController()
+    this.activeGenerations.set(messageId, { controller, topicId })
+
+    let response: unknown
+    try {
+      response = await this.llmManager?.chat(contextWindow.history, modelId, {
+        signal: controller.signal
+      })
+    } finally {
+      this.activeGenerations.delete(messageId)
+    }
+
+    const text = String(response || '')
+    if (!text.trim()) {
+      throw new Error(`Model ${modelId} returned an empty response`)
+    }
+
+    const promptMessage = messages[promptIndex]
+    return {
+      text,
+      modelId,
+      authorId: aiPersonId,
+      promptMessageId: promptMessage.id || promptMessage.channelEntryHash,
+      original: {
+        text: target.data?.text || '',
+        authorId: targetSender,
+        modelId: this.getModelIdForPersonId(targetSender)
+      }
+    }
+  }
+
+  /**
+   * Stop the in-flight AI response for a topic.
+   * processMessage stores whatever text was streamed so far, marked as truncated.
+   */
+  cancelGeneration(topicId: string): boolean {
+    // A council topic stops its remaining turns too
+    this.councilManager.cancelRound(topicId)
+
+    let cancelled = false
+    for (const [messageId, generation] of this.activeGenerations) {
+      if (generation.topicId !== topicId) continue
+
+      console.log(`[AIAssistantModel] Cancelling generation ${messageId} for topic ${topicId}`)
+      generation.controller.abort()
+      cancelled = true
+    }
+
+    if (!cancelled) {
+      console.log(`[AIAssistantModel] No active generation to cancel for topic ${topicId}`)
+    }
+    return cancelled
+  }
+
+  /**
+   * Persist the partial text of a cancelled response
+   */
+  private async storeTruncatedResponse(topicRoom: any, conversationId: string, messageId: string, aiPersonId: any, partial: string): Promise<string | null> {
+    if (!partial.trim()) {
+      console.log(`[AIAssistantModel] Generation ${messageId} cancelled before any text arrived`)
+      this.emitStreamEnd(conversationId, messageId, {
+        senderId: aiPersonId,
+        stored: false,
+        truncated: true
+      })
+      return null
+    }
+
+    const text = partial.trimEnd() + TRUNCATED_RESPONSE_MARKER
+    await topicRoom.sendMessage(text, aiPersonId, aiPersonId)
+    console.log(`[AIAssistantModel] Stored truncated response (${partial.length} chars) for topic ${conversationId}`)
+
+    this.emitStreamEnd(conversationId, messageId, {
+      senderId: aiPersonId,
+      stored: true,
+      truncated: true,
+      text
+    })
+    return text
+  }
+
+  /**
+   * Close a stream started with message:thinking.
+   * Sent on success and on failure so the renderer never keeps a dangling partial bubble.
+   */
+  private emitStreamEnd(conversationId: string, messageId: string, details: {
+    senderId: any
+    stored: boolean
+    truncated?: boolean
+    text?: string
+    error?: string
+  }): void {
+    for (const window of BrowserWindow.getAllWindows()) {
+      window.webContents.send('message:streamEnd', {
+        conversationId,
+        messageId,
+        isAI: true,
+        ...details
+      })
+    }
+  }
+
   /**
    * Get or create person ID for a model
    */
@@ -1413,31 +1695,22 @@ What can I do for you today?`
    * @returns {Object} - { needsRestart: boolean, restartContext: string|null }
    */
   async checkContextWindowAndPrepareRestart(topicId: any, messages: any): Promise<any> {
-    // Get the model's context window size
     const modelId = (this.topicModelMap as any)?.get(topicId)
-    const model = this.getModelById(modelId)
-
-    // Get context window from model definition, default to conservative 4k
-    const contextWindow = model?.contextLength || 4096
-
-    // Reserve 25% for response and system prompts
-    const usableContext = Math.floor(contextWindow * 0.75)
-
-    // Estimate token count (rough: 1 token ≈ 4 chars for English)
-    const estimatedTokens = messages.reduce((total: any, msg: any) => {
-      const text = msg.data?.text || msg.text || ''
-      return total + Math.ceil((text as any)?.length / 4)
-    }, 0)
-
-    // Add estimated system prompt tokens
-    const systemPromptTokens = 200 // Typical system prompt overhead
-    const totalTokens = estimatedTokens + systemPromptTokens
+    const { contextLength, reservedTokens } = await this.getContextBudget(modelId)
+
+    const contextWindow = buildContextWindow({
+      modelId,
+      contextLength,
+      reservedTokens,
+      systemParts: [],
+      messages: this.toContextMessages(messages)
+    })
 
-    if (totalTokens < usableContext) {
+    if (contextWindow.droppedMessages === 0) {
       return { needsRestart: false, restartContext: null }
     }
 
-    console.log(`[AIAssistantModel] Context window filling (${totalTokens}/${contextWindow} tokens for ${model?.name || modelId}), preparing restart`)
+    console.log(`[AIAssistantModel] Context window full for ${modelId} (${contextWindow.droppedMessages} messages do not fit in ${contextWindow.budget} tokens), preparing restart`)
 
     // Generate or retrieve summary for restart
     const restartContext = await this.generateConversationSummaryForRestart(topicId, messages)
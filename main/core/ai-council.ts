@@ -0,0 +1,233 @@
+/**
+ * AI Council
+ * Topics where several AI participants answer the same user message.
+ *
+ * Every AI sees the others' replies (attributed by name) and answers in the
+ * configured order. A round starts only on a human message and ends after
+ * maxTurns AI replies, so AIs never keep a conversation going on their own.
+ */
+
+import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js'
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js'
+import type { AIAssistantModel } from './ai-assistant-model.js'
+
+export type CouncilOrder = 'round-robin' | 'all-at-once' | 'moderator-picks'
+
+export const COUNCIL_ORDERS: CouncilOrder[] = ['round-robin', 'all-at-once', 'moderator-picks']
+
+export interface CouncilConfig {
+  topicId: string
+  modelIds: string[]          // AI participants, in speaking order
+  order: CouncilOrder
+  moderatorModelId?: string   // Picks the next speaker in moderator-picks order
+  maxTurns: number            // AI replies per human message
+}
+
+// Hard cap regardless of configuration
+const MAX_TURNS_LIMIT = 12
+
+const MODERATOR_PROMPT = `You moderate a discussion between several AI assistants and a user.
+Based on the conversation so far, decide which assistant should reply next.
+Reply with exactly one participant name from the list, or NONE if the user's last message has been answered well enough.
+Do not add anything else.`
+
+export class AICouncilManager {
+  aiAssistantModel: AIAssistantModel
+  councils: Map<string, CouncilConfig>
+  rounds: Map<string, number>     // topicId -> current round, bumped to stop a running round
+  rotation: Map<string, number>   // topicId -> index of the first round-robin speaker
+
+  constructor(aiAssistantModel: AIAssistantModel) {
+    this.aiAssistantModel = aiAssistantModel
+    this.councils = new Map()
+    this.rounds = new Map()
+    this.rotation = new Map()
+  }
+
+  isCouncilTopic(topicId: string): boolean {
+    return (this.councils.get(topicId)?.modelIds.length || 0) > 1
+  }
+
+  getCouncil(topicId: string): CouncilConfig | null {
+    return this.councils.get(topicId) || null
+  }
+
+  /**
+   * Default turn limit: one reply per AI, two for moderated discussions
+   */
+  defaultMaxTurns(order: CouncilOrder, modelCount: number): number {
+    return order === 'moderator-picks' ? modelCount * 2 : modelCount
+  }
+
+  /**
+   * Create or update a council and persist it
+   */
+  async setCouncil(topicId: string, update: Partial<Omit<CouncilConfig, 'topicId'>>): Promise<CouncilConfig> {
+    const existing = this.councils.get(topicId)
+    const modelIds = update.modelIds || existing?.modelIds || []
+    if (modelIds.length < 2) {
+      throw new Error('A council needs at least two AI participants')
+    }
+
+    const order = update.order || existing?.order || 'round-robin'
+    if (!COUNCIL_ORDERS.includes(order)) {
+      throw new Error(`Unknown council order: ${order}`)
+    }
+
+    const moderatorModelId = update.moderatorModelId || existing?.moderatorModelId || modelIds[0]
+    const orderChanged = existing && existing.order !== order
+    const maxTurns = Math.min(MAX_TURNS_LIMIT, Math.max(1,
+      update.maxTurns || (orderChanged ? 0 : existing?.maxTurns) || this.defaultMaxTurns(order, modelIds.length)
+    ))
+
+    const config: CouncilConfig = { topicId, modelIds, order, moderatorModelId, maxTurns }
+    this.councils.set(topicId, config)
+
+    await storeVersionedObject({
+      $type$: 'AICouncil',
+      topicId,
+      modelIds,
+      order,
+      moderatorModelId,
+      maxTurns,
+      updated: Date.now()
+    } as any)
+
+    console.log(`[AICouncil] Council for ${topicId}: ${modelIds.join(', ')} (${order}, max ${maxTurns} turns)`)
+    return config
+  }
+
+  /**
+   * Register a council found while scanning topics - uses the stored configuration if there is one
+   */
+  async loadCouncil(topicId: string, modelIds: string[]): Promise<CouncilConfig | null> {
+    try {
+      const idHash = await calculateIdHashOfObj({ $type$: 'AICouncil', topicId } as any)
+      const stored: any = await getObjectByIdHash(idHash)
+      if (stored?.obj) {
+        const config: CouncilConfig = {
+          topicId,
+          modelIds: stored.obj.modelIds,
+          order: stored.obj.order,
+          moderatorModelId: stored.obj.moderatorModelId,
+          maxTurns: stored.obj.maxTurns
+        }
+        this.councils.set(topicId, config)
+        return config
+      }
+    } catch (error) {
+      // Not configured yet - fall through to defaults
+    }
+
+    if (modelIds.length < 2) return null
+    return this.setCouncil(topicId, { modelIds })
+  }
+
+  /**
+   * Stop the remaining turns of a running round
+   */
+  cancelRound(topicId: string): void {
+    if (this.rounds.has(topicId)) {
+      this.rounds.set(topicId, this.rounds.get(topicId)! + 1)
+    }
+  }
+
+  /**
+   * Let the council answer a human message
+   */
+  async respond(topicId: string, message: string, senderId: any): Promise<any> {
+    const config = this.councils.get(topicId)
+    if (!config) return null
+
+    // A new human message supersedes a round that is still running
+    const round = (this.rounds.get(topicId) || 0) + 1
+    this.rounds.set(topicId, round)
+    const isCurrent = () => this.rounds.get(topicId) === round
+
+    console.log(`[AICouncil] Round ${round} in ${topicId}: ${config.order}, up to ${config.maxTurns} turns`)
+
+    switch (config.order) {
+      case 'all-at-once': {
+        // Everyone answers the same context in parallel; streaming would interleave in the UI
+        const speakers = config.modelIds.slice(0, config.maxTurns)
+        const results = await Promise.allSettled(speakers.map(modelId =>
+          this.aiAssistantModel.processMessage(topicId, message, senderId, { modelId, stream: false })
+        ))
+        for (const [index, result] of results.entries()) {
+          if (result.status === 'rejected') {
+            console.error(`[AICouncil] ${speakers[index]} failed:`, result.reason)
+          }
+        }
+        return null
+      }
+
+      case 'moderator-picks': {
+        for (let turn = 0; turn < config.maxTurns && isCurrent(); turn++) {
+          const modelId = await this.pickNextSpeaker(topicId, config)
+          if (!modelId || !isCurrent()) break
+          await this.takeTurn(topicId, message, senderId, modelId)
+        }
+        return null
+      }
+
+      case 'round-robin':
+      default: {
+        // Rotate who speaks first so no model always sets the tone
+        const start = this.rotation.get(topicId) || 0
+        this.rotation.set(topicId, (start + 1) % config.modelIds.length)
+
+        for (let turn = 0; turn < config.maxTurns && isCurrent(); turn++) {
+          const modelId = config.modelIds[(start + turn) % config.modelIds.length]
+          await this.takeTurn(topicId, message, senderId, modelId)
+        }
+        return null
+      }
+    }
+  }
+
+  private async takeTurn(topicId: string, message: string, senderId: any, modelId: string): Promise<void> {
+    try {
+      await this.aiAssistantModel.processMessage(topicId, message, senderId, { modelId })
+    } catch (error) {
+      // One failing model should not silence the rest of the council
+      console.error(`[AICouncil] ${modelId} failed in ${topicId}:`, error)
+    }
+  }
+
+  /**
+   * Ask the moderator model who should speak next. Returns null when it says NONE.
+   */
+  private async pickNextSpeaker(topicId: string, config: CouncilConfig): Promise<string | null> {
+    const model = this.aiAssistantModel
+    const moderatorModelId = config.moderatorModelId || config.modelIds[0]
+    const participants = config.modelIds.map(modelId => ({
+      modelId,
+      name: model.getModelById(modelId)?.name || modelId
+    }))
+
+    const topicRoom = await model.nodeOneCore.topicModel.enterTopicRoom(topicId)
+    const messages = await topicRoom.retrieveAllMessages()
+    const moderatorPersonId = await model.ensureAIContactForModel(moderatorModelId)
+    const conversation = model.toContextMessages(messages.slice(-20), moderatorPersonId)
+
+    const reply = String(await model.llmManager?.chat([
+      { role: 'system', content: `${MODERATOR_PROMPT}\n\nParticipants: ${participants.map(p => p.name).join(', ')}` },
+      ...conversation,
+      { role: 'user', content: 'Who should reply next?' }
+    ], moderatorModelId) || '').trim().toLowerCase()
+
+    if (!reply || reply.startsWith('none')) {
+      console.log(`[AICouncil] Moderator ${moderatorModelId} ended the round in ${topicId}`)
+      return null
+    }
+
+    const picked = participants.find(p => reply.includes(p.name.toLowerCase()) || reply.includes(p.modelId.toLowerCase()))
+    if (!picked) {
+      console.warn(`[AICouncil] Moderator reply did not name a participant: "${reply.substring(0, 80)}"`)
+      return null
+    }
+
+    console.log(`[AICouncil] Moderator picked ${picked.modelId} in ${topicId}`)
+    return picked.modelId
+  }
+}
@@ -10,6 +10,7 @@ import { createAIMessage } from '../utils/message-utils.js'
 import type { ChannelManager } from '@refinio/one.models/lib/models/index.js'
 import type { LLMManager } from '../types/one-core.js'
 import type { AIAssistantModel } from './ai-assistant-model.js'
+import messageSearchService from '../services/message-search.js'
 
 class AIMessageListener {
   channelManager: ChannelManager;
@@ -277,6 +278,7 @@ class AIMessageListener {
       // Get all messages from the topic
       const messages = await topicRoom.retrieveAllMessages()
       console.log(`[AIMessageListener] Found ${(messages as any)?.length} messages in topic`)
+      messageSearchService.indexMessages(channelId, messages as any[])
       
       // If this is a new topic with no messages, skip processing
       // The welcome message is handled by chat.js when getMessages is called
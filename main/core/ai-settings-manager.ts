@@ -25,6 +25,7 @@ export const DEFAULT_AI_SETTINGS = {
   systemPrompt: undefined,
   streamResponses: true,
   autoSummarize: false,
+  summaryLanguage: 'auto',
   enableMCP: false
 }
 
@@ -45,6 +46,7 @@ export function createAISettings(instanceName: string = 'default') {
     systemPrompt: DEFAULT_AI_SETTINGS.systemPrompt,
     streamResponses: DEFAULT_AI_SETTINGS.streamResponses,
     autoSummarize: DEFAULT_AI_SETTINGS.autoSummarize,
+    summaryLanguage: DEFAULT_AI_SETTINGS.summaryLanguage,
     enableMCP: DEFAULT_AI_SETTINGS.enableMCP
   }
 }
@@ -0,0 +1,335 @@
+/**
+ * Corpus Export
+ * Turns TrainingCorpusEntry objects into JSONL for fine-tuning, one chat per
+ * line: {"messages":[{"role":"system",...},{"role":"user",...},{"role":"assistant",...}]}
+ *
+ * Only entries from conversations with sharing enabled are exported. Text is
+ * redacted with a rule set of regular expressions, identical chats are written
+ * once, and a manifest lists the hash of every source entry behind each line.
+ *
+ * Everything here is pure; FeedForwardManager builds the entries from the shared
+ * conversations and writes the files.
+ */
+
+import crypto from 'crypto'
+
+// Cursor of the last corpus stream page
+export const CORPUS_CURSOR_END = 'end'
+
+export interface CorpusMessage {
+  id: string
+  authorId: string
+  isAI: boolean
+  content: string
+  keywords: string[]          // Keyword hashes
+  timestamp: number
+  trustScore: number
+}
+
+export interface CorpusParticipant {
+  personId: string
+  isAI: boolean
+  trustScore: number
+}
+
+export interface TrainingCorpusEntry {
+  $type$: 'TrainingCorpusEntry'
+  conversationId: string
+  messages: CorpusMessage[]
+  keywords: string[]          // Keyword hashes, as for Supply and Demand
+  participants: CorpusParticipant[]
+  qualityScore: number
+  created: number
+  consumerAccess?: string[]
+}
+
+export interface CorpusSource {
+  hash: string
+  entry: TrainingCorpusEntry
+}
+
+export interface RedactionRule {
+  name: string
+  pattern: string             // Regular expression source
+  flags?: string              // 'g' is always added
+  replacement: string
+}
+
+export interface CorpusExportFilters {
+  minTrust?: number           // Lowest trust score of any human participant
+  since?: number              // Entry created at or after, ms since epoch
+  until?: number              // Entry created at or before
+  subjects?: string[][]       // Keyword hashes per subject - an entry needs all of one subject's
+}
+
+export interface ChatMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface CorpusManifestEntry {
+  line: number                // 1-based line in the JSONL file
+  sourceHash: string          // Hash of the TrainingCorpusEntry
+  conversationId: string
+  created: number
+  exampleHash: string         // SHA-256 of the exported messages
+}
+
+export interface CorpusManifest {
+  version: 1
+  createdAt: number
+  filters: CorpusExportFilters
+  systemPrompt: string
+  redactionRules: string[]
+  counts: {
+    sources: number
+    exported: number
+    notConsented: number
+    filtered: number
+    duplicates: number
+    empty: number             // No exchange between a user and the assistant
+  }
+  redactions: Record<string, number>
+  entries: CorpusManifestEntry[]
+}
+
+export const DEFAULT_SYSTEM_PROMPT = 'You are a helpful assistant.'
+
+/**
+ * PII patterns applied in order - cards before phone numbers, whose digits they contain
+ */
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { name: 'email', pattern: '[\\w.+-]+@[\\w-]+(?:\\.[\\w-]+)+', flags: 'i', replacement: '[EMAIL]' },
+  { name: 'iban', pattern: '\\b[A-Z]{2}\\d{2}(?: ?[A-Z0-9]{4}){3,7}(?: ?[A-Z0-9]{1,3})?\\b', replacement: '[IBAN]' },
+  { name: 'card', pattern: '\\b\\d{4}(?:[ -]?\\d{4}){3}\\b', replacement: '[CARD]' },
+  { name: 'phone', pattern: '(?:\\+|\\b00)\\d{1,3}[ .-]?\\d[\\d .-]{5,}\\d|\\b0\\d{2,4}[ /-]?\\d{4,}\\b', replacement: '[PHONE]' },
+  { name: 'ip', pattern: '\\b(?:\\d{1,3}\\.){3}\\d{1,3}\\b', replacement: '[IP]' }
+]
+
+export interface CompiledRule {
+  name: string
+  regex: RegExp
+  replacement: string
+}
+
+export function compileRules(rules: RedactionRule[]): CompiledRule[] {
+  return rules.map(rule => {
+    if (!rule.name || typeof rule.pattern !== 'string') {
+      throw new Error('Redaction rules need a name and a pattern')
+    }
+    const flags = Array.from(new Set(`g${rule.flags || ''}`)).join('')
+    try {
+      return { name: rule.name, regex: new RegExp(rule.pattern, flags), replacement: rule.replacement ?? '[REDACTED]' }
+    } catch (error) {
+      throw new Error(`Invalid redaction rule '${rule.name}': ${(error as Error).message}`)
+    }
+  })
+}
+
+export function redact(text: string, rules: CompiledRule[], counts: Record<string, number>): string {
+  let result = text
+  for (const rule of rules) {
+    result = result.replace(rule.regex, () => {
+      counts[rule.name] = (counts[rule.name] || 0) + 1
+      return rule.replacement
+    })
+  }
+  return result
+}
+
+/**
+ * A shared conversation as one corpus entry, dated by its newest message so that
+ * an unchanged conversation gives the same entry. Participants carry the trust
+ * score of their messages, and the quality score is the mean trust per message.
+ * Null without messages.
+ */
+export function corpusEntryFor(conversationId: string, messages: CorpusMessage[]): TrainingCorpusEntry | null {
+  if (messages.length === 0) return null
+
+  const sorted = [...messages].sort((a, b) => a.timestamp - b.timestamp)
+  const participants = new Map<string, CorpusParticipant>()
+  for (const message of sorted) {
+    participants.set(message.authorId, { personId: message.authorId, isAI: message.isAI, trustScore: message.trustScore })
+  }
+
+  return {
+    $type$: 'TrainingCorpusEntry',
+    conversationId,
+    messages: sorted,
+    keywords: Array.from(new Set(sorted.flatMap(message => message.keywords))),
+    participants: Array.from(participants.values()),
+    qualityScore: sorted.reduce((sum, message) => sum + message.trustScore, 0) / sorted.length,
+    created: sorted[sorted.length - 1].timestamp
+  }
+}
+
+/**
+ * Stream order: oldest first, entries of the same time by hash
+ */
+export function compareSources(a: CorpusSource, b: CorpusSource): number {
+  return a.entry.created - b.entry.created || (a.hash < b.hash ? -1 : a.hash > b.hash ? 1 : 0)
+}
+
+/**
+ * Cursor after the given source, '<created>:<hash>'
+ */
+export function corpusCursor(source: CorpusSource): string {
+  return `${source.entry.created}:${source.hash}`
+}
+
+/**
+ * Position of a cursor, CORPUS_CURSOR_END, or null if it is not one of ours
+ */
+export function parseCorpusCursor(cursor: string): { created: number; hash: string } | typeof CORPUS_CURSOR_END | null {
+  if (cursor === CORPUS_CURSOR_END) return CORPUS_CURSOR_END
+  const match = /^(\d+):([0-9a-f]{64})$/.exec(cursor)
+  return match ? { created: Number(match[1]), hash: match[2] } : null
+}
+
+/**
+ * Hash of a keyword term, as Supply, Demand and corpus entries store them
+ */
+export function keywordHash(term: string): string {
+  return crypto.createHash('sha256').update(term.toLowerCase().trim()).digest('hex')
+}
+
+/**
+ * Keyword hashes of a subject id ('solar+battery') or a single term
+ */
+export function subjectKeywordHashes(subject: string): string[] {
+  return subject.split('+').map(term => term.trim()).filter(Boolean).map(keywordHash)
+}
+
+export function matchesFilters(entry: TrainingCorpusEntry, filters: CorpusExportFilters): boolean {
+  if (filters.since !== undefined && entry.created < filters.since) return false
+  if (filters.until !== undefined && entry.created > filters.until) return false
+
+  if (filters.minTrust !== undefined) {
+    const humans = entry.participants.filter(participant => !participant.isAI)
+    if (humans.some(participant => participant.trustScore < filters.minTrust!)) return false
+  }
+
+  if (filters.subjects && filters.subjects.length > 0) {
+    const keywords = new Set(entry.keywords)
+    if (!filters.subjects.some(subject => subject.length > 0 && subject.every(hash => keywords.has(hash)))) return false
+  }
+
+  return true
+}
+
+/**
+ * The entry as one chat: user and assistant turns in time order, consecutive
+ * messages of one side joined, starting with the user and ending with the
+ * assistant. Null when there is no such exchange.
+ */
+export function toChat(
+  entry: TrainingCorpusEntry,
+  rules: CompiledRule[],
+  systemPrompt: string,
+  counts: Record<string, number>
+): ChatMessage[] | null {
+  const turns: ChatMessage[] = []
+  const messages = [...entry.messages].sort((a, b) => a.timestamp - b.timestamp)
+
+  for (const message of messages) {
+    const content = redact(message.content || '', rules, counts).trim()
+    if (!content) continue
+
+    const role = message.isAI ? 'assistant' : 'user'
+    const last = turns[turns.length - 1]
+    if (last && last.role === role) {
+      last.content = `${last.content}\n\n${content}`
+    } else if (last || role === 'user') {
+      turns.push({ role, content })
+    }
+  }
+
+  while (turns.length > 0 && turns[turns.length - 1].role !== 'assistant') {
+    turns.pop()
+  }
+  if (turns.length === 0) return null
+
+  return [{ role: 'system', content: systemPrompt }, ...turns]
+}
+
+export function exampleHash(messages: ChatMessage[]): string {
+  return crypto.createHash('sha256').update(JSON.stringify(messages)).digest('hex')
+}
+
+/**
+ * JSONL lines and their manifest for the given entries
+ */
+export function buildCorpusExport(
+  sources: CorpusSource[],
+  options: {
+    filters: CorpusExportFilters
+    rules: RedactionRule[]
+    systemPrompt?: string
+    isConsented: (conversationId: string) => boolean
+    now: number
+  }
+): { lines: string[]; manifest: CorpusManifest } {
+  const rules = compileRules(options.rules)
+  const systemPrompt = options.systemPrompt || DEFAULT_SYSTEM_PROMPT
+  const manifest: CorpusManifest = {
+    version: 1,
+    createdAt: options.now,
+    filters: options.filters,
+    systemPrompt,
+    redactionRules: rules.map(rule => rule.name),
+    counts: { sources: sources.length, exported: 0, notConsented: 0, filtered: 0, duplicates: 0, empty: 0 },
+    redactions: {},
+    entries: []
+  }
+
+  const lines: string[] = []
+  const seenSources = new Set<string>()
+  const seenExamples = new Set<string>()
+
+  for (const { hash, entry } of [...sources].sort((a, b) => a.entry.created - b.entry.created)) {
+    if (seenSources.has(hash)) {
+      manifest.counts.duplicates++
+      continue
+    }
+    seenSources.add(hash)
+
+    if (!options.isConsented(entry.conversationId)) {
+      manifest.counts.notConsented++
+      continue
+    }
+    if (!matchesFilters(entry, options.filters)) {
+      manifest.counts.filtered++
+      continue
+    }
+
+    // Redactions only count for what is written
+    const counts: Record<string, number> = {}
+    const messages = toChat(entry, rules, systemPrompt, counts)
+    if (!messages) {
+      manifest.counts.empty++
+      continue
+    }
+
+    const example = exampleHash(messages)
+    if (seenExamples.has(example)) {
+      manifest.counts.duplicates++
+      continue
+    }
+    seenExamples.add(example)
+
+    lines.push(JSON.stringify({ messages }))
+    for (const [name, count] of Object.entries(counts)) {
+      manifest.redactions[name] = (manifest.redactions[name] || 0) + count
+    }
+    manifest.entries.push({
+      line: lines.length,
+      sourceHash: hash,
+      conversationId: entry.conversationId,
+      created: entry.created,
+      exampleHash: example
+    })
+  }
+
+  manifest.counts.exported = lines.length
+  return { lines, manifest }
+}
@@ -1,10 +1,50 @@
 /**
  * Feed-Forward Manager
  * Main orchestrator for Supply/Demand matching and trust-based knowledge sharing
+ *
+ * Supplies and demands are shared with contacts over per-recipient channels and
+ * matched across everything received. A match only leads to content exchange
+ * after both the requester and the supplier accepted it.
+ *
+ * Events: 'match-found' and 'match-updated' carry a FeedForwardMatch
  */
 
 import { EventEmitter } from 'events'
 import crypto from 'crypto'
+import path from 'path'
+import type { ConversationSharing } from '@OneObjectInterfaces'
+import {
+  FEED_FORWARD_CHANNEL_PREFIX,
+  isExchangeContact,
+  isExpired,
+  matchDecisions,
+  matchKey,
+  scoreMatches,
+  type FeedForwardDemand,
+  type FeedForwardMatch,
+  type FeedForwardSupply,
+  type MatchState,
+  type SupplyCandidate,
+  type SupplyDemandMatchDecision
+} from './supply-demand.js'
+import { getContactNames, grantChannelAccess } from '../../services/contact-channels.js'
+import {
+  CORPUS_CURSOR_END,
+  DEFAULT_REDACTION_RULES,
+  buildCorpusExport,
+  compareSources,
+  corpusCursor,
+  corpusEntryFor,
+  keywordHash,
+  parseCorpusCursor,
+  subjectKeywordHashes,
+  type CorpusExportFilters,
+  type CorpusManifest,
+  type CorpusMessage,
+  type CorpusSource,
+  type RedactionRule,
+  type TrainingCorpusEntry
+} from './corpus-export.js'
 
 interface FeedForwardManagerOptions {
   nodeOneCore: any
@@ -12,6 +52,12 @@ interface FeedForwardManagerOptions {
   trustManager?: any
 }
 
+interface ExchangeEntries {
+  supplies: Map<string, FeedForwardSupply>   // by object hash
+  demands: Map<string, FeedForwardDemand>
+  decisions: SupplyDemandMatchDecision[]
+}
+
 class FeedForwardManager extends EventEmitter {
   private nodeOneCore: any
   private keywordExtractor: any
@@ -19,6 +65,10 @@ class FeedForwardManager extends EventEmitter {
   private supplyCache: Map<string, any> = new Map()
   private demandCache: Map<string, any> = new Map()
   private initialized: boolean = false
+  private unsubscribe: (() => void) | null = null
+  private grantedChannels: Set<string> = new Set()
+  private knownMatches: Map<string, MatchState> | null = null
+  private exchangedMatches: Set<string> = new Set()
 
   constructor(options: FeedForwardManagerOptions) {
     super()
@@ -54,6 +104,25 @@ class FeedForwardManager extends EventEmitter {
       this.trustManager = new ContactTrustManager(this.nodeOneCore)
     }
 
+    // Supplies, demands and decisions from contacts arrive through CHUM
+    if (this.nodeOneCore.channelManager?.onUpdated && !this.unsubscribe) {
+      this.unsubscribe = this.nodeOneCore.channelManager.onUpdated(
+        (_channelInfoIdHash: any, channelId: string, channelOwner: any) => {
+          if (!channelId?.startsWith(FEED_FORWARD_CHANNEL_PREFIX) || String(channelOwner) === String(this.nodeOneCore.ownerId)) {
+            return
+          }
+          this.checkMatches().catch(error => {
+            console.warn('[FeedForwardManager] Failed to check matches:', error.message)
+          })
+        }
+      )
+    }
+
+    // Seed the known matches so that only later ones are announced
+    this.checkMatches().catch(error => {
+      console.warn('[FeedForwardManager] Failed to load matches:', error.message)
+    })
+
     this.initialized = true
     console.log('[FeedForwardManager] Initialized successfully')
   }
@@ -66,7 +135,7 @@ class FeedForwardManager extends EventEmitter {
     contextLevel: number
     conversationId: string
     metadata?: any
-  }): Promise<{ success: boolean; supplyHash?: string; keywordHashes?: string[]; error?: string }> {
+  }): Promise<{ success: boolean; supplyHash?: string; keywordHashes?: string[]; sharedWith?: number; error?: string }> {
     try {
       await this.initialize()
 
@@ -106,8 +175,8 @@ class FeedForwardManager extends EventEmitter {
       const supplyId = crypto.randomUUID()
 
       // Create Supply object
-      const supply = {
-        $type$: 'Supply',
+      const supply: FeedForwardSupply = {
+        $type$: 'FeedForwardSupply',
         id: supplyId,
         keywords: keywordHashes,
         contextLevel: params.contextLevel,
@@ -115,8 +184,8 @@ class FeedForwardManager extends EventEmitter {
         creatorId: creatorId,
         trustScore: trustScore.score,
         created: Date.now(),
-        metadata: params.metadata || {},
-        isRecursive: false
+        isRecursive: false,
+        ...(params.metadata && { metadata: params.metadata })
       }
 
       // Store in ONE.core (cast to any to bypass TypeScript type checking for now)
@@ -126,12 +195,14 @@ class FeedForwardManager extends EventEmitter {
 
       // Cache locally for fast matching
       this.supplyCache.set(supplyHash, supply)
+      const sharedWith = await this.share(supply)
 
       console.log('[FeedForwardManager] Supply created:', {
         supplyHash,
         keywords: params.keywords,
         keywordHashes: keywordHashes.slice(0, 3), // Log first 3 for debugging
-        contextLevel: params.contextLevel
+        contextLevel: params.contextLevel,
+        sharedWith
       })
 
       this.emit('supply-created', {
@@ -143,7 +214,8 @@ class FeedForwardManager extends EventEmitter {
       return {
         success: true,
         supplyHash,
-        keywordHashes
+        keywordHashes,
+        sharedWith
       }
 
     } catch (error) {
@@ -165,7 +237,7 @@ class FeedForwardManager extends EventEmitter {
     criteria?: any
     expires?: number
     maxResults?: number
-  }): Promise<{ success: boolean; demandHash?: string; error?: string }> {
+  }): Promise<{ success: boolean; demandHash?: string; sharedWith?: number; error?: string }> {
     try {
       await this.initialize()
 
@@ -206,17 +278,17 @@ class FeedForwardManager extends EventEmitter {
       const demandId = crypto.randomUUID()
 
       // Create Demand object
-      const demand = {
-        $type$: 'Demand',
+      const demand: FeedForwardDemand = {
+        $type$: 'FeedForwardDemand',
         id: demandId,
         keywords: keywordHashes,
         urgency: params.urgency,
         context: params.context,
-        criteria: params.criteria || {},
         requesterId: requesterId,
         created: Date.now(),
-        expires: params.expires,
-        maxResults: params.maxResults
+        ...(params.criteria && { criteria: params.criteria }),
+        ...(params.expires && { expires: params.expires }),
+        ...(params.maxResults && { maxResults: params.maxResults })
       }
 
       // Store in ONE.core (cast to any to bypass TypeScript type checking for now)
@@ -226,11 +298,13 @@ class FeedForwardManager extends EventEmitter {
 
       // Cache locally
       this.demandCache.set(demandHash, demand)
+      const sharedWith = await this.share(demand)
 
       console.log('[FeedForwardManager] Demand created:', {
         demandHash,
         keywords: params.keywords,
-        urgency: params.urgency
+        urgency: params.urgency,
+        sharedWith
       })
 
       this.emit('demand-created', {
@@ -241,7 +315,8 @@ class FeedForwardManager extends EventEmitter {
 
       return {
         success: true,
-        demandHash
+        demandHash,
+        sharedWith
       }
 
     } catch (error) {
@@ -254,13 +329,13 @@ class FeedForwardManager extends EventEmitter {
   }
 
   /**
-   * Find Supply objects that match a Demand
+   * Find Supply objects that match a Demand - our own and those contacts shared with us
    */
   async matchSupplyDemand(params: {
     demandHash: string
     minTrust?: number
     limit?: number
-  }): Promise<{ success: boolean; matches?: any[]; error?: string }> {
+  }): Promise<{ success: boolean; matches?: FeedForwardMatch[]; error?: string }> {
     try {
       await this.initialize()
 
@@ -280,72 +355,28 @@ class FeedForwardManager extends EventEmitter {
         return { success: false, error: 'Limit must be between 1 and 100' }
       }
 
-      // Get demand object
-      let demand = this.demandCache.get(params.demandHash)
-      if (!demand) {
-        // Try to load from storage
-        try {
-          const { getObjectByIdHash } = await import('@refinio/one.core/lib/storage-versioned-objects.js')
-          const { ensureIdHash } = await import('@refinio/one.core/lib/util/type-checks.js')
-          const demandResult = await getObjectByIdHash(ensureIdHash(params.demandHash))
-          demand = demandResult.obj
-          if (demand) {
-            this.demandCache.set(params.demandHash, demand)
-          }
-        } catch (error) {
-          return { success: false, error: 'Demand not found' }
-        }
-      }
-
+      const entries = await this.readExchange()
+      const demand = entries.demands.get(params.demandHash)
       if (!demand) {
         return { success: false, error: 'Demand not found' }
       }
 
-      // Find matching Supply objects
-      const matches = []
-
-      // For now, search in cache - later we'll implement proper storage queries
-      for (const [supplyHash, supply] of this.supplyCache.entries()) {
-        // Skip if trust score too low
-        if (supply.trustScore < minTrust) {
-          continue
-        }
-
-        // Calculate keyword overlap
-        const matchedKeywords = supply.keywords.filter((hash: string) =>
-          demand.keywords.includes(hash)
-        )
-
-        if (matchedKeywords.length === 0) {
-          continue
-        }
-
-        // Calculate match score based on keyword overlap
-        const overlapRatio = matchedKeywords.length / Math.max(supply.keywords.length, demand.keywords.length)
-        const matchScore = overlapRatio
-
-        // Weight by trust score
-        const trustWeight = supply.trustScore * matchScore
-
-        matches.push({
-          supplyHash,
-          matchScore,
-          trustWeight,
-          matchedKeywords,
-          conversationId: supply.conversationId
-        })
-      }
-
-      // Sort by trust-weighted score and limit results
-      matches.sort((a, b) => b.trustWeight - a.trustWeight)
-      const limitedMatches = matches.slice(0, limit)
+      const matches = (await this.findMatches(entries))
+        .filter(match => match.demandHash === params.demandHash && match.trustScore >= minTrust)
+        .slice(0, limit)
 
       // Create match records
-      for (const match of limitedMatches) {
+      const { storeUnversionedObject } = await import('@refinio/one.core/lib/storage-unversioned-objects.js')
+      for (const match of matches) {
         const matchRecord = {
           $type$: 'SupplyDemandMatch',
-          demandHash: params.demandHash,
+          demandHash: match.demandHash,
           supplyHash: match.supplyHash,
+          demandId: match.demandId,
+          supplyId: match.supplyId,
+          requesterId: match.requesterId,
+          supplierId: match.supplierId,
+          trustScore: match.trustScore,
           matchScore: match.matchScore,
           matchedKeywords: match.matchedKeywords,
           trustWeight: match.trustWeight,
@@ -353,19 +384,18 @@ class FeedForwardManager extends EventEmitter {
         }
 
         // Store match record (cast to any to bypass TypeScript type checking for now)
-        const { storeUnversionedObject } = await import('@refinio/one.core/lib/storage-unversioned-objects.js')
         await storeUnversionedObject(matchRecord as any)
       }
 
       console.log('[FeedForwardManager] Found matches:', {
         demandHash: params.demandHash,
-        matchCount: limitedMatches.length,
-        totalSupplies: this.supplyCache.size
+        matchCount: matches.length,
+        totalSupplies: entries.supplies.size
       })
 
       return {
         success: true,
-        matches: limitedMatches
+        matches
       }
 
     } catch (error) {
@@ -377,6 +407,279 @@ class FeedForwardManager extends EventEmitter {
     }
   }
 
+  /**
+   * All current matches we take part in, as requester or as supplier
+   */
+  async getMatches(): Promise<{ success: boolean; matches?: FeedForwardMatch[]; error?: string }> {
+    try {
+      await this.initialize()
+      return { success: true, matches: await this.findMatches(await this.readExchange()) }
+    } catch (error) {
+      console.error('[FeedForwardManager] Error getting matches:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error getting matches'
+      }
+    }
+  }
+
+  /**
+   * Accept or reject a match. Content is exchanged once both sides accepted:
+   * the supplier then gives the requester access to the supplied conversation.
+   */
+  async respondToMatch(params: {
+    demandId: string
+    supplyId: string
+    accept: boolean
+  }): Promise<{ success: boolean; match?: FeedForwardMatch; error?: string }> {
+    try {
+      await this.initialize()
+
+      if (!params.demandId || !params.supplyId) {
+        return { success: false, error: 'Demand ID and supply ID are required' }
+      }
+
+      if (typeof params.accept !== 'boolean') {
+        return { success: false, error: 'Accept must be a boolean' }
+      }
+
+      const myId = String(this.nodeOneCore.ownerId)
+      const key = matchKey(params.demandId, params.supplyId)
+      const match = (await this.findMatches(await this.readExchange())).find(m => matchKey(m.demandId, m.supplyId) === key)
+      if (!match) {
+        return { success: false, error: 'Match not found' }
+      }
+
+      if (match.state !== 'pending') {
+        return { success: false, error: `Match was already ${match.state}` }
+      }
+
+      const decision: SupplyDemandMatchDecision = {
+        $type$: 'SupplyDemandMatchDecision',
+        demandId: params.demandId,
+        supplyId: params.supplyId,
+        personId: myId,
+        decision: params.accept ? 'accepted' : 'rejected',
+        decidedAt: Date.now()
+      }
+      await this.post(decision, match.counterpartId === myId ? [] : [match.counterpartId])
+
+      console.log('[FeedForwardManager] Match answered:', {
+        demandId: params.demandId,
+        supplyId: params.supplyId,
+        decision: decision.decision
+      })
+
+      await this.checkMatches()
+      const updated = (await this.findMatches(await this.readExchange())).find(m => matchKey(m.demandId, m.supplyId) === key)
+
+      return {
+        success: true,
+        match: updated
+      }
+
+    } catch (error) {
+      console.error('[FeedForwardManager] Error answering match:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error answering match'
+      }
+    }
+  }
+
+  /**
+   * Notify about new matches and changed states, and exchange content for
+   * matches both sides accepted
+   */
+  private async checkMatches(): Promise<void> {
+    const matches = await this.findMatches(await this.readExchange())
+    const myId = String(this.nodeOneCore.ownerId)
+
+    // What existed before startup was already seen
+    const firstCheck = this.knownMatches === null
+    const known = this.knownMatches || new Map<string, MatchState>()
+    this.knownMatches = known
+
+    for (const match of matches) {
+      const key = matchKey(match.demandId, match.supplyId)
+      const previous = known.get(key)
+      known.set(key, match.state)
+
+      if (!firstCheck && previous === undefined) {
+        this.emit('match-found', match)
+      } else if (!firstCheck && previous !== match.state) {
+        this.emit('match-updated', match)
+      }
+
+      if (match.state === 'accepted' && match.role === 'supplier' && match.counterpartId !== myId && !this.exchangedMatches.has(key)) {
+        await this.grantConversation(match.conversationId, match.counterpartId)
+        this.exchangedMatches.add(key)
+      }
+    }
+  }
+
+  /**
+   * Our demands against every supply, and contacts' demands against our supplies.
+   * Supplies count with the TrustScore we hold for their creator, not their own.
+   */
+  private async findMatches(entries: ExchangeEntries): Promise<FeedForwardMatch[]> {
+    const myId = String(this.nodeOneCore.ownerId)
+    const now = Date.now()
+    const trust = new Map<string, { score: number; components: any }>()
+    const trustOf = async (personId: string) => {
+      if (!trust.has(personId)) {
+        const { score, components } = await this.getTrustScore(personId)
+        trust.set(personId, { score, components })
+      }
+      return trust.get(personId)!
+    }
+
+    const allSupplies: SupplyCandidate[] = []
+    for (const [supplyHash, supply] of entries.supplies) {
+      allSupplies.push({ supply, supplyHash, trustScore: (await trustOf(supply.creatorId)).score })
+    }
+    const ownSupplies = allSupplies.filter(candidate => candidate.supply.creatorId === myId)
+
+    const names = await getContactNames(this.nodeOneCore)
+    const matches: FeedForwardMatch[] = []
+    for (const [demandHash, demand] of entries.demands) {
+      if (isExpired(demand, now)) continue
+
+      const role = demand.requesterId === myId ? 'requester' : 'supplier'
+      const candidates = role === 'requester' ? allSupplies : ownSupplies
+      for (const scored of scoreMatches(demand, candidates, { minTrust: 0, limit: 100 })) {
+        const decisions = entries.decisions.filter(d => d.demandId === demand.id && d.supplyId === scored.supplyId)
+        const counterpartId = role === 'requester' ? scored.supplierId : demand.requesterId
+        matches.push({
+          ...scored,
+          ...matchDecisions(decisions, demand.requesterId, scored.supplierId),
+          demandHash,
+          demandId: demand.id,
+          requesterId: demand.requesterId,
+          demandContext: demand.context,
+          urgency: demand.urgency,
+          role,
+          counterpartId,
+          counterpartName: counterpartId === myId ? 'You' : names.get(counterpartId) || `${counterpartId.substring(0, 8)}...`,
+          counterpartTrust: await trustOf(counterpartId)
+        })
+      }
+    }
+
+    return matches.sort((a, b) => b.trustWeight - a.trustWeight)
+  }
+
+  /**
+   * Our own supplies and demands plus what contacts we accepted or trust shared with us
+   */
+  private async readExchange(): Promise<ExchangeEntries> {
+    const entries: ExchangeEntries = {
+      supplies: new Map(this.supplyCache),
+      demands: new Map(this.demandCache),
+      decisions: []
+    }
+
+    const myId = this.nodeOneCore.ownerId
+    const channelManager = this.nodeOneCore.channelManager
+    if (!myId || !channelManager) return entries
+
+    const channelInfos = (await channelManager.getMatchingChannelInfos({ channelId: `${FEED_FORWARD_CHANNEL_PREFIX}${myId}` }))
+      .filter((channel: any) => channel.owner)
+    if (channelInfos.length === 0) return entries
+
+    const senderTrusted = new Map<string, boolean>()
+    for await (const entry of channelManager.multiChannelObjectIterator(channelInfos)) {
+      const data = entry.data
+      const sender = String(entry.channelOwner)
+
+      if (!senderTrusted.has(sender)) {
+        senderTrusted.set(sender, sender === String(myId) || isExchangeContact(await this.trustManager.getContactTrustLevel(sender)))
+      }
+      if (!senderTrusted.get(sender)) continue
+
+      // Senders only speak for themselves
+      if (data?.$type$ === 'FeedForwardSupply' && data.creatorId === sender) {
+        entries.supplies.set(String(entry.dataHash), data)
+      } else if (data?.$type$ === 'FeedForwardDemand' && data.requesterId === sender) {
+        entries.demands.set(String(entry.dataHash), data)
+      } else if (data?.$type$ === 'SupplyDemandMatchDecision' && data.personId === sender) {
+        entries.decisions.push(data)
+      }
+    }
+
+    return entries
+  }
+
+  /**
+   * Share a supply or demand with every contact we accepted or trust
+   */
+  private async share(obj: FeedForwardSupply | FeedForwardDemand): Promise<number> {
+    try {
+      const myId = String(this.nodeOneCore.ownerId)
+      const recipients: string[] = []
+      for (const someone of await this.nodeOneCore.leuteModel?.others() || []) {
+        const personId = String(await someone.mainIdentity())
+        if (personId === myId) continue
+        if (isExchangeContact(await this.trustManager.getContactTrustLevel(personId))) {
+          recipients.push(personId)
+        }
+      }
+
+      await this.post(obj, recipients)
+      return recipients.length
+    } catch (error) {
+      // The object stays available locally
+      console.warn('[FeedForwardManager] Could not share with contacts:', (error as Error).message)
+      return 0
+    }
+  }
+
+  /**
+   * Store the object, keep it in our own channel and post it to our channel for each recipient
+   */
+  private async post(obj: FeedForwardSupply | FeedForwardDemand | SupplyDemandMatchDecision, recipients: string[]): Promise<void> {
+    const channelManager = this.nodeOneCore.channelManager
+    const myId = this.nodeOneCore.ownerId
+    if (!channelManager || !myId) {
+      throw new Error('ChannelManager not available')
+    }
+
+    const { storeVersionedObject } = await import('@refinio/one.core/lib/storage-versioned-objects.js')
+    await storeVersionedObject(obj as any)
+
+    for (const recipient of [String(myId), ...recipients]) {
+      const channelId = `${FEED_FORWARD_CHANNEL_PREFIX}${recipient}`
+      if (!this.grantedChannels.has(channelId)) {
+        await channelManager.createChannel(channelId, myId)
+        if (recipient !== String(myId)) {
+          await grantChannelAccess(channelId, this.nodeOneCore.ownerId, recipient)
+        }
+        this.grantedChannels.add(channelId)
+      }
+      await channelManager.postToChannel(channelId, obj, myId)
+    }
+  }
+
+  /**
+   * Give the requester of an accepted match read access to the supplied conversation
+   */
+  private async grantConversation(conversationId: string, personId: string): Promise<void> {
+    const channels = await this.nodeOneCore.channelManager.getMatchingChannelInfos({ channelId: conversationId })
+    const ownChannels = channels.filter((channel: any) => String(channel.owner) === String(this.nodeOneCore.ownerId))
+    if (ownChannels.length === 0) {
+      console.warn('[FeedForwardManager] Supplied conversation no longer exists:', conversationId)
+      return
+    }
+
+    for (const channel of ownChannels) {
+      await grantChannelAccess(channel.id, this.nodeOneCore.ownerId, personId)
+    }
+    console.log('[FeedForwardManager] Shared conversation after accepted match:', {
+      conversationId,
+      personId: personId.substring(0, 8)
+    })
+  }
+
   /**
    * Get or calculate trust score for a participant
    */
@@ -418,8 +721,19 @@ class FeedForwardManager extends EventEmitter {
    */
   async getTrustScore(participantId: string): Promise<{ score: number; components: any; history: any[] }> {
     try {
-      // Query for existing TrustScore object
-      // For now, return default - later implement storage query
+      const { getObjectByIdHash } = await import('@refinio/one.core/lib/storage-versioned-objects.js')
+      const { calculateIdHashOfObj } = await import('@refinio/one.core/lib/util/object.js')
+      const idHash = await calculateIdHashOfObj({ $type$: 'TrustScore', participantId } as any)
+      const stored: any = await getObjectByIdHash(idHash).catch(() => null)
+      if (stored?.obj) {
+        return {
+          score: stored.obj.score,
+          components: stored.obj.components,
+          history: stored.obj.history || []
+        }
+      }
+
+      // No score yet - defaults for new participants
       return {
         score: 0.5,
         components: {
@@ -534,7 +848,7 @@ class FeedForwardManager extends EventEmitter {
         timestamp: Date.now(),
         change: params.adjustment,
         reason: params.reason,
-        evidence: params.evidence
+        ...(params.evidence !== undefined && { evidence: params.evidence })
       }
 
       // Store updated trust score
@@ -582,7 +896,9 @@ class FeedForwardManager extends EventEmitter {
   }
 
   /**
-   * Enable or disable sharing for a conversation
+   * Enable or disable sharing for a conversation. Only shared conversations
+   * go into the training corpus, and without retroactive only their messages
+   * from the time sharing was enabled.
    */
   async enableSharing(params: {
     conversationId: string
@@ -601,10 +917,21 @@ class FeedForwardManager extends EventEmitter {
         return { success: false, error: 'Enabled must be a boolean' }
       }
 
-      // For now, we'll implement this as a simple storage operation
-      // In a full implementation, this would update Topic objects
+      const previous = await this.getSharing(params.conversationId)
+      const previousState = previous?.enabled === true
 
-      const previousState = false // TODO: Get actual previous state
+      // Sharing that is on already keeps its start
+      const now = Date.now()
+      const sharedSince = params.retroactive ? undefined : (previousState ? previous?.sharedSince : now)
+
+      const { storeVersionedObject } = await import('@refinio/one.core/lib/storage-versioned-objects.js')
+      await storeVersionedObject({
+        $type$: 'ConversationSharing',
+        conversationId: params.conversationId,
+        enabled: params.enabled,
+        ...(params.enabled && sharedSince !== undefined && { sharedSince }),
+        updatedAt: now
+      })
 
       console.log('[FeedForwardManager] Sharing setting updated:', {
         conversationId: params.conversationId,
@@ -634,16 +961,21 @@ class FeedForwardManager extends EventEmitter {
   }
 
   /**
-   * Get training corpus stream
+   * Get training corpus stream, oldest first. Pass nextCursor back as cursor for
+   * the next page; it is 'end' after the last one.
    */
   async getCorpusStream(params: {
     since?: number
     minQuality?: number
     keywords?: string[]
-  }): Promise<{ success: boolean; entries?: any[]; hasMore?: boolean; nextCursor?: string; error?: string }> {
+    cursor?: string
+    limit?: number
+  }): Promise<{ success: boolean; entries?: TrainingCorpusEntry[]; hasMore?: boolean; nextCursor?: string; error?: string }> {
     try {
       await this.initialize()
 
+      const limit = params.limit || 100
+
       // Validate parameters
       if (params.minQuality && (params.minQuality < 0 || params.minQuality > 1)) {
         return { success: false, error: 'Min quality must be between 0 and 1' }
@@ -653,15 +985,39 @@ class FeedForwardManager extends EventEmitter {
         return { success: false, error: 'Since timestamp must be non-negative' }
       }
 
-      // For now, return empty entries - full implementation will query corpus
-      const entries: any[] = []
-      const hasMore = false
-      const nextCursor = 'end'
+      if (limit < 1 || limit > 1000) {
+        return { success: false, error: 'Limit must be between 1 and 1000' }
+      }
+
+      const after = params.cursor ? parseCorpusCursor(params.cursor) : null
+      if (params.cursor && !after) {
+        return { success: false, error: 'Invalid cursor' }
+      }
+      if (after === CORPUS_CURSOR_END) {
+        return { success: true, entries: [], hasMore: false, nextCursor: CORPUS_CURSOR_END }
+      }
+
+      const keywordHashes = (params.keywords || []).map(keywordHash)
+      const cursorSource = after && { hash: after.hash, entry: { created: after.created } as TrainingCorpusEntry }
+
+      const matching = (await this.readCorpus())
+        .filter(source =>
+          (!cursorSource || compareSources(source, cursorSource) > 0) &&
+          (!params.since || source.entry.created >= params.since) &&
+          (!params.minQuality || source.entry.qualityScore >= params.minQuality) &&
+          keywordHashes.every(hash => source.entry.keywords.includes(hash)))
+        .sort(compareSources)
+
+      const page = matching.slice(0, limit)
+      const entries = page.map(({ entry }) => entry)
+      const hasMore = matching.length > limit
+      const nextCursor = hasMore ? corpusCursor(page[page.length - 1]) : CORPUS_CURSOR_END
 
       console.log('[FeedForwardManager] Corpus stream requested:', {
         since: params.since,
         minQuality: params.minQuality,
-        keywords: params.keywords?.length || 0
+        keywords: params.keywords?.length || 0,
+        returned: entries.length
       })
 
       return {
@@ -679,6 +1035,171 @@ class FeedForwardManager extends EventEmitter {
       }
     }
   }
+
+  /**
+   * Write the corpus entries of shared conversations as chat-format JSONL, with
+   * a manifest of the source entry hashes next to it (<file>.manifest.json)
+   */
+  async exportCorpus(params: {
+    outputPath: string
+    minTrust?: number
+    since?: number
+    until?: number
+    subjects?: string[]
+    redactionRules?: RedactionRule[]
+    useDefaultRules?: boolean
+    systemPrompt?: string
+  }): Promise<{ success: boolean; outputPath?: string; manifestPath?: string; counts?: CorpusManifest['counts']; error?: string }> {
+    try {
+      await this.initialize()
+
+      // Validate parameters
+      if (!params.outputPath) {
+        return { success: false, error: 'Output path is required' }
+      }
+
+      if (params.minTrust !== undefined && (params.minTrust < 0 || params.minTrust > 1)) {
+        return { success: false, error: 'Min trust must be between 0 and 1' }
+      }
+
+      if (params.since !== undefined && params.until !== undefined && params.since > params.until) {
+        return { success: false, error: 'Since must not be after until' }
+      }
+
+      const sources = await this.readCorpus()
+      const consented = new Map<string, boolean>()
+      for (const { entry } of sources) {
+        if (!consented.has(entry.conversationId)) {
+          consented.set(entry.conversationId, await this.isSharingEnabled(entry.conversationId))
+        }
+      }
+
+      const filters: CorpusExportFilters = {
+        ...(params.minTrust !== undefined && { minTrust: params.minTrust }),
+        ...(params.since !== undefined && { since: params.since }),
+        ...(params.until !== undefined && { until: params.until }),
+        ...(params.subjects?.length && { subjects: params.subjects.map(subjectKeywordHashes) })
+      }
+
+      const { lines, manifest } = buildCorpusExport(sources, {
+        filters,
+        rules: [
+          ...(params.useDefaultRules === false ? [] : DEFAULT_REDACTION_RULES),
+          ...(params.redactionRules || [])
+        ],
+        systemPrompt: params.systemPrompt,
+        isConsented: conversationId => consented.get(conversationId) === true,
+        now: Date.now()
+      })
+
+      const content = lines.length > 0 ? `${lines.join('\n')}\n` : ''
+      const manifestPath = `${params.outputPath.replace(/\.jsonl$/, '')}.manifest.json`
+      const { promises: fs } = await import('fs')
+      await fs.writeFile(params.outputPath, content, 'utf8')
+      await fs.writeFile(manifestPath, JSON.stringify({
+        ...manifest,
+        output: path.basename(params.outputPath),
+        outputSha256: crypto.createHash('sha256').update(content).digest('hex')
+      }, null, 2), 'utf8')
+
+      console.log('[FeedForwardManager] Corpus exported:', {
+        outputPath: params.outputPath,
+        ...manifest.counts
+      })
+
+      return {
+        success: true,
+        outputPath: params.outputPath,
+        manifestPath,
+        counts: manifest.counts
+      }
+
+    } catch (error) {
+      console.error('[FeedForwardManager] Error exporting corpus:', error)
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error exporting corpus'
+      }
+    }
+  }
+
+  /**
+   * Corpus entries of the conversations with sharing enabled, built from their
+   * messages and stored so that export manifests can name them by hash
+   */
+  private async readCorpus(): Promise<CorpusSource[]> {
+    const channelManager = this.nodeOneCore.channelManager
+    if (!channelManager || !this.nodeOneCore.topicModel) return []
+
+    const conversationIds = new Set<string>(
+      (await channelManager.getMatchingChannelInfos())
+        .map((channel: any) => String(channel.id))
+        .filter((channelId: string) => !channelId.startsWith(FEED_FORWARD_CHANNEL_PREFIX))
+    )
+
+    const { storeUnversionedObject } = await import('@refinio/one.core/lib/storage-unversioned-objects.js')
+    const sources: CorpusSource[] = []
+    for (const conversationId of conversationIds) {
+      const sharing = await this.getSharing(conversationId)
+      if (!sharing?.enabled) continue
+
+      const entry = corpusEntryFor(conversationId, await this.readSharedMessages(conversationId, sharing.sharedSince))
+      if (!entry) continue
+
+      const result = await storeUnversionedObject(entry as any)
+      sources.push({ hash: String(result.hash), entry })
+    }
+    return sources
+  }
+
+  /**
+   * Text messages of a conversation from sharedSince on
+   */
+  private async readSharedMessages(conversationId: string, sharedSince?: number): Promise<CorpusMessage[]> {
+    const topicRoom: any = await this.nodeOneCore.topicModel.enterTopicRoom(conversationId)
+    const trust = new Map<string, number>()
+    const messages: CorpusMessage[] = []
+
+    for (const message of await topicRoom.retrieveAllMessages()) {
+      const content = message.data?.text
+      const authorId = String(message.data?.sender || message.author || '')
+      const timestamp = new Date(message.creationTime).getTime()
+      if (typeof content !== 'string' || !content.trim() || !authorId) continue
+      if (sharedSince !== undefined && timestamp < sharedSince) continue
+
+      if (!trust.has(authorId)) {
+        trust.set(authorId, (await this.getTrustScoreForParticipant(authorId)).score)
+      }
+      messages.push({
+        id: String(message.dataHash),
+        authorId,
+        isAI: !!this.nodeOneCore.aiAssistantModel?.isAIPerson(authorId),
+        content,
+        keywords: this.keywordExtractor.extractSingleWords(content).map(keywordHash),
+        timestamp,
+        trustScore: trust.get(authorId)!
+      })
+    }
+
+    return messages
+  }
+
+  private async getSharing(conversationId: string): Promise<ConversationSharing | undefined> {
+    try {
+      const { getObjectByIdHash } = await import('@refinio/one.core/lib/storage-versioned-objects.js')
+      const { calculateIdHashOfObj } = await import('@refinio/one.core/lib/util/object.js')
+      const idHash = await calculateIdHashOfObj({ $type$: 'ConversationSharing', conversationId })
+      const result = await getObjectByIdHash(idHash)
+      return result.obj
+    } catch (error) {
+      // Never enabled - private by default
+      return undefined
+    }
+  }
+
+  private async isSharingEnabled(conversationId: string): Promise<boolean> {
+    return (await this.getSharing(conversationId))?.enabled === true
+  }
 }
 
 export default FeedForwardManager
\ No newline at end of file
@@ -0,0 +1,177 @@
+/**
+ * Supply/Demand
+ * Rules for exchanging Supply and Demand objects with contacts and matching
+ * them: how a match scores, who decided what about it, and when both sides
+ * agreed so that content may be exchanged.
+ *
+ * Objects travel in one channel per recipient, owned by the sender:
+ *   feed-forward:<recipient>   FeedForwardSupply, FeedForwardDemand, SupplyDemandMatchDecision
+ * Our own channel with our own id keeps what we created ourselves.
+ *
+ * Everything here is pure; FeedForwardManager stores, posts and reads the objects.
+ */
+
+export const FEED_FORWARD_CHANNEL_PREFIX = 'feed-forward:'
+
+// Contact trust levels we exchange with - 'discovered' contacts were never accepted by the user
+const EXCHANGE_TRUST_LEVELS = new Set(['accepted', 'trusted'])
+
+export interface FeedForwardSupply {
+  $type$: 'FeedForwardSupply'
+  id: string
+  keywords: string[]          // SHA-256 of the normalized keyword terms
+  contextLevel: number
+  conversationId: string
+  creatorId: string
+  trustScore: number          // The creator's own score - receivers use the TrustScore they hold instead
+  created: number
+  metadata?: any
+  isRecursive: boolean
+}
+
+export interface FeedForwardDemand {
+  $type$: 'FeedForwardDemand'
+  id: string
+  keywords: string[]
+  urgency: number
+  context: string
+  criteria?: any
+  requesterId: string
+  created: number
+  expires?: number
+  maxResults?: number
+}
+
+export type MatchDecision = 'accepted' | 'rejected'
+export type MatchState = 'pending' | MatchDecision
+
+export interface SupplyDemandMatchDecision {
+  $type$: 'SupplyDemandMatchDecision'
+  demandId: string
+  supplyId: string
+  personId: string            // Who decided - the requester or the supplier
+  decision: MatchDecision
+  decidedAt: number
+}
+
+export interface SupplyCandidate {
+  supply: FeedForwardSupply
+  supplyHash: string
+  trustScore: number          // Our TrustScore for the supply's creator
+}
+
+export interface ScoredMatch {
+  supplyHash: string
+  supplyId: string
+  supplierId: string
+  matchScore: number
+  trustScore: number
+  trustWeight: number
+  matchedKeywords: string[]
+  conversationId: string
+}
+
+export interface MatchDecisions {
+  state: MatchState
+  requesterDecision?: MatchDecision
+  supplierDecision?: MatchDecision
+}
+
+/**
+ * A match as the user sees it, from either side
+ */
+export interface FeedForwardMatch extends ScoredMatch, MatchDecisions {
+  demandHash: string
+  demandId: string
+  requesterId: string
+  demandContext: string
+  urgency: number
+  role: 'requester' | 'supplier'
+  counterpartId: string
+  counterpartName: string
+  counterpartTrust: { score: number; components: any }   // Our TrustScore for the other side
+}
+
+/**
+ * Whether supplies and demands go to, and are taken from, a contact of this trust level
+ */
+export function isExchangeContact(trustLevel: string): boolean {
+  return EXCHANGE_TRUST_LEVELS.has(trustLevel)
+}
+
+export function matchKey(demandId: string, supplyId: string): string {
+  return `${demandId}:${supplyId}`
+}
+
+export function isExpired(demand: FeedForwardDemand, now: number): boolean {
+  return demand.expires !== undefined && demand.expires <= now
+}
+
+/**
+ * Supplies sharing keywords with a demand, by trust-weighted keyword overlap
+ */
+export function scoreMatches(
+  demand: FeedForwardDemand,
+  candidates: SupplyCandidate[],
+  { minTrust, limit }: { minTrust: number; limit: number }
+): ScoredMatch[] {
+  const matches: ScoredMatch[] = []
+
+  for (const { supply, supplyHash, trustScore } of candidates) {
+    if (trustScore < minTrust) continue
+
+    const matchedKeywords = supply.keywords.filter(hash => demand.keywords.includes(hash))
+    if (matchedKeywords.length === 0) continue
+
+    const matchScore = matchedKeywords.length / Math.max(supply.keywords.length, demand.keywords.length)
+    matches.push({
+      supplyHash,
+      supplyId: supply.id,
+      supplierId: supply.creatorId,
+      matchScore,
+      trustScore,
+      trustWeight: trustScore * matchScore,
+      matchedKeywords,
+      conversationId: supply.conversationId
+    })
+  }
+
+  return matches
+    .sort((a, b) => b.trustWeight - a.trustWeight)
+    .slice(0, demand.maxResults ? Math.min(limit, demand.maxResults) : limit)
+}
+
+/**
+ * Where a match stands. Either side rejecting ends it; content is exchanged
+ * only once both sides accepted. Each side's latest decision counts.
+ */
+export function matchDecisions(
+  decisions: SupplyDemandMatchDecision[],
+  requesterId: string,
+  supplierId: string
+): MatchDecisions {
+  const latest = (personId: string): MatchDecision | undefined => {
+    let found: SupplyDemandMatchDecision | undefined
+    for (const decision of decisions) {
+      if (decision.personId !== personId) continue
+      if (!found || decision.decidedAt >= found.decidedAt) found = decision
+    }
+    return found?.decision
+  }
+
+  const requesterDecision = latest(requesterId)
+  const supplierDecision = latest(supplierId)
+
+  let state: MatchState = 'pending'
+  if (requesterDecision === 'rejected' || supplierDecision === 'rejected') {
+    state = 'rejected'
+  } else if (requesterDecision === 'accepted' && supplierDecision === 'accepted') {
+    state = 'accepted'
+  }
+
+  return {
+    state,
+    ...(requesterDecision && { requesterDecision }),
+    ...(supplierDecision && { supplierDecision })
+  }
+}
@@ -41,6 +41,54 @@ export interface VersionMetadata {
   isRetracted?: boolean;
   retractedAt?: string;
   retractReason?: string;
+  isAlternative?: boolean;
+  promptMessageId?: string;  // User message an alternative AI answer responds to
+  modelId?: string;
+}
+
+export type MessageVersionKind = 'original' | 'edit' | 'retraction' | 'alternative';
+
+/**
+ * Stored ONE object for one version of a message (see message-version-recipes.ts)
+ */
+export interface MessageVersionObject {
+  $type$: 'MessageVersion';
+  messageId: string;
+  version: number;
+  previousVersion?: string;
+  kind: MessageVersionKind;
+  text: string;
+  author?: string;
+  promptMessageId?: string;
+  modelId?: string;
+  reason?: string;
+  created: number;
+}
+
+/**
+ * One answer to a prompt, as shown when flipping between alternatives
+ */
+export interface MessageAlternative {
+  version: number;
+  hash: string;
+  text: string;
+  author?: string;
+  modelId?: string;
+  created: number;
+}
+
+export interface MessageAlternatives {
+  messageId: string;
+  promptMessageId?: string;
+  selectedVersion: number;
+  alternatives: MessageAlternative[];
+}
+
+export interface AlternativeData {
+  text: string;
+  author?: string;
+  modelId?: string;
+  promptMessageId?: string;
 }
 
 export class VersionedMessage {
@@ -70,9 +118,23 @@ export class VersionedMessage {
       editReason: data.editReason,
       isRetracted: data.isRetracted || false,
       retractedAt: data.retractedAt,
-      retractReason: data.retractReason
+      retractReason: data.retractReason,
+      isAlternative: data.isAlternative || false,
+      promptMessageId: data.promptMessageId,
+      modelId: data.modelId
     };
 
+    this.id = data.id;
+    this.versionId = data.versionId;
+    this.version = this.versionMetadata.version;
+    this.format = data.format;
+    this.subjects = data.subjects || [];
+    this.keywords = data.keywords || [];
+    this.attachments = attachments;
+    this.author = data.author;
+    this.timestamp = data.timestamp || Date.now();
+    this.trustLevel = data.trustLevel;
+
     this.message = {
       text: data.text,
       author: data.author,
@@ -109,6 +171,33 @@ export class VersionedMessage {
     });
   }
 
+  /**
+   * Create an alternative answer to the same prompt, e.g. regenerated by another model
+   */
+  createAlternative(newText: string, author: any, modelId: string, promptMessageId: string): VersionedMessage {
+    return new VersionedMessage({
+      id: this.id,
+      versionId: generateVersionId(),
+      version: this.version + 1,
+      previousVersion: this.versionId,
+
+      text: newText,
+      format: this.format,
+      subjects: [],
+      keywords: [],
+      attachments: [],
+
+      author,
+      timestamp: Date.now(),
+
+      isAlternative: true,
+      promptMessageId,
+      modelId,
+
+      trustLevel: this.trustLevel
+    });
+  }
+
   /**
    * Create a retraction marker for this message
    */
@@ -145,21 +234,48 @@ export class MessageVersionManager {
   public channelManager: any;
   versionCache: Map<string, any[]>;
   latestVersions: Map<string, SHA256Hash<ChatMessage>>;
+  selectedVersions: Map<string, number>;
+  missingChains: Set<string>;
 
   constructor(channelManager: any) {
     this.channelManager = channelManager;
     this.versionCache = new Map(); // messageId -> version chain
     this.latestVersions = new Map(); // messageId -> latest version hash
+    this.selectedVersions = new Map(); // messageId -> version shown in the chat
+    this.missingChains = new Set(); // messageIds known to have no stored chain
   }
 
   /**
    * Store a new message or version
    */
   async storeMessage(message: any): Promise<any> {
+    await this.loadChain(message.id);
+
+    const versionObject: MessageVersionObject = {
+      $type$: 'MessageVersion',
+      messageId: message.id,
+      version: message.version || 1,
+      kind: message.isRetracted
+        ? 'retraction'
+        : message.isAlternative
+          ? 'alternative'
+          : (message.version || 1) > 1 ? 'edit' : 'original',
+      text: message.text ?? message.message?.text ?? '',
+      created: Date.now()
+    };
+
+    const previousHash = this.latestVersions.get(message.id);
+    if (previousHash) versionObject.previousVersion = String(previousHash);
+    if (message.author) versionObject.author = String(message.author);
+    if (message.promptMessageId) versionObject.promptMessageId = message.promptMessageId;
+    if (message.modelId) versionObject.modelId = message.modelId;
+    const reason = message.editReason || message.retractReason;
+    if (reason) versionObject.reason = reason;
+
     // Store in ONE.core using dynamic import
     const { storeUnversionedObject } = await import('@refinio/one.core/lib/storage-unversioned-objects.js');
-    const result = await storeUnversionedObject(message as unknown as OneUnversionedObjectTypes);
-    const hash = result.hash as SHA256Hash<ChatMessage>;
+    const result = await storeUnversionedObject(versionObject as unknown as OneUnversionedObjectTypes);
+    const hash = result.hash as unknown as SHA256Hash<ChatMessage>;
 
     // Update version tracking
     if (!this.versionCache.has(message.id)) {
@@ -168,23 +284,171 @@ export class MessageVersionManager {
 
     this.versionCache.get(message.id)!.push({
       hash,
-      version: message.version,
+      version: versionObject.version,
       timestamp: message.editedAt || message.timestamp,
       isRetracted: message.isRetracted
     });
 
-    // Update latest version
+    // Update latest version - a new version is also the one displayed
     this.latestVersions.set(message.id, hash);
+    this.selectedVersions.set(message.id, versionObject.version);
+    this.missingChains.delete(message.id);
+    await this.saveChain(message.id);
 
-    console.log(`[MessageVersioning] Stored message ${message.id} v${message.version}: ${hash.toString().substring(0, 8)}...`);
+    console.log(`[MessageVersioning] Stored message ${message.id} v${versionObject.version} (${versionObject.kind}): ${hash.toString().substring(0, 8)}...`);
 
     return hash;
   }
 
+  /**
+   * Load a message's version chain from storage into the cache
+   * Returns false if the message has never been versioned.
+   */
+  async loadChain(messageId: string): Promise<boolean> {
+    if (this.versionCache.has(messageId)) return true;
+    if (this.missingChains.has(messageId)) return false;
+
+    try {
+      const { getObjectByIdHash } = await import('@refinio/one.core/lib/storage-versioned-objects.js');
+      const { calculateIdHashOfObj } = await import('@refinio/one.core/lib/util/object.js');
+      const { getObject } = await import('@refinio/one.core/lib/storage-unversioned-objects.js');
+
+      const idHash = await calculateIdHashOfObj({
+        $type$: 'MessageVersionChain',
+        messageId
+      } as any);
+      const chain: any = await getObjectByIdHash(idHash);
+      if (!chain?.obj?.versions?.length) {
+        this.missingChains.add(messageId);
+        return false;
+      }
+
+      const entries = [];
+      for (const hash of chain.obj.versions) {
+        const versionObject: any = await getObject(hash);
+        entries.push({
+          hash,
+          version: versionObject.version,
+          timestamp: versionObject.created,
+          isRetracted: versionObject.kind === 'retraction'
+        });
+      }
+
+      this.versionCache.set(messageId, entries);
+      this.latestVersions.set(messageId, entries[entries.length - 1].hash);
+      this.selectedVersions.set(messageId, chain.obj.selectedVersion);
+      return true;
+    } catch (error) {
+      // No chain stored for this message
+      this.missingChains.add(messageId);
+      return false;
+    }
+  }
+
+  /**
+   * Persist the cached chain as a new MessageVersionChain version
+   */
+  async saveChain(messageId: string): Promise<void> {
+    const entries = this.versionCache.get(messageId) || [];
+    const { storeVersionedObject } = await import('@refinio/one.core/lib/storage-versioned-objects.js');
+
+    await storeVersionedObject({
+      $type$: 'MessageVersionChain',
+      messageId,
+      versions: entries.map(entry => String(entry.hash)),
+      selectedVersion: this.selectedVersions.get(messageId) || entries.length,
+      updated: Date.now()
+    } as any);
+  }
+
+  /**
+   * Add an alternative answer for an AI message.
+   * The first call also stores the message as it is in the topic as version 1,
+   * so the original answer stays selectable.
+   */
+  async addAlternative(messageId: string, original: AlternativeData, alternative: AlternativeData): Promise<MessageAlternatives> {
+    const hasChain = await this.loadChain(messageId);
+
+    if (!hasChain) {
+      await this.storeMessage({
+        id: messageId,
+        version: 1,
+        text: original.text,
+        author: original.author,
+        modelId: original.modelId,
+        promptMessageId: alternative.promptMessageId
+      });
+    }
+
+    const chain = this.versionCache.get(messageId)!;
+    await this.storeMessage({
+      id: messageId,
+      version: chain[chain.length - 1].version + 1,
+      isAlternative: true,
+      ...alternative
+    });
+
+    const alternatives = await this.getAlternatives(messageId);
+    this.notifyVersionChange(messageId, alternatives, 'alternative');
+    return alternatives!;
+  }
+
+  /**
+   * Get all answers for an AI message, or null if it was never regenerated
+   */
+  async getAlternatives(messageId: string): Promise<MessageAlternatives | null> {
+    if (!(await this.loadChain(messageId))) {
+      return null;
+    }
+
+    const { getObject } = await import('@refinio/one.core/lib/storage-unversioned-objects.js');
+    const alternatives: MessageAlternative[] = [];
+    let promptMessageId: string | undefined;
+
+    for (const entry of this.versionCache.get(messageId)!) {
+      const versionObject: any = await getObject(entry.hash);
+      if (versionObject.kind !== 'original' && versionObject.kind !== 'alternative') continue;
+
+      promptMessageId = promptMessageId || versionObject.promptMessageId;
+      alternatives.push({
+        version: versionObject.version,
+        hash: String(entry.hash),
+        text: versionObject.text,
+        author: versionObject.author,
+        modelId: versionObject.modelId,
+        created: versionObject.created
+      });
+    }
+
+    return {
+      messageId,
+      promptMessageId,
+      selectedVersion: this.selectedVersions.get(messageId) || alternatives.length,
+      alternatives
+    };
+  }
+
+  /**
+   * Choose which alternative is displayed for an AI message
+   */
+  async selectAlternative(messageId: string, version: number): Promise<MessageAlternatives> {
+    const alternatives = await this.getAlternatives(messageId);
+    if (!alternatives?.alternatives.some(alternative => alternative.version === version)) {
+      throw new Error(`Version ${version} of message ${messageId} not found`);
+    }
+
+    this.selectedVersions.set(messageId, version);
+    await this.saveChain(messageId);
+
+    alternatives.selectedVersion = version;
+    return alternatives;
+  }
+
   /**
    * Get the latest version of a message
    */
   async getLatestVersion(messageId: any): Promise<any> {
+    await this.loadChain(messageId);
     const latestHash = this.latestVersions.get(messageId);
     if (!latestHash) {
       return null;
@@ -204,6 +468,7 @@ export class MessageVersionManager {
    * Get all versions of a message
    */
   async getVersionHistory(messageId: any): Promise<any> {
+    await this.loadChain(messageId);
     const versionChain = this.versionCache.get(messageId);
     if (!versionChain) {
       return [];
@@ -192,8 +192,9 @@ class NodeOneCore implements INodeOneCore {
 
   /**
    * Initialize Node.js ONE.core using the proper template
+   * storageDir defaults to ./OneDB; the standalone MCP server passes an existing instance directory
    */
-  async initialize(username?: string, password?: string): Promise<{ success: boolean; ownerId?: string; instanceName?: string; name?: string; error?: string }> {
+  async initialize(username?: string, password?: string, storageDir: string = path.join(process.cwd(), 'OneDB')): Promise<{ success: boolean; ownerId?: string; instanceName?: string; name?: string; error?: string }> {
     if (this.initialized) {
       console.log('[NodeOneCore] Already initialized')
       return { success: true, ownerId: this.ownerId, instanceName: this.instanceName }
@@ -215,8 +216,6 @@ class NodeOneCore implements INodeOneCore {
     
     try {
       // ONE.core manages storage - we just specify the base directory
-      const storageDir = path.join(process.cwd(), 'OneDB')
-
       // Initialize ONE.core instance with browser credentials
       await this.initOneCoreInstance(username, password, storageDir)
       
@@ -1373,13 +1372,13 @@ class NodeOneCore implements INodeOneCore {
     // No need to duplicate contact creation here
 
     // Initialize Feed-Forward Manager
-    // try {
-    //   const feedForwardHandlers = await import('../ipc/handlers/feed-forward.js')
-    //   feedForwardHandlers.default.initializeFeedForward(this)
-    //   console.log('[NodeOneCore] ✅ Feed-Forward Manager initialized')
-    // } catch (error) {
-    //   console.error('[NodeOneCore] Failed to initialize Feed-Forward Manager:', error)
-    // }
+    try {
+      const feedForwardHandlers = await import('../ipc/handlers/feed-forward.js')
+      feedForwardHandlers.default.initializeFeedForward(this)
+      console.log('[NodeOneCore] ✅ Feed-Forward Manager initialized')
+    } catch (error) {
+      console.error('[NodeOneCore] Failed to initialize Feed-Forward Manager:', error)
+    }
 
     console.log('[NodeOneCore] All models initialized successfully')
   }
@@ -1491,6 +1490,59 @@ class NodeOneCore implements INodeOneCore {
       console.log('[NodeOneCore] ✅ Connected AIAssistantModel to message listener')
     }
 
+    // Storage is ready - replace the default MCP servers with the user's registry
+    try {
+      const { default: mcpServerRegistry } = await import('../services/mcp-server-registry.js')
+      const { default: mcpManager } = await import('../services/mcp-manager.js')
+      const { default: llmManager } = await import('../services/llm-manager.js')
+      await mcpServerRegistry.load()
+      await mcpManager.syncWithRegistry()
+      llmManager.syncMCPTools()
+    } catch (error) {
+      console.warn('[NodeOneCore] Could not load MCP server registry:', (error as Error).message)
+    }
+
+    // Semantic index for subjects, keywords and messages
+    try {
+      const { default: embeddingService } = await import('../services/embeddings.js')
+      await embeddingService.init(this)
+    } catch (error) {
+      console.warn('[NodeOneCore] Could not start embedding index:', (error as Error).message)
+    }
+
+    // Full-text index for message search across topics
+    try {
+      const { default: messageSearchService } = await import('../services/message-search.js')
+      await messageSearchService.init(this)
+    } catch (error) {
+      console.warn('[NodeOneCore] Could not start message search index:', (error as Error).message)
+    }
+
+    // Background duplicate detection for topic subjects
+    try {
+      const { default: subjectLifecycleService } = await import('../services/subject-lifecycle.js')
+      await subjectLifecycleService.init(this)
+    } catch (error) {
+      console.warn('[NodeOneCore] Could not start subject duplicate detection:', (error as Error).message)
+    }
+
+    // The user's keyword taxonomy, applied by the keyword extractors
+    try {
+      const { keywordTaxonomyManager } = await import('./one-ai/storage/keyword-taxonomy-manager.js')
+      const me = await this.leuteModel.me()
+      await keywordTaxonomyManager.getTaxonomy(me.idHash)
+    } catch (error) {
+      console.warn('[NodeOneCore] Could not load keyword taxonomy:', (error as Error).message)
+    }
+
+    // Background topic analysis; resumes jobs left over from the last run
+    try {
+      const { default: analysisQueue } = await import('../services/analysis-queue.js')
+      await analysisQueue.init()
+    } catch (error) {
+      console.warn('[NodeOneCore] Could not start analysis queue:', (error as Error).message)
+    }
+
     // Initialize Refinio API Server as part of this ONE.core instance
     // TODO: Re-enable after fixing packages/refinio.api imports
     // if (!this.apiServer) {
@@ -1972,6 +2024,18 @@ class NodeOneCore implements INodeOneCore {
       this.peerMessageListener = null
     }
 
+    const { default: embeddingService } = await import('../services/embeddings.js')
+    embeddingService.shutdown()
+
+    const { default: messageSearchService } = await import('../services/message-search.js')
+    messageSearchService.shutdown()
+
+    const { default: subjectLifecycleService } = await import('../services/subject-lifecycle.js')
+    subjectLifecycleService.shutdown()
+
+    const { default: analysisQueue } = await import('../services/analysis-queue.js')
+    analysisQueue.shutdown()
+
     // Stop direct WebSocket listener if running
     if (this.directSocketStopFn) {
       console.log('[NodeOneCore] Stopping direct WebSocket listener...')
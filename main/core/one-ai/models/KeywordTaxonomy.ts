@@ -0,0 +1,130 @@
+/**
+ * KeywordTaxonomy Model
+ * The user's own rules for keywords, applied on top of the built-in extraction heuristics:
+ * - stop-words are never keywords
+ * - synonym groups collapse into one canonical keyword ("k8s", "kube" -> "kubernetes")
+ * - pinned keywords always surface when they occur, even if the heuristics would drop them
+ */
+
+export interface SynonymGroup {
+  canonical: string;
+  variants: string[];
+}
+
+export interface KeywordTaxonomyData {
+  stopWords: string[];
+  synonymGroups: SynonymGroup[];
+  pinned: string[];
+}
+
+export function normalizeTerm(term: string): string {
+  return String(term || '').toLowerCase().trim();
+}
+
+export class KeywordTaxonomy {
+  private stopWords: Set<string>;
+  private canonicalByVariant: Map<string, string>;
+  private pinned: Set<string>;
+
+  constructor(data: Partial<KeywordTaxonomyData> = {}) {
+    this.stopWords = new Set((data.stopWords || []).map(normalizeTerm).filter(Boolean));
+    this.pinned = new Set((data.pinned || []).map(normalizeTerm).filter(Boolean));
+
+    this.canonicalByVariant = new Map();
+    for (const group of data.synonymGroups || []) {
+      const canonical = normalizeTerm(group.canonical);
+      if (!canonical) continue;
+      for (const variant of group.variants || []) {
+        const normalized = normalizeTerm(variant);
+        if (normalized && normalized !== canonical) {
+          this.canonicalByVariant.set(normalized, canonical);
+        }
+      }
+    }
+  }
+
+  get isEmpty(): boolean {
+    return this.stopWords.size === 0 && this.canonicalByVariant.size === 0 && this.pinned.size === 0;
+  }
+
+  /**
+   * The term a keyword is stored and counted as
+   */
+  canonical(term: string): string {
+    const normalized = normalizeTerm(term);
+    return this.canonicalByVariant.get(normalized) || normalized;
+  }
+
+  isPinned(term: string): boolean {
+    return this.pinned.has(this.canonical(term));
+  }
+
+  /**
+   * Stop-words are dropped unless pinned - pinning wins
+   */
+  isStopWord(term: string): boolean {
+    const normalized = normalizeTerm(term);
+    if (this.isPinned(normalized)) return false;
+    return this.stopWords.has(normalized) || this.stopWords.has(this.canonical(normalized));
+  }
+
+  /**
+   * Canonicalize, drop stop-words and duplicates, and move pinned keywords
+   * (including pinned terms found in sourceText) to the front
+   */
+  apply(keywords: string[], sourceText?: string): string[] {
+    const pinnedFirst: string[] = [];
+    const rest: string[] = [];
+    const seen = new Set<string>();
+
+    const add = (term: string) => {
+      const canonical = this.canonical(term);
+      if (!canonical || seen.has(canonical) || this.isStopWord(canonical)) return;
+      seen.add(canonical);
+      (this.pinned.has(canonical) ? pinnedFirst : rest).push(canonical);
+    };
+
+    if (sourceText) {
+      for (const term of this.findPinned(sourceText)) add(term);
+    }
+    for (const keyword of keywords) add(keyword);
+
+    return [...pinnedFirst, ...rest];
+  }
+
+  /**
+   * Pinned keywords mentioned in a text, directly or through one of their synonyms
+   */
+  findPinned(text: string): string[] {
+    if (this.pinned.size === 0 || !text) return [];
+
+    const lowerText = String(text).toLowerCase();
+    const words = new Set(lowerText.split(/[^\p{L}\p{N}_-]+/u).filter(Boolean));
+    const found = new Set<string>();
+    for (const word of words) {
+      const canonical = this.canonical(word);
+      if (this.pinned.has(canonical)) found.add(canonical);
+    }
+    // Phrases can't be matched word by word
+    for (const term of this.pinned) {
+      if (term.includes(' ') && lowerText.includes(term)) found.add(term);
+    }
+    return Array.from(found);
+  }
+
+  toJSON(): KeywordTaxonomyData {
+    const groups = new Map<string, string[]>();
+    for (const [variant, canonical] of this.canonicalByVariant) {
+      if (!groups.has(canonical)) groups.set(canonical, []);
+      groups.get(canonical)!.push(variant);
+    }
+
+    return {
+      stopWords: Array.from(this.stopWords),
+      synonymGroups: Array.from(groups.entries()).map(([canonical, variants]) => ({ canonical, variants })),
+      pinned: Array.from(this.pinned)
+    };
+  }
+}
+
+export default KeywordTaxonomy;
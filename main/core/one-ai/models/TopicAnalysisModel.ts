@@ -58,6 +58,12 @@ export default class TopicAnalysisModel extends Model {
         const { calculateIdHashOfObj } = await import('@refinio/one.core/lib/util/object.js');
         const keywordIdHashes = [];
 
+        // A subject that was merged away keeps being re-detected - count it towards the subject it was merged into
+        const redirected = await this.redirectMergedSubject(topicId, keywordCombination, keywordTerms);
+        if (redirected) {
+            return redirected;
+        }
+
         for (const term of keywordTerms) {
             // Create a minimal Keyword ID object to calculate its ID hash
             // Only ID properties are needed for calculateIdHashOfObj
@@ -272,6 +278,273 @@ export default class TopicAnalysisModel extends Model {
         return null;
     }
 
+    /**
+     * Merge one subject into another
+     * The kept subject gets the union of both subjects' keywords, time ranges and
+     * counters. The merged subject is archived with a mergedInto pointer, and the
+     * Keyword.subjects back-references move over to the kept subject.
+     * @param topicId - Topic ID
+     * @param keepId - Keyword combination of the subject that stays
+     * @param mergeId - Keyword combination of the subject folded into it
+     */
+    async mergeSubjects(topicId: any, keepId: string, mergeId: string): Promise<{ mergedSubject: any; archivedSubject: any }> {
+        this.state.assertCurrentState('Initialised');
+
+        if (keepId === mergeId) {
+            throw new Error('Cannot merge a subject into itself');
+        }
+
+        const room = new TopicAnalysisRoom(topicId, this.channelManager);
+        const subjects: any = await (room as any).retrieveAllSubjects();
+        const keep = subjects.find((s: any) => s.id === keepId);
+        const merge = subjects.find((s: any) => s.id === mergeId);
+        if (!keep) {
+            throw new Error(`Subject not found: ${keepId}`);
+        }
+        if (!merge) {
+            throw new Error(`Subject not found: ${mergeId}`);
+        }
+
+        const mergedSubject: any = {
+            ...keep,
+            $type$: 'Subject' as const,
+            keywords: Array.from(new Set([...(keep.keywords || []), ...(merge.keywords || [])])),
+            timeRanges: [...(keep.timeRanges || []), ...(merge.timeRanges || [])]
+                .sort((a: any, b: any) => a.start - b.start),
+            messageCount: (keep.messageCount || 0) + (merge.messageCount || 0),
+            createdAt: Math.min(keep.createdAt, merge.createdAt),
+            lastSeenAt: Math.max(keep.lastSeenAt, merge.lastSeenAt),
+            archived: false
+        };
+        if (keep.likes !== undefined || merge.likes !== undefined) {
+            mergedSubject.likes = (keep.likes || 0) + (merge.likes || 0);
+        }
+        if (keep.dislikes !== undefined || merge.dislikes !== undefined) {
+            mergedSubject.dislikes = (keep.dislikes || 0) + (merge.dislikes || 0);
+        }
+
+        const archivedSubject = {
+            ...merge,
+            $type$: 'Subject' as const,
+            archived: true,
+            mergedInto: keepId
+        };
+
+        const kept = await this.storeSubject(topicId, mergedSubject);
+        const archived = await this.storeSubject(topicId, archivedSubject);
+        await this.relinkKeywords(topicId, archived.idHash, [kept]);
+
+        console.log('[TopicAnalysisModel] ✅ Merged subject', mergeId, 'into', keepId);
+        return { mergedSubject: kept, archivedSubject: archived };
+    }
+
+    /**
+     * Split a subject into two by partitioning its keywords
+     * Each part becomes a subject of its own (or is added to an existing subject
+     * with the same keyword combination) and inherits the original's time ranges.
+     * The original's messages are divided among the parts by their share of its
+     * keywords, so the counts still add up. The original is archived.
+     * @param topicId - Topic ID
+     * @param subjectId - Keyword combination of the subject to split
+     * @param parts - Two disjoint lists of keyword terms covering all of the subject's keywords
+     */
+    async splitSubject(topicId: any, subjectId: string, parts: string[][]): Promise<{ subjects: any[]; archivedSubject: any }> {
+        this.state.assertCurrentState('Initialised');
+
+        if (!Array.isArray(parts) || parts.length !== 2) {
+            throw new Error('A subject is split into exactly two parts');
+        }
+
+        const room = new TopicAnalysisRoom(topicId, this.channelManager);
+        const subjects: any = await (room as any).retrieveAllSubjects();
+        const original = subjects.find((s: any) => s.id === subjectId);
+        if (!original) {
+            throw new Error(`Subject not found: ${subjectId}`);
+        }
+
+        const normalizedParts = parts.map(part => Array.from(new Set((part || []).map(term => String(term).toLowerCase().trim()).filter(Boolean))));
+        if (normalizedParts.some(part => part.length === 0)) {
+            throw new Error('Both parts need at least one keyword');
+        }
+        if (normalizedParts[0].some(term => normalizedParts[1].includes(term))) {
+            throw new Error('A keyword can only belong to one part');
+        }
+        if (normalizedParts.some(part => part.join('+') === subjectId)) {
+            throw new Error(`One part would keep the subject as it is: ${subjectId}`);
+        }
+
+        const hashedParts: string[][] = [];
+        for (const part of normalizedParts) {
+            hashedParts.push(await Promise.all(part.map(term => this.keywordIdHash(term))));
+        }
+        const originalKeywords = new Set<string>(original.keywords || []);
+        const assigned = hashedParts.flat();
+        if (assigned.some(hash => !originalKeywords.has(hash)) || assigned.length !== originalKeywords.size) {
+            throw new Error(`The parts must divide the keywords of ${subjectId} between them`);
+        }
+
+        const totalCount = original.messageCount || 0;
+        const partCounts = hashedParts.map(part => Math.round(totalCount * part.length / assigned.length));
+        partCounts[partCounts.length - 1] = totalCount - partCounts.slice(0, -1).reduce((sum, count) => sum + count, 0);
+
+        const now = Date.now();
+        const created = [];
+        for (let i = 0; i < normalizedParts.length; i++) {
+            const partId = normalizedParts[i].join('+');
+            const existing = subjects.find((s: any) => s.id === partId && s.id !== subjectId);
+            const partSubject = existing
+                ? {
+                    ...existing,
+                    $type$: 'Subject' as const,
+                    keywords: Array.from(new Set([...(existing.keywords || []), ...hashedParts[i]])),
+                    timeRanges: [...(existing.timeRanges || []), ...(original.timeRanges || [])]
+                        .sort((a: any, b: any) => a.start - b.start),
+                    messageCount: (existing.messageCount || 0) + partCounts[i],
+                    lastSeenAt: Math.max(existing.lastSeenAt, original.lastSeenAt),
+                    archived: false,
+                    mergedInto: undefined
+                }
+                : {
+                    $type$: 'Subject' as const,
+                    id: partId,
+                    topic: topicId,
+                    keywords: hashedParts[i],
+                    timeRanges: (original.timeRanges || []).map((range: any) => ({ ...range })),
+                    messageCount: partCounts[i],
+                    createdAt: original.createdAt || now,
+                    lastSeenAt: original.lastSeenAt || now,
+                    archived: false
+                };
+            created.push(await this.storeSubject(topicId, partSubject));
+        }
+
+        const archived = await this.storeSubject(topicId, {
+            ...original,
+            $type$: 'Subject' as const,
+            archived: true
+        });
+        await this.relinkKeywords(topicId, archived.idHash, created);
+
+        console.log('[TopicAnalysisModel] ✅ Split subject', subjectId, 'into', created.map(s => s.id));
+        return { subjects: created, archivedSubject: archived };
+    }
+
+    /**
+     * Store a new version of a subject and post it to the topic's channel
+     */
+    private async storeSubject(topicId: any, subject: any): Promise<any> {
+        const { storeVersionedObject } = await import('@refinio/one.core/lib/storage-versioned-objects.js');
+
+        // Optional properties must be absent rather than undefined
+        const subjectObj = Object.fromEntries(
+            Object.entries(subject).filter(([key, value]) => value !== undefined && key !== 'idHash' && key !== 'hash')
+        );
+
+        const result = await storeVersionedObject(subjectObj as any);
+        await this.channelManager.postToChannel(topicId, subjectObj);
+        this.subjectsCache.delete(topicId);
+
+        return { ...subjectObj, idHash: result.idHash, hash: result.hash };
+    }
+
+    /**
+     * Point keyword back-references away from a replaced subject
+     * Every keyword that referenced the replaced subject loses that reference and
+     * gains a reference to each replacement that contains the keyword.
+     */
+    private async relinkKeywords(topicId: any, replacedIdHash: string, replacements: Array<{ idHash: string; keywords: string[] }>): Promise<void> {
+        const room = new TopicAnalysisRoom(topicId, this.channelManager);
+        const keywords: any = await (room as any).retrieveAllKeywords();
+
+        // Several versions of a keyword can be in the channel - the last seen one is current
+        const latestByTerm = new Map<string, any>();
+        for (const keyword of keywords) {
+            if (!keyword.term) continue;
+            const seen = latestByTerm.get(keyword.term);
+            if (!seen || (keyword.lastSeen || 0) > (seen.lastSeen || 0)) {
+                latestByTerm.set(keyword.term, keyword);
+            }
+        }
+
+        for (const keyword of latestByTerm.values()) {
+            const keywordHash = await this.keywordIdHash(keyword.term);
+            const current: string[] = keyword.subjects || [];
+            const updated = current.filter(ref => ref !== replacedIdHash);
+            for (const replacement of replacements) {
+                if (replacement.keywords.includes(keywordHash) && !updated.includes(replacement.idHash)) {
+                    updated.push(replacement.idHash);
+                }
+            }
+
+            if (updated.length === current.length && updated.every(ref => current.includes(ref))) {
+                continue;
+            }
+
+            await this.channelManager.postToChannel(topicId, {
+                ...keyword,
+                $type$: 'Keyword' as const,
+                subjects: updated,
+                lastSeen: Date.now()
+            });
+        }
+
+        this.keywordsCache.delete(topicId);
+    }
+
+    /**
+     * If the stored subject was merged into another subject of the same topic,
+     * record the new sighting on that subject instead
+     */
+    private async redirectMergedSubject(topicId: any, subjectId: string, keywordTerms: string[]): Promise<any | null> {
+        const target = await this.getLatestSubject(subjectId);
+        if (!target || !target.mergedInto || target.topic !== topicId) {
+            return null;
+        }
+
+        const mergedInto = await this.getLatestSubject(target.mergedInto);
+        if (!mergedInto || mergedInto.archived || mergedInto.topic !== topicId) {
+            return null;
+        }
+
+        const now = Date.now();
+        const keywordHashes = await Promise.all(keywordTerms.map(term => this.keywordIdHash(term)));
+        const timeRanges = [...(mergedInto.timeRanges || [])];
+        if (timeRanges.length > 0) {
+            timeRanges[timeRanges.length - 1] = { ...timeRanges[timeRanges.length - 1], end: now };
+        } else {
+            timeRanges.push({ start: now, end: now });
+        }
+
+        console.log('[TopicAnalysisModel] ↪️  Subject', subjectId, 'was merged - updating', target.mergedInto);
+        return await this.storeSubject(topicId, {
+            ...mergedInto,
+            $type$: 'Subject' as const,
+            keywords: Array.from(new Set([...(mergedInto.keywords || []), ...keywordHashes])),
+            timeRanges,
+            messageCount: (mergedInto.messageCount || 0) + 1,
+            lastSeenAt: now
+        });
+    }
+
+    private async getLatestSubject(subjectId: string): Promise<any | null> {
+        const { calculateIdHashOfObj } = await import('@refinio/one.core/lib/util/object.js');
+        const { getObjectByIdHash } = await import('@refinio/one.core/lib/storage-versioned-objects.js');
+
+        try {
+            const idHash = await calculateIdHashOfObj({ $type$: 'Subject', id: subjectId } as any);
+            const result: any = await getObjectByIdHash(idHash);
+            return result?.obj || null;
+        } catch (error) {
+            // Never stored
+            return null;
+        }
+    }
+
+    private async keywordIdHash(term: string): Promise<string> {
+        const { calculateIdHashOfObj } = await import('@refinio/one.core/lib/util/object.js');
+        return await calculateIdHashOfObj({ $type$: 'Keyword', term: term.toLowerCase().trim() } as any);
+    }
+
     /**
      * Create a Summary object
      */
@@ -491,6 +764,47 @@ export default class TopicAnalysisModel extends Model {
         return summary;
     }
 
+    /**
+     * Get one version of a topic's summary
+     */
+    async getSummaryVersion(topicId: any, version: number): Promise<any> {
+        this.state.assertCurrentState('Initialised');
+
+        const summaries: any = await this.getSummaries(topicId);
+        return summaries.find((s: any) => s.version === version) || null;
+    }
+
+    /**
+     * Restore an older summary version
+     * History is never rewritten: the old content becomes a new version on top
+     * of the current one.
+     */
+    async restoreSummary(topicId: any, version: number): Promise<any> {
+        this.state.assertCurrentState('Initialised');
+
+        const restored: any = await this.getSummaryVersion(topicId, version);
+        if (!restored) {
+            throw new Error(`Summary version ${version} not found`);
+        }
+
+        const current: any = await this.getCurrentSummary(topicId);
+        if (current && current.version === version) {
+            throw new Error(`Version ${version} is already the current summary`);
+        }
+
+        const summary: any = await this.createSummary(
+            topicId,
+            (current?.version || 0) + 1,
+            restored.content,
+            restored.subjects || [],
+            `Restored version ${version}`,
+            current ? current.id : null
+        );
+
+        console.log('[TopicAnalysisModel] ✅ Restored summary version', version, 'as version', summary.version);
+        return summary;
+    }
+
     /**
      * Iterator for subjects
      */
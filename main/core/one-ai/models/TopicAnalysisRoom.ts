@@ -64,18 +64,25 @@ export default class TopicAnalysisRoom {
             throw new Error(`No channels found for topic: ${this.topicId}`);
         }
 
-        const allSubjects = [];
+        // Every update of a subject (merge, split, archive) is posted as a new
+        // version - only the most recent one per subject ID counts
+        const latestById = new Map<string, { data: any; time: number }>();
         for await (const entry of this.channelManager.multiChannelObjectIterator(channelInfos)) {
             if (entry.data && entry.data.$type$ === 'Subject') {
                 console.log(`[TopicAnalysisRoom] 🔍 Found Subject: id="${entry.data.id}", topic="${entry.data.topic}"`);
                 if (entry.data.topic === this.topicId) {
-                    allSubjects.push(entry.data);
+                    const time = entry.creationTime ? new Date(entry.creationTime).getTime() : 0;
+                    const seen = latestById.get(entry.data.id);
+                    if (!seen || time > seen.time) {
+                        latestById.set(entry.data.id, { data: entry.data, time });
+                    }
                 } else {
                     console.log(`[TopicAnalysisRoom] ⚠️  FILTERING OUT Subject with wrong topic: expected "${this.topicId}", got "${entry.data.topic}"`);
                 }
             }
         }
 
+        const allSubjects = Array.from(latestById.values()).map(seen => seen.data);
         console.log(`[TopicAnalysisRoom] 🔍 After filtering: ${allSubjects.length} subjects for topic "${this.topicId}"`);
         return allSubjects;
     }
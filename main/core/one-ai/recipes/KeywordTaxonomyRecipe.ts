@@ -0,0 +1,65 @@
+/**
+ * Recipe for the user's Keyword Taxonomy
+ *
+ * Custom stop-words, synonym groups and pinned keywords, stored per user like
+ * WordCloudSettings and applied by every keyword extractor
+ */
+export const KeywordTaxonomyRecipe = {
+    $type$: 'Recipe',
+    name: 'KeywordTaxonomy',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^KeywordTaxonomy$/ }
+        },
+        {
+            itemprop: 'creator',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'created',
+            itemtype: { type: 'number' }
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'number' }
+        },
+        {
+            itemprop: 'stopWords',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' }
+            }
+        },
+        {
+            itemprop: 'synonymGroups',
+            itemtype: {
+                type: 'array',
+                item: {
+                    type: 'object',
+                    rules: [
+                        {
+                            itemprop: 'canonical',
+                            itemtype: { type: 'string' }
+                        },
+                        {
+                            itemprop: 'variants',
+                            itemtype: {
+                                type: 'array',
+                                item: { type: 'string' }
+                            }
+                        }
+                    ]
+                }
+            }
+        },
+        {
+            itemprop: 'pinned',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' }
+            }
+        }
+    ]
+};
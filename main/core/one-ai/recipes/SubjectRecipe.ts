@@ -74,6 +74,11 @@ export const SubjectRecipe = {
             itemprop: 'dislikes',
             itemtype: { type: 'integer' },
             optional: true
+        },
+        {
+            itemprop: 'mergedInto',
+            itemtype: { type: 'string' }, // Keyword combination of the subject this one was merged into
+            optional: true
         }
     ]
 };
\ No newline at end of file
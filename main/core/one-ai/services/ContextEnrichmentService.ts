@@ -1,4 +1,6 @@
 import type { ChannelManager } from '@refinio/one.models/lib/models/index.js';
+import embeddingService from '../../../services/embeddings.js';
+import { detectLanguage, stopWordsFor, stem, tokenize } from './LanguageDetector.js';
 /**
  * Context Enrichment Service
  * Uses keywords to dynamically retrieve relevant context from content-addressed storage
@@ -42,15 +44,21 @@ export class ContextEnrichmentService {
         topicKeywords
       );
 
+      // Subjects of other topics that mean the same thing in different words
+      const semanticPatterns = await this.findSemanticPatterns(topicId, currentMessage);
+      const patterns = [...resonantPatterns, ...semanticPatterns]
+        .sort((a, b) => b.resonance - a.resonance)
+        .slice(0, 5);
+
       // Get current summary if exists
       const currentSummary = await (this.topicAnalysisModel as any).getCurrentSummary(topicId);
 
       // Build minimal context object - not for prompting, but for pattern matching
       return {
         keywords: [...messageKeywords, ...topicKeywords.map((k: any) => k.term)].slice(0, 10),
-        patterns: resonantPatterns,
+        patterns,
         abstraction: currentSummary ? this.abstractSummary(currentSummary) : null,
-        depth: this.calculateContextDepth(resonantPatterns)
+        depth: this.calculateContextDepth(patterns)
       };
     } catch (error) {
       console.error('[ContextEnrichment] Error getting implicit context:', error);
@@ -99,6 +107,30 @@ export class ContextEnrichmentService {
       .slice(0, 5);
   }
 
+  /**
+   * Find subjects of other topics whose embeddings are close to the message
+   */
+  async findSemanticPatterns(topicId: any, message: any): Promise<any[]> {
+    try {
+      const matches = await embeddingService.search(message, {
+        kinds: ['subject'],
+        excludeTopicId: topicId,
+        limit: 3,
+        minScore: 0.6
+      });
+      return matches.map(match => ({
+        hash: match.key,
+        keyword: match.ref,
+        resonance: match.score,
+        type: 'Subject',
+        abstract: match.text
+      }));
+    } catch (error) {
+      console.warn('[ContextEnrichment] Semantic search failed:', (error as Error).message);
+      return [];
+    }
+  }
+
   /**
    * Search for objects containing a keyword
    * Uses content-addressed storage for efficient retrieval
@@ -200,7 +232,8 @@ export class ContextEnrichmentService {
 
   /**
    * Extract keywords from text without LLM
-   * Simple but effective for real-time context
+   * Simple but effective for real-time context; stop-words and stems follow
+   * the detected language of the text
    */
   extractKeywords(text: any): any {
     if (!text) return [];
@@ -214,25 +247,31 @@ export class ContextEnrichmentService {
       'with', 'from', 'up', 'about', 'into', 'through', 'during'
     ]);
 
-    const words = text.toLowerCase()
-      .split(/\W+/)
+    const language = detectLanguage(text).language;
+    const languageStopWords = stopWordsFor(language);
+
+    const words = tokenize(text)
       .filter((word: any) =>
         word.length > 3 &&
         !stopWords.has(word) &&
+        !languageStopWords.has(word) &&
         !String(word).match(/^\d+$/)
       );
 
-    // Count frequency
-    const frequency = new Map();
+    // Count frequency per stem, keeping the first spelling seen
+    const frequency = new Map<string, { word: string, count: number }>();
     for (const word of words) {
-      frequency.set(word, (frequency.get(word) || 0) + 1);
+      const key = stem(word, language);
+      const entry = frequency.get(key) || { word, count: 0 };
+      entry.count++;
+      frequency.set(key, entry);
     }
 
     // Return top keywords by frequency
-    return Array.from(frequency.entries())
-      .sort((a, b) => b[1] - a[1])
+    return Array.from(frequency.values())
+      .sort((a, b) => b.count - a.count)
       .slice(0, 5)
-      .map(([word]) => word);
+      .map(entry => entry.word);
   }
 
   /**
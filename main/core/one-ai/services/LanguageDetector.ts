@@ -0,0 +1,181 @@
+/**
+ * Language Detector
+ * Per-message language detection plus the stop-word and stemming tables the
+ * keyword extractors need for English, German, French and Spanish
+ */
+
+export type LanguageCode = 'en' | 'de' | 'fr' | 'es';
+
+export const SUPPORTED_LANGUAGES: Record<LanguageCode, string> = {
+  en: 'English',
+  de: 'German',
+  fr: 'French',
+  es: 'Spanish'
+};
+
+export const DEFAULT_LANGUAGE: LanguageCode = 'en';
+
+// 'auto' writes summaries in the conversation's language
+export type SummaryLanguageSetting = 'auto' | LanguageCode;
+
+export interface DetectedLanguage {
+  language: LanguageCode;
+  confidence: number; // 0 when there was nothing to go on
+}
+
+const STOP_WORDS: Record<LanguageCode, Set<string>> = {
+  en: new Set([
+    'the', 'a', 'an', 'and', 'or', 'but', 'if', 'of', 'to', 'in', 'on', 'at', 'by', 'for', 'with',
+    'from', 'about', 'into', 'is', 'are', 'was', 'were', 'be', 'been', 'have', 'has', 'had', 'do',
+    'does', 'did', 'will', 'would', 'could', 'should', 'can', 'this', 'that', 'these', 'those', 'it',
+    'we', 'you', 'they', 'he', 'she', 'i', 'me', 'my', 'our', 'your', 'their', 'not', 'what', 'which',
+    'who', 'when', 'where', 'why', 'how', 'there', 'here', 'then', 'than', 'just', 'also', 'very'
+  ]),
+  de: new Set([
+    'der', 'die', 'das', 'den', 'dem', 'des', 'ein', 'eine', 'einen', 'einem', 'einer', 'eines',
+    'und', 'oder', 'aber', 'doch', 'sondern', 'denn', 'weil', 'dass', 'wenn', 'als', 'ob', 'wie',
+    'ich', 'du', 'er', 'sie', 'es', 'wir', 'ihr', 'mich', 'mir', 'dich', 'dir', 'uns', 'euch', 'ihnen',
+    'mein', 'meine', 'meinen', 'dein', 'deine', 'sein', 'seine', 'unser', 'unsere', 'euer', 'ihre',
+    'ist', 'sind', 'war', 'waren', 'bin', 'bist', 'seid', 'wird', 'werden', 'wurde', 'wurden', 'worden',
+    'hat', 'habe', 'haben', 'hast', 'hatte', 'hatten', 'kann', 'können', 'konnte', 'muss', 'müssen',
+    'soll', 'sollen', 'sollte', 'will', 'wollen', 'wollte', 'darf', 'dürfen', 'möchte', 'mag',
+    'nicht', 'kein', 'keine', 'keinen', 'nur', 'auch', 'noch', 'schon', 'sehr', 'mehr', 'viel', 'immer',
+    'mal', 'also', 'dann', 'jetzt', 'hier', 'dort', 'heute', 'morgen', 'gestern', 'ganz', 'gut', 'ja',
+    'nein', 'okay', 'bitte', 'danke', 'hallo', 'tschüss', 'genau', 'eigentlich', 'vielleicht', 'etwas',
+    'nichts', 'alles', 'alle', 'jeder', 'jede', 'jedes', 'dies', 'diese', 'dieser', 'dieses', 'diesem',
+    'mit', 'von', 'vom', 'zu', 'zum', 'zur', 'bei', 'beim', 'nach', 'aus', 'für', 'über', 'unter',
+    'vor', 'hinter', 'neben', 'zwischen', 'durch', 'gegen', 'ohne', 'um', 'auf', 'an', 'am', 'im', 'in',
+    'ins', 'bis', 'seit', 'während', 'wegen', 'was', 'wer', 'wo', 'wann', 'warum', 'welche', 'welcher',
+    'man', 'sich', 'so', 'da', 'machen', 'macht', 'gemacht', 'gibt', 'geht', 'gehen', 'sagen', 'sagt',
+    'finde', 'findet', 'glaube', 'denke', 'weiß', 'wissen', 'sehen', 'kommen', 'kommt', 'lassen'
+  ]),
+  fr: new Set([
+    'le', 'la', 'les', 'un', 'une', 'des', 'du', 'de', 'au', 'aux', 'et', 'ou', 'mais', 'donc', 'car',
+    'ni', 'que', 'qui', 'quoi', 'dont', 'où', 'si', 'comme', 'quand', 'pourquoi', 'comment',
+    'je', 'tu', 'il', 'elle', 'on', 'nous', 'vous', 'ils', 'elles', 'me', 'te', 'se', 'moi', 'toi',
+    'lui', 'leur', 'leurs', 'mon', 'ma', 'mes', 'ton', 'ta', 'tes', 'son', 'sa', 'ses', 'notre',
+    'nos', 'votre', 'vos', 'ce', 'cet', 'cette', 'ces', 'ça', 'cela', 'ceci',
+    'est', 'sont', 'suis', 'es', 'sommes', 'êtes', 'était', 'étaient', 'été', 'être', 'sera', 'seront',
+    'ai', 'as', 'avons', 'avez', 'ont', 'avait', 'avoir', 'eu', 'fait', 'faire', 'fais', 'peut',
+    'peux', 'pouvons', 'pouvez', 'peuvent', 'dois', 'doit', 'devons', 'veux', 'veut', 'voulons',
+    'vais', 'va', 'allons', 'allez', 'vont', 'faut', 'dit', 'dire', 'sais', 'sait', 'pense', 'crois',
+    'ne', 'pas', 'plus', 'jamais', 'rien', 'très', 'trop', 'aussi', 'encore', 'déjà', 'toujours',
+    'bien', 'alors', 'ici', 'maintenant', 'aujourd', 'hui', 'demain', 'hier', 'oui', 'non', 'merci',
+    'bonjour', 'salut', 'tout', 'tous', 'toute', 'toutes', 'autre', 'autres', 'même', 'chaque',
+    'dans', 'sur', 'sous', 'avec', 'sans', 'pour', 'par', 'chez', 'entre', 'vers', 'avant', 'après',
+    'depuis', 'pendant', 'contre', 'en', 'y', 'peu', 'beaucoup', 'quelque', 'chose', 'voilà'
+  ]),
+  es: new Set([
+    'el', 'la', 'los', 'las', 'un', 'una', 'unos', 'unas', 'lo', 'al', 'del', 'de', 'y', 'e', 'o', 'u',
+    'pero', 'sino', 'porque', 'que', 'qué', 'quien', 'quién', 'cual', 'cuál', 'donde', 'dónde',
+    'cuando', 'cuándo', 'como', 'cómo', 'si', 'sí', 'no', 'ni',
+    'yo', 'tú', 'tu', 'él', 'ella', 'usted', 'nosotros', 'nosotras', 'vosotros', 'ellos', 'ellas',
+    'ustedes', 'me', 'te', 'se', 'nos', 'os', 'le', 'les', 'mi', 'mis', 'tus', 'su', 'sus', 'nuestro',
+    'nuestra', 'este', 'esta', 'estos', 'estas', 'ese', 'esa', 'esos', 'esas', 'esto', 'eso', 'aquel',
+    'es', 'son', 'soy', 'eres', 'somos', 'era', 'eran', 'fue', 'ser', 'sido', 'está', 'están', 'estoy',
+    'estamos', 'estar', 'estaba', 'he', 'has', 'ha', 'hemos', 'han', 'haber', 'había', 'hay', 'tengo',
+    'tiene', 'tienen', 'tener', 'puedo', 'puede', 'pueden', 'poder', 'quiero', 'quiere', 'voy', 'va',
+    'vamos', 'van', 'hacer', 'hace', 'hecho', 'hago', 'creo', 'digo', 'dice', 'sé', 'sabe', 'debe',
+    'muy', 'más', 'menos', 'también', 'tampoco', 'ya', 'aún', 'todavía', 'siempre', 'nunca', 'aquí',
+    'allí', 'ahora', 'hoy', 'mañana', 'ayer', 'bien', 'mal', 'gracias', 'hola', 'vale', 'bueno',
+    'todo', 'todos', 'toda', 'todas', 'otro', 'otra', 'otros', 'mismo', 'cada', 'algo', 'nada',
+    'en', 'con', 'sin', 'para', 'por', 'sobre', 'entre', 'hacia', 'hasta', 'desde', 'durante',
+    'contra', 'según', 'tras', 'ante', 'bajo', 'a', 'pues', 'entonces', 'mucho', 'poco', 'cosa'
+  ])
+};
+
+// Letters that only (or mostly) occur in one of the languages
+const CHARACTER_HINTS: Array<{ pattern: RegExp, languages: LanguageCode[] }> = [
+  { pattern: /[äöüß]/g, languages: ['de'] },
+  { pattern: /[àâçèêëîïôœùû]/g, languages: ['fr'] },
+  { pattern: /[ñ¿¡áíóú]/g, languages: ['es'] },
+  { pattern: /é/g, languages: ['fr', 'es'] }
+];
+
+/**
+ * Lowercase words, split on anything that is not a letter or digit in any script
+ */
+export function tokenize(text: string): string[] {
+  return String(text || '').toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+}
+
+/**
+ * Guess the language of a text from its function words and special letters
+ */
+export function detectLanguage(text: string): DetectedLanguage {
+  const scores: Record<LanguageCode, number> = { en: 0, de: 0, fr: 0, es: 0 };
+  const languages = Object.keys(scores) as LanguageCode[];
+
+  for (const token of tokenize(text)) {
+    for (const language of languages) {
+      if (STOP_WORDS[language].has(token)) scores[language]++;
+    }
+  }
+
+  const lowerText = String(text || '').toLowerCase();
+  for (const hint of CHARACTER_HINTS) {
+    const count = (lowerText.match(hint.pattern) || []).length;
+    for (const language of hint.languages) {
+      scores[language] += Math.min(count, 5) * 0.5;
+    }
+  }
+
+  const total = languages.reduce((sum, language) => sum + scores[language], 0);
+  if (total === 0) {
+    return { language: DEFAULT_LANGUAGE, confidence: 0 };
+  }
+
+  // Ties go to the default language
+  let best: LanguageCode = DEFAULT_LANGUAGE;
+  for (const language of languages) {
+    if (scores[language] > scores[best]) best = language;
+  }
+  return { language: best, confidence: scores[best] / total };
+}
+
+export function stopWordsFor(language: LanguageCode): Set<string> {
+  return STOP_WORDS[language] || STOP_WORDS[DEFAULT_LANGUAGE];
+}
+
+/**
+ * Light suffix stripping so that singular and plural (and a few common
+ * derivations) count as one keyword. Stems are used for grouping only,
+ * never shown.
+ */
+export function stem(word: string, language: LanguageCode): string {
+  const w = word.toLowerCase();
+  const strip = (suffix: string, replacement = '', minStem = 3) =>
+    w.endsWith(suffix) && w.length - suffix.length >= minStem ? w.slice(0, -suffix.length) + replacement : null;
+
+  switch (language) {
+    case 'de':
+      return strip('ungen', 'ung') || strip('heiten', 'heit') || strip('keiten', 'keit') ||
+        strip('innen', 'in') || strip('ern', '', 4) || strip('en', '', 4) || strip('es', '', 4) ||
+        strip('e', '', 4) || strip('n', '', 4) || strip('s', '', 4) || w;
+    case 'fr':
+      return strip('eaux', 'eau') || strip('aux', 'al') || strip('ées', 'é') || strip('ée', 'é') ||
+        strip('es', '', 4) || (!w.endsWith('ss') && strip('s', '', 4)) || strip('x', '', 4) ||
+        strip('e', '', 4) || w;
+    case 'es':
+      return strip('ciones', 'ción') || strip('iones', 'ión') || strip('ces', 'z') ||
+        (/[^aeiouáéíóú]es$/.test(w) && strip('es', '', 4)) ||
+        (/[aeiouáéíóú]s$/.test(w) && strip('s', '', 4)) || w;
+    default:
+      return strip('ies', 'y') || strip('sses', 'ss') ||
+        (!/(ss|us|is)$/.test(w) && strip('s', '', 4)) || w;
+  }
+}
+
+/**
+ * The language summaries should be written in
+ */
+export function resolveSummaryLanguage(setting: SummaryLanguageSetting | undefined, conversationText: string): LanguageCode {
+  if (setting && setting !== 'auto' && setting in SUPPORTED_LANGUAGES) {
+    return setting;
+  }
+  return detectLanguage(conversationText).language;
+}
+
+export function languageName(language: LanguageCode): string {
+  return SUPPORTED_LANGUAGES[language] || SUPPORTED_LANGUAGES[DEFAULT_LANGUAGE];
+}
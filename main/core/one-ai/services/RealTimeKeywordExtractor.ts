@@ -1,12 +1,19 @@
 /**
  * Real-time Keyword Extractor
- * Extracts meaningful single-word keywords from text for immediate display
+ * Extracts meaningful single-word keywords from text for immediate display.
+ * The language is detected per text; German, French and Spanish stop-words and
+ * stems are applied on top of the English list below.
  */
 
+import type { KeywordTaxonomy } from '../models/KeywordTaxonomy.js';
+import { keywordTaxonomyManager } from '../storage/keyword-taxonomy-manager.js';
+import { detectLanguage, stopWordsFor, stem, tokenize, type LanguageCode } from './LanguageDetector.js';
+
 class RealTimeKeywordExtractor {
   public stopWords: any;
   public minWordLength: any;
   public maxKeywords: any;
+  private customTaxonomy: KeywordTaxonomy | null = null;
 
   constructor() {
 
@@ -100,52 +107,76 @@ class RealTimeKeywordExtractor {
     this.maxKeywords = 15;
   }
 
+  /**
+   * The user's taxonomy unless one was set explicitly
+   */
+  get taxonomy(): KeywordTaxonomy {
+    return this.customTaxonomy || keywordTaxonomyManager.active;
+  }
+
+  setTaxonomy(taxonomy: KeywordTaxonomy | null): void {
+    this.customTaxonomy = taxonomy;
+  }
+
   /**
    * Extract single-word keywords from text
    * Returns array of meaningful single words only
    */
-  extractSingleWords(text: any): any {
+  extractSingleWords(text: any, language?: LanguageCode): any {
     if (!text || typeof text !== 'string') {
       return [];
     }
 
-    // Convert to lowercase and extract words
-    const words = text.toLowerCase()
-      .replace(/[^\w\s]/g, ' ')  // Remove punctuation
-      .split(/\s+/)              // Split on whitespace
+    const taxonomy = this.taxonomy;
+    const textLanguage = language || detectLanguage(text).language;
+    const languageStopWords = stopWordsFor(textLanguage);
+
+    // Extract words in any script, counted under their canonical synonym
+    const words = tokenize(text)
+      .map(word => taxonomy.canonical(word))
       .filter(word =>
-        word.length >= this.minWordLength &&
-        !this.stopWords.has(word) &&
-        !this.isNumeric(word) &&
-        this.isMeaningfulWord(word)
+        taxonomy.isPinned(word) || (
+          word.length >= this.minWordLength &&
+          !this.stopWords.has(word) &&
+          !languageStopWords.has(word) &&
+          !taxonomy.isStopWord(word) &&
+          !this.isNumeric(word) &&
+          this.isMeaningfulWord(word)
+        )
       );
 
-    // Count word frequency
-    const wordFreq: Record<string, number> = {};
+    // Count word frequency per stem, so "Rechnung" and "Rechnungen" are one keyword
+    const stemFreq = new Map<string, { count: number, forms: Map<string, number> }>();
     for (const word of words) {
-      wordFreq[word] = (wordFreq[word] || 0) + 1;
+      const key = taxonomy.isPinned(word) ? word : stem(word, textLanguage);
+      const entry = stemFreq.get(key) || { count: 0, forms: new Map() };
+      entry.count++;
+      entry.forms.set(word, (entry.forms.get(word) || 0) + 1);
+      stemFreq.set(key, entry);
     }
 
-    // Sort by frequency and filter for quality
-    return Object.entries(wordFreq)
-      .sort((a, b) => (b[1] as any) - (a[1] as any))
-      .map(([word]) => word)
-      .filter(word => this.isQualityKeyword(word))
-      .slice(0, this.maxKeywords);
+    // Sort by frequency and filter for quality; pinned keywords always make it.
+    // Each stem is shown in its most frequent spelling.
+    const ranked = Array.from(stemFreq.values())
+      .sort((a, b) => b.count - a.count)
+      .map(entry => Array.from(entry.forms.entries()).sort((a, b) => b[1] - a[1])[0][0])
+      .filter(word => taxonomy.isPinned(word) || this.isQualityKeyword(word));
+
+    return taxonomy.apply(ranked, text).slice(0, this.maxKeywords);
   }
 
   /**
    * Check if a word is meaningful (not just random letters)
    */
   isMeaningfulWord(word: any): any {
-    // Must have at least one vowel
-    if (!/[aeiou]/i.test(word)) return false;
+    // Must have at least one vowel (accented vowels count)
+    if (!/[aeiouäöüàâéèêëîïôûùáíóú]/i.test(word)) return false;
 
     // Avoid repeated characters (like "hmmm", "ohhh")
     if (/(.)\1{2,}/.test(word)) return false;
 
     // Avoid words that are all consonants except for common acronyms
-    const consonantRatio = (String(word).match(/[^aeiou]/gi) || []).length / word.length;
+    const consonantRatio = (String(word).match(/[^aeiouäöüàâéèêëîïôûùáíóú]/gi) || []).length / word.length;
     if (consonantRatio > 0.75 && word.length > 5) return false;
 
     return true;
@@ -184,13 +215,20 @@ class RealTimeKeywordExtractor {
 
     const aggregatedFreq = {};
     const messageCount = {};
+    const formByStem = new Map<string, string>();
 
     for (const message of messages) {
       const text = message.text || message.content || message;
-      const keywords = this.extractSingleWords(text);
-
-      // Track unique keywords per message to calculate document frequency
-      const uniqueInMessage = new Set(keywords);
+      const language = detectLanguage(String(text)).language;
+
+      // Track unique keywords per message to calculate document frequency;
+      // spellings seen in earlier messages are reused for the same stem
+      const uniqueInMessage = new Set<string>();
+      for (const keyword of this.extractSingleWords(text, language)) {
+        const key = stem(keyword, language);
+        if (!formByStem.has(key)) formByStem.set(key, keyword);
+        uniqueInMessage.add(formByStem.get(key)!);
+      }
 
       for (const keyword of uniqueInMessage) {
         aggregatedFreq[keyword as string] = (aggregatedFreq[keyword as string] || 0) + 1;
@@ -210,11 +248,11 @@ class RealTimeKeywordExtractor {
       };
     });
 
-    // Return sorted by score
-    return scoredKeywords
+    // Return sorted by score, pinned keywords first
+    const ranked = scoredKeywords
       .sort((a, b) => b.score - a.score)
-      .slice(0, maxKeywords)
       .map(item => item.word);
+    return this.taxonomy.apply(ranked).slice(0, maxKeywords);
   }
 
   /**
@@ -227,7 +265,8 @@ class RealTimeKeywordExtractor {
     // Create frequency map for existing keywords (higher weight for existing)
     const keywordScore: Record<string, number> = {};
     existingKeywords.forEach((keyword: any, index: any) => {
-      keywordScore[keyword] = existingKeywords.length - index + 10; // Bonus for existing
+      const canonical = this.taxonomy.canonical(keyword);
+      keywordScore[canonical] = Math.max(keywordScore[canonical] || 0, existingKeywords.length - index + 10); // Bonus for existing
     });
 
     // Add new keywords with their scores
@@ -236,10 +275,10 @@ class RealTimeKeywordExtractor {
     });
 
     // Sort by score and return top keywords
-    return Object.entries(keywordScore)
+    const ranked = Object.entries(keywordScore)
       .sort((a, b) => (b[1] as any) - (a[1] as any))
-      .slice(0, maxKeywords)
       .map(([word]) => word);
+    return this.taxonomy.apply(ranked).slice(0, maxKeywords);
   }
 
   /**
@@ -9,6 +9,13 @@
 import { createSubject } from '../models/Subject.js';
 import Keyword from '../models/Keyword.js';
 import Summary from '../models/Summary.js';
+import { keywordTaxonomyManager } from '../storage/keyword-taxonomy-manager.js';
+import {
+  detectLanguage,
+  languageName,
+  stopWordsFor,
+  tokenize
+} from './LanguageDetector.js';
 
 class TopicAnalyzer {
   public llmManager: any;
@@ -92,13 +99,33 @@ class TopicAnalyzer {
   }
 
   /**
-   * Extract keywords from text using LLM
+   * Extract keywords from text using LLM, with the user's taxonomy applied:
+   * synonyms collapse into their canonical keyword, stop-words are dropped
+   * and pinned keywords mentioned in the text come first
    */
   async extractKeywords(text: any, maxKeywords = 10, existingKeywords = []): Promise<unknown> {
     if (!text || text.trim().length === 0) {
       return [];
     }
 
+    const keywords = await this.extractRawKeywords(text, maxKeywords, existingKeywords) as string[];
+    const taxonomy = keywordTaxonomyManager.active;
+    if (taxonomy.isEmpty) {
+      return keywords;
+    }
+
+    const existing = new Set((existingKeywords as string[]).map(k => taxonomy.canonical(k)));
+    return taxonomy.apply(keywords, text)
+      .filter(keyword => !existing.has(keyword))
+      .slice(0, maxKeywords);
+  }
+
+  /**
+   * Keywords as the LLM (or the fallback) returns them; cached, since the
+   * taxonomy can change between calls
+   */
+  async extractRawKeywords(text: any, maxKeywords = 10, existingKeywords = []): Promise<unknown> {
+
     // Check cache
     const cacheKey = `${String(text).substring(0, 100)}_${maxKeywords}`;
     if (this.keywordCache.has(cacheKey)) {
@@ -115,6 +142,7 @@ class TopicAnalyzer {
       const prompt = `Extract the most important keywords from the following text.
         Return up to ${maxKeywords} keywords or phrases that capture the main topics.
         Focus on nouns, concepts, and meaningful phrases.
+        Keep the keywords in the language of the text.
         ${existingKeywords.length > 0 ? `Avoid these existing keywords: ${existingKeywords.join(', ')}` : ''}
 
         Text: "${text}"
@@ -172,18 +200,17 @@ class TopicAnalyzer {
    */
   fallbackKeywordExtraction(text: any, maxKeywords = 10) {
     // Simple extraction based on word frequency
-    const words = text.toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
+    const words = tokenize(text)
       .filter((w: any) => w.length > 3); // Skip short words
 
     const stopWords = new Set(['this', 'that', 'these', 'those', 'what', 'when', 'where',
                               'which', 'with', 'about', 'from', 'into', 'through', 'during',
                               'before', 'after', 'above', 'below', 'between', 'under']);
+    const languageStopWords = stopWordsFor(detectLanguage(text).language);
 
     const wordFreq: Record<string, number> = {};
     for (const word of words) {
-      if (!stopWords.has(word)) {
+      if (!stopWords.has(word) && !languageStopWords.has(word)) {
         wordFreq[word] = (wordFreq[word] || 0) + 1;
       }
     }
@@ -276,6 +303,7 @@ Create a comprehensive summary that:
 2. Highlights key points and conclusions
 3. Maintains chronological flow
 4. Is 100-200 words long
+5. Is written in ${languageName(detectLanguage(String(messageTexts)).language)}
 
 Summary:`;
 
@@ -0,0 +1,135 @@
+/**
+ * KeywordTaxonomyManager
+ *
+ * Stores the user's keyword taxonomy (stop-words, synonym groups, pinned keywords)
+ * in ONE.core and keeps the active taxonomy in memory for the keyword extractors
+ */
+
+import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js'
+import { hasRecipe } from '@refinio/one.core/lib/object-recipes.js'
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js'
+import { KeywordTaxonomy, normalizeTerm, type KeywordTaxonomyData, type SynonymGroup } from '../models/KeywordTaxonomy.js'
+
+/**
+ * KeywordTaxonomy object
+ * This must match the recipe definition in KeywordTaxonomyRecipe.ts
+ */
+export function createKeywordTaxonomy(creatorId: string): any {
+    const now = Date.now()
+
+    return {
+        $type$: 'KeywordTaxonomy',
+        creator: creatorId,
+        created: now,
+        modified: now,
+        stopWords: [],
+        synonymGroups: [],
+        pinned: []
+    }
+}
+
+function uniqueTerms(terms: any): string[] {
+    if (!Array.isArray(terms)) return []
+    return Array.from(new Set(terms.map(normalizeTerm).filter(Boolean)))
+}
+
+/**
+ * Normalize user input: lowercase terms, no duplicates, no empty groups, and
+ * a variant belongs to one group only
+ */
+export function sanitizeTaxonomy(data: Partial<KeywordTaxonomyData>): KeywordTaxonomyData {
+    const claimed = new Set<string>()
+    const synonymGroups: SynonymGroup[] = []
+
+    for (const group of Array.isArray(data.synonymGroups) ? data.synonymGroups : []) {
+        const canonical = normalizeTerm(group?.canonical)
+        if (!canonical || claimed.has(canonical)) continue
+
+        const variants = uniqueTerms(group.variants).filter(variant => variant !== canonical && !claimed.has(variant))
+        if (variants.length === 0) continue
+
+        claimed.add(canonical)
+        variants.forEach(variant => claimed.add(variant))
+        synonymGroups.push({ canonical, variants })
+    }
+
+    return {
+        stopWords: uniqueTerms(data.stopWords),
+        synonymGroups,
+        pinned: uniqueTerms(data.pinned)
+    }
+}
+
+/**
+ * KeywordTaxonomyManager
+ */
+export class KeywordTaxonomyManager {
+    static instance: KeywordTaxonomyManager | null = null
+
+    // Taxonomy of the local user, used by the extractors
+    active: KeywordTaxonomy = new KeywordTaxonomy()
+
+    /**
+     * Get the singleton instance
+     */
+    static getInstance(): KeywordTaxonomyManager {
+        if (!KeywordTaxonomyManager.instance) {
+            KeywordTaxonomyManager.instance = new KeywordTaxonomyManager()
+        }
+        return KeywordTaxonomyManager.instance
+    }
+
+    /**
+     * Get the taxonomy of a user; an empty one if nothing was stored yet
+     */
+    async getTaxonomy(creatorId: string): Promise<any> {
+        try {
+            const idHash = await calculateIdHashOfObj({ $type$: 'KeywordTaxonomy', creator: creatorId } as any)
+            const result = await getObjectByIdHash(idHash as any)
+            const stored = result.obj as any
+            this.active = new KeywordTaxonomy(stored)
+            return stored
+        } catch (error) {
+            // Not stored yet
+            this.active = new KeywordTaxonomy()
+            return createKeywordTaxonomy(creatorId)
+        }
+    }
+
+    /**
+     * Update stop-words, synonym groups and/or pinned keywords
+     */
+    async updateTaxonomy(creatorId: string, updates: Partial<KeywordTaxonomyData>): Promise<any> {
+        try {
+            if (!hasRecipe('KeywordTaxonomy')) {
+                throw new Error('Recipe for KeywordTaxonomy not found')
+            }
+
+            const current = await this.getTaxonomy(creatorId)
+            const sanitized = sanitizeTaxonomy({
+                stopWords: updates.stopWords ?? current.stopWords,
+                synonymGroups: updates.synonymGroups ?? current.synonymGroups,
+                pinned: updates.pinned ?? current.pinned
+            })
+
+            const result = await storeVersionedObject({
+                $type$: 'KeywordTaxonomy',
+                creator: creatorId,
+                created: current.created,
+                modified: Date.now(),
+                ...sanitized
+            } as any)
+
+            this.active = new KeywordTaxonomy(sanitized)
+            console.log('[KeywordTaxonomyManager] Stored taxonomy:',
+                `${sanitized.stopWords.length} stop-words, ${sanitized.synonymGroups.length} synonym groups, ${sanitized.pinned.length} pinned`)
+            return result.obj
+        } catch (error) {
+            console.error('[KeywordTaxonomyManager] Error updating taxonomy:', error)
+            throw error
+        }
+    }
+}
+
+// Export singleton instance
+export const keywordTaxonomyManager = KeywordTaxonomyManager.getInstance()
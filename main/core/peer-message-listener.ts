@@ -5,6 +5,8 @@
  * the UI when new messages arrive from peers via CHUM sync.
  */
 
+import messageSearchService from '../services/message-search.js'
+
 class PeerMessageListener {
   public channelManager: any;
   public topicModel: any;
@@ -69,6 +71,12 @@ class PeerMessageListener {
       timeOfEarliestChange: any,
       data: any
     ) => {
+      // Keep the full-text search index current from each update's new entries,
+      // also without a window (headless)
+      messageSearchService.indexChannelEntries(channelId, data).catch(error => {
+        console.warn('[PeerMessageListener] Failed to index messages for search:', error.message)
+      })
+
       // Debounce frequent updates
       const existingTimer = this.debounceTimers.get(channelId)
       if (existingTimer) {
@@ -216,7 +224,7 @@ class PeerMessageListener {
       clearTimeout(timer)
     }
     this.debounceTimers.clear()
-    (this.lastMessageCounts as any).clear()
+    this.lastMessageCounts.clear()
     
     console.log('[PeerMessageListener] Peer message listener stopped')
   }
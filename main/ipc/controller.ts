@@ -25,10 +25,17 @@ import { registerContactHandlers } from './handlers/contacts.js';
 import * as topicHandlers from './handlers/topics.js';
 import topicAnalysisHandlers from './handlers/topic-analysis.js';
 import * as wordCloudSettingsHandlers from './handlers/word-cloud-settings.js';
+import keywordTaxonomyHandlers from './handlers/keyword-taxonomy.js';
 import keywordDetailHandlers from './handlers/keyword-detail.js';
 import auditHandlers from './handlers/audit.js';
 import exportHandlers from './handlers/export.js';
 import feedForwardHandlers from './handlers/feed-forward.js';
+import mcpHandlers from './handlers/mcp.js';
+import toolPermissionHandlers from './handlers/tool-permissions.js';
+import embeddingHandlers from './handlers/embeddings.js';
+import searchHandlers from './handlers/search.js';
+import knowledgeGraphHandlers from './handlers/knowledge-graph.js';
+import keywordTrendsHandlers from './handlers/keyword-trends.js';
 import { registerLlmConfigHandlers } from './handlers/llm-config.js';
 // @ts-ignore - TS file with named export
 import { proposalHandlers } from './handlers/proposals.js';
@@ -126,6 +133,9 @@ class IPCController {
     this.handle('chat:editMessage', chatHandlers.editMessage);
     this.handle('chat:deleteMessage', chatHandlers.deleteMessage);
     this.handle('chat:getMessageHistory', chatHandlers.getMessageHistory);
+    this.handle('chat:regenerateMessage', chatHandlers.regenerateMessage);
+    this.handle('chat:getMessageAlternatives', chatHandlers.getMessageAlternatives);
+    this.handle('chat:selectMessageAlternative', chatHandlers.selectMessageAlternative);
     this.handle('chat:exportMessageCredential', chatHandlers.exportMessageCredential);
     this.handle('chat:verifyMessageAssertion', chatHandlers.verifyMessageAssertion);
 
@@ -180,6 +190,9 @@ class IPCController {
 
     // AI/LLM handlers
     this.handle('ai:chat', aiHandlers.chat);
+    this.handle('ai:cancel', aiHandlers.cancel);
+    this.handle('ai:getCouncil', aiHandlers.getCouncil);
+    this.handle('ai:setCouncil', aiHandlers.setCouncil);
     this.handle('ai:getModels', aiHandlers.getModels);
     this.handle('ai:setDefaultModel', aiHandlers.setDefaultModel);
     this.handle('ai:setApiKey', aiHandlers.setApiKey);
@@ -194,6 +207,37 @@ class IPCController {
     this.handle('ai:ensureDefaultChats', aiHandlers['ai:ensureDefaultChats']);
     this.handle('ai:getDefaultModel', aiHandlers['ai:getDefaultModel']);
 
+    // MCP server registry handlers
+    this.handle('mcp:listServers', mcpHandlers.listServers);
+    this.handle('mcp:saveServer', mcpHandlers.saveServer);
+    this.handle('mcp:deleteServer', mcpHandlers.deleteServer);
+    this.handle('mcp:setServerEnabled', mcpHandlers.setServerEnabled);
+    this.handle('mcp:restartServer', mcpHandlers.restartServer);
+
+    // AI tool permission and audit handlers
+    this.handle('tools:getRules', toolPermissionHandlers.getRules);
+    this.handle('tools:setRule', toolPermissionHandlers.setRule);
+    this.handle('tools:removeRule', toolPermissionHandlers.removeRule);
+    this.handle('tools:respondPermission', toolPermissionHandlers.respond);
+    this.handle('tools:getAuditLog', toolPermissionHandlers.getAuditLog);
+
+    // Semantic embeddings handlers
+    this.handle('embeddings:search', embeddingHandlers.search);
+    this.handle('embeddings:getStatus', embeddingHandlers.getStatus);
+    this.handle('embeddings:setConfig', embeddingHandlers.setConfig);
+    this.handle('embeddings:reindex', embeddingHandlers.reindex);
+
+    // Full-text message search handlers
+    this.handle('search:query', searchHandlers.query);
+    this.handle('search:getStatus', searchHandlers.getStatus);
+    this.handle('search:reindex', searchHandlers.reindex);
+
+    // Cross-topic knowledge graph handlers
+    this.handle('knowledgeGraph:get', knowledgeGraphHandlers.getGraph);
+
+    // Keyword trend handlers
+    this.handle('keywordTrends:get', keywordTrendsHandlers.getTrends);
+
     // LLM Configuration handlers (network Ollama support)
     registerLlmConfigHandlers();
 
@@ -223,17 +267,31 @@ class IPCController {
     this.handle('topicAnalysis:getSubjects', topicAnalysisHandlers.getSubjects);
     this.handle('topicAnalysis:getSummary', topicAnalysisHandlers.getSummary);
     this.handle('topicAnalysis:updateSummary', topicAnalysisHandlers.updateSummary);
+    this.handle('topicAnalysis:diffSummaries', topicAnalysisHandlers.diffSummaries);
+    this.handle('topicAnalysis:restoreSummary', topicAnalysisHandlers.restoreSummary);
     this.handle('topicAnalysis:extractKeywords', topicAnalysisHandlers.extractKeywords);
     this.handle('topicAnalysis:mergeSubjects', topicAnalysisHandlers.mergeSubjects);
+    this.handle('topicAnalysis:splitSubject', topicAnalysisHandlers.splitSubject);
+    this.handle('topicAnalysis:getMergeSuggestions', topicAnalysisHandlers.getMergeSuggestions);
+    this.handle('topicAnalysis:dismissMergeSuggestion', topicAnalysisHandlers.dismissMergeSuggestion);
     this.handle('topicAnalysis:extractRealtimeKeywords', topicAnalysisHandlers.extractRealtimeKeywords);
     this.handle('topicAnalysis:extractConversationKeywords', topicAnalysisHandlers.extractConversationKeywords);
     this.handle('topicAnalysis:getKeywords', topicAnalysisHandlers.getKeywords);
+    this.handle('topicAnalysis:getSummaryLanguage', topicAnalysisHandlers.getSummaryLanguage);
+    this.handle('topicAnalysis:setSummaryLanguage', topicAnalysisHandlers.setSummaryLanguage);
+    this.handle('topicAnalysis:getJobs', topicAnalysisHandlers.getAnalysisJobs);
+    this.handle('topicAnalysis:retryJob', topicAnalysisHandlers.retryAnalysisJob);
+    this.handle('topicAnalysis:cancelJob', topicAnalysisHandlers.cancelAnalysisJob);
 
     // Word Cloud Settings handlers
     this.handle('wordCloudSettings:getSettings', wordCloudSettingsHandlers.getWordCloudSettings);
     this.handle('wordCloudSettings:updateSettings', wordCloudSettingsHandlers.updateWordCloudSettings);
     this.handle('wordCloudSettings:resetSettings', wordCloudSettingsHandlers.resetWordCloudSettings);
 
+    // Keyword Taxonomy handlers
+    this.handle('keywordTaxonomy:get', keywordTaxonomyHandlers.get);
+    this.handle('keywordTaxonomy:update', keywordTaxonomyHandlers.update);
+
     // Keyword Detail handlers
     this.handle('keywordDetail:getKeywordDetails', keywordDetailHandlers.getKeywordDetails);
     this.handle('keywordDetail:updateKeywordAccessState', keywordDetailHandlers.updateKeywordAccessState);
@@ -244,6 +302,13 @@ class IPCController {
     this.handle('proposals:getConfig', proposalHandlers['proposals:getConfig']);
     this.handle('proposals:dismiss', proposalHandlers['proposals:dismiss']);
     this.handle('proposals:share', proposalHandlers['proposals:share']);
+    this.handle('proposals:getPreview', proposalHandlers['proposals:getPreview']);
+    this.handle('proposals:getPromptContext', proposalHandlers['proposals:getPromptContext']);
+    this.handle('proposals:removePromptContext', proposalHandlers['proposals:removePromptContext']);
+    this.handle('proposals:getFeedbackStats', proposalHandlers['proposals:getFeedbackStats']);
+    this.handle('proposals:requestSourceAccess', proposalHandlers['proposals:requestSourceAccess']);
+    this.handle('proposals:getAccessRequests', proposalHandlers['proposals:getAccessRequests']);
+    this.handle('proposals:answerAccessRequest', proposalHandlers['proposals:answerAccessRequest']);
 
     // Export handlers
     this.handle('export:file', exportHandlers.exportFile);
@@ -255,8 +320,11 @@ class IPCController {
     this.handle('feedForward:createSupply', feedForwardHandlers['feedForward:createSupply']);
     this.handle('feedForward:createDemand', feedForwardHandlers['feedForward:createDemand']);
     this.handle('feedForward:matchSupplyDemand', feedForwardHandlers['feedForward:matchSupplyDemand']);
+    this.handle('feedForward:getMatches', feedForwardHandlers['feedForward:getMatches']);
+    this.handle('feedForward:respondToMatch', feedForwardHandlers['feedForward:respondToMatch']);
     this.handle('feedForward:updateTrust', feedForwardHandlers['feedForward:updateTrust']);
     this.handle('feedForward:getCorpusStream', feedForwardHandlers['feedForward:getCorpusStream']);
+    this.handle('feedForward:exportCorpus', feedForwardHandlers['feedForward:exportCorpus']);
     this.handle('feedForward:enableSharing', feedForwardHandlers['feedForward:enableSharing']);
     this.handle('feedForward:getTrustScore', feedForwardHandlers['feedForward:getTrustScore']);
 
@@ -7,6 +7,7 @@ import llmManager from '../../services/llm-manager.js';
 import stateManager from '../../state/manager.js';
 import nodeOneCore from '../../core/node-one-core.js';
 import type { IpcMainInvokeEvent } from 'electron';
+import type { CouncilOrder } from '../../core/ai-council.js';
 
 interface ChatMessage {
   role: string;
@@ -38,6 +39,22 @@ interface GetOrCreateContactParams {
   modelId: string;
 }
 
+interface CancelParams {
+  topicId: string;
+}
+
+interface GetCouncilParams {
+  topicId: string;
+}
+
+interface SetCouncilParams {
+  topicId: string;
+  modelIds?: string[];
+  order?: CouncilOrder;
+  moderatorModelId?: string;
+  maxTurns?: number;
+}
+
 interface TestApiKeyParams {
   provider: string;
   apiKey: string;
@@ -467,6 +484,80 @@ const aiHandlers = {
     }
   },
 
+  /**
+   * Stop the AI response currently being generated for a topic
+   */
+  async cancel(event: IpcMainInvokeEvent, { topicId }: CancelParams): Promise<IpcResponse> {
+    console.log('[AIHandler] Cancel generation for topic:', topicId)
+
+    try {
+      if (!nodeOneCore?.aiAssistantModel) {
+        throw new Error('AI system not initialized')
+      }
+
+      const cancelled = nodeOneCore.aiAssistantModel.cancelGeneration(topicId)
+
+      return {
+        success: true,
+        data: { cancelled }
+      }
+    } catch (error) {
+      console.error('[AIHandler] Cancel generation error:', error)
+      return {
+        success: false,
+        error: (error as Error).message
+      }
+    }
+  },
+
+  /**
+   * Get the council configuration of a topic (null if it has a single AI)
+   */
+  async getCouncil(event: IpcMainInvokeEvent, { topicId }: GetCouncilParams): Promise<IpcResponse> {
+    try {
+      if (!nodeOneCore?.aiAssistantModel) {
+        throw new Error('AI system not initialized')
+      }
+
+      return {
+        success: true,
+        data: nodeOneCore.aiAssistantModel.councilManager.getCouncil(topicId)
+      }
+    } catch (error) {
+      console.error('[AIHandler] Get council error:', error)
+      return {
+        success: false,
+        error: (error as Error).message
+      }
+    }
+  },
+
+  /**
+   * Configure how the AI participants of a topic take turns
+   */
+  async setCouncil(event: IpcMainInvokeEvent, { topicId, ...update }: SetCouncilParams): Promise<IpcResponse> {
+    console.log('[AIHandler] Set council for topic:', topicId, update)
+
+    try {
+      if (!nodeOneCore?.aiAssistantModel) {
+        throw new Error('AI system not initialized')
+      }
+
+      const config = await nodeOneCore.aiAssistantModel.councilManager.setCouncil(topicId, update)
+
+      return {
+        success: true,
+        data: config
+      }
+    } catch (error) {
+      console.error('[AIHandler] Set council error:', error)
+      return {
+        success: false,
+        error: (error as Error).message
+      }
+    }
+  },
+
   /**
    * Test an API key with the provider
    */
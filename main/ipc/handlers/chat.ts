@@ -11,6 +11,7 @@ import electron from 'electron';
 const { BrowserWindow } = electron;
 import { MessageVersionManager } from '../../core/message-versioning.js';
 import { MessageAssertionManager } from '../../core/message-assertion-certificates.js';
+import messageSearchService from '../../services/message-search.js';
 import type { IpcMainInvokeEvent } from 'electron';
 
 // Simple topic creation following one.leute patterns
@@ -74,6 +75,22 @@ interface GetMessageHistoryParams {
   messageId: string;
 }
 
+interface RegenerateMessageParams {
+  conversationId: string;
+  messageId: string;
+  modelId?: string;
+}
+
+interface GetMessageAlternativesParams {
+  messageId: string;
+}
+
+interface SelectMessageAlternativeParams {
+  conversationId: string;
+  messageId: string;
+  version: number;
+}
+
 interface ExportMessageCredentialParams {
   messageId: string;
 }
@@ -83,6 +100,17 @@ interface VerifyMessageAssertionParams {
   messageHash: string;
 }
 
+function getMessageVersionManager(): MessageVersionManager {
+  if (!messageVersionManager && nodeOneCore.channelManager) {
+    messageVersionManager = new MessageVersionManager(nodeOneCore.channelManager)
+  }
+
+  if (!messageVersionManager) {
+    throw new Error('Message version manager not available')
+  }
+  return messageVersionManager
+}
+
 interface IpcResponse<T = any> {
   success: boolean;
   data?: T;
@@ -450,6 +478,20 @@ const chatHandlers = {
       // Apply pagination
       const paginatedMessages = deduplicatedMessages.slice(offset, offset + limit)
 
+      // Regenerated AI messages show the selected alternative
+      if (nodeOneCore.channelManager) {
+        const versionManager = getMessageVersionManager()
+        for (const msg of paginatedMessages) {
+          if (!msg.isAI) continue
+          const alternatives = await versionManager.getAlternatives(msg.id)
+          if (!alternatives) continue
+
+          const selected = alternatives.alternatives.find(alternative => alternative.version === alternatives.selectedVersion)
+          if (selected) msg.text = selected.text
+          msg.alternatives = alternatives
+        }
+      }
+
       console.log(`[ChatHandler] 📤 Returning ${paginatedMessages.length} messages for ${conversationId}:`)
       paginatedMessages.forEach((msg: any, i: any) => {
         console.log(`[ChatHandler] 📤 Message ${i}: "${msg.text?.substring(0, 50)}..." (${msg.isAI ? 'AI' : 'User'})`)
@@ -553,6 +595,7 @@ const chatHandlers = {
 
       // Mark conversation metadata if it has AI participants
       let aiModelIdForTopic = null
+      const aiModelIds: string[] = []
       if (nodeOneCore.aiAssistantModel) {
         for (const participant of participants) {
           // Use isAIPerson which checks LLMObjectManager (has all models, not just cached)
@@ -563,12 +606,14 @@ const chatHandlers = {
             const modelId = nodeOneCore.aiAssistantModel.getModelIdForPersonId(participant)
             if (modelId) {
               console.log(`[ChatHandler] Found AI participant ${String(participant).substring(0, 8)} with model: ${modelId}`)
-              conversation.aiModelId = modelId
-              aiModelIdForTopic = modelId  // Store for registration below
+              if (!aiModelIdForTopic) {
+                conversation.aiModelId = modelId
+                aiModelIdForTopic = modelId  // Store for registration below
+              }
+              if (!aiModelIds.includes(modelId)) aiModelIds.push(modelId)
             } else {
               console.error(`[ChatHandler] AI participant ${String(participant).substring(0, 8)} has no model ID - this is a bug`)
             }
-            break
           }
         }
       }
@@ -595,6 +640,11 @@ const chatHandlers = {
           if (aiModelIdForTopic && nodeOneCore.aiAssistantModel) {
             console.log(`[ChatHandler] Registering AI topic ${conversation.id} with model: ${aiModelIdForTopic}`)
             nodeOneCore.aiAssistantModel.registerAITopic(conversation.id, aiModelIdForTopic)
+
+            // Several AI participants answer in turn
+            if (aiModelIds.length > 1) {
+              await nodeOneCore.aiAssistantModel.councilManager.setCouncil(conversation.id, { modelIds: aiModelIds })
+            }
           }
 
           // Trigger AI welcome message if this is an AI conversation
@@ -1226,6 +1276,9 @@ const chatHandlers = {
       // Create edited version
       const result: any = await messageVersionManager.editMessage(messageId, newText, editReason)
 
+      // Search finds the message by its new text
+      messageSearchService.updateMessageText(messageId, newText, String(result.hash))
+
       // Notify UI about the edited message
       event.sender.send('chat:messageEdited', {
         conversationId,
@@ -1302,6 +1355,22 @@ const chatHandlers = {
       // Get all versions
       const versions: any = await messageVersionManager.getVersionHistory(messageId)
 
+      // A message that was never edited is its only version
+      if (versions.length === 0) {
+        const original = await messageSearchService.getMessage(messageId)
+        if (original) {
+          versions.push({
+            id: messageId,
+            versionId: original.hash,
+            version: 1,
+            text: original.text,
+            author: original.sender,
+            timestamp: new Date(original.timestamp).toISOString(),
+            hash: original.hash
+          })
+        }
+      }
+
       return {
         success: true,
         data: versions
@@ -1315,6 +1384,93 @@ const chatHandlers = {
     }
   },
 
+  // Regenerate an AI message - the new answer is stored as an alternative version
+  async regenerateMessage(event: IpcMainInvokeEvent, { conversationId, messageId, modelId }: RegenerateMessageParams): Promise<IpcResponse> {
+    console.log('[ChatHandler] Regenerate message:', { conversationId, messageId, modelId })
+
+    try {
+      if (!nodeOneCore.aiAssistantModel) {
+        throw new Error('AI assistant not initialized')
+      }
+
+      const versionManager = getMessageVersionManager()
+      const result = await nodeOneCore.aiAssistantModel.generateAlternative(conversationId, messageId, modelId)
+
+      const alternatives = await versionManager.addAlternative(messageId, {
+        text: result.original.text,
+        author: result.original.authorId,
+        modelId: result.original.modelId || undefined
+      }, {
+        text: result.text,
+        author: result.authorId,
+        modelId: result.modelId,
+        promptMessageId: result.promptMessageId
+      })
+
+      // Notify UI about the new alternative
+      event.sender.send('chat:messageAlternatives', {
+        conversationId,
+        messageId,
+        alternatives
+      })
+
+      return {
+        success: true,
+        data: alternatives
+      }
+    } catch (error) {
+      console.error('[ChatHandler] Error regenerating message:', error)
+      return {
+        success: false,
+        error: (error as Error).message
+      }
+    }
+  },
+
+  // Get all alternative answers for an AI message
+  async getMessageAlternatives(event: IpcMainInvokeEvent, { messageId }: GetMessageAlternativesParams): Promise<IpcResponse> {
+    try {
+      const alternatives = await getMessageVersionManager().getAlternatives(messageId)
+
+      return {
+        success: true,
+        data: alternatives
+      }
+    } catch (error) {
+      console.error('[ChatHandler] Error getting message alternatives:', error)
+      return {
+        success: false,
+        error: (error as Error).message
+      }
+    }
+  },
+
+  // Choose which alternative answer is displayed
+  async selectMessageAlternative(event: IpcMainInvokeEvent, { conversationId, messageId, version }: SelectMessageAlternativeParams): Promise<IpcResponse> {
+    console.log('[ChatHandler] Select message alternative:', { conversationId, messageId, version })
+
+    try {
+      const alternatives = await getMessageVersionManager().selectAlternative(messageId, version)
+
+      event.sender.send('chat:messageAlternatives', {
+        conversationId,
+        messageId,
+        alternatives
+      })
+
+      return {
+        success: true,
+        data: alternatives
+      }
+    } catch (error) {
+      console.error('[ChatHandler] Error selecting message alternative:', error)
+      return {
+        success: false,
+        error: (error as Error).message
+      }
+    }
+  },
+
   // Export message as verifiable credential
   async exportMessageCredential(event: IpcMainInvokeEvent, { messageId }: ExportMessageCredentialParams): Promise<IpcResponse> {
     console.log('[ChatHandler] Export message as verifiable credential:', messageId)
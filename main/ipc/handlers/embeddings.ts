@@ -0,0 +1,64 @@
+/**
+ * Embedding IPC Handlers
+ *
+ * Semantic search over subjects, keywords and messages, plus the
+ * embedding provider configuration and index status.
+ */
+
+import embeddingService, {
+  type EmbeddingConfig,
+  type SemanticSearchOptions
+} from '../../services/embeddings.js';
+import type { IpcMainInvokeEvent } from 'electron';
+
+interface SearchParams extends SemanticSearchOptions {
+  query: string;
+}
+
+interface SetConfigParams {
+  config: EmbeddingConfig;
+}
+
+interface IpcResponse<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const embeddingHandlers = {
+  async search(event: IpcMainInvokeEvent, { query, ...options }: SearchParams): Promise<IpcResponse> {
+    try {
+      return { success: true, data: { results: await embeddingService.search(query, options) } };
+    } catch (error) {
+      console.error('[EmbeddingHandler] Error searching:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
+  async getStatus(event: IpcMainInvokeEvent): Promise<IpcResponse> {
+    return { success: true, data: embeddingService.getStatus() };
+  },
+
+  async setConfig(event: IpcMainInvokeEvent, { config }: SetConfigParams): Promise<IpcResponse> {
+    try {
+      return { success: true, data: { config: await embeddingService.setConfig(config) } };
+    } catch (error) {
+      console.error('[EmbeddingHandler] Error setting config:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
+  /**
+   * Embed everything again, e.g. after switching the model
+   */
+  async reindex(event: IpcMainInvokeEvent): Promise<IpcResponse> {
+    try {
+      return { success: true, data: { queued: await embeddingService.reindexAll() } };
+    } catch (error) {
+      console.error('[EmbeddingHandler] Error reindexing:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+};
+
+export default embeddingHandlers;
@@ -3,7 +3,10 @@
  * Handles all IPC communication for feed-forward knowledge sharing
  */
 
+import { BrowserWindow, dialog } from 'electron';
 import FeedForwardManager from '../../core/feed-forward/manager.js';
+import type { FeedForwardMatch } from '../../core/feed-forward/supply-demand.js';
+import type { RedactionRule } from '../../core/feed-forward/corpus-export.js';
 import type { IpcMainInvokeEvent } from 'electron';
 
 // Will be initialized when ONE.core is ready
@@ -42,6 +45,19 @@ interface CorpusParams {
   since?: number;
   minQuality?: number;
   keywords?: string[];
+  cursor?: string;
+  limit?: number;
+}
+
+interface CorpusExportParams {
+  outputPath?: string;       // Asked for with a save dialog when missing
+  minTrust?: number;
+  since?: number;
+  until?: number;
+  subjects?: string[];       // Subject ids ('solar+battery') or keyword terms
+  redactionRules?: RedactionRule[];
+  useDefaultRules?: boolean;
+  systemPrompt?: string;
 }
 
 interface SharingParams {
@@ -54,6 +70,18 @@ interface TrustGetParams {
   participantId: string;
 }
 
+interface MatchResponseParams {
+  demandId: string;
+  supplyId: string;
+  accept: boolean;
+}
+
+function notifyRenderer(channel: string, match: FeedForwardMatch): void {
+  for (const window of BrowserWindow.getAllWindows()) {
+    window.webContents.send(channel, match);
+  }
+}
+
 /**
  * Initialize feed-forward manager with ONE.core instance
  */
@@ -62,6 +90,13 @@ function initializeFeedForward(nodeOneCore: any): void {
     throw new Error('ONE.core instance required for feed-forward initialization');
   }
   manager = new FeedForwardManager({ nodeOneCore });
+
+  // Matches found in what contacts share reach the user as notifications
+  manager.on('match-found', (match: FeedForwardMatch) => notifyRenderer('feedForward:matchFound', match));
+  manager.on('match-updated', (match: FeedForwardMatch) => notifyRenderer('feedForward:matchUpdated', match));
+  manager.initialize().catch((error) => {
+    console.error('[FeedForward] Failed to initialize manager:', error);
+  });
 }
 
 /**
@@ -112,6 +147,38 @@ async function matchSupplyDemand(event: IpcMainInvokeEvent, params: MatchParams)
   }
 }
 
+/**
+ * IPC Handler: Matches we take part in, as requester or supplier
+ */
+async function getMatches(event: IpcMainInvokeEvent): Promise<any> {
+  if (!manager) {
+    return { success: false, error: 'Feed-forward manager not initialized' };
+  }
+
+  try {
+    return await manager.getMatches();
+  } catch (error) {
+    console.error('Error getting matches:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error getting matches' };
+  }
+}
+
+/**
+ * IPC Handler: Accept or reject a match
+ */
+async function respondToMatch(event: IpcMainInvokeEvent, params: MatchResponseParams): Promise<any> {
+  if (!manager) {
+    return { success: false, error: 'Feed-forward manager not initialized' };
+  }
+
+  try {
+    return await manager.respondToMatch(params);
+  } catch (error) {
+    console.error('Error answering match:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error answering match' };
+  }
+}
+
 /**
  * IPC Handler: Update trust score
  */
@@ -144,6 +211,38 @@ async function getCorpusStream(event: IpcMainInvokeEvent, params: CorpusParams =
   }
 }
 
+/**
+ * IPC Handler: Export the training corpus as chat-format JSONL with a provenance manifest
+ */
+async function exportCorpus(event: IpcMainInvokeEvent, params: CorpusExportParams = {}): Promise<any> {
+  if (!manager) {
+    return { success: false, error: 'Feed-forward manager not initialized' };
+  }
+
+  try {
+    let outputPath = params.outputPath;
+    if (!outputPath) {
+      const win = BrowserWindow.fromWebContents(event.sender);
+      const dialogOptions = {
+        defaultPath: `training-corpus-${new Date().toISOString().substring(0, 10)}.jsonl`,
+        filters: [{ name: 'JSON Lines', extensions: ['jsonl'] }]
+      };
+      const result = win
+        ? await dialog.showSaveDialog(win, dialogOptions)
+        : await dialog.showSaveDialog(dialogOptions);
+      if (result.canceled || !result.filePath) {
+        return { success: false, canceled: true };
+      }
+      outputPath = result.filePath;
+    }
+
+    return await manager.exportCorpus({ ...params, outputPath });
+  } catch (error) {
+    console.error('Error exporting corpus:', error);
+    return { success: false, error: error instanceof Error ? error.message : 'Unknown error exporting corpus' };
+  }
+}
+
 /**
  * IPC Handler: Enable/disable sharing
  */
@@ -182,8 +281,11 @@ const feedForwardHandlers = {
   'feedForward:createSupply': createSupply,
   'feedForward:createDemand': createDemand,
   'feedForward:matchSupplyDemand': matchSupplyDemand,
+  'feedForward:getMatches': getMatches,
+  'feedForward:respondToMatch': respondToMatch,
   'feedForward:updateTrust': updateTrust,
   'feedForward:getCorpusStream': getCorpusStream,
+  'feedForward:exportCorpus': exportCorpus,
   'feedForward:enableSharing': enableSharing,
   'feedForward:getTrustScore': getTrustScore
 };
@@ -9,6 +9,7 @@ import type { IpcMainInvokeEvent } from 'electron';
 import nodeOneCoreInstance from '../../core/node-one-core.js';
 import TopicAnalysisModel from '../../core/one-ai/models/TopicAnalysisModel.js';
 import * as keywordAccessStorage from '../../core/one-ai/storage/keyword-access-storage.js';
+import subjectSharing from '../../services/subject-sharing.js';
 // @ts-ignore - JS file
 import * as keywordEnrichment from '../../services/keyword-enrichment.js';
 
@@ -302,6 +303,11 @@ export async function updateKeywordAccessState(
       created: result.created
     });
 
+    // Share or withdraw the subjects with these keywords
+    subjectSharing.publish(nodeOneCoreInstance).catch((error) => {
+      console.warn('[KeywordDetail] Could not update shared subjects:', error.message);
+    });
+
     return {
       success: true,
       data: {
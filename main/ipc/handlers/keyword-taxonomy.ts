@@ -0,0 +1,60 @@
+/**
+ * Keyword Taxonomy IPC Handlers
+ *
+ * The user's custom stop-words, synonym groups and pinned keywords.
+ */
+
+import nodeOneCoreInstance from '../../core/node-one-core.js';
+import { keywordTaxonomyManager } from '../../core/one-ai/storage/keyword-taxonomy-manager.js';
+import type { KeywordTaxonomyData } from '../../core/one-ai/models/KeywordTaxonomy.js';
+import type { IpcMainInvokeEvent } from 'electron';
+
+interface UpdateTaxonomyParams {
+  updates: Partial<KeywordTaxonomyData>;
+}
+
+interface IpcResponse<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+async function getCreatorId(): Promise<string> {
+  if (!nodeOneCoreInstance.leuteModel) {
+    throw new Error('User not authenticated - node not provisioned');
+  }
+  const me = await nodeOneCoreInstance.leuteModel.me();
+  return me.idHash;
+}
+
+function toData(taxonomy: any): KeywordTaxonomyData {
+  return {
+    stopWords: taxonomy.stopWords || [],
+    synonymGroups: taxonomy.synonymGroups || [],
+    pinned: taxonomy.pinned || []
+  };
+}
+
+const keywordTaxonomyHandlers = {
+  async get(event: IpcMainInvokeEvent): Promise<IpcResponse> {
+    try {
+      const taxonomy = await keywordTaxonomyManager.getTaxonomy(await getCreatorId());
+      return { success: true, data: { taxonomy: toData(taxonomy) } };
+    } catch (error) {
+      console.error('[KeywordTaxonomyHandler] Error getting taxonomy:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
+  async update(event: IpcMainInvokeEvent, { updates }: UpdateTaxonomyParams): Promise<IpcResponse> {
+    try {
+      const taxonomy = await keywordTaxonomyManager.updateTaxonomy(await getCreatorId(), updates || {});
+      return { success: true, data: { taxonomy: toData(taxonomy) } };
+    } catch (error) {
+      console.error('[KeywordTaxonomyHandler] Error updating taxonomy:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+};
+
+export default keywordTaxonomyHandlers;
@@ -0,0 +1,34 @@
+/**
+ * Keyword Trends IPC Handlers
+ *
+ * Daily or weekly keyword counts, per topic or across all conversations,
+ * with rising and falling keywords for the trends dashboard.
+ */
+
+import nodeOneCore from '../../core/node-one-core.js';
+import messageSearchService, { normalizeTopicId } from '../../services/message-search.js';
+import { keywordTaxonomyManager } from '../../core/one-ai/storage/keyword-taxonomy-manager.js';
+import { computeKeywordTrends, collectTrendKeywords, type KeywordTrendOptions } from '../../services/keyword-trends.js';
+import type { IpcMainInvokeEvent } from 'electron';
+
+interface IpcResponse<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const keywordTrendsHandlers = {
+  async getTrends(event: IpcMainInvokeEvent, options: KeywordTrendOptions = {}): Promise<IpcResponse> {
+    try {
+      const keywords = await collectTrendKeywords(nodeOneCore, keywordTaxonomyManager.active);
+      const topicId = options?.topicId ? normalizeTopicId(options.topicId) : undefined;
+      const documents = topicId ? messageSearchService.topicDocuments(topicId) : messageSearchService.index.filter({});
+      return { success: true, data: computeKeywordTrends(documents, keywords, { ...options, topicId }) };
+    } catch (error) {
+      console.error('[KeywordTrendsHandler] Error computing trends:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+};
+
+export default keywordTrendsHandlers;
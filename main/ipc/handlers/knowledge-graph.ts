@@ -0,0 +1,30 @@
+/**
+ * Knowledge Graph IPC Handlers
+ *
+ * Subjects, keywords and topics of all conversations as nodes and
+ * weighted edges, for the graph view.
+ */
+
+import nodeOneCore from '../../core/node-one-core.js';
+import { buildKnowledgeGraph, collectGraphTopics, type KnowledgeGraphOptions } from '../../services/knowledge-graph.js';
+import type { IpcMainInvokeEvent } from 'electron';
+
+interface IpcResponse<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const knowledgeGraphHandlers = {
+  async getGraph(event: IpcMainInvokeEvent, options: KnowledgeGraphOptions = {}): Promise<IpcResponse> {
+    try {
+      const topics = await collectGraphTopics(nodeOneCore);
+      return { success: true, data: buildKnowledgeGraph(topics, options || {}) };
+    } catch (error) {
+      console.error('[KnowledgeGraphHandler] Error building graph:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+};
+
+export default knowledgeGraphHandlers;
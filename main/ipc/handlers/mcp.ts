@@ -0,0 +1,138 @@
+/**
+ * MCP Server IPC Handlers
+ *
+ * CRUD for the MCP server registry. Changes take effect immediately:
+ * servers are started or stopped without restarting the app.
+ */
+
+import mcpManager from '../../services/mcp-manager.js';
+import mcpServerRegistry, { type MCPServerConfig } from '../../services/mcp-server-registry.js';
+import llmManager from '../../services/llm-manager.js';
+import type { IpcMainInvokeEvent } from 'electron';
+
+interface SaveServerParams {
+  server: MCPServerConfig;
+  previousName?: string;  // Set when the server was renamed
+}
+
+interface ServerNameParams {
+  name: string;
+}
+
+interface SetServerEnabledParams {
+  name: string;
+  enabled: boolean;
+}
+
+interface IpcResponse<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+/**
+ * Start or stop a server to match its configuration, then refresh the model tools
+ */
+async function applyServer(name: string): Promise<void> {
+  const server = mcpServerRegistry.get(name);
+  try {
+    if (server?.enabled) {
+      await mcpManager.startServer(name);
+    } else {
+      await mcpManager.stopServer(name);
+    }
+  } finally {
+    llmManager.syncMCPTools();
+  }
+}
+
+function serverList(): IpcResponse {
+  return {
+    success: true,
+    data: { servers: mcpManager.getServerStatus() }
+  };
+}
+
+const mcpHandlers = {
+  /**
+   * Configured servers with running state and tool counts
+   */
+  async listServers(event: IpcMainInvokeEvent): Promise<IpcResponse> {
+    try {
+      if (!mcpServerRegistry.isLoaded) {
+        await mcpServerRegistry.load();
+      }
+      return serverList();
+    } catch (error) {
+      console.error('[MCPHandler] Error listing servers:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
+  /**
+   * Add or update a server and (re)start it when enabled
+   */
+  async saveServer(event: IpcMainInvokeEvent, { server, previousName }: SaveServerParams): Promise<IpcResponse> {
+    try {
+      // The old name goes only once the new config is saved - save throws on an invalid one
+      const saved = await mcpServerRegistry.save(server);
+      if (previousName && previousName !== saved.name) {
+        await mcpServerRegistry.remove(previousName);
+        await mcpManager.stopServer(previousName);
+      }
+
+      try {
+        await applyServer(saved.name);
+      } catch (error) {
+        // Saved, but it did not start - the status shows the error
+        console.warn(`[MCPHandler] Server ${saved.name} saved but failed to start:`, (error as Error).message);
+      }
+      return serverList();
+    } catch (error) {
+      console.error('[MCPHandler] Error saving server:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
+  async deleteServer(event: IpcMainInvokeEvent, { name }: ServerNameParams): Promise<IpcResponse> {
+    try {
+      await mcpServerRegistry.remove(name);
+      await applyServer(name);
+      return serverList();
+    } catch (error) {
+      console.error('[MCPHandler] Error deleting server:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
+  async setServerEnabled(event: IpcMainInvokeEvent, { name, enabled }: SetServerEnabledParams): Promise<IpcResponse> {
+    try {
+      const server = mcpServerRegistry.get(name);
+      if (!server) {
+        throw new Error(`MCP server ${name} is not configured`);
+      }
+      await mcpServerRegistry.save({ ...server, enabled });
+      try {
+        await applyServer(name);
+      } catch (error) {
+        console.warn(`[MCPHandler] Server ${name} failed to start:`, (error as Error).message);
+      }
+      return serverList();
+    } catch (error) {
+      console.error('[MCPHandler] Error enabling server:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
+  async restartServer(event: IpcMainInvokeEvent, { name }: ServerNameParams): Promise<IpcResponse> {
+    try {
+      await applyServer(name);
+      return serverList();
+    } catch (error) {
+      console.error('[MCPHandler] Error restarting server:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+};
+
+export default mcpHandlers;
@@ -9,6 +9,22 @@ import type { IpcMainInvokeEvent } from 'electron';
 import { ProposalEngine } from '../../services/proposal-engine.js';
 import { ProposalRanker } from '../../services/proposal-ranker.js';
 import { ProposalCache } from '../../services/proposal-cache.js';
+import proposalFeedbackLog from '../../services/proposal-feedback-log.js';
+import subjectSharing, { type IncomingAccessRequest } from '../../services/subject-sharing.js';
+import type { SubjectAccessDecision } from '../../services/shared-subjects.js';
+import messageSearchService from '../../services/message-search.js';
+import { tokenize } from '../../services/inverted-index.js';
+import promptContext, { type PromptContextItem } from '../../services/prompt-context.js';
+import {
+  rankExcerpts,
+  summaryFragment,
+  formatPromptContext,
+  sharedExcerptText,
+  type ProposalExcerpt,
+  type ProposalPreview,
+  type SharedProposalContent,
+} from '../../services/proposal-excerpts.js';
+import type { LearnedWeights } from '../../services/proposal-feedback.js';
 import {
   storeVersionedObject,
   getObjectByIdHash,
@@ -37,6 +53,9 @@ function getProposalEngine(): ProposalEngine {
   return proposalEngine;
 }
 
+// Excerpts a share may pick from
+const MAX_SHARED_EXCERPTS = 20;
+
 // Session-only dismissed proposals (in-memory)
 const dismissedProposals = new Set<string>();
 
@@ -123,18 +142,30 @@ async function getForTopic(
     // Get current user config
     const config = await getCurrentConfig();
 
+    // Subjects contacts have shared with us take part too
+    const peerSubjects = await subjectSharing.getPeerSubjects(nodeOneCoreInstance).catch((error) => {
+      console.warn('[ProposalHandlers] Could not load shared subjects:', error.message);
+      return [];
+    });
+    subjectSharing.schedulePublish(nodeOneCoreInstance);
+
     // Generate proposals using lazy-initialized engine
     const engine = getProposalEngine();
-    const proposals = await engine.getProposalsForTopic(topicId, subjectIdHashes, config);
+    const proposals = await engine.getProposalsForTopic(topicId, subjectIdHashes, config, undefined, peerSubjects);
 
-    // Rank proposals
-    const rankedProposals = proposalRanker.rankProposals(proposals, config);
+    // Rescore with the weights learned from the user's feedback, then rank
+    const feedback = await proposalFeedbackLog.getModel(config.userEmail);
+    const rescored = proposalRanker.applyFeedback(proposals, config, feedback);
+    const rankedProposals = proposalRanker.rankProposals(rescored, config);
 
     // Filter against dismissed proposals
     const filtered = rankedProposals.filter(
       (p) => !dismissedProposals.has(`${topicId}:${p.pastSubject}`)
     );
 
+    // Proposals left unanswered from earlier rankings count as ignored
+    await proposalFeedbackLog.recordShown(config.userEmail, topicId, filtered);
+
     // Cache results
     proposalCache.set(topicId, subjectIdHashes, filtered);
 
@@ -275,6 +306,10 @@ async function dismiss(
     const dismissKey = `${topicId}:${pastSubjectIdHash}`;
     dismissedProposals.add(dismissKey);
 
+    // Learn from it - rankings change for every topic
+    await proposalFeedbackLog.record(getUserEmail(), topicId, pastSubjectIdHash, 'dismissed');
+    proposalCache.clear();
+
     // Query remaining non-dismissed proposals
     // For now, return 0 (will be updated when getForTopic is called again)
     const remainingCount = 0;
@@ -290,7 +325,124 @@ async function dismiss(
 }
 
 /**
- * Share a proposal into the current conversation
+ * Name, keyword terms and source of a past subject - ours or a contact's
+ */
+async function loadPastSubject(pastSubjectIdHash: SHA256IdHash<any>): Promise<{
+  subjectName: string;
+  keywords: string[];
+  topic: string;
+  sharedByContact: boolean;
+}> {
+  const result = await getObjectByIdHash(pastSubjectIdHash);
+  if (!result || !result.obj) {
+    throw new Error('SUBJECT_NOT_FOUND: Past subject no longer exists');
+  }
+
+  const pastSubject = result.obj as any;
+
+  // A contact's subject carries its terms - their Keyword objects are not ours
+  if (pastSubject.$type$ === 'SharedSubject') {
+    return {
+      subjectName: pastSubject.name,
+      keywords: pastSubject.keywordTerms,
+      topic: pastSubject.topic,
+      sharedByContact: true,
+    };
+  }
+
+  // Retrieve keyword terms from ONE.core
+  const keywords: string[] = [];
+  for (const keywordIdHash of pastSubject.keywords || []) {
+    try {
+      const keywordResult = await getObjectByIdHash(keywordIdHash);
+      if (keywordResult && keywordResult.obj) {
+        const keyword = keywordResult.obj as any;
+        if (keyword.term) {
+          keywords.push(keyword.term);
+        }
+      }
+    } catch (error) {
+      console.error(
+        `[ProposalHandlers] Error fetching keyword ${keywordIdHash}:`,
+        error
+      );
+    }
+  }
+
+  return {
+    subjectName: pastSubject.id || pastSubject.description || 'Unknown Subject',
+    keywords,
+    topic: pastSubject.topic,
+    sharedByContact: false,
+  };
+}
+
+/**
+ * Best-matching messages and summary part of a past subject's source topic.
+ * Excerpts are snippets around the match for the preview, whole messages to share.
+ */
+async function buildPreview(
+  pastSubjectIdHash: SHA256IdHash<any>,
+  limit: number,
+  wholeMessages = false
+): Promise<ProposalPreview & { subjectName: string; keywords: string[] }> {
+  const pastSubject = await loadPastSubject(pastSubjectIdHash);
+  const { subjectName, keywords } = pastSubject;
+
+  // The messages of a contact's conversation are not ours to read
+  if (pastSubject.sharedByContact) {
+    return { subjectName, keywords, excerpts: [], summaryFragment: null, available: false };
+  }
+
+  const ranked = rankExcerpts(messageSearchService.topicDocuments(pastSubject.topic), keywords, limit);
+  const terms = keywords.flatMap((keyword) => tokenize(keyword));
+  const excerpts: ProposalExcerpt[] = [];
+  for (const excerpt of ranked) {
+    const document = messageSearchService.index.get(excerpt.messageId);
+    const text = wholeMessages
+      ? sharedExcerptText((await messageSearchService.getMessage(excerpt.messageId))?.text || '')
+      : await messageSearchService.snippet(excerpt.messageId, terms);
+    if (!document || !text) continue;
+    excerpts.push({
+      messageId: excerpt.messageId,
+      text,
+      sender: document.sender,
+      isAI: document.isAI,
+      timestamp: document.timestamp,
+      matchedKeywords: excerpt.matchedKeywords,
+    });
+  }
+
+  let fragment: string | null = null;
+  try {
+    const summary = await nodeOneCoreInstance.topicAnalysisModel?.getCurrentSummary(pastSubject.topic);
+    fragment = summary?.content ? summaryFragment(summary.content, keywords) : null;
+  } catch (error) {
+    // No summary yet
+  }
+
+  return { subjectName, keywords, excerpts, summaryFragment: fragment, available: true };
+}
+
+/**
+ * Excerpts and summary fragment of a proposal's source, loaded when the card is expanded
+ * Handler: proposals:getPreview
+ */
+async function getPreview(
+  event: IpcMainInvokeEvent,
+  { pastSubjectIdHash, limit = 5 }: { pastSubjectIdHash: SHA256IdHash<any>; limit?: number }
+): Promise<ProposalPreview> {
+  const { excerpts, summaryFragment: fragment, available } = await buildPreview(
+    pastSubjectIdHash,
+    Math.min(Math.max(limit, 1), 20)
+  );
+  return { excerpts, summaryFragment: fragment, available };
+}
+
+/**
+ * Share a proposal into the current conversation, or into the AI's prompt for it.
+ * Only the chosen excerpts, and the summary fragment if asked for, are included.
+ * A contact's subject has no content here until proposals:requestSourceAccess is granted.
  * Handler: proposals:share
  */
 async function share(
@@ -299,87 +451,176 @@ async function share(
     proposalId,
     topicId,
     pastSubjectIdHash,
-    includeMessages,
+    excerptIds = [],
+    includeSummary = false,
+    target = 'chat',
   }: {
     proposalId: string;
     topicId: string;
     pastSubjectIdHash: SHA256IdHash<any>;
-    includeMessages?: boolean;
+    excerptIds?: string[];
+    includeSummary?: boolean;
+    target?: 'chat' | 'prompt';
   }
 ): Promise<{
   success: boolean;
-  sharedContent: {
-    subjectName: string;
-    keywords: string[];
-    messages?: any[];
+  sharedContent: SharedProposalContent & {
+    target: 'chat' | 'prompt';
+    promptContext?: PromptContextItem;
   };
 }> {
   try {
-    // Retrieve past subject by ID hash
-    const result = await getObjectByIdHash(pastSubjectIdHash);
-    if (!result || !result.obj) {
-      throw new Error('SUBJECT_NOT_FOUND: Past subject no longer exists');
-    }
-
-    const pastSubject = result.obj;
-
-    // Get subject name and keywords
-    const subjectName = pastSubject.id || pastSubject.description || 'Unknown Subject';
-    const keywords: string[] = [];
-
-    // Retrieve keyword terms from ONE.core
-    for (const keywordIdHash of pastSubject.keywords || []) {
-      try {
-        const keywordResult = await getObjectByIdHash(keywordIdHash);
-        if (keywordResult && keywordResult.obj) {
-          const keyword = keywordResult.obj as any;
-          if (keyword.term) {
-            keywords.push(keyword.term);
-          }
-        }
-      } catch (error) {
-        console.error(
-          `[ProposalHandlers] Error fetching keyword ${keywordIdHash}:`,
-          error
-        );
+    let content: SharedProposalContent;
+    if (excerptIds.length > 0 || includeSummary) {
+      // Excerpts are read again here rather than taken from the renderer
+      const preview = await buildPreview(pastSubjectIdHash, MAX_SHARED_EXCERPTS, true);
+      if (!preview.available) {
+        throw new Error('SOURCE_NOT_AVAILABLE: Request access to the source conversation with proposals:requestSourceAccess first');
       }
+      content = {
+        subjectName: preview.subjectName,
+        keywords: preview.keywords,
+        excerpts: preview.excerpts.filter((excerpt) => excerptIds.includes(excerpt.messageId)),
+        ...(includeSummary && preview.summaryFragment && { summaryFragment: preview.summaryFragment }),
+      };
+    } else {
+      const { subjectName, keywords } = await loadPastSubject(pastSubjectIdHash);
+      content = { subjectName, keywords, excerpts: [] };
     }
 
-    // Optionally retrieve sample messages
-    const messages: any[] = [];
-    if (includeMessages) {
-      // TODO: Implement message retrieval from past topic
-      // For now, return empty array
-    }
+    const added = target === 'prompt'
+      ? promptContext.add(topicId, content.subjectName, formatPromptContext(content))
+      : undefined;
 
     // Mark proposal as dismissed
     const dismissKey = `${topicId}:${pastSubjectIdHash}`;
     dismissedProposals.add(dismissKey);
 
+    await proposalFeedbackLog.record(getUserEmail(), topicId, String(pastSubjectIdHash), 'accepted');
+    proposalCache.clear();
+
     return {
       success: true,
       sharedContent: {
-        subjectName,
-        keywords,
-        messages: includeMessages ? messages : undefined,
+        ...content,
+        target,
+        ...(added && { promptContext: added }),
       },
     };
   } catch (error: any) {
     console.error('[ProposalHandlers] Error in share:', error);
-    if (error.message.startsWith('SUBJECT_NOT_FOUND')) {
+    if (error.message.startsWith('SUBJECT_NOT_FOUND') || error.message.startsWith('SOURCE_NOT_AVAILABLE')) {
       throw error;
     }
     throw new Error(`SHARE_FAILED: ${error.message}`);
   }
 }
 
+/**
+ * Context the user added to a conversation's AI prompt
+ * Handler: proposals:getPromptContext
+ */
+async function getPromptContext(
+  event: IpcMainInvokeEvent,
+  { topicId }: { topicId: string }
+): Promise<{ items: PromptContextItem[] }> {
+  return { items: promptContext.list(topicId) };
+}
+
+/**
+ * Stop sending an item of prompt context
+ * Handler: proposals:removePromptContext
+ */
+async function removePromptContext(
+  event: IpcMainInvokeEvent,
+  { topicId, id }: { topicId: string; id: string }
+): Promise<{ success: boolean }> {
+  return { success: promptContext.remove(topicId, id) };
+}
+
+/**
+ * Learned ranking weights and feedback counts, for the debug view
+ * Handler: proposals:getFeedbackStats
+ */
+async function getFeedbackStats(
+  event: IpcMainInvokeEvent
+): Promise<{
+  weights: LearnedWeights;
+  configured: { matchWeight: number; recencyWeight: number };
+  counts: { accepted: number; dismissed: number; ignored: number };
+  eventCount: number;
+}> {
+  const config = await getCurrentConfig();
+  const events = await proposalFeedbackLog.getEvents(config.userEmail);
+  const feedback = await proposalFeedbackLog.getModel(config.userEmail);
+
+  const counts = { accepted: 0, dismissed: 0, ignored: 0 };
+  for (const feedbackEvent of events) {
+    counts[feedbackEvent.action]++;
+  }
+
+  return {
+    weights: feedback.weights({ matchWeight: config.matchWeight, recencyWeight: config.recencyWeight }),
+    configured: { matchWeight: config.matchWeight, recencyWeight: config.recencyWeight },
+    counts,
+    eventCount: events.length,
+  };
+}
+
+/**
+ * Ask the contact who shared a proposal's subject for its source conversation
+ * Handler: proposals:requestSourceAccess
+ */
+async function requestSourceAccess(
+  event: IpcMainInvokeEvent,
+  { pastSubjectIdHash }: { pastSubjectIdHash: string }
+): Promise<{ success: boolean; requestedAt: number }> {
+  if (!pastSubjectIdHash) {
+    throw new Error('SUBJECT_NOT_FOUND: pastSubjectIdHash is required');
+  }
+
+  const request = await subjectSharing.requestAccess(nodeOneCoreInstance, pastSubjectIdHash);
+  proposalCache.clear();
+
+  return { success: true, requestedAt: request.requestedAt };
+}
+
+/**
+ * Requests from contacts for the conversations behind subjects we shared
+ * Handler: proposals:getAccessRequests
+ */
+async function getAccessRequests(
+  event: IpcMainInvokeEvent
+): Promise<{ requests: IncomingAccessRequest[] }> {
+  return { requests: await subjectSharing.getAccessRequests(nodeOneCoreInstance) };
+}
+
+/**
+ * Grant or decline a contact's request for a source conversation
+ * Handler: proposals:answerAccessRequest
+ */
+async function answerAccessRequest(
+  event: IpcMainInvokeEvent,
+  params: { requester: string; topic: string; subject: string; grant: boolean }
+): Promise<{ success: boolean; decision: SubjectAccessDecision }> {
+  const decision = await subjectSharing.answerAccessRequest(nodeOneCoreInstance, params);
+  return { success: true, decision };
+}
+
+/**
+ * Helper: Email the user's proposal config and feedback are stored under
+ */
+function getUserEmail(): string {
+  return nodeOneCoreInstance.email || 'user@example.com';
+}
+
 /**
  * Helper: Get current user config or return defaults
  */
 async function getCurrentConfig(): Promise<ProposalConfig> {
   try {
     // Get current user email from nodeOneCore
-    const userEmail = nodeOneCoreInstance.email || 'user@example.com';
+    const userEmail = getUserEmail();
 
     // Calculate ID hash for ProposalConfig
     const configIdObj = {
@@ -403,7 +644,7 @@ async function getCurrentConfig(): Promise<ProposalConfig> {
     // Return defaults on error
     return {
       ...DEFAULT_CONFIG,
-      userEmail: nodeOneCoreInstance.email || 'user@example.com',
+      userEmail: getUserEmail(),
     };
   }
 }
@@ -417,4 +658,11 @@ export const proposalHandlers = {
   'proposals:getConfig': getConfig,
   'proposals:dismiss': dismiss,
   'proposals:share': share,
+  'proposals:getPreview': getPreview,
+  'proposals:getPromptContext': getPromptContext,
+  'proposals:removePromptContext': removePromptContext,
+  'proposals:getFeedbackStats': getFeedbackStats,
+  'proposals:requestSourceAccess': requestSourceAccess,
+  'proposals:getAccessRequests': getAccessRequests,
+  'proposals:answerAccessRequest': answerAccessRequest,
 };
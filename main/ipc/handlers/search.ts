@@ -0,0 +1,44 @@
+/**
+ * Message Search IPC Handlers
+ *
+ * Full-text search over the messages of all topics, filtered by topic,
+ * sender, date range, attachments and AI vs. human authors.
+ */
+
+import messageSearchService, { type MessageSearchQuery } from '../../services/message-search.js';
+import type { IpcMainInvokeEvent } from 'electron';
+
+interface IpcResponse<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const searchHandlers = {
+  async query(event: IpcMainInvokeEvent, query: MessageSearchQuery): Promise<IpcResponse> {
+    try {
+      return { success: true, data: { results: await messageSearchService.search(query || { query: '' }) } };
+    } catch (error) {
+      console.error('[SearchHandler] Error searching messages:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
+  async getStatus(event: IpcMainInvokeEvent): Promise<IpcResponse> {
+    return { success: true, data: messageSearchService.getStatus() };
+  },
+
+  /**
+   * Index messages of all topics that the listeners have not seen yet
+   */
+  async reindex(event: IpcMainInvokeEvent): Promise<IpcResponse> {
+    try {
+      return { success: true, data: { added: await messageSearchService.reindexAll() } };
+    } catch (error) {
+      console.error('[SearchHandler] Error reindexing:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+};
+
+export default searchHandlers;
@@ -0,0 +1,90 @@
+/**
+ * Tool Permission IPC Handlers
+ *
+ * Policy rules for AI tool execution, answers from the confirmation dialog
+ * and the audit log of executed tools.
+ */
+
+import toolPermissions, {
+  type ToolPermissionRule,
+  type ToolPermissionDecision
+} from '../../services/tool-permissions.js';
+import toolAuditLog from '../../services/tool-audit-log.js';
+import type { IpcMainInvokeEvent } from 'electron';
+
+interface SetRuleParams {
+  rule: Omit<ToolPermissionRule, 'created'>;
+}
+
+interface RemoveRuleParams {
+  rule: Pick<ToolPermissionRule, 'tool' | 'scope' | 'scopeId'>;
+}
+
+interface RespondParams {
+  requestId: string;
+  decision: ToolPermissionDecision;
+}
+
+interface AuditLogParams {
+  days?: number;
+  limit?: number;
+}
+
+interface IpcResponse<T = any> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+const toolPermissionHandlers = {
+  async getRules(event: IpcMainInvokeEvent): Promise<IpcResponse> {
+    try {
+      return { success: true, data: { rules: await toolPermissions.getRules() } };
+    } catch (error) {
+      console.error('[ToolPermissionHandler] Error getting rules:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
+  async setRule(event: IpcMainInvokeEvent, { rule }: SetRuleParams): Promise<IpcResponse> {
+    try {
+      if (!['allow', 'ask', 'deny'].includes(rule.policy)) {
+        throw new Error(`Unknown policy: ${rule.policy}`);
+      }
+      return { success: true, data: { rules: await toolPermissions.setRule(rule) } };
+    } catch (error) {
+      console.error('[ToolPermissionHandler] Error setting rule:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
+  async removeRule(event: IpcMainInvokeEvent, { rule }: RemoveRuleParams): Promise<IpcResponse> {
+    try {
+      return { success: true, data: { rules: await toolPermissions.removeRule(rule) } };
+    } catch (error) {
+      console.error('[ToolPermissionHandler] Error removing rule:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  },
+
+  /**
+   * Answer from the confirmation dialog shown for tools:permissionRequest
+   */
+  async respond(event: IpcMainInvokeEvent, { requestId, decision }: RespondParams): Promise<IpcResponse> {
+    const handled = toolPermissions.respond(requestId, decision);
+    return handled
+      ? { success: true }
+      : { success: false, error: 'Permission request already answered or expired' };
+  },
+
+  async getAuditLog(event: IpcMainInvokeEvent, { days, limit }: AuditLogParams = {}): Promise<IpcResponse> {
+    try {
+      return { success: true, data: { executions: await toolAuditLog.list(days, limit) } };
+    } catch (error) {
+      console.error('[ToolPermissionHandler] Error reading audit log:', error);
+      return { success: false, error: (error as Error).message };
+    }
+  }
+};
+
+export default toolPermissionHandlers;
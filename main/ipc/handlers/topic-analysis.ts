@@ -7,7 +7,18 @@ import type { ChannelManager } from '@refinio/one.models/lib/models/index.js';
 import nodeOneCoreInstance from '../../core/node-one-core.js';
 import TopicAnalysisModel from '../../core/one-ai/models/TopicAnalysisModel.js';
 import RealTimeKeywordExtractor from '../../core/one-ai/services/RealTimeKeywordExtractor.js';
+import { keywordTaxonomyManager } from '../../core/one-ai/storage/keyword-taxonomy-manager.js';
+import {
+  SUPPORTED_LANGUAGES,
+  languageName,
+  resolveSummaryLanguage,
+  type SummaryLanguageSetting
+} from '../../core/one-ai/services/LanguageDetector.js';
 import llmManager from '../../services/llm-manager.js';
+import subjectLifecycleService from '../../services/subject-lifecycle.js';
+import { diffWords } from '../../services/word-diff.js';
+import analysisQueue, { type ReportProgress } from '../../services/analysis-queue.js';
+import type { AnalysisJob } from '../../services/analysis-jobs.js';
 import type { IpcMainInvokeEvent } from 'electron';
 
 // Singleton instances
@@ -23,8 +34,13 @@ interface Message {
 
 interface AnalyzeParams {
   topicId: string;
-  messages?: Message[];
   forceReanalysis?: boolean;
+  subjectsOnly?: boolean;     // Skip the summary
+  wait?: boolean;             // Resolve with the result instead of the queued job
+}
+
+interface AnalysisJobParams {
+  jobId: string;
 }
 
 interface SubjectsParams {
@@ -38,6 +54,17 @@ interface SummaryParams {
   includeHistory?: boolean;
 }
 
+interface DiffSummariesParams {
+  topicId: string;
+  fromVersion: number;
+  toVersion?: number; // Defaults to the current version
+}
+
+interface RestoreSummaryParams {
+  topicId: string;
+  version: number;
+}
+
 interface RestartContextParams {
   topicId: string;
 }
@@ -55,11 +82,24 @@ interface ExtractKeywordsParams {
 }
 
 interface MergeSubjectsParams {
+  topicId: string;
+  subjectId1: string; // Kept
+  subjectId2: string; // Merged into subjectId1 and archived
+}
+
+interface MergeSuggestionParams {
   topicId: string;
   subjectId1: string;
   subjectId2: string;
 }
 
+interface SplitSubjectParams {
+  topicId: string;
+  subjectId: string;
+  keywords1: string[];
+  keywords2: string[];
+}
+
 interface RealtimeKeywordsParams {
   text: string;
   existingKeywords?: string[];
@@ -72,12 +112,33 @@ interface ConversationKeywordsParams {
   maxKeywords?: number;
 }
 
+interface SummaryLanguageParams {
+  language: SummaryLanguageSetting;
+}
+
 interface IpcResponse<T = any> {
   success: boolean;
   data?: T;
   error?: string;
 }
 
+/**
+ * Summary language from the AI settings; 'auto' follows the conversation
+ */
+async function getSummaryLanguageSetting(): Promise<SummaryLanguageSetting> {
+  try {
+    const settings: any = await nodeOneCoreInstance.aiAssistantModel?.aiSettingsManager?.getSettings();
+    return settings?.summaryLanguage || 'auto';
+  } catch (error) {
+    console.warn('[TopicAnalysis] Could not read summary language, using the conversation language:', (error as Error).message);
+    return 'auto';
+  }
+}
+
+async function summaryLanguageFor(conversationText: string): Promise<string> {
+  return languageName(resolveSummaryLanguage(await getSummaryLanguageSetting(), conversationText));
+}
+
 /**
  * Initialize model instance
  */
@@ -130,74 +191,82 @@ function getNodeOneCoreInstance(): any {
 }
 
 /**
- * Analyze messages to extract subjects and keywords using LLM
+ * Queue an analysis of a topic's messages (subjects, keywords and summary).
+ * Returns the queued job right away; progress arrives as 'topicAnalysis:jobProgress'.
  */
-export async function analyzeMessages(event: IpcMainInvokeEvent, { topicId, messages, forceReanalysis = false }: AnalyzeParams): Promise<IpcResponse> {
-  console.log('[TopicAnalysis] Analyzing messages for topic:', topicId);
+export async function analyzeMessages(event: IpcMainInvokeEvent, { topicId, subjectsOnly = false, wait = false }: AnalyzeParams): Promise<IpcResponse> {
+  console.log('[TopicAnalysis] Queueing analysis for topic:', topicId);
 
-  try {
-    const model: any = await initializeModel();
+  const job = analysisQueue.enqueue({ topicId, kind: subjectsOnly ? 'subjects' : 'analyze' });
+  if (!wait) {
+    return { success: true, data: { job } };
+  }
+  return jobResponse(await analysisQueue.waitFor(job.id), { subjects: [], keywords: [], summary: null });
+}
 
-    // If no messages provided, retrieve from conversation
-    if (!messages || messages.length === 0) {
-      // Check if topic exists first to avoid auto-creation
-      try {
-        const topicRoom: any = await nodeOneCoreInstance.topicModel.enterTopicRoom(topicId);
-        // Retrieve messages directly without auto-creating topic
-        const messagesIterable: any = await topicRoom.retrieveAllMessages();
-        messages = [];
-        for await (const msg of messagesIterable) {
-          messages.push(msg);
-        }
-        await topicRoom.leave();
-      } catch (error) {
-        console.log('[TopicAnalysis] Topic does not exist, skipping analysis:', topicId);
-        return {
-          success: true,
-          data: {
-            subjects: [],
-            keywords: [],
-            summary: null
-          }
-        };
-      }
-    }
+function jobResponse(job: AnalysisJob, emptyData: Record<string, any>): IpcResponse {
+  if (job.state === 'failed') {
+    return { success: false, error: job.error, data: { ...emptyData, job } };
+  }
+  return { success: true, data: { ...(job.result || emptyData), job: { ...job, result: undefined } } };
+}
 
-    if (messages.length === 0) {
-      return {
-        success: true,
-        data: {
-          subjects: [],
-          keywords: [],
-          summary: null
-        }
-      };
-    }
+/**
+ * Extract subjects and keywords of a topic with the LLM and, unless only subjects
+ * are wanted, write a first summary. Runs in the analysis queue; errors are thrown
+ * so the queue can retry.
+ */
+async function runAnalysis(topicId: string, includeSummary: boolean, reportProgress: ReportProgress): Promise<any> {
+  const empty = { subjects: [], keywords: [], summary: null };
+  const totalSteps = includeSummary ? 5 : 4;
 
-    // Get LLM manager singleton
-    const { default: llmManager } = await import('../../services/llm-manager.js');
-    if (!llmManager) {
-      throw new Error('LLM Manager not available');
-    }
+  reportProgress(1, totalSteps, 'Loading messages');
+  const model: any = await initializeModel();
 
-    // Get model ID from AI assistant model (source of truth)
-    let modelId: string | null = null;
-    if (nodeOneCoreInstance.aiAssistantModel) {
-      modelId = nodeOneCoreInstance.aiAssistantModel.getModelIdForTopic(topicId);
+  // Check if topic exists first to avoid auto-creation
+  const messages: Message[] = [];
+  try {
+    const topicRoom: any = await nodeOneCoreInstance.topicModel.enterTopicRoom(topicId);
+    // Retrieve messages directly without auto-creating topic
+    const messagesIterable: any = await topicRoom.retrieveAllMessages();
+    for await (const msg of messagesIterable) {
+      messages.push(msg);
     }
+    await topicRoom.leave();
+  } catch (error) {
+    console.log('[TopicAnalysis] Topic does not exist, skipping analysis:', topicId);
+    return empty;
+  }
 
-    if (!modelId) {
-      throw new Error('No AI model configured for this topic');
-    }
+  if (messages.length === 0) {
+    return empty;
+  }
 
-    // Prepare conversation context for analysis
-    const conversationText = messages
-      .map(msg => `${msg.sender || 'Unknown'}: ${msg.content || msg.text || ''}`)
-      .join('\n');
+  // Get LLM manager singleton
+  const { default: llmManager } = await import('../../services/llm-manager.js');
+  if (!llmManager) {
+    throw new Error('LLM Manager not available');
+  }
+
+  // Get model ID from AI assistant model (source of truth)
+  let modelId: string | null = null;
+  if (nodeOneCoreInstance.aiAssistantModel) {
+    modelId = nodeOneCoreInstance.aiAssistantModel.getModelIdForTopic(topicId);
+  }
+
+  if (!modelId) {
+    throw new Error('No AI model configured for this topic');
+  }
+
+  // Prepare conversation context for analysis
+  const conversationText = messages
+    .map(msg => `${msg.sender || 'Unknown'}: ${msg.content || msg.text || ''}`)
+    .join('\n');
 
-    // Extract keywords using LLM
-    console.log('[TopicAnalysis] Extracting keywords with LLM using model:', modelId);
-    const keywordPrompt = `Analyze this conversation and extract the most important keywords (single words or short phrases).
+  // Extract keywords using LLM
+  reportProgress(2, totalSteps, 'Extracting keywords');
+  console.log('[TopicAnalysis] Extracting keywords with LLM using model:', modelId);
+  const keywordPrompt = `Analyze this conversation and extract the most important keywords (single words or short phrases).
 Return ONLY a JSON array of keywords, no explanation.
 Focus on: main topics, technical terms, product names, important concepts.
 Limit to 15 most relevant keywords.
@@ -207,14 +276,15 @@ ${String(conversationText).substring(0, 3000)}
 
 Return format: ["keyword1", "keyword2", ...]`;
 
-    const keywordResponse: any = await llmManager.chat([{
-      role: 'user',
-      content: keywordPrompt
-    }], modelId); // Use determined model
+  const keywordResponse: any = await llmManager.chat([{
+    role: 'user',
+    content: keywordPrompt
+  }], modelId); // Use determined model
 
-    // Identify subjects using LLM (subjects contain keywords)
-    console.log('[TopicAnalysis] Identifying subjects with LLM...');
-    const subjectPrompt = `Analyze this conversation and identify the main subjects/themes being discussed.
+  // Identify subjects using LLM (subjects contain keywords)
+  reportProgress(3, totalSteps, 'Identifying subjects');
+  console.log('[TopicAnalysis] Identifying subjects with LLM...');
+  const subjectPrompt = `Analyze this conversation and identify the main subjects/themes being discussed.
 For each subject, provide:
 1. A list of 2-3 keywords that define it
 2. A brief description (one sentence)
@@ -225,56 +295,66 @@ Return ONLY a JSON array with this format:
 Conversation:
 ${String(conversationText).substring(0, 3000)}`;
 
-    const subjectResponse: any = await llmManager.chat([{
-      role: 'user',
-      content: subjectPrompt
-    }], modelId);
+  const subjectResponse: any = await llmManager.chat([{
+    role: 'user',
+    content: subjectPrompt
+  }], modelId);
 
-    let subjects: Array<{ keywords: string[]; description: string }> = [];
+  let subjects: Array<{ keywords: string[]; description: string }> = [];
+  try {
+    subjects = JSON.parse(subjectResponse);
+  } catch (e) {
+    console.warn('[TopicAnalysis] Failed to parse subject JSON, extracting keywords for fallback');
+    // Extract keywords for fallback
+    let fallbackKeywords: string[] = [];
     try {
-      subjects = JSON.parse(subjectResponse);
-    } catch (e) {
-      console.warn('[TopicAnalysis] Failed to parse subject JSON, extracting keywords for fallback');
-      // Extract keywords for fallback
-      let fallbackKeywords: string[] = [];
-      try {
-        fallbackKeywords = JSON.parse(keywordResponse);
-      } catch (e2) {
-        fallbackKeywords = String(keywordResponse).match(/"([^"]+)"/g)?.map(k => k.replace(/"/g, '')) || [];
-      }
-      subjects = [{
-        keywords: fallbackKeywords.slice(0, 3),
-        description: 'Main conversation topic'
-      }];
+      fallbackKeywords = JSON.parse(keywordResponse);
+    } catch (e2) {
+      fallbackKeywords = String(keywordResponse).match(/"([^"]+)"/g)?.map(k => k.replace(/"/g, '')) || [];
     }
+    subjects = [{
+      keywords: fallbackKeywords.slice(0, 3),
+      description: 'Main conversation topic'
+    }];
+  }
 
-    // Store subjects first, then create keywords with subject references
-    const subjectsToStore = [];
-    for (const subject of subjects.slice(0, 5)) {
-      const subjectId = subject.keywords.join('+');
-      const createdSubject = await model.createSubject(
-        topicId,
-        subject.keywords,
-        subjectId,
-        subject.description,
-        0.8
-      );
-      // Store the ID HASH, not the string ID
-      subjectsToStore.push({ idHash: createdSubject.idHash, keywords: subject.keywords });
-    }
+  // The user's synonyms and stop-words decide which keywords a subject gets
+  const taxonomy = keywordTaxonomyManager.active;
+  subjects = subjects
+    .map(subject => ({ ...subject, keywords: taxonomy.apply(subject.keywords || []) }))
+    .filter(subject => subject.keywords.length > 0);
+
+  // Store subjects first, then create keywords with subject references
+  reportProgress(4, totalSteps, 'Storing subjects');
+  const subjectsToStore = [];
+  for (const subject of subjects.slice(0, 5)) {
+    const subjectId = subject.keywords.join('+');
+    const createdSubject = await model.createSubject(
+      topicId,
+      subject.keywords,
+      subjectId,
+      subject.description,
+      0.8
+    );
+    // Store the ID HASH, not the string ID
+    subjectsToStore.push({ idHash: createdSubject.idHash, keywords: subject.keywords });
+  }
 
-    // Now create keywords with subject ID hashes
-    for (const subject of subjectsToStore) {
-      for (const keywordTerm of subject.keywords) {
-        await model.addKeywordToSubject(topicId, keywordTerm, subject.idHash);
-      }
+  // Now create keywords with subject ID hashes
+  for (const subject of subjectsToStore) {
+    for (const keywordTerm of subject.keywords) {
+      await model.addKeywordToSubject(topicId, keywordTerm, subject.idHash);
     }
+  }
 
+  let summary: any = null;
+  if (includeSummary) {
     // Generate summary using LLM
+    reportProgress(5, totalSteps, 'Writing summary');
     console.log('[TopicAnalysis] Generating summary with LLM...');
     const summaryPrompt = `Create a concise summary of this conversation.
 Include: main topics discussed, key decisions or conclusions, important points.
-Keep it under 150 words.
+Keep it under 150 words. Write it in ${await summaryLanguageFor(conversationText)}.
 
 Conversation:
 ${String(conversationText).substring(0, 3000)}`;
@@ -285,7 +365,7 @@ ${String(conversationText).substring(0, 3000)}`;
     }], modelId);
 
     // Create summary
-    const summary: any = await model.createSummary(
+    summary = await model.createSummary(
       topicId,
       1,
       summaryResponse,
@@ -293,38 +373,24 @@ ${String(conversationText).substring(0, 3000)}`;
       'AI-generated analysis',
       null
     );
-
-    // Get the created subjects for return
-    const createdSubjects: any = await model.getSubjects(topicId);
-    const createdKeywords: any = await model.getKeywords(topicId);
-
-    console.log('[TopicAnalysis] Analysis complete:', {
-      topicId,
-      subjectsCreated: createdSubjects.length,
-      keywordsCreated: createdKeywords.length,
-      summaryCreated: !!summary
-    });
-
-    return {
-      success: true,
-      data: {
-        subjects: createdSubjects,
-        keywords: createdKeywords.map((k: any) => k.term),
-        summary: summary
-      }
-    };
-  } catch (error) {
-    console.error('[TopicAnalysis] Error analyzing messages:', error);
-    return {
-      success: false,
-      error: (error as Error).message,
-      data: {
-        subjects: [],
-        keywords: [],
-        summary: null
-      }
-    };
   }
+
+  // Get the created subjects for return
+  const createdSubjects: any = await model.getSubjects(topicId);
+  const createdKeywords: any = await model.getKeywords(topicId);
+
+  console.log('[TopicAnalysis] Analysis complete:', {
+    topicId,
+    subjectsCreated: createdSubjects.length,
+    keywordsCreated: createdKeywords.length,
+    summaryCreated: !!summary
+  });
+
+  return {
+    subjects: createdSubjects,
+    keywords: createdKeywords.map((k: any) => k.term),
+    summary: summary
+  };
 }
 
 /**
@@ -450,7 +516,9 @@ export async function getSummary(event: IpcMainInvokeEvent, { topicId, version,
 
   try {
     const model: any = await initializeModel();
-    const current: any = await model.getCurrentSummary(topicId);
+    const current: any = version
+      ? await model.getSummaryVersion(topicId, version)
+      : await model.getCurrentSummary(topicId);
 
     console.log('[TopicAnalysis] Retrieved summary:', {
       topicId,
@@ -485,6 +553,74 @@ export async function getSummary(event: IpcMainInvokeEvent, { topicId, version,
   }
 }
 
+/**
+ * Word-level diff between two summary versions
+ */
+export async function diffSummaries(event: IpcMainInvokeEvent, { topicId, fromVersion, toVersion }: DiffSummariesParams): Promise<IpcResponse> {
+  console.log('[TopicAnalysis] Diffing summary versions:', topicId, fromVersion, toVersion ?? 'current');
+
+  try {
+    const model: any = await initializeModel();
+    const from: any = await model.getSummaryVersion(topicId, fromVersion);
+    const to: any = toVersion
+      ? await model.getSummaryVersion(topicId, toVersion)
+      : await model.getCurrentSummary(topicId);
+
+    if (!from || !to) {
+      throw new Error(`Summary version ${!from ? fromVersion : toVersion} not found`);
+    }
+
+    const describe = (summary: any) => ({
+      version: summary.version,
+      changeReason: summary.changeReason,
+      createdAt: summary.createdAt
+    });
+
+    return {
+      success: true,
+      data: {
+        from: describe(from),
+        to: describe(to),
+        ...diffWords(from.content || '', to.content || '')
+      }
+    };
+  } catch (error) {
+    console.error('[TopicAnalysis] Error diffing summaries:', error);
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+}
+
+/**
+ * Restore an older summary version as a new version
+ */
+export async function restoreSummary(event: IpcMainInvokeEvent, { topicId, version }: RestoreSummaryParams): Promise<IpcResponse> {
+  console.log('[TopicAnalysis] Restoring summary version:', topicId, version);
+
+  try {
+    const model: any = await initializeModel();
+    const summary: any = await model.restoreSummary(topicId, version);
+
+    return {
+      success: true,
+      data: {
+        summary
+      }
+    };
+  } catch (error) {
+    console.error('[TopicAnalysis] Error restoring summary:', error);
+    return {
+      success: false,
+      error: (error as Error).message,
+      data: {
+        summary: null
+      }
+    };
+  }
+}
+
 /**
  * Generate conversation restart context for LLM continuity
  */
@@ -559,86 +695,126 @@ export async function getConversationRestartContext(event: IpcMainInvokeEvent, {
 }
 
 /**
- * Update or create summary for a topic
+ * Update or create summary for a topic. Generated summaries go through the
+ * analysis queue; this call resolves once the job is done.
  */
 export async function updateSummary(event: IpcMainInvokeEvent, { topicId, content, changeReason, autoGenerate = false }: UpdateSummaryParams): Promise<IpcResponse> {
   console.log('[TopicAnalysis] Updating summary for topic:', topicId);
 
+  if (autoGenerate && !content) {
+    const job = analysisQueue.enqueue({ topicId, kind: 'summary', changeReason });
+    return jobResponse(await analysisQueue.waitFor(job.id), { summary: null });
+  }
+
   try {
-    const model: any = await initializeModel();
+    return {
+      success: true,
+      data: {
+        summary: await writeSummary(topicId, content || '', changeReason)
+      }
+    };
+  } catch (error) {
+    console.error('[TopicAnalysis] Error updating summary:', error);
+    return {
+      success: false,
+      error: (error as Error).message,
+      data: {
+        summary: null
+      }
+    };
+  }
+}
 
-    const currentSummary: any = await model.getCurrentSummary(topicId);
-    const newVersion = currentSummary ? currentSummary.version + 1 : 1;
+/**
+ * Store a new summary version; without content it is generated with the LLM
+ */
+async function writeSummary(topicId: string, content: string | undefined, changeReason?: string, reportProgress?: ReportProgress): Promise<any> {
+  const model: any = await initializeModel();
 
-    let summaryContent = content;
-    let modelId: string | null = null;
+  const currentSummary: any = await model.getCurrentSummary(topicId);
+  const newVersion = currentSummary ? currentSummary.version + 1 : 1;
+
+  let summaryContent = content;
+
+  // Use LLM to create a new summary
+  if (content === undefined) {
+    const { default: llmManager } = await import('../../services/llm-manager.js');
 
     // Get model ID from AI assistant model (source of truth)
-    if (nodeOneCoreInstance.aiAssistantModel) {
-      modelId = nodeOneCoreInstance.aiAssistantModel.getModelIdForTopic(topicId);
+    const modelId: string | null = nodeOneCoreInstance.aiAssistantModel?.getModelIdForTopic(topicId) || null;
+    if (!llmManager || !modelId) {
+      throw new Error('No AI model configured for this topic');
     }
 
-    // If autoGenerate is true, use LLM to create a new summary
-    if (autoGenerate && !content) {
-      const { default: llmManager } = await import('../../services/llm-manager.js');
-      if (llmManager && modelId) {
-        // Get recent messages for context
-        const chatHandlers: any = await import('./chat.js');
-        const messagesResponse: any = await chatHandlers.default.getMessages(event, {
-          conversationId: topicId,
-          limit: 50
-        });
-        const messages = messagesResponse.data || [];
+    // Get recent messages for context
+    reportProgress?.(1, 2, 'Loading messages');
+    const chatHandlers: any = await import('./chat.js');
+    const messagesResponse: any = await chatHandlers.default.getMessages(null, {
+      conversationId: topicId,
+      limit: 50
+    });
+    const messages = messagesResponse.data?.messages || [];
+    if (messages.length === 0) {
+      throw new Error('No messages to summarize');
+    }
 
-        if (messages.length > 0) {
-          const conversationText = messages
-            .map((msg: any) => `${msg.sender || 'Unknown'}: ${msg.content || msg.text || ''}`)
-            .join('\n');
+    const conversationText = messages
+      .map((msg: any) => `${msg.sender || 'Unknown'}: ${msg.content || msg.text || ''}`)
+      .join('\n');
 
-          const summaryPrompt = `Create an updated summary of this conversation.
+    const summaryPrompt = `Create an updated summary of this conversation.
 ${currentSummary ? `Previous summary: ${currentSummary.content}\n\n` : ''}
 Focus on: recent developments, new topics, changes in discussion.
-Keep it under 150 words.
+Keep it under 150 words. Write it in ${await summaryLanguageFor(conversationText)}.
 
 Recent conversation:
 ${String(conversationText).substring(0, 3000)}`;
 
-          const summaryResponse: any = await llmManager.chat([{
-            role: 'user',
-            content: summaryPrompt
-          }], modelId);
+    reportProgress?.(2, 2, 'Writing summary');
+    summaryContent = await llmManager.chat([{
+      role: 'user',
+      content: summaryPrompt
+    }], modelId) as string;
+    changeReason = changeReason || 'AI-generated update based on new messages';
+  }
 
-          summaryContent = summaryResponse;
-          changeReason = changeReason || 'AI-generated update based on new messages';
-        }
-      }
-    }
+  return model.createSummary(
+    topicId,
+    newVersion,
+    summaryContent || '',
+    [],
+    changeReason || 'Manual update',
+    currentSummary ? currentSummary.id : null
+  );
+}
 
-    const newSummary: any = await model.createSummary(
-      topicId,
-      newVersion,
-      summaryContent || content || '',
-      [],
-      changeReason || 'Manual update',
-      currentSummary ? currentSummary.id : null
-    );
+// The analysis queue runs these
+analysisQueue.registerRunner('analyze', (job, reportProgress) => runAnalysis(job.topicId, true, reportProgress));
+analysisQueue.registerRunner('subjects', (job, reportProgress) => runAnalysis(job.topicId, false, reportProgress));
+analysisQueue.registerRunner('summary', async (job, reportProgress) => ({
+  summary: await writeSummary(job.topicId, undefined, job.changeReason, reportProgress)
+}));
 
-    return {
-      success: true,
-      data: {
-        summary: newSummary
-      }
-    };
-  } catch (error) {
-    console.error('[TopicAnalysis] Error updating summary:', error);
-    return {
-      success: false,
-      error: (error as Error).message,
-      data: {
-        summary: null
-      }
-    };
+/**
+ * Queued, running and recently finished analysis jobs
+ */
+export async function getAnalysisJobs(event: IpcMainInvokeEvent, params: { topicId?: string } = {}): Promise<IpcResponse> {
+  return { success: true, data: { jobs: analysisQueue.getJobs(params?.topicId) } };
+}
+
+export async function retryAnalysisJob(event: IpcMainInvokeEvent, { jobId }: AnalysisJobParams): Promise<IpcResponse> {
+  const job = analysisQueue.retry(jobId);
+  if (!job) {
+    return { success: false, error: 'Job cannot be retried' };
+  }
+  return { success: true, data: { job } };
+}
+
+export async function cancelAnalysisJob(event: IpcMainInvokeEvent, { jobId }: AnalysisJobParams): Promise<IpcResponse> {
+  if (!analysisQueue.cancel(jobId)) {
+    return { success: false, error: 'Job is running or unknown' };
   }
+  return { success: true };
 }
 
 /**
@@ -740,31 +916,118 @@ Return format: ["keyword1", "keyword2", ...]`;
 
 /**
  * Merge two subjects into one
+ * subjectId2 is folded into subjectId1 and archived
  */
 export async function mergeSubjects(event: IpcMainInvokeEvent, { topicId, subjectId1, subjectId2 }: MergeSubjectsParams): Promise<IpcResponse> {
   console.log('[TopicAnalysis] Merging subjects:', subjectId1, subjectId2);
 
   try {
-    // This would need to be implemented in the model
-    // For now, return success
+    const model: any = await initializeModel();
+    const { mergedSubject, archivedSubject } = await model.mergeSubjects(topicId, subjectId1, subjectId2);
+    const [resolved] = await resolveSubjectKeywords(model, topicId, [mergedSubject]);
+
+    subjectLifecycleService.scheduleScan(topicId);
+
     return {
       success: true,
       data: {
-        merged: true
+        mergedSubject: resolved,
+        archivedSubjects: [archivedSubject.id]
       }
     };
   } catch (error) {
     console.error('[TopicAnalysis] Error merging subjects:', error);
     return {
       success: false,
-      error: (error as Error).message,
+      error: (error as Error).message
+    };
+  }
+}
+
+/**
+ * Split a subject into two by dividing its keywords
+ */
+export async function splitSubject(event: IpcMainInvokeEvent, { topicId, subjectId, keywords1, keywords2 }: SplitSubjectParams): Promise<IpcResponse> {
+  console.log('[TopicAnalysis] Splitting subject:', subjectId, keywords1, keywords2);
+
+  try {
+    const model: any = await initializeModel();
+    const { subjects, archivedSubject } = await model.splitSubject(topicId, subjectId, [keywords1, keywords2]);
+
+    subjectLifecycleService.scheduleScan(topicId);
+
+    return {
+      success: true,
       data: {
-        merged: false
+        subjects: await resolveSubjectKeywords(model, topicId, subjects),
+        archivedSubjects: [archivedSubject.id]
       }
     };
+  } catch (error) {
+    console.error('[TopicAnalysis] Error splitting subject:', error);
+    return {
+      success: false,
+      error: (error as Error).message
+    };
+  }
+}
+
+/**
+ * Get suggested merges of near-duplicate subjects
+ */
+export async function getMergeSuggestions(event: IpcMainInvokeEvent, { topicId }: { topicId: string }): Promise<IpcResponse> {
+  try {
+    const suggestions = await subjectLifecycleService.getSuggestions(topicId);
+    return {
+      success: true,
+      data: { suggestions }
+    };
+  } catch (error) {
+    console.error('[TopicAnalysis] Error getting merge suggestions:', error);
+    return {
+      success: false,
+      error: (error as Error).message,
+      data: { suggestions: [] }
+    };
+  }
+}
+
+/**
+ * Dismiss a merge suggestion so it is not offered again
+ */
+export async function dismissMergeSuggestion(event: IpcMainInvokeEvent, { topicId, subjectId1, subjectId2 }: MergeSuggestionParams): Promise<IpcResponse> {
+  try {
+    await subjectLifecycleService.dismiss(topicId, subjectId1, subjectId2);
+    return { success: true };
+  } catch (error) {
+    console.error('[TopicAnalysis] Error dismissing merge suggestion:', error);
+    return {
+      success: false,
+      error: (error as Error).message
+    };
   }
 }
 
+/**
+ * Replace the keyword ID hashes of subjects with their terms, as getSubjects does
+ */
+async function resolveSubjectKeywords(model: any, topicId: string, subjects: any[]): Promise<any[]> {
+  const { calculateIdHashOfObj } = await import('@refinio/one.core/lib/util/object.js');
+  const allKeywords: any = await model.getKeywords(topicId);
+
+  const keywordHashToTerm = new Map<string, string>();
+  for (const keyword of allKeywords) {
+    if (keyword.term) {
+      keywordHashToTerm.set(await calculateIdHashOfObj({ $type$: 'Keyword', term: keyword.term.toLowerCase().trim() } as any), keyword.term);
+    }
+  }
+
+  return subjects.map(subject => ({
+    ...subject,
+    keywords: (subject.keywords || []).map((hash: string) => keywordHashToTerm.get(hash) || hash)
+  }));
+}
+
 /**
  * Extract single-word keywords for real-time display using LLM
  * Returns array of single words only (no phrases)
@@ -836,7 +1099,7 @@ Example: ["pizza", "delivery", "restaurant", "italian"]`;
 
     // Merge with existing keywords intelligently
     const mergedSet = new Set([...keywords, ...existingKeywords]);
-    const finalKeywords = Array.from(mergedSet).slice(0, maxKeywords);
+    const finalKeywords = keywordTaxonomyManager.active.apply(Array.from(mergedSet), text).slice(0, maxKeywords);
 
     return {
       success: true,
@@ -976,8 +1239,8 @@ Example: ["blockchain", "ethereum", "smartcontract", "defi", "wallet"]`;
     // Ensure we have single words only, no phrases
     keywords = keywords
       .filter(k => typeof k === 'string' && !k.includes(' ') && k.length >= 4)
-      .map(k => k.toLowerCase())
-      .slice(0, maxKeywords);
+      .map(k => k.toLowerCase());
+    keywords = keywordTaxonomyManager.active.apply(keywords, conversationText).slice(0, maxKeywords);
 
     console.log('[TopicAnalysis] LLM extracted keywords:', keywords);
 
@@ -1046,16 +1309,61 @@ async function getKeywords(event: IpcMainInvokeEvent, params: { topicId: string;
   }
 }
 
+/**
+ * Get the summary language setting and the languages to choose from
+ */
+export async function getSummaryLanguage(event: IpcMainInvokeEvent): Promise<IpcResponse> {
+  return {
+    success: true,
+    data: {
+      language: await getSummaryLanguageSetting(),
+      languages: SUPPORTED_LANGUAGES
+    }
+  };
+}
+
+/**
+ * Write summaries in the conversation's language ('auto') or a fixed one
+ */
+export async function setSummaryLanguage(event: IpcMainInvokeEvent, { language }: SummaryLanguageParams): Promise<IpcResponse> {
+  try {
+    if (language !== 'auto' && !(language in SUPPORTED_LANGUAGES)) {
+      throw new Error(`Unsupported language: ${language}`);
+    }
+
+    const aiSettingsManager = nodeOneCoreInstance.aiAssistantModel?.aiSettingsManager;
+    if (!aiSettingsManager) {
+      throw new Error('AI settings not available');
+    }
+
+    await aiSettingsManager.updateSettings({ summaryLanguage: language });
+    return { success: true, data: { language } };
+  } catch (error) {
+    console.error('[TopicAnalysis] Error setting summary language:', error);
+    return { success: false, error: (error as Error).message };
+  }
+}
+
 // Export all handlers
 export default {
   analyzeMessages,
   getSubjects,
   getSummary,
   updateSummary,
+  diffSummaries,
+  restoreSummary,
   extractKeywords,
   mergeSubjects,
+  splitSubject,
+  getMergeSuggestions,
+  dismissMergeSuggestion,
   getConversationRestartContext,
   extractRealtimeKeywords,
   extractConversationKeywords,
-  getKeywords
+  getKeywords,
+  getSummaryLanguage,
+  setSummaryLanguage,
+  getAnalysisJobs,
+  retryAnalysisJob,
+  cancelAnalysisJob
 };
\ No newline at end of file
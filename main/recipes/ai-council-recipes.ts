@@ -0,0 +1,45 @@
+/**
+ * ONE.core Recipe for AICouncil objects
+ *
+ * Configuration of a topic where several AI participants answer in turn
+ * Versioned object with topicId as ID property
+ */
+export const AICouncilRecipe = {
+    $type$: 'Recipe',
+    name: 'AICouncil',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^AICouncil$/ }
+        },
+        {
+            itemprop: 'topicId',
+            itemtype: { type: 'string' },
+            isId: true // One council configuration per topic
+        },
+        {
+            itemprop: 'modelIds',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' } // Speaking order
+            }
+        },
+        {
+            itemprop: 'order',
+            itemtype: { type: 'string', regexp: /^(round-robin|all-at-once|moderator-picks)$/ }
+        },
+        {
+            itemprop: 'moderatorModelId',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'maxTurns',
+            itemtype: { type: 'integer' } // AI replies per human message
+        },
+        {
+            itemprop: 'updated',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
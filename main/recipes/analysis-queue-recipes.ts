@@ -0,0 +1,61 @@
+/**
+ * ONE.core Recipe for the background topic analysis queue
+ *
+ * Holds the analysis jobs that have not finished yet, so they resume after a
+ * restart. Progress and results are only kept in memory.
+ */
+export const AnalysisQueueRecipe = {
+    $type$: 'Recipe',
+    name: 'AnalysisQueue',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^AnalysisQueue$/ }
+        },
+        {
+            itemprop: 'name',
+            itemtype: { type: 'string' },
+            isId: true // Always 'analysis' - one queue per instance
+        },
+        {
+            itemprop: 'jobs',
+            itemtype: {
+                type: 'array',
+                item: {
+                    type: 'object',
+                    rules: [
+                        {
+                            itemprop: 'id',
+                            itemtype: { type: 'string' }
+                        },
+                        {
+                            itemprop: 'topicId',
+                            itemtype: { type: 'string' }
+                        },
+                        {
+                            itemprop: 'kind',
+                            itemtype: { type: 'string', regexp: /^(analyze|subjects|summary)$/ }
+                        },
+                        {
+                            itemprop: 'changeReason',
+                            itemtype: { type: 'string' },
+                            optional: true
+                        },
+                        {
+                            itemprop: 'attempts',
+                            itemtype: { type: 'integer' }
+                        },
+                        {
+                            itemprop: 'created',
+                            itemtype: { type: 'integer' }
+                        }
+                    ]
+                }
+            }
+        },
+        {
+            itemprop: 'updated',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
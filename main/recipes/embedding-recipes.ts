@@ -0,0 +1,123 @@
+/**
+ * ONE.core Recipes for the semantic embeddings index
+ *
+ * Embedding is versioned per key (subject:<topic>:<id>, keyword:<term>,
+ * message:<topic>:<hash>) and holds the vector of that item's text.
+ * EmbeddingIndex holds the embedding provider/model in use and the newest
+ * EmbeddingKeyBatch; each batch lists the keys first stored by one flush and
+ * links to the batch before it, so a flush stores only its own keys.
+ * Switching the model re-embeds items as they are seen again.
+ */
+export const EmbeddingRecipe = {
+    $type$: 'Recipe',
+    name: 'Embedding',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^Embedding$/ }
+        },
+        {
+            itemprop: 'key',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'kind',
+            itemtype: { type: 'string', regexp: /^(subject|keyword|message)$/ }
+        },
+        {
+            itemprop: 'ref',
+            itemtype: { type: 'string' } // Subject ID, keyword term or ChatMessage hash
+        },
+        {
+            itemprop: 'topicId',
+            itemtype: { type: 'string' },
+            optional: true // Keywords are shared across topics
+        },
+        {
+            itemprop: 'model',
+            itemtype: { type: 'string' } // provider:model that produced the vector
+        },
+        {
+            itemprop: 'textHash',
+            itemtype: { type: 'string' } // SHA-256 of the embedded text, to skip unchanged items
+        },
+        {
+            itemprop: 'vector',
+            itemtype: { type: 'string' } // Base64 Float32Array
+        },
+        {
+            itemprop: 'updated',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
+
+export const EmbeddingIndexRecipe = {
+    $type$: 'Recipe',
+    name: 'EmbeddingIndex',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^EmbeddingIndex$/ }
+        },
+        {
+            itemprop: 'name',
+            itemtype: { type: 'string' },
+            isId: true // Always 'embeddings' - one index per instance
+        },
+        {
+            itemprop: 'provider',
+            itemtype: { type: 'string', regexp: /^(auto|ollama|lmstudio|local)$/ }
+        },
+        {
+            itemprop: 'model',
+            itemtype: { type: 'string' },
+            optional: true // Provider default when empty
+        },
+        {
+            itemprop: 'keys',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' } // Embedding keys - only in indexes stored before key batches
+            },
+            optional: true
+        },
+        {
+            itemprop: 'head',
+            itemtype: { type: 'string' }, // Hash of the newest EmbeddingKeyBatch
+            optional: true
+        },
+        {
+            itemprop: 'updated',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
+
+export const EmbeddingKeyBatchRecipe = {
+    $type$: 'Recipe',
+    name: 'EmbeddingKeyBatch',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^EmbeddingKeyBatch$/ }
+        },
+        {
+            itemprop: 'keys',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' } // Embedding keys
+            }
+        },
+        {
+            itemprop: 'previous',
+            itemtype: { type: 'string' }, // Hash of the batch before, absent in the first
+            optional: true
+        },
+        {
+            itemprop: 'created',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
@@ -1,11 +1,14 @@
 /**
  * Feed-Forward Training Infrastructure Recipes for ONE.core
  * Defines object types for Supply/Demand knowledge sharing, trust scoring, and capability assemblies
+ *
+ * Supply and Demand are named FeedForwardSupply and FeedForwardDemand because
+ * one.models' experimental matching recipes already use the plain names.
  */
 
 const SupplyRecipe = {
     $type$: 'Recipe' as const,
-    name: 'Supply',
+    name: 'FeedForwardSupply',
     rule: [
         {
             itemprop: 'id',
@@ -40,8 +43,9 @@ const SupplyRecipe = {
             itemtype: { type: 'integer' }
         },
         {
+            // Free-form, stored as JSON
             itemprop: 'metadata',
-            itemtype: { type: 'object' },
+            itemtype: { type: 'stringifiable' },
             optional: true
         },
         {
@@ -53,7 +57,7 @@ const SupplyRecipe = {
 
 const DemandRecipe = {
     $type$: 'Recipe' as const,
-    name: 'Demand',
+    name: 'FeedForwardDemand',
     rule: [
         {
             itemprop: 'id',
@@ -76,8 +80,9 @@ const DemandRecipe = {
             itemtype: { type: 'string' }
         },
         {
+            // Free-form, stored as JSON
             itemprop: 'criteria',
-            itemtype: { type: 'object' },
+            itemtype: { type: 'stringifiable' },
             optional: true
         },
         {
@@ -113,6 +118,27 @@ const SupplyDemandMatchRecipe = {
             itemprop: 'supplyHash',
             itemtype: { type: 'string' }
         },
+        {
+            itemprop: 'demandId',
+            itemtype: { type: 'string' }
+        },
+        {
+            itemprop: 'supplyId',
+            itemtype: { type: 'string' }
+        },
+        {
+            itemprop: 'requesterId',
+            itemtype: { type: 'string' }
+        },
+        {
+            itemprop: 'supplierId',
+            itemtype: { type: 'string' }
+        },
+        {
+            // Our TrustScore for the supplier when the match was found
+            itemprop: 'trustScore',
+            itemtype: { type: 'number' }
+        },
         {
             itemprop: 'matchScore',
             itemtype: { type: 'number' }
@@ -135,6 +161,39 @@ const SupplyDemandMatchRecipe = {
     ]
 };
 
+/**
+ * One side's answer to a match - content is exchanged once both sides accepted
+ */
+const SupplyDemandMatchDecisionRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'SupplyDemandMatchDecision',
+    rule: [
+        {
+            itemprop: 'demandId',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'supplyId',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'personId',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'decision',
+            itemtype: { type: 'string', regexp: /^(accepted|rejected)$/ }
+        },
+        {
+            itemprop: 'decidedAt',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
+
 const TrustScoreRecipe = {
     $type$: 'Recipe' as const,
     name: 'TrustScore',
@@ -150,13 +209,58 @@ const TrustScoreRecipe = {
         },
         {
             itemprop: 'components',
-            itemtype: { type: 'object' }
+            itemtype: {
+                type: 'object',
+                rules: [
+                    {
+                        itemprop: 'identityVerification',
+                        itemtype: { type: 'number' }
+                    },
+                    {
+                        itemprop: 'historicalAccuracy',
+                        itemtype: { type: 'number' }
+                    },
+                    {
+                        itemprop: 'peerEndorsements',
+                        itemtype: { type: 'number' }
+                    },
+                    {
+                        itemprop: 'activityConsistency',
+                        itemtype: { type: 'number' }
+                    },
+                    {
+                        itemprop: 'accountAge',
+                        itemtype: { type: 'number' }
+                    }
+                ]
+            }
         },
         {
             itemprop: 'history',
             itemtype: {
                 type: 'array',
-                item: { type: 'object' }
+                item: {
+                    type: 'object',
+                    rules: [
+                        {
+                            itemprop: 'timestamp',
+                            itemtype: { type: 'integer' }
+                        },
+                        {
+                            itemprop: 'change',
+                            itemtype: { type: 'number' }
+                        },
+                        {
+                            itemprop: 'reason',
+                            itemtype: { type: 'string' }
+                        },
+                        {
+                            itemprop: 'evidence',
+                            itemtype: { type: 'stringifiable' },
+                            optional: true
+                        }
+                    ]
+                }
             }
         },
         {
@@ -186,7 +290,42 @@ const TrainingCorpusEntryRecipe = {
             itemprop: 'messages',
             itemtype: {
                 type: 'array',
-                item: { type: 'object' }
+                item: {
+                    type: 'object',
+                    rules: [
+                        {
+                            itemprop: 'id',
+                            itemtype: { type: 'string' }
+                        },
+                        {
+                            itemprop: 'authorId',
+                            itemtype: { type: 'string' }
+                        },
+                        {
+                            itemprop: 'isAI',
+                            itemtype: { type: 'boolean' }
+                        },
+                        {
+                            itemprop: 'content',
+                            itemtype: { type: 'string' }
+                        },
+                        {
+                            itemprop: 'keywords',
+                            itemtype: {
+                                type: 'array',
+                                item: { type: 'string' }
+                            }
+                        },
+                        {
+                            itemprop: 'timestamp',
+                            itemtype: { type: 'integer' }
+                        },
+                        {
+                            itemprop: 'trustScore',
+                            itemtype: { type: 'number' }
+                        }
+                    ]
+                }
             }
         },
         {
@@ -200,7 +339,23 @@ const TrainingCorpusEntryRecipe = {
             itemprop: 'participants',
             itemtype: {
                 type: 'array',
-                item: { type: 'object' }
+                item: {
+                    type: 'object',
+                    rules: [
+                        {
+                            itemprop: 'personId',
+                            itemtype: { type: 'string' }
+                        },
+                        {
+                            itemprop: 'isAI',
+                            itemtype: { type: 'boolean' }
+                        },
+                        {
+                            itemprop: 'trustScore',
+                            itemtype: { type: 'number' }
+                        }
+                    ]
+                }
             }
         },
         {
@@ -222,6 +377,35 @@ const TrainingCorpusEntryRecipe = {
     ]
 };
 
+/**
+ * Whether a conversation may go into the training corpus - private unless enabled
+ */
+const ConversationSharingRecipe = {
+    $type$: 'Recipe' as const,
+    name: 'ConversationSharing',
+    rule: [
+        {
+            itemprop: 'conversationId',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'enabled',
+            itemtype: { type: 'boolean' }
+        },
+        {
+            // Messages before this stay private - unset when sharing is retroactive
+            itemprop: 'sharedSince',
+            itemtype: { type: 'integer' },
+            optional: true
+        },
+        {
+            itemprop: 'updatedAt',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
+
 const AssemblyRecipe = {
     $type$: 'Recipe' as const,
     name: 'Assembly',
@@ -231,7 +415,7 @@ const AssemblyRecipe = {
             itemprop: 'supply',
             itemtype: {
                 type: 'referenceToId',
-                allowedTypes: new Set(['Supply'])
+                allowedTypes: new Set(['FeedForwardSupply'])
             },
             isId: true
         },
@@ -248,7 +432,7 @@ const AssemblyRecipe = {
             itemprop: 'demand',
             itemtype: {
                 type: 'referenceToId',
-                allowedTypes: new Set(['Demand'])
+                allowedTypes: new Set(['FeedForwardDemand'])
             }
         },
         {
@@ -262,8 +446,10 @@ const FeedForwardRecipes = [
     SupplyRecipe,
     DemandRecipe,
     SupplyDemandMatchRecipe,
+    SupplyDemandMatchDecisionRecipe,
     TrustScoreRecipe,
     TrainingCorpusEntryRecipe,
+    ConversationSharingRecipe,
     AssemblyRecipe
 ];
 
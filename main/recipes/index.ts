@@ -5,12 +5,27 @@
 
 import { addRecipeToRuntime } from '@refinio/one.core/lib/object-recipes.js'
 import { WordCloudSettingsRecipe } from '../core/one-ai/recipes/WordCloudSettingsRecipe.js'
+import { KeywordTaxonomyRecipe } from '../core/one-ai/recipes/KeywordTaxonomyRecipe.js'
 import { KeywordRecipe } from '../core/one-ai/recipes/KeywordRecipe.js'
 import { SubjectRecipe } from '../core/one-ai/recipes/SubjectRecipe.js'
 import { SummaryRecipe } from '../core/one-ai/recipes/SummaryRecipe.js'
 import { KeywordAccessStateRecipe } from '../core/one-ai/recipes/KeywordAccessState.js'
-import { ProposalConfigRecipe } from './proposal-recipes.js'
-// import { FeedForwardRecipes } from './feed-forward-recipes.js'
+import {
+    ProposalConfigRecipe,
+    ProposalFeedbackLogRecipe,
+    SharedSubjectRecipe,
+    SubjectAccessRequestRecipe,
+    SubjectAccessDecisionRecipe
+} from './proposal-recipes.js'
+import { MessageVersionRecipe, MessageVersionChainRecipe } from './message-version-recipes.js'
+import { AICouncilRecipe } from './ai-council-recipes.js'
+import { MCPServerRecipe, MCPServerRegistryRecipe } from './mcp-server-recipes.js'
+import { ToolPermissionsRecipe, ToolExecutionRecipe, ToolAuditLogRecipe } from './tool-permission-recipes.js'
+import { EmbeddingRecipe, EmbeddingIndexRecipe, EmbeddingKeyBatchRecipe } from './embedding-recipes.js'
+import { SearchDocumentRecipe, SearchIndexRecipe, SearchIndexBatchRecipe } from './search-recipes.js'
+import { SubjectMergeDecisionsRecipe } from './subject-lifecycle-recipes.js'
+import { AnalysisQueueRecipe } from './analysis-queue-recipes.js'
+import { FeedForwardRecipes } from './feed-forward-recipes.js'
 
 // LLM Recipe - represents an AI model/assistant
 import { LLMRecipe } from './LLM.js'
@@ -120,6 +135,13 @@ const GlobalLLMSettingsRecipe = {
             },
             optional: true
         },
+        {
+            itemprop: 'summaryLanguage',
+            itemtype: {
+                type: 'string'
+            },
+            optional: true
+        },
         {
             itemprop: 'enableMCP',
             itemtype: {
@@ -144,12 +166,33 @@ const LamaRecipes = [
     LLMSettingsRecipe,
     GlobalLLMSettingsRecipe,
     WordCloudSettingsRecipe,
+    KeywordTaxonomyRecipe,
     SubjectRecipe,
     KeywordRecipe,
     SummaryRecipe,
     KeywordAccessStateRecipe,
-    ProposalConfigRecipe
-    // ...FeedForwardRecipes
+    ProposalConfigRecipe,
+    ProposalFeedbackLogRecipe,
+    SharedSubjectRecipe,
+    SubjectAccessRequestRecipe,
+    SubjectAccessDecisionRecipe,
+    MessageVersionRecipe,
+    MessageVersionChainRecipe,
+    AICouncilRecipe,
+    MCPServerRecipe,
+    MCPServerRegistryRecipe,
+    ToolPermissionsRecipe,
+    ToolExecutionRecipe,
+    ToolAuditLogRecipe,
+    EmbeddingRecipe,
+    EmbeddingIndexRecipe,
+    EmbeddingKeyBatchRecipe,
+    SearchDocumentRecipe,
+    SearchIndexRecipe,
+    SearchIndexBatchRecipe,
+    SubjectMergeDecisionsRecipe,
+    AnalysisQueueRecipe,
+    ...FeedForwardRecipes
 ]
 
 export { LamaRecipes }
\ No newline at end of file
@@ -0,0 +1,87 @@
+/**
+ * ONE.core Recipes for the MCP server registry
+ *
+ * MCPServer is versioned per server name and holds how to launch a stdio MCP server.
+ * MCPServerRegistry lists the configured server names, so removing a server keeps
+ * its version history but drops it from the registry.
+ */
+export const MCPServerRecipe = {
+    $type$: 'Recipe',
+    name: 'MCPServer',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^MCPServer$/ }
+        },
+        {
+            itemprop: 'name',
+            itemtype: { type: 'string' },
+            isId: true // Prefix of the server's tool names (name:tool)
+        },
+        {
+            itemprop: 'command',
+            itemtype: { type: 'string' }
+        },
+        {
+            itemprop: 'args',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' }
+            }
+        },
+        {
+            itemprop: 'env',
+            itemtype: { type: 'stringifiable' }, // Extra environment variables, name to value
+            optional: true
+        },
+        {
+            itemprop: 'cwd',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'description',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'enabled',
+            itemtype: { type: 'boolean' }
+        },
+        {
+            itemprop: 'created',
+            itemtype: { type: 'integer' }
+        },
+        {
+            itemprop: 'modified',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
+
+export const MCPServerRegistryRecipe = {
+    $type$: 'Recipe',
+    name: 'MCPServerRegistry',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^MCPServerRegistry$/ }
+        },
+        {
+            itemprop: 'name',
+            itemtype: { type: 'string' },
+            isId: true // Always 'mcp-servers' - one registry per instance
+        },
+        {
+            itemprop: 'servers',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' } // MCPServer names in configuration order
+            }
+        },
+        {
+            itemprop: 'updated',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
@@ -0,0 +1,93 @@
+/**
+ * ONE.core Recipes for message versions
+ *
+ * MessageVersion is one immutable version of a chat message: an edit, a retraction
+ * or an alternative AI answer. MessageVersionChain is versioned per message ID and
+ * lists the version hashes in order, plus which one is currently displayed.
+ */
+export const MessageVersionRecipe = {
+    $type$: 'Recipe',
+    name: 'MessageVersion',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^MessageVersion$/ }
+        },
+        {
+            itemprop: 'messageId',
+            itemtype: { type: 'string' } // ID of the chat message this version belongs to
+        },
+        {
+            itemprop: 'version',
+            itemtype: { type: 'integer' }
+        },
+        {
+            itemprop: 'previousVersion',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'kind',
+            itemtype: { type: 'string', regexp: /^(original|edit|retraction|alternative)$/ }
+        },
+        {
+            itemprop: 'text',
+            itemtype: { type: 'string' }
+        },
+        {
+            itemprop: 'author',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'promptMessageId',
+            itemtype: { type: 'string' }, // User message an AI alternative answers
+            optional: true
+        },
+        {
+            itemprop: 'modelId',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'reason',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'created',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
+
+export const MessageVersionChainRecipe = {
+    $type$: 'Recipe',
+    name: 'MessageVersionChain',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^MessageVersionChain$/ }
+        },
+        {
+            itemprop: 'messageId',
+            itemtype: { type: 'string' },
+            isId: true // One chain per message
+        },
+        {
+            itemprop: 'versions',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' } // MessageVersion hashes, oldest first
+            }
+        },
+        {
+            itemprop: 'selectedVersion',
+            itemtype: { type: 'integer' } // Version number shown in the chat
+        },
+        {
+            itemprop: 'updated',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
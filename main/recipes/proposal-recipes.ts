@@ -48,3 +48,211 @@ export const ProposalConfigRecipe = {
         }
     ]
 };
+
+/**
+ * ONE.core Recipe for ProposalFeedbackLog objects
+ *
+ * What the user did with proposals, used to learn the ranking weights
+ * Versioned object with userEmail as ID property
+ */
+export const ProposalFeedbackLogRecipe = {
+    $type$: 'Recipe',
+    name: 'ProposalFeedbackLog',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^ProposalFeedbackLog$/ }
+        },
+        {
+            itemprop: 'userEmail',
+            itemtype: { type: 'string' },
+            isId: true // One log per user
+        },
+        {
+            itemprop: 'events',
+            itemtype: {
+                type: 'array',
+                item: {
+                    type: 'object',
+                    rules: [
+                        {
+                            itemprop: 'pastSubject',
+                            itemtype: { type: 'string' } // Subject ID hash
+                        },
+                        {
+                            itemprop: 'topicId',
+                            itemtype: { type: 'string' }
+                        },
+                        {
+                            itemprop: 'action',
+                            itemtype: { type: 'string', regexp: /^(accepted|dismissed|ignored)$/ }
+                        },
+                        {
+                            itemprop: 'match',
+                            itemtype: { type: 'number' }, // 0.0 to 1.0 when scored
+                            optional: true
+                        },
+                        {
+                            itemprop: 'recency',
+                            itemtype: { type: 'number' }, // 0.0 to 1.0 when scored
+                            optional: true
+                        },
+                        {
+                            itemprop: 'timestamp',
+                            itemtype: { type: 'integer' }
+                        }
+                    ]
+                }
+            }
+        },
+        {
+            itemprop: 'updated',
+            itemtype: { type: 'integer' } // Last update timestamp
+        }
+    ]
+};
+
+/**
+ * A subject shared with one contact, posted to the 'shared-subjects:<recipient>' channel
+ */
+export const SharedSubjectRecipe = {
+    $type$: 'Recipe',
+    name: 'SharedSubject',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^SharedSubject$/ }
+        },
+        {
+            itemprop: 'sharedBy',
+            itemtype: { type: 'string' }, // Person ID hash of the owner
+            isId: true
+        },
+        {
+            itemprop: 'sharedWith',
+            itemtype: { type: 'string' }, // Person ID hash of the recipient
+            isId: true
+        },
+        {
+            itemprop: 'topic',
+            itemtype: { type: 'string' }, // Source topic ID
+            isId: true
+        },
+        {
+            itemprop: 'subject',
+            itemtype: { type: 'string' }, // Subject ID (keyword combination)
+            isId: true
+        },
+        {
+            itemprop: 'name',
+            itemtype: { type: 'string' }
+        },
+        {
+            itemprop: 'keywords',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' } // Keyword ID hashes
+            }
+        },
+        {
+            itemprop: 'keywordTerms',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' }
+            }
+        },
+        {
+            itemprop: 'createdAt',
+            itemtype: { type: 'integer' }
+        },
+        {
+            itemprop: 'revoked',
+            itemtype: { type: 'boolean' }, // Set once the grant is withdrawn
+            optional: true
+        },
+        {
+            itemprop: 'updated',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
+
+/**
+ * A contact asking for the conversation behind a shared subject,
+ * posted to the 'subject-access-requests:<owner>' channel
+ */
+export const SubjectAccessRequestRecipe = {
+    $type$: 'Recipe',
+    name: 'SubjectAccessRequest',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^SubjectAccessRequest$/ }
+        },
+        {
+            itemprop: 'requester',
+            itemtype: { type: 'string' }, // Person ID hash
+            isId: true
+        },
+        {
+            itemprop: 'owner',
+            itemtype: { type: 'string' }, // Person ID hash
+            isId: true
+        },
+        {
+            itemprop: 'topic',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'subject',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'subjectName',
+            itemtype: { type: 'string' }
+        },
+        {
+            itemprop: 'requestedAt',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
+
+/**
+ * The owner's answer to a SubjectAccessRequest (local only)
+ */
+export const SubjectAccessDecisionRecipe = {
+    $type$: 'Recipe',
+    name: 'SubjectAccessDecision',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^SubjectAccessDecision$/ }
+        },
+        {
+            itemprop: 'requester',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'topic',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'subject',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'state',
+            itemtype: { type: 'string', regexp: /^(granted|declined)$/ }
+        },
+        {
+            itemprop: 'decidedAt',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
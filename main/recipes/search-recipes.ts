@@ -0,0 +1,115 @@
+/**
+ * ONE.core Recipes for the full-text message search index
+ *
+ * SearchDocument is versioned per message (the channel entry id the UI uses) and
+ * holds its tokenized terms plus the metadata the search filters need.
+ * SearchIndex points to the newest SearchIndexBatch; each batch lists the message
+ * ids first stored by one flush and links to the batch before it, so the index can
+ * be rebuilt on start while a flush stores only its own ids.
+ */
+export const SearchDocumentRecipe = {
+    $type$: 'Recipe',
+    name: 'SearchDocument',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^SearchDocument$/ }
+        },
+        {
+            itemprop: 'messageId',
+            itemtype: { type: 'string' },
+            isId: true
+        },
+        {
+            itemprop: 'messageHash',
+            itemtype: { type: 'string' } // ChatMessage hash, for snippets
+        },
+        {
+            itemprop: 'topicId',
+            itemtype: { type: 'string' }
+        },
+        {
+            itemprop: 'sender',
+            itemtype: { type: 'string' } // Person ID hash
+        },
+        {
+            itemprop: 'isAI',
+            itemtype: { type: 'boolean' }
+        },
+        {
+            itemprop: 'hasAttachment',
+            itemtype: { type: 'boolean' }
+        },
+        {
+            itemprop: 'timestamp',
+            itemtype: { type: 'integer' }
+        },
+        {
+            itemprop: 'terms',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' }
+            }
+        }
+    ]
+};
+
+export const SearchIndexRecipe = {
+    $type$: 'Recipe',
+    name: 'SearchIndex',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^SearchIndex$/ }
+        },
+        {
+            itemprop: 'name',
+            itemtype: { type: 'string' },
+            isId: true // Always 'messages' - one index per instance
+        },
+        {
+            itemprop: 'messageIds',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' } // Only in indexes stored before id batches
+            },
+            optional: true
+        },
+        {
+            itemprop: 'head',
+            itemtype: { type: 'string' }, // Hash of the newest SearchIndexBatch
+            optional: true
+        },
+        {
+            itemprop: 'updated',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
+
+export const SearchIndexBatchRecipe = {
+    $type$: 'Recipe',
+    name: 'SearchIndexBatch',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^SearchIndexBatch$/ }
+        },
+        {
+            itemprop: 'messageIds',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' }
+            }
+        },
+        {
+            itemprop: 'previous',
+            itemtype: { type: 'string' }, // Hash of the batch before, absent in the first
+            optional: true
+        },
+        {
+            itemprop: 'created',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
@@ -0,0 +1,32 @@
+/**
+ * ONE.core Recipe for subject merge decisions
+ *
+ * Remembers which suggested subject merges the user dismissed, so the
+ * background duplicate scan does not offer them again.
+ */
+export const SubjectMergeDecisionsRecipe = {
+    $type$: 'Recipe',
+    name: 'SubjectMergeDecisions',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^SubjectMergeDecisions$/ }
+        },
+        {
+            itemprop: 'name',
+            itemtype: { type: 'string' },
+            isId: true // Always 'subjects' - one list per instance
+        },
+        {
+            itemprop: 'dismissed',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' } // <topic id>:<subject pair key>
+            }
+        },
+        {
+            itemprop: 'updated',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
@@ -0,0 +1,131 @@
+/**
+ * ONE.core Recipes for AI tool permissions and the tool audit log
+ *
+ * ToolPermissions holds the per-tool policy rules (one versioned object per instance).
+ * ToolExecution records one tool run; ToolAuditLog lists the executions of one day.
+ */
+export const ToolPermissionsRecipe = {
+    $type$: 'Recipe',
+    name: 'ToolPermissions',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^ToolPermissions$/ }
+        },
+        {
+            itemprop: 'name',
+            itemtype: { type: 'string' },
+            isId: true // Always 'tool-permissions'
+        },
+        {
+            itemprop: 'rules',
+            itemtype: {
+                type: 'array',
+                item: {
+                    type: 'object',
+                    rules: [
+                        {
+                            itemprop: 'tool',
+                            itemtype: { type: 'string' } // MCP tool name (server:tool) or '*'
+                        },
+                        {
+                            itemprop: 'scope',
+                            itemtype: { type: 'string', regexp: /^(global|topic|model)$/ }
+                        },
+                        {
+                            itemprop: 'scopeId',
+                            itemtype: { type: 'string' }, // topicId or modelId
+                            optional: true
+                        },
+                        {
+                            itemprop: 'policy',
+                            itemtype: { type: 'string', regexp: /^(allow|ask|deny)$/ }
+                        },
+                        {
+                            itemprop: 'created',
+                            itemtype: { type: 'integer' }
+                        }
+                    ]
+                }
+            }
+        },
+        {
+            itemprop: 'updated',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
+
+export const ToolExecutionRecipe = {
+    $type$: 'Recipe',
+    name: 'ToolExecution',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^ToolExecution$/ }
+        },
+        {
+            itemprop: 'tool',
+            itemtype: { type: 'string' } // MCP tool name (server:tool)
+        },
+        {
+            itemprop: 'input',
+            itemtype: { type: 'string' } // JSON of the arguments
+        },
+        {
+            itemprop: 'output',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'outcome',
+            itemtype: { type: 'string', regexp: /^(success|error|denied)$/ }
+        },
+        {
+            itemprop: 'error',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'durationMs',
+            itemtype: { type: 'integer' }
+        },
+        {
+            itemprop: 'topicId',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'modelId',
+            itemtype: { type: 'string' },
+            optional: true
+        },
+        {
+            itemprop: 'started',
+            itemtype: { type: 'integer' }
+        }
+    ]
+};
+
+export const ToolAuditLogRecipe = {
+    $type$: 'Recipe',
+    name: 'ToolAuditLog',
+    rule: [
+        {
+            itemprop: '$type$',
+            itemtype: { type: 'string', regexp: /^ToolAuditLog$/ }
+        },
+        {
+            itemprop: 'day',
+            itemtype: { type: 'string' },
+            isId: true // YYYY-MM-DD
+        },
+        {
+            itemprop: 'executions',
+            itemtype: {
+                type: 'array',
+                item: { type: 'string' } // ToolExecution hashes, oldest first
+            }
+        }
+    ]
+};
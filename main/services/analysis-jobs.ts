@@ -0,0 +1,229 @@
+/**
+ * Analysis Jobs
+ * Ordering, de-duplication and retry bookkeeping for background topic analysis.
+ *
+ * One job per topic and kind waits at a time: queueing the same work again returns
+ * the waiting job. A full 'analyze' job covers 'subjects' and 'summary', so all
+ * waiting jobs of the topic are folded into one. Failed attempts that may succeed later (model not loaded,
+ * server not reachable) are retried with exponential backoff.
+ */
+
+export type AnalysisJobKind = 'analyze' | 'subjects' | 'summary'
+export type AnalysisJobState = 'pending' | 'running' | 'retrying' | 'done' | 'failed'
+
+export interface AnalysisJobProgress {
+  step: number
+  total: number
+  label: string
+}
+
+export interface AnalysisJob {
+  id: string
+  topicId: string
+  kind: AnalysisJobKind
+  changeReason?: string   // Summary jobs
+  state: AnalysisJobState
+  attempts: number
+  nextAttemptAt: number
+  created: number
+  updated: number
+  progress?: AnalysisJobProgress
+  error?: string
+  result?: any
+}
+
+export interface AnalysisJobRequest {
+  topicId: string
+  kind: AnalysisJobKind
+  changeReason?: string
+}
+
+export interface AnalysisJobEnqueued {
+  job: AnalysisJob
+  added: boolean
+  folded: string[]   // IDs of waiting jobs merged into job and dropped
+}
+
+// What survives a restart
+export type PersistedAnalysisJob = Pick<AnalysisJob, 'id' | 'topicId' | 'kind' | 'changeReason' | 'attempts' | 'created'>
+
+export const MAX_ATTEMPTS = 6
+export const BASE_RETRY_DELAY_MS = 5_000
+export const MAX_RETRY_DELAY_MS = 5 * 60_000
+// Finished jobs kept for the renderer
+const MAX_FINISHED = 50
+
+/**
+ * Delay before the next attempt after the given number of failed attempts
+ */
+export function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1), MAX_RETRY_DELAY_MS)
+}
+
+const isWaiting = (job: AnalysisJob) => job.state === 'pending' || job.state === 'retrying'
+const isFinished = (job: AnalysisJob) => job.state === 'done' || job.state === 'failed'
+
+export class AnalysisJobQueue {
+  private jobs: AnalysisJob[] = []
+  private counter = 0
+
+  constructor(private now: () => number = Date.now) {}
+
+  /**
+   * Queue work for a topic, or return the waiting job that already covers it
+   */
+  enqueue(request: AnalysisJobRequest): AnalysisJobEnqueued {
+    const waiting = this.jobs.filter(job => isWaiting(job) && job.topicId === request.topicId)
+
+    const covering = waiting.find(job => job.kind === request.kind || job.kind === 'analyze')
+    if (covering) {
+      if (request.changeReason) covering.changeReason = request.changeReason
+      covering.updated = this.now()
+      return { job: covering, added: false, folded: [] }
+    }
+
+    // A full analysis takes over all waiting partial work
+    if (request.kind === 'analyze' && waiting.length > 0) {
+      const [upgraded, ...merged] = waiting
+      upgraded.kind = 'analyze'
+      upgraded.nextAttemptAt = Math.min(...waiting.map(job => job.nextAttemptAt))
+      upgraded.updated = this.now()
+      this.jobs = this.jobs.filter(job => !merged.includes(job))
+      return { job: upgraded, added: false, folded: merged.map(job => job.id) }
+    }
+
+    const now = this.now()
+    const job: AnalysisJob = {
+      id: `${now.toString(36)}-${(this.counter++).toString(36)}`,
+      topicId: request.topicId,
+      kind: request.kind,
+      changeReason: request.changeReason,
+      state: 'pending',
+      attempts: 0,
+      nextAttemptAt: now,
+      created: now,
+      updated: now
+    }
+    this.jobs.push(job)
+    return { job, added: true, folded: [] }
+  }
+
+  /**
+   * Oldest job that is due, unless one is running already
+   */
+  next(): AnalysisJob | undefined {
+    if (this.jobs.some(job => job.state === 'running')) return undefined
+    const now = this.now()
+    return this.jobs.find(job => isWaiting(job) && job.nextAttemptAt <= now)
+  }
+
+  /**
+   * When the earliest retry is due, if any job is waiting for one
+   */
+  nextWakeUp(): number | undefined {
+    const times = this.jobs.filter(isWaiting).map(job => job.nextAttemptAt)
+    return times.length > 0 ? Math.min(...times) : undefined
+  }
+
+  start(job: AnalysisJob): void {
+    job.state = 'running'
+    job.attempts++
+    job.progress = undefined
+    job.updated = this.now()
+  }
+
+  setProgress(job: AnalysisJob, progress: AnalysisJobProgress): void {
+    job.progress = progress
+    job.updated = this.now()
+  }
+
+  complete(job: AnalysisJob, result?: any): void {
+    job.state = 'done'
+    job.result = result
+    job.error = undefined
+    job.updated = this.now()
+    this.pruneFinished()
+  }
+
+  /**
+   * Schedule another attempt, or give up when the error is permanent or
+   * the attempts are used up
+   */
+  fail(job: AnalysisJob, error: string, retryable: boolean): void {
+    job.error = error
+    job.updated = this.now()
+    if (retryable && job.attempts < MAX_ATTEMPTS) {
+      job.state = 'retrying'
+      job.nextAttemptAt = this.now() + retryDelay(job.attempts)
+    } else {
+      job.state = 'failed'
+      this.pruneFinished()
+    }
+  }
+
+  /**
+   * Run a failed or retrying job again right away
+   */
+  retry(jobId: string): AnalysisJob | undefined {
+    const job = this.get(jobId)
+    if (!job || (job.state !== 'failed' && job.state !== 'retrying')) return undefined
+
+    job.state = 'pending'
+    job.nextAttemptAt = this.now()
+    if (job.attempts >= MAX_ATTEMPTS) job.attempts = 0
+    job.updated = this.now()
+    return job
+  }
+
+  /**
+   * Drop a job that is not running
+   */
+  remove(jobId: string): boolean {
+    const index = this.jobs.findIndex(job => job.id === jobId && job.state !== 'running')
+    if (index === -1) return false
+    this.jobs.splice(index, 1)
+    return true
+  }
+
+  get(jobId: string): AnalysisJob | undefined {
+    return this.jobs.find(job => job.id === jobId)
+  }
+
+  list(topicId?: string): AnalysisJob[] {
+    return topicId ? this.jobs.filter(job => job.topicId === topicId) : [...this.jobs]
+  }
+
+  /**
+   * Unfinished jobs, including the running one, to be resumed after a restart
+   */
+  toPersisted(): PersistedAnalysisJob[] {
+    return this.jobs
+      .filter(job => !isFinished(job))
+      .map(({ id, topicId, kind, changeReason, attempts, created }) => ({ id, topicId, kind, changeReason, attempts, created }))
+  }
+
+  /**
+   * Queue jobs saved before a restart; they are due immediately
+   */
+  restore(persisted: PersistedAnalysisJob[]): void {
+    const now = this.now()
+    for (const saved of persisted) {
+      if (this.get(saved.id)) continue
+      this.jobs.push({
+        ...saved,
+        state: 'pending',
+        nextAttemptAt: now,
+        updated: now
+      })
+    }
+    this.jobs.sort((a, b) => a.created - b.created)
+  }
+
+  private pruneFinished(): void {
+    const finished = this.jobs.filter(isFinished)
+    if (finished.length <= MAX_FINISHED) return
+
+    const drop = new Set(finished.slice(0, finished.length - MAX_FINISHED))
+    this.jobs = this.jobs.filter(job => !drop.has(job))
+  }
+}
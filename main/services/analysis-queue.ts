@@ -0,0 +1,254 @@
+/**
+ * Analysis Queue Service
+ * Runs topic analysis, subject extraction and summary updates in the background.
+ *
+ * Jobs run one at a time through runners registered by the topic analysis handlers.
+ * Unfinished jobs are stored as an AnalysisQueue object and resume after a restart.
+ * Every state change and progress step is sent to all windows as
+ * 'topicAnalysis:jobProgress'.
+ */
+
+import { BrowserWindow } from 'electron';
+import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js';
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+import {
+  AnalysisJobQueue,
+  type AnalysisJob,
+  type AnalysisJobKind,
+  type AnalysisJobRequest
+} from './analysis-jobs.js';
+
+export type ReportProgress = (step: number, total: number, label: string) => void;
+export type AnalysisRunner = (job: AnalysisJob, reportProgress: ReportProgress) => Promise<any>;
+
+const QUEUE_ID = 'analysis';
+
+// Failures that may go away on their own: LLM server unreachable, overloaded or slow, node not ready.
+// Anything else (no model configured, bad request) fails the job right away.
+const RETRYABLE_ERROR = /not initiali[sz]ed|ECONNREFUSED|ECONNRESET|ETIMEDOUT|fetch failed|socket hang up|timed? ?out|\b(429|500|502|503|504)\b/i;
+
+class AnalysisQueueService {
+  private queue: AnalysisJobQueue;
+  private runners: Map<AnalysisJobKind, AnalysisRunner>;
+  private waiters: Map<string, Array<(job: AnalysisJob) => void>>;
+  private processing: boolean;
+  private ready: boolean;
+  private wakeUpTimer: NodeJS.Timeout | null;
+
+  constructor() {
+    this.queue = new AnalysisJobQueue();
+    this.runners = new Map();
+    this.waiters = new Map();
+    this.processing = false;
+    this.ready = false;
+    this.wakeUpTimer = null;
+  }
+
+  /**
+   * Resume jobs stored before the last shutdown and start processing
+   */
+  async init(): Promise<void> {
+    try {
+      const idHash = await calculateIdHashOfObj({ $type$: 'AnalysisQueue', name: QUEUE_ID } as any);
+      const stored: any = await getObjectByIdHash(idHash);
+      const jobs = stored?.obj?.jobs || [];
+      this.queue.restore(jobs);
+      if (jobs.length > 0) {
+        console.log(`[AnalysisQueue] Resuming ${jobs.length} unfinished job(s)`);
+      }
+    } catch (error) {
+      // Nothing queued yet
+    }
+
+    this.ready = true;
+    this.process();
+  }
+
+  shutdown(): void {
+    this.ready = false;
+    if (this.wakeUpTimer) {
+      clearTimeout(this.wakeUpTimer);
+      this.wakeUpTimer = null;
+    }
+  }
+
+  registerRunner(kind: AnalysisJobKind, runner: AnalysisRunner): void {
+    this.runners.set(kind, runner);
+    this.process();
+  }
+
+  /**
+   * Queue work for a topic; returns the waiting job if the same work is queued already
+   */
+  enqueue(request: AnalysisJobRequest): AnalysisJob {
+    const { job, added, folded } = this.queue.enqueue(request);
+    if (added) {
+      console.log(`[AnalysisQueue] Queued ${job.kind} for topic ${job.topicId}`);
+    }
+    // Callers waiting for merged jobs get the result of the job that took them over
+    for (const foldedId of folded) {
+      const waiting = this.waiters.get(foldedId) || [];
+      this.waiters.delete(foldedId);
+      this.waiters.set(job.id, [...(this.waiters.get(job.id) || []), ...waiting]);
+    }
+    if (added || folded.length > 0) {
+      this.persist();
+    }
+    this.notify(job);
+    this.process();
+    return this.snapshot(job);
+  }
+
+  /**
+   * Resolves once the job is done or has failed for good
+   */
+  waitFor(jobId: string): Promise<AnalysisJob> {
+    const job = this.queue.get(jobId);
+    if (!job) {
+      return Promise.reject(new Error(`Unknown analysis job: ${jobId}`));
+    }
+    if (job.state === 'done' || job.state === 'failed') {
+      return Promise.resolve({ ...job });
+    }
+
+    return new Promise(resolve => {
+      const waiting = this.waiters.get(jobId) || [];
+      waiting.push(resolve);
+      this.waiters.set(jobId, waiting);
+    });
+  }
+
+  getJobs(topicId?: string): AnalysisJob[] {
+    return this.queue.list(topicId).map(job => this.snapshot(job));
+  }
+
+  retry(jobId: string): AnalysisJob | undefined {
+    const job = this.queue.retry(jobId);
+    if (!job) return undefined;
+
+    this.persist();
+    this.notify(job);
+    this.process();
+    return this.snapshot(job);
+  }
+
+  cancel(jobId: string): boolean {
+    const job = this.queue.get(jobId);
+    if (!job || !this.queue.remove(jobId)) return false;
+
+    job.state = 'failed';
+    job.error = 'Cancelled';
+    this.persist();
+    this.notify(job);
+    this.resolveWaiters(job);
+    return true;
+  }
+
+  private async process(): Promise<void> {
+    if (!this.ready || this.processing) return;
+    this.processing = true;
+
+    try {
+      let job: AnalysisJob | undefined;
+      while (this.ready && (job = this.queue.next())) {
+        const runner = this.runners.get(job.kind);
+        if (!runner) {
+          // Picked up again once the handlers register their runners
+          break;
+        }
+        await this.run(job, runner);
+      }
+    } finally {
+      this.processing = false;
+      this.scheduleWakeUp();
+    }
+  }
+
+  private async run(job: AnalysisJob, runner: AnalysisRunner): Promise<void> {
+    this.queue.start(job);
+    this.notify(job);
+    console.log(`[AnalysisQueue] Running ${job.kind} for topic ${job.topicId} (attempt ${job.attempts})`);
+
+    try {
+      const result = await runner(job, (step, total, label) => {
+        this.queue.setProgress(job, { step, total, label });
+        this.notify(job);
+      });
+      this.queue.complete(job, result);
+      console.log(`[AnalysisQueue] Finished ${job.kind} for topic ${job.topicId}`);
+    } catch (error) {
+      const message = (error as Error).message || String(error);
+      this.queue.fail(job, message, RETRYABLE_ERROR.test(message));
+      if (job.state === 'retrying') {
+        console.warn(`[AnalysisQueue] ${job.kind} for topic ${job.topicId} failed, retrying in ${Math.round((job.nextAttemptAt - Date.now()) / 1000)}s:`, message);
+      } else {
+        console.error(`[AnalysisQueue] ${job.kind} for topic ${job.topicId} failed:`, message);
+      }
+    }
+
+    await this.persist();
+    this.notify(job);
+    this.resolveWaiters(job);
+  }
+
+  private scheduleWakeUp(): void {
+    if (this.wakeUpTimer) {
+      clearTimeout(this.wakeUpTimer);
+      this.wakeUpTimer = null;
+    }
+
+    const wakeUp = this.queue.nextWakeUp();
+    if (!this.ready || wakeUp === undefined) return;
+
+    this.wakeUpTimer = setTimeout(() => {
+      this.wakeUpTimer = null;
+      this.process();
+    }, Math.max(0, wakeUp - Date.now()));
+  }
+
+  private resolveWaiters(job: AnalysisJob): void {
+    if (job.state !== 'done' && job.state !== 'failed') return;
+
+    const waiting = this.waiters.get(job.id) || [];
+    this.waiters.delete(job.id);
+    for (const resolve of waiting) {
+      resolve({ ...job });
+    }
+  }
+
+  private async persist(): Promise<void> {
+    try {
+      await storeVersionedObject({
+        $type$: 'AnalysisQueue',
+        name: QUEUE_ID,
+        jobs: this.queue.toPersisted().map(job => {
+          // Optional properties must be absent, not undefined
+          const { changeReason, ...rest } = job;
+          return changeReason ? { ...rest, changeReason } : rest;
+        }),
+        updated: Date.now()
+      } as any);
+    } catch (error) {
+      console.warn('[AnalysisQueue] Could not store queue:', (error as Error).message);
+    }
+  }
+
+  /**
+   * Job as sent to the renderer - results stay in the main process
+   */
+  private snapshot(job: AnalysisJob): AnalysisJob {
+    const { result, ...rest } = job;
+    return { ...rest };
+  }
+
+  private notify(job: AnalysisJob): void {
+    const payload = this.snapshot(job);
+    for (const window of BrowserWindow.getAllWindows()) {
+      window.webContents.send('topicAnalysis:jobProgress', payload);
+    }
+  }
+}
+
+// Export singleton instance
+const analysisQueue = new AnalysisQueueService();
+export default analysisQueue;
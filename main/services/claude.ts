@@ -4,6 +4,7 @@
  */
 
 import Anthropic from '@anthropic-ai/sdk'
+import type { ToolCall, ToolDefinition } from './tool-calls.js'
 
 export interface ClaudeConfig {
   apiKey: string
@@ -13,8 +14,58 @@ export interface ClaudeConfig {
 }
 
 export interface ChatMessage {
-  role: 'user' | 'assistant' | 'system'
+  role: 'user' | 'assistant' | 'system' | 'tool'
   content: string
+  toolCalls?: ToolCall[]   // Assistant turn that requested tools
+  toolCallId?: string      // Tool result: the call it answers
+}
+
+/**
+ * Convert chat messages to Anthropic format.
+ * Tool calls become tool_use blocks; consecutive tool results are sent together
+ * as tool_result blocks in one user message, as the API requires.
+ */
+function toAnthropicMessages(messages: ChatMessage[]): Anthropic.MessageParam[] {
+  const result: Anthropic.MessageParam[] = []
+
+  for (const m of messages) {
+    if (m.role === 'system') continue // System message is handled separately
+
+    if (m.role === 'tool') {
+      const block: Anthropic.ToolResultBlockParam = {
+        type: 'tool_result',
+        tool_use_id: m.toolCallId || '',
+        content: m.content
+      }
+      const previous = result[result.length - 1]
+      if (previous?.role === 'user' && Array.isArray(previous.content) &&
+          previous.content.every(b => b.type === 'tool_result')) {
+        previous.content.push(block)
+      } else {
+        result.push({ role: 'user', content: [block] })
+      }
+      continue
+    }
+
+    if (m.role === 'assistant' && m.toolCalls?.length) {
+      const content: Anthropic.ContentBlockParam[] = []
+      if (m.content) {
+        content.push({ type: 'text', text: m.content })
+      }
+      for (const call of m.toolCalls) {
+        content.push({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })
+      }
+      result.push({ role: 'assistant', content })
+      continue
+    }
+
+    result.push({
+      role: m.role as 'user' | 'assistant',
+      content: m.content
+    })
+  }
+
+  return result
 }
 
 class ClaudeService {
@@ -45,6 +96,9 @@ class ClaudeService {
 
   /**
    * Chat with Claude
+   *
+   * With options.tools the model may answer with tool calls instead of (or after) text.
+   * They are reported through options.onToolCalls; the caller executes them and continues.
    */
   async chat(
     modelId: string,
@@ -54,19 +108,24 @@ class ClaudeService {
       max_tokens?: number
       system?: string
       onStream?: (chunk: string) => void
+      onUsage?: (usage: { promptTokens?: number, completionTokens?: number }) => void
+      signal?: AbortSignal
+      tools?: ToolDefinition[]
+      onToolCalls?: (calls: ToolCall[]) => void
     }
   ): Promise<string> {
     if (!this.client) {
       throw new Error('Claude service not initialized')
     }
 
-    // Convert messages to Anthropic format
-    const anthropicMessages = messages
-      .filter(m => m.role !== 'system') // System message is handled separately
-      .map(m => ({
-        role: m.role as 'user' | 'assistant',
-        content: m.content
-      }))
+    const anthropicMessages = toAnthropicMessages(messages)
+    const tools = options?.tools?.length
+      ? options.tools.map(tool => ({
+          name: tool.name,
+          description: tool.description,
+          input_schema: tool.inputSchema
+        }))
+      : undefined
 
     // Extract system message if present
     const systemMessage = messages.find(m => m.role === 'system')?.content || options?.system
@@ -80,18 +139,43 @@ class ClaudeService {
           temperature: options?.temperature || 0.7,
           system: systemMessage,
           messages: anthropicMessages,
+          tools,
           stream: true
-        })
+        }, { signal: options.signal })
 
         let fullResponse = ''
+        let promptTokens: number | undefined
+        // Tool call arguments arrive as partial JSON per content block
+        const toolBlocks = new Map<number, { id: string, name: string, json: string }>()
         for await (const event of stream) {
-          if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
+          if (event.type === 'message_start') {
+            promptTokens = event.message.usage?.input_tokens
+          } else if (event.type === 'message_delta') {
+            options.onUsage?.({ promptTokens, completionTokens: event.usage?.output_tokens })
+          } else if (event.type === 'content_block_start' && event.content_block.type === 'tool_use') {
+            toolBlocks.set(event.index, { id: event.content_block.id, name: event.content_block.name, json: '' })
+          } else if (event.type === 'content_block_delta' && event.delta.type === 'input_json_delta') {
+            const block = toolBlocks.get(event.index)
+            if (block) block.json += event.delta.partial_json
+          } else if (event.type === 'content_block_delta' && event.delta.type === 'text_delta') {
             const chunk = event.delta.text
             fullResponse += chunk
             options.onStream(chunk)
           }
         }
 
+        if (toolBlocks.size > 0) {
+          options.onToolCalls?.(Array.from(toolBlocks.values()).map(block => {
+            try {
+              return { id: block.id, name: block.name, arguments: block.json ? JSON.parse(block.json) : {} }
+            } catch (error) {
+              // Truncated or malformed arguments go back to the model as a failed call
+              console.warn(`[ClaudeService] Invalid arguments for tool ${block.name}:`, (error as Error).message)
+              return { id: block.id, name: block.name, arguments: {}, error: `Invalid tool arguments: ${(error as Error).message}` }
+            }
+          }))
+        }
+
         return fullResponse
       } else {
         // Non-streaming response
@@ -100,7 +184,13 @@ class ClaudeService {
           max_tokens: options?.max_tokens || 4096,
           temperature: options?.temperature || 0.7,
           system: systemMessage,
-          messages: anthropicMessages
+          messages: anthropicMessages,
+          tools
+        }, { signal: options?.signal })
+
+        options?.onUsage?.({
+          promptTokens: response.usage?.input_tokens,
+          completionTokens: response.usage?.output_tokens
         })
 
         // Extract text from response
@@ -109,6 +199,16 @@ class ClaudeService {
           .map(block => (block as any).text)
           .join('\n')
 
+        const toolCalls = response.content
+          .filter(block => block.type === 'tool_use')
+          .map(block => {
+            const toolUse = block as Anthropic.ToolUseBlock
+            return { id: toolUse.id, name: toolUse.name, arguments: (toolUse.input || {}) as Record<string, any> }
+          })
+        if (toolCalls.length > 0) {
+          options?.onToolCalls?.(toolCalls)
+        }
+
         return textContent
       }
     } catch (error) {
@@ -138,6 +238,10 @@ export async function chatWithClaude(
     max_tokens?: number
     apiKey?: string
     onStream?: (chunk: string) => void
+    onUsage?: (usage: { promptTokens?: number, completionTokens?: number }) => void
+    signal?: AbortSignal
+    tools?: ToolDefinition[]
+    onToolCalls?: (calls: ToolCall[]) => void
   }
 ): Promise<string> {
   // Initialize with API key if provided
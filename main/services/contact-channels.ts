@@ -0,0 +1,45 @@
+/**
+ * Contact Channels
+ * Helpers for the services that exchange objects with contacts over channels
+ * we own (subject sharing, feed-forward): read access for a contact and the
+ * display names of our contacts.
+ */
+
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+
+/**
+ * Give a person read access to one of our channels
+ */
+export async function grantChannelAccess(channelId: string, owner: string, personId: string): Promise<void> {
+  const { createAccess } = await import('@refinio/one.core/lib/access.js');
+  const { SET_ACCESS_MODE } = await import('@refinio/one.core/lib/storage-base-common.js');
+  const channelIdHash = await calculateIdHashOfObj({ $type$: 'ChannelInfo', id: channelId, owner } as any);
+  await createAccess([{
+    id: channelIdHash,
+    person: [personId as any],
+    group: [],
+    mode: SET_ACCESS_MODE.ADD
+  }]);
+}
+
+/**
+ * Display names of our contacts by person ID
+ */
+export async function getContactNames(nodeOneCore: any): Promise<Map<string, string>> {
+  const names = new Map<string, string>();
+  if (!nodeOneCore.leuteModel) return names;
+
+  try {
+    for (const someone of await nodeOneCore.leuteModel.others()) {
+      const personId = await someone.mainIdentity();
+      const profile = await someone.mainProfile();
+      const nameDescription = profile?.personDescriptions?.find((d: any) => d.$type$ === 'PersonName');
+      if (personId && nameDescription?.name) {
+        names.set(String(personId), nameDescription.name);
+      }
+    }
+  } catch (error) {
+    console.warn('[ContactChannels] Could not load contact names:', (error as Error).message);
+  }
+  return names;
+}
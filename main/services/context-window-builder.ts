@@ -0,0 +1,73 @@
+/**
+ * Context Window Builder
+ * Packs system prompt, enrichment context and recent messages into a model's context length.
+ * Older messages slide out of the window and are replaced by a conversation summary.
+ */
+
+import tokenCounter from './token-counter.js'
+
+export interface ContextMessage {
+  role: 'system' | 'user' | 'assistant'
+  content: string
+}
+
+export interface ContextWindowOptions {
+  modelId: string
+  contextLength: number
+  reservedTokens: number        // Response budget plus anything added after building (tool descriptions)
+  systemParts: string[]         // Always included, in order (system prompt, enrichment context)
+  messages: ContextMessage[]    // Conversation, oldest first; the last one is the prompt being answered
+  summary?: string | null       // Stands in for the messages that no longer fit
+}
+
+export interface ContextWindow {
+  history: ContextMessage[]
+  totalTokens: number
+  budget: number
+  includedMessages: number
+  droppedMessages: number
+}
+
+/**
+ * Build the message list sent to the LLM.
+ * Recent messages are kept newest-first until the budget is used up; the newest message is
+ * always kept. The summary is only added when something was actually dropped.
+ */
+export function buildContextWindow(options: ContextWindowOptions): ContextWindow {
+  const { modelId, contextLength, reservedTokens, messages } = options
+  const budget = Math.max(0, contextLength - reservedTokens)
+
+  const systemMessages: ContextMessage[] = options.systemParts
+    .filter(part => part && part.trim())
+    .map(content => ({ role: 'system', content }))
+
+  const pack = (system: ContextMessage[]) => {
+    let used = tokenCounter.countMessages(system, modelId)
+    const kept: ContextMessage[] = []
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+      const cost = tokenCounter.countMessages([messages[i]], modelId)
+      if (kept.length > 0 && used + cost > budget) break
+      kept.unshift(messages[i])
+      used += cost
+    }
+
+    return { kept, used }
+  }
+
+  let system = systemMessages
+  let { kept, used } = pack(system)
+
+  if (kept.length < messages.length && options.summary) {
+    system = [...systemMessages, { role: 'system', content: options.summary }]
+    ;({ kept, used } = pack(system))
+  }
+
+  return {
+    history: [...system, ...kept],
+    totalTokens: used,
+    budget,
+    includedMessages: kept.length,
+    droppedMessages: messages.length - kept.length
+  }
+}
@@ -0,0 +1,597 @@
+/**
+ * Embedding Service
+ * Semantic vectors for subjects, keywords and messages, so that "car" finds "automobile".
+ *
+ * Vectors come from the Ollama embedding endpoint, LM Studio's OpenAI-compatible
+ * /v1/embeddings, or - when neither is reachable - a local CPU fallback that hashes
+ * words and character trigrams (lexical only, but always available).
+ *
+ * New ChatMessage, Subject and Keyword objects are picked up from channel updates,
+ * embedded in batches and persisted as Embedding objects; the in-memory VectorIndex
+ * is rebuilt from them on start. The keys of each batch are stored once, in an
+ * EmbeddingKeyBatch linked to the one before.
+ */
+
+import fetch from 'node-fetch';
+import { createHash } from 'crypto';
+import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js';
+import { storeUnversionedObject, getObject } from '@refinio/one.core/lib/storage-unversioned-objects.js';
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+import llmManager from './llm-manager.js';
+import { VectorIndex, cosineSimilarity, encodeVector, decodeVector } from './vector-index.js';
+
+export type EmbeddingProvider = 'auto' | 'ollama' | 'lmstudio' | 'local';
+export type EmbeddingKind = 'subject' | 'keyword' | 'message';
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProvider;
+  model?: string;
+}
+
+interface EmbeddingMeta {
+  kind: EmbeddingKind;
+  ref: string;
+  topicId?: string;
+  model: string;
+}
+
+interface PendingItem {
+  key: string;
+  kind: EmbeddingKind;
+  ref: string;
+  topicId?: string;
+  text: string;
+}
+
+export interface SemanticMatch {
+  key: string;
+  kind: EmbeddingKind;
+  ref: string;
+  topicId?: string;
+  text?: string;
+  score: number;
+}
+
+export interface SemanticSearchOptions {
+  kinds?: EmbeddingKind[];
+  topicId?: string;
+  excludeTopicId?: string;
+  limit?: number;
+  minScore?: number;
+}
+
+const INDEX_ID = 'embeddings';
+
+const DEFAULT_MODELS: Record<Exclude<EmbeddingProvider, 'auto'>, string> = {
+  ollama: 'nomic-embed-text',
+  lmstudio: 'text-embedding-nomic-embed-text-v1.5',
+  local: 'hashed-ngrams'
+};
+
+const LM_STUDIO_EMBEDDINGS_URL = 'http://localhost:1234/v1/embeddings';
+const LOCAL_DIMENSIONS = 256;
+
+// Longer texts are cut; embedding models have small input windows anyway
+const MAX_TEXT_LENGTH = 2000;
+const BATCH_SIZE = 16;
+// New items are collected for this long before a batch is embedded
+const FLUSH_DELAY_MS = 2000;
+// In 'auto' mode the local fallback is used this long before Ollama and LM Studio are tried again
+const REMOTE_RETRY_MS = 5 * 60 * 1000;
+
+class EmbeddingService {
+  public index: VectorIndex<EmbeddingMeta>;
+  public config: EmbeddingConfig;
+  public isLoaded: boolean;
+
+  private nodeOneCore: any;
+  private textHashes: Map<string, string>;
+  private storedKeys: Set<string>;
+  private head: string | null;
+  private pending: Map<string, PendingItem>;
+  private flushTimer: NodeJS.Timeout | null;
+  private queue: Promise<void>;
+  private active: { provider: Exclude<EmbeddingProvider, 'auto'>; model: string } | null;
+  private retryRemoteAt: number | null;
+  private unsubscribe: (() => void) | null;
+
+  constructor() {
+    this.index = new VectorIndex();
+    this.config = { provider: 'auto' };
+    this.isLoaded = false;
+    this.nodeOneCore = null;
+    this.textHashes = new Map();
+    this.storedKeys = new Set();
+    this.head = null;
+    this.pending = new Map();
+    this.flushTimer = null;
+    this.queue = Promise.resolve();
+    this.active = null;
+    this.retryRemoteAt = null;
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Load stored vectors and start indexing new channel objects
+   */
+  async init(nodeOneCore: any): Promise<void> {
+    this.nodeOneCore = nodeOneCore;
+    await this.load();
+
+    if (nodeOneCore.channelManager?.onUpdated && !this.unsubscribe) {
+      this.unsubscribe = nodeOneCore.channelManager.onUpdated(
+        (_channelInfoIdHash: any, channelId: string, _channelOwner: any, _time: any, data: any[]) => {
+          this.handleChannelEntries(channelId, data).catch(error => {
+            console.warn('[EmbeddingService] Failed to index channel update:', error.message);
+          });
+        }
+      );
+    }
+  }
+
+  shutdown(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    this.pending.clear();
+  }
+
+  async load(): Promise<void> {
+    const indexHash = await calculateIdHashOfObj({ $type$: 'EmbeddingIndex', name: INDEX_ID } as any);
+    let legacyKeys: string[] = [];
+    this.head = null;
+    try {
+      const stored: any = await getObjectByIdHash(indexHash);
+      if (stored?.obj) {
+        this.config = { provider: stored.obj.provider, model: stored.obj.model };
+        legacyKeys = stored.obj.keys || [];
+        this.head = stored.obj.head || null;
+      }
+    } catch (error) {
+      // Nothing stored yet
+    }
+
+    this.index.clear();
+    this.textHashes.clear();
+    this.storedKeys = new Set(legacyKeys);
+
+    let batchHash = this.head;
+    while (batchHash) {
+      try {
+        const batch: any = await getObject(batchHash as any);
+        for (const key of batch.keys || []) this.storedKeys.add(key);
+        batchHash = batch.previous || null;
+      } catch (error) {
+        console.warn(`[EmbeddingService] Could not load key batch ${batchHash}:`, (error as Error).message);
+        break;
+      }
+    }
+
+    // Indexes stored before key batches listed every key - move them into a batch once
+    if (legacyKeys.length > 0) {
+      await this.storeIndex(legacyKeys);
+    }
+
+    for (const key of this.storedKeys) {
+      try {
+        const idHash = await calculateIdHashOfObj({ $type$: 'Embedding', key } as any);
+        const stored: any = await getObjectByIdHash(idHash);
+        const embedding = stored?.obj;
+        if (embedding) {
+          this.index.add(key, decodeVector(embedding.vector), {
+            kind: embedding.kind,
+            ref: embedding.ref,
+            topicId: embedding.topicId,
+            model: embedding.model
+          });
+          this.textHashes.set(key, `${embedding.model}:${embedding.textHash}`);
+        }
+      } catch (error) {
+        console.warn(`[EmbeddingService] Could not load embedding ${key}:`, (error as Error).message);
+      }
+    }
+
+    this.isLoaded = true;
+    console.log(`[EmbeddingService] Loaded ${this.index.size} embeddings`);
+  }
+
+  getConfig(): EmbeddingConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Change provider or model. Items are re-embedded with the new model as they
+   * are seen again, or all at once through reindexAll().
+   */
+  async setConfig(config: EmbeddingConfig): Promise<EmbeddingConfig> {
+    if (!['auto', 'ollama', 'lmstudio', 'local'].includes(config.provider)) {
+      throw new Error(`Unknown embedding provider: ${config.provider}`);
+    }
+    this.config = { provider: config.provider };
+    if (config.model?.trim()) {
+      this.config.model = config.model.trim();
+    }
+    this.active = null;
+    this.retryRemoteAt = null;
+    await this.storeIndex();
+    console.log(`[EmbeddingService] Provider set to ${this.config.provider}${this.config.model ? ` (${this.config.model})` : ''}`);
+    return this.getConfig();
+  }
+
+  getStatus(): { config: EmbeddingConfig; activeModel: string | null; count: number; pending: number } {
+    return {
+      config: this.getConfig(),
+      activeModel: this.active ? `${this.active.provider}:${this.active.model}` : null,
+      count: this.index.size,
+      pending: this.pending.size
+    };
+  }
+
+  subjectKey(topicId: string, subjectId: string): string {
+    return `subject:${topicId}:${subjectId}`;
+  }
+
+  keywordKey(term: string): string {
+    return `keyword:${term.toLowerCase().trim()}`;
+  }
+
+  messageKey(topicId: string, messageHash: string): string {
+    return `message:${topicId}:${messageHash}`;
+  }
+
+  /**
+   * Queue the new objects of a channel update
+   */
+  async handleChannelEntries(topicId: string, entries: any[]): Promise<void> {
+    for (const entry of entries || []) {
+      if (!entry.isNew || !entry.dataHash) continue;
+
+      let obj: any;
+      try {
+        obj = await getObject(entry.dataHash);
+      } catch (error) {
+        continue;
+      }
+
+      switch (obj?.$type$) {
+        case 'ChatMessage':
+          if (obj.text?.trim()) {
+            this.enqueue({
+              key: this.messageKey(topicId, entry.dataHash),
+              kind: 'message',
+              ref: entry.dataHash,
+              topicId,
+              text: obj.text
+            });
+          }
+          break;
+        case 'Subject':
+          await this.enqueueSubject(obj);
+          break;
+        case 'Keyword':
+          this.enqueueKeyword(obj.term);
+          break;
+      }
+    }
+  }
+
+  async enqueueSubject(subject: any): Promise<void> {
+    const terms: string[] = [];
+    for (const keywordIdHash of subject.keywords || []) {
+      try {
+        const keyword: any = await getObjectByIdHash(keywordIdHash);
+        if (keyword?.obj?.term) terms.push(keyword.obj.term);
+      } catch (error) {
+        // Keyword not synced yet - the subject name carries most of the meaning
+      }
+    }
+
+    this.enqueue({
+      key: this.subjectKey(subject.topic, subject.id),
+      kind: 'subject',
+      ref: subject.id,
+      topicId: subject.topic,
+      text: [String(subject.id).replace(/[+_-]+/g, ' '), ...terms].join(', ')
+    });
+  }
+
+  enqueueKeyword(term: string): void {
+    if (!term?.trim()) return;
+    this.enqueue({ key: this.keywordKey(term), kind: 'keyword', ref: term.toLowerCase().trim(), text: term });
+  }
+
+  enqueue(item: PendingItem): void {
+    this.pending.set(item.key, { ...item, text: item.text.substring(0, MAX_TEXT_LENGTH) });
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.queue = this.queue.then(() => this.flush()).catch(error => {
+          console.warn('[EmbeddingService] Embedding batch failed:', error.message);
+        });
+      }, FLUSH_DELAY_MS);
+    }
+  }
+
+  /**
+   * Queue every message, subject and keyword of every topic
+   */
+  async reindexAll(): Promise<number> {
+    const topicModel = this.nodeOneCore?.topicModel;
+    const topicAnalysisModel = this.nodeOneCore?.topicAnalysisModel;
+    if (!topicModel) {
+      throw new Error('ONE.core not initialized');
+    }
+
+    const before = this.pending.size;
+    const topics = await topicModel.topics.all();
+    for (const topic of topics) {
+      try {
+        const topicRoom = await topicModel.enterTopicRoom(topic.id);
+        for (const message of await topicRoom.retrieveAllMessages()) {
+          if (message.data?.text?.trim()) {
+            this.enqueue({
+              key: this.messageKey(topic.id, message.dataHash),
+              kind: 'message',
+              ref: message.dataHash,
+              topicId: topic.id,
+              text: message.data.text
+            });
+          }
+        }
+
+        if (topicAnalysisModel) {
+          for (const subject of (await topicAnalysisModel.getSubjects(topic.id)) as any[]) {
+            await this.enqueueSubject(subject);
+          }
+          for (const keyword of (await topicAnalysisModel.getKeywords(topic.id)) as any[]) {
+            this.enqueueKeyword(keyword.term);
+          }
+        }
+      } catch (error) {
+        console.warn(`[EmbeddingService] Could not read topic ${topic.id}:`, (error as Error).message);
+      }
+    }
+
+    const queued = this.pending.size - before;
+    console.log(`[EmbeddingService] Queued ${queued} items for reindexing`);
+    return queued;
+  }
+
+  /**
+   * Embed and store the pending items whose text or model changed
+   */
+  private async flush(): Promise<void> {
+    const items = Array.from(this.pending.values());
+    this.pending.clear();
+    if (items.length === 0) return;
+
+    const { provider, model } = await this.resolveProvider();
+    const modelLabel = `${provider}:${model}`;
+
+    const changed = items
+      .map(item => ({ ...item, textHash: createHash('sha256').update(item.text).digest('hex') }))
+      .filter(item => this.textHashes.get(item.key) !== `${modelLabel}:${item.textHash}`);
+
+    const addedKeys: string[] = [];
+    for (let i = 0; i < changed.length; i += BATCH_SIZE) {
+      const batch = changed.slice(i, i + BATCH_SIZE);
+      let vectors: number[][];
+      try {
+        vectors = await this.embedWith(provider, model, batch.map(item => item.text));
+      } catch (error) {
+        // Provider went away - resolve again next time; reindexAll() catches up
+        this.active = null;
+        throw error;
+      }
+
+      for (let j = 0; j < batch.length; j++) {
+        const item = batch[j];
+        const vector = Float32Array.from(vectors[j]);
+        const embedding: any = {
+          $type$: 'Embedding',
+          key: item.key,
+          kind: item.kind,
+          ref: item.ref,
+          model: modelLabel,
+          textHash: item.textHash,
+          vector: encodeVector(vector),
+          updated: Date.now()
+        };
+        if (item.topicId) embedding.topicId = item.topicId;
+
+        await storeVersionedObject(embedding);
+        this.index.add(item.key, vector, { kind: item.kind, ref: item.ref, topicId: item.topicId, model: modelLabel });
+        this.textHashes.set(item.key, `${modelLabel}:${item.textHash}`);
+        if (!this.storedKeys.has(item.key)) {
+          this.storedKeys.add(item.key);
+          addedKeys.push(item.key);
+        }
+      }
+    }
+
+    if (addedKeys.length > 0) {
+      await this.storeIndex(addedKeys);
+    }
+    if (changed.length > 0) {
+      console.log(`[EmbeddingService] Embedded ${changed.length} items with ${modelLabel}`);
+    }
+  }
+
+  /**
+   * The configured provider, or for 'auto' the first one that answers.
+   * The local fallback of 'auto' is given up again after REMOTE_RETRY_MS.
+   */
+  private async resolveProvider(): Promise<{ provider: Exclude<EmbeddingProvider, 'auto'>; model: string }> {
+    if (this.active && !(this.retryRemoteAt && Date.now() >= this.retryRemoteAt)) return this.active;
+    const fromFallback = this.retryRemoteAt !== null;
+    this.retryRemoteAt = null;
+
+    if (this.config.provider !== 'auto') {
+      this.active = { provider: this.config.provider, model: this.config.model || DEFAULT_MODELS[this.config.provider] };
+      return this.active;
+    }
+
+    for (const provider of ['ollama', 'lmstudio'] as const) {
+      const model = this.config.model || DEFAULT_MODELS[provider];
+      try {
+        await this.embedWith(provider, model, ['ping']);
+        this.active = { provider, model };
+        console.log(`[EmbeddingService] Using ${provider} embeddings (${model})`);
+        if (fromFallback) {
+          // Items embedded by the fallback meanwhile are only found with its vectors
+          this.reindexAll().catch(error => {
+            console.warn('[EmbeddingService] Reindex after fallback failed:', error.message);
+          });
+        }
+        return this.active;
+      } catch (error) {
+        console.log(`[EmbeddingService] ${provider} embeddings unavailable: ${(error as Error).message}`);
+      }
+    }
+
+    this.active = { provider: 'local', model: DEFAULT_MODELS.local };
+    this.retryRemoteAt = Date.now() + REMOTE_RETRY_MS;
+    console.log('[EmbeddingService] Using local hashed n-gram embeddings');
+    return this.active;
+  }
+
+  private async embedWith(provider: Exclude<EmbeddingProvider, 'auto'>, model: string, texts: string[]): Promise<number[][]> {
+    switch (provider) {
+      case 'ollama': {
+        const response = await fetch(`${llmManager.getOllamaBaseUrl()}/api/embed`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ model, input: texts })
+        });
+        if (!response.ok) {
+          throw new Error(`Ollama embed error: ${response.status} ${await response.text()}`);
+        }
+        const json: any = await response.json();
+        return json.embeddings;
+      }
+      case 'lmstudio': {
+        const response = await fetch(LM_STUDIO_EMBEDDINGS_URL, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ model, input: texts })
+        });
+        if (!response.ok) {
+          throw new Error(`LM Studio embeddings error: ${response.status} ${await response.text()}`);
+        }
+        const json: any = await response.json();
+        return json.data.map((d: any) => d.embedding);
+      }
+      case 'local':
+        return texts.map(text => Array.from(hashedNgramVector(text)));
+    }
+  }
+
+  /**
+   * Items semantically closest to the query text, best first
+   */
+  async search(query: string, options: SemanticSearchOptions = {}): Promise<SemanticMatch[]> {
+    if (!query?.trim() || this.index.size === 0) return [];
+
+    const { provider, model } = await this.resolveProvider();
+    const modelLabel = `${provider}:${model}`;
+    const [vector] = await this.embedWith(provider, model, [query.substring(0, MAX_TEXT_LENGTH)]);
+
+    const matches = this.index.search(vector, {
+      k: options.limit || 10,
+      minScore: options.minScore ?? 0.3,
+      filter: entry => entry.meta.model === modelLabel &&
+        (!options.kinds || options.kinds.includes(entry.meta.kind)) &&
+        (!options.topicId || entry.meta.topicId === options.topicId) &&
+        (!options.excludeTopicId || entry.meta.topicId !== options.excludeTopicId)
+    });
+
+    const results: SemanticMatch[] = [];
+    for (const match of matches) {
+      const result: SemanticMatch = { key: match.key, ...match.meta, score: match.score };
+      delete (result as any).model;
+      if (match.meta.kind === 'message') {
+        try {
+          const message: any = await getObject(match.meta.ref as any);
+          result.text = message?.text;
+        } catch (error) {
+          // Message not available locally
+        }
+      } else {
+        result.text = match.meta.ref;
+      }
+      results.push(result);
+    }
+    return results;
+  }
+
+  /**
+   * Cosine similarity of two indexed items, or null when either has no
+   * vector from the same model
+   */
+  similarity(keyA: string, keyB: string): number | null {
+    const a = this.index.get(keyA);
+    const b = this.index.get(keyB);
+    if (!a || !b || a.meta.model !== b.meta.model) return null;
+    return cosineSimilarity(a.vector, b.vector);
+  }
+
+  /**
+   * Store the index settings, with the given keys as a new batch
+   */
+  private async storeIndex(newKeys: string[] = []): Promise<void> {
+    if (newKeys.length > 0) {
+      const batch: any = { $type$: 'EmbeddingKeyBatch', keys: newKeys, created: Date.now() };
+      if (this.head) batch.previous = this.head;
+      const result = await storeUnversionedObject(batch);
+      this.head = String(result.hash);
+    }
+
+    const index: any = {
+      $type$: 'EmbeddingIndex',
+      name: INDEX_ID,
+      provider: this.config.provider,
+      updated: Date.now()
+    };
+    if (this.config.model) index.model = this.config.model;
+    if (this.head) index.head = this.head;
+    await storeVersionedObject(index);
+  }
+}
+
+/**
+ * CPU fallback: signed feature hashing of words and character trigrams.
+ * Catches spelling variants and shared word stems, not synonyms.
+ */
+export function hashedNgramVector(text: string, dimensions: number = LOCAL_DIMENSIONS): Float32Array {
+  const vector = new Float32Array(dimensions);
+  const words = text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+  const addFeature = (feature: string, weight: number) => {
+    // FNV-1a
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < feature.length; i++) {
+      hash ^= feature.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    const bucket = (hash >>> 0) % dimensions;
+    vector[bucket] += (hash & 0x80000000) ? -weight : weight;
+  };
+
+  for (const word of words) {
+    addFeature(`w:${word}`, 1);
+    const padded = `^${word}$`;
+    for (let i = 0; i + 3 <= padded.length; i++) {
+      addFeature(`t:${padded.substring(i, i + 3)}`, 0.5);
+    }
+  }
+  return vector;
+}
+
+// Export singleton instance
+const embeddingService = new EmbeddingService();
+export default embeddingService;
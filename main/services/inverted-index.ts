@@ -0,0 +1,180 @@
+/**
+ * Inverted Index
+ * In-memory full-text index over chat messages.
+ *
+ * Each document is tokenized into lowercase words; a query matches documents that
+ * contain every query word, where the last query word may be a prefix (search as
+ * you type). Documents carry the metadata the search filters need, so a query never
+ * has to load the messages themselves.
+ */
+
+export interface SearchDocumentMeta {
+  topicId: string
+  sender: string
+  isAI: boolean
+  hasAttachment: boolean
+  timestamp: number      // ms since epoch
+}
+
+export interface IndexedDocument extends SearchDocumentMeta {
+  id: string
+  terms: string[]
+}
+
+export interface SearchFilters {
+  topicId?: string
+  sender?: string
+  from?: number          // Inclusive, ms since epoch
+  to?: number            // Inclusive, ms since epoch
+  hasAttachment?: boolean
+  isAI?: boolean
+}
+
+export interface SearchHit {
+  id: string
+  score: number          // Number of query term occurrences, for ranking
+  document: IndexedDocument
+}
+
+const MIN_TERM_LENGTH = 2
+
+/**
+ * Lowercase words and numbers of a text, in order, duplicates kept
+ */
+export function tokenize(text: string): string[] {
+  return (text || '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(term => term.length >= MIN_TERM_LENGTH)
+}
+
+export class InvertedIndex {
+  private documents = new Map<string, IndexedDocument>()
+  private postings = new Map<string, Map<string, number>>()   // term -> document id -> count
+
+  get size(): number {
+    return this.documents.size
+  }
+
+  has(id: string): boolean {
+    return this.documents.has(id)
+  }
+
+  get(id: string): IndexedDocument | undefined {
+    return this.documents.get(id)
+  }
+
+  /**
+   * Add or replace a document. Pass either the text or its already tokenized terms.
+   */
+  add(id: string, textOrTerms: string | string[], meta: SearchDocumentMeta): IndexedDocument {
+    this.remove(id)
+
+    const terms = typeof textOrTerms === 'string' ? tokenize(textOrTerms) : textOrTerms
+    const document: IndexedDocument = { id, terms, ...meta }
+    this.documents.set(id, document)
+
+    for (const term of terms) {
+      let posting = this.postings.get(term)
+      if (!posting) {
+        posting = new Map()
+        this.postings.set(term, posting)
+      }
+      posting.set(id, (posting.get(id) || 0) + 1)
+    }
+    return document
+  }
+
+  remove(id: string): boolean {
+    const document = this.documents.get(id)
+    if (!document) return false
+
+    for (const term of new Set(document.terms)) {
+      const posting = this.postings.get(term)
+      posting?.delete(id)
+      if (posting && posting.size === 0) {
+        this.postings.delete(term)
+      }
+    }
+    return this.documents.delete(id)
+  }
+
+  clear(): void {
+    this.documents.clear()
+    this.postings.clear()
+  }
+
+  /**
+   * Documents containing all query terms and passing the filters, best match
+   * first and newest first among equal matches. An empty query lists the
+   * filtered documents by date.
+   */
+  search(query: string, filters: SearchFilters = {}, limit: number = 50): SearchHit[] {
+    const queryTerms = tokenize(query)
+    let scores: Map<string, number>
+
+    if (queryTerms.length === 0) {
+      scores = new Map(Array.from(this.documents.keys(), id => [id, 0]))
+    } else {
+      scores = new Map()
+      queryTerms.forEach((term, i) => {
+        const isLast = i === queryTerms.length - 1
+        const matches = isLast ? this.prefixPostings(term) : (this.postings.get(term) || new Map())
+
+        if (i === 0) {
+          scores = new Map(matches)
+          return
+        }
+        const next = new Map<string, number>()
+        for (const [id, count] of matches) {
+          const score = scores.get(id)
+          if (score !== undefined) next.set(id, score + count)
+        }
+        scores = next
+      })
+    }
+
+    const hits: SearchHit[] = []
+    for (const [id, score] of scores) {
+      const document = this.documents.get(id)
+      if (document && matchesFilters(document, filters)) {
+        hits.push({ id, score, document })
+      }
+    }
+
+    return hits
+      .sort((a, b) => (b.score - a.score) || (b.document.timestamp - a.document.timestamp))
+      .slice(0, limit)
+  }
+
+  /**
+   * All documents passing the filters, in no particular order
+   */
+  filter(filters: SearchFilters = {}): IndexedDocument[] {
+    return Array.from(this.documents.values()).filter(document => matchesFilters(document, filters))
+  }
+
+  /**
+   * Occurrences per document of every indexed term starting with the prefix
+   */
+  private prefixPostings(prefix: string): Map<string, number> {
+    const result = new Map<string, number>()
+    for (const [term, posting] of this.postings) {
+      if (!term.startsWith(prefix)) continue
+      for (const [id, count] of posting) {
+        result.set(id, (result.get(id) || 0) + count)
+      }
+    }
+    return result
+  }
+}
+
+function matchesFilters(document: IndexedDocument, filters: SearchFilters): boolean {
+  if (filters.topicId && document.topicId !== filters.topicId) return false
+  if (filters.sender && document.sender !== filters.sender) return false
+  if (filters.from !== undefined && document.timestamp < filters.from) return false
+  if (filters.to !== undefined && document.timestamp > filters.to) return false
+  if (filters.hasAttachment !== undefined && document.hasAttachment !== filters.hasAttachment) return false
+  if (filters.isAI !== undefined && document.isAI !== filters.isAI) return false
+  return true
+}
@@ -0,0 +1,226 @@
+/**
+ * Keyword Trends
+ * How often keywords came up over time, per topic and across all conversations.
+ *
+ * Occurrences are counted in the messages of the full-text index, bucketed by
+ * day or week. A keyword is rising when its recent window clearly exceeds the
+ * window before it, and falling in the opposite case.
+ *
+ * computeKeywordTrends() is pure; collectTrendKeywords() reads the stored analysis.
+ */
+
+import { tokenize, type IndexedDocument } from './inverted-index.js';
+import type { KeywordTaxonomy } from '../core/one-ai/models/KeywordTaxonomy.js';
+
+export type TrendGranularity = 'day' | 'week';
+export type TrendDirection = 'rising' | 'falling' | 'steady';
+
+export interface TrendKeyword {
+  term: string;
+  variants?: string[];    // Synonyms counted as the term
+}
+
+export interface KeywordTrend {
+  term: string;
+  counts: number[];       // One per bucket, oldest first
+  total: number;
+  recent: number;         // Occurrences in the last window
+  previous: number;       // Occurrences in the window before
+  change: number;         // (recent - previous) / previous, previous counted as at least 1
+  direction: TrendDirection;
+  topics: Record<string, number>; // Topic id -> occurrences
+}
+
+export interface KeywordTrendReport {
+  granularity: TrendGranularity;
+  buckets: number[];      // Bucket start times, oldest first
+  window: number;         // Buckets compared for the trend
+  keywords: KeywordTrend[]; // Most mentioned first
+  rising: KeywordTrend[];   // Biggest increase first
+  falling: KeywordTrend[];  // Biggest decrease first
+}
+
+export interface KeywordTrendOptions {
+  granularity?: TrendGranularity;
+  buckets?: number;       // How many buckets back from now
+  window?: number;        // Buckets in the recent and the previous window
+  topicId?: string;       // Restrict to one conversation
+  limit?: number;         // Keywords per list
+  now?: number;
+}
+
+const DEFAULTS: Record<TrendGranularity, { buckets: number; window: number }> = {
+  day: { buckets: 30, window: 7 },
+  week: { buckets: 12, window: 4 }
+};
+const DEFAULT_LIMIT = 20;
+// A trend needs this many more (or fewer) mentions and this relative change
+const MIN_TREND_DELTA = 3;
+const MIN_TREND_CHANGE = 0.5;
+
+/**
+ * Local midnight of the day, or of the Monday of the week, the time falls into
+ */
+export function bucketStart(time: number, granularity: TrendGranularity): number {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  if (granularity === 'week') {
+    // getDay() is 0 for Sunday
+    date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  }
+  return date.getTime();
+}
+
+/**
+ * Start times of the last `count` buckets up to and including the current one
+ */
+export function bucketStarts(now: number, granularity: TrendGranularity, count: number): number[] {
+  const starts: number[] = [];
+  const date = new Date(bucketStart(now, granularity));
+  for (let i = 0; i < count; i++) {
+    starts.unshift(date.getTime());
+    // Calendar arithmetic keeps buckets aligned across DST changes
+    date.setDate(date.getDate() - (granularity === 'week' ? 7 : 1));
+  }
+  return starts;
+}
+
+export function trendDirection(recent: number, previous: number): TrendDirection {
+  const change = (recent - previous) / Math.max(previous, 1);
+  if (recent - previous >= MIN_TREND_DELTA && change >= MIN_TREND_CHANGE) return 'rising';
+  if (previous - recent >= MIN_TREND_DELTA && change <= -MIN_TREND_CHANGE) return 'falling';
+  return 'steady';
+}
+
+/**
+ * Number of times a phrase (as terms) occurs in a document's terms
+ */
+function countPhrase(terms: string[], phrase: string[]): number {
+  if (phrase.length === 0) return 0;
+  let count = 0;
+  for (let i = 0; i <= terms.length - phrase.length; i++) {
+    let match = true;
+    for (let j = 0; j < phrase.length; j++) {
+      if (terms[i + j] !== phrase[j]) {
+        match = false;
+        break;
+      }
+    }
+    if (match) count++;
+  }
+  return count;
+}
+
+export function computeKeywordTrends(
+  documents: IndexedDocument[],
+  keywords: TrendKeyword[],
+  options: KeywordTrendOptions = {}
+): KeywordTrendReport {
+  const granularity = options.granularity === 'week' ? 'week' : 'day';
+  const bucketCount = Math.max(2, options.buckets || DEFAULTS[granularity].buckets);
+  const window = Math.min(Math.max(1, options.window || DEFAULTS[granularity].window), Math.floor(bucketCount / 2));
+  const limit = options.limit || DEFAULT_LIMIT;
+  const buckets = bucketStarts(options.now ?? Date.now(), granularity, bucketCount);
+  const bucketIndex = new Map(buckets.map((start, index) => [start, index]));
+
+  // Single words are looked up directly, phrases are matched in order
+  const phrases = keywords.map(keyword => ({
+    term: keyword.term,
+    forms: [keyword.term, ...(keyword.variants || [])].map(form => tokenize(form)).filter(form => form.length > 0)
+  }));
+
+  const trends = new Map<string, KeywordTrend>();
+  for (const { term } of phrases) {
+    trends.set(term, {
+      term,
+      counts: new Array(bucketCount).fill(0),
+      total: 0,
+      recent: 0,
+      previous: 0,
+      change: 0,
+      direction: 'steady',
+      topics: {}
+    });
+  }
+
+  for (const document of documents) {
+    if (options.topicId && document.topicId !== options.topicId) continue;
+    const index = bucketIndex.get(bucketStart(document.timestamp, granularity));
+    if (index === undefined) continue;
+
+    const termCounts = new Map<string, number>();
+    for (const term of document.terms) {
+      termCounts.set(term, (termCounts.get(term) || 0) + 1);
+    }
+
+    for (const { term, forms } of phrases) {
+      let count = 0;
+      for (const form of forms) {
+        count += form.length === 1 ? (termCounts.get(form[0]) || 0) : countPhrase(document.terms, form);
+      }
+      if (count === 0) continue;
+
+      const trend = trends.get(term)!;
+      trend.counts[index] += count;
+      trend.total += count;
+      trend.topics[document.topicId] = (trend.topics[document.topicId] || 0) + count;
+    }
+  }
+
+  const mentioned = Array.from(trends.values()).filter(trend => trend.total > 0);
+  for (const trend of mentioned) {
+    trend.recent = sum(trend.counts.slice(-window));
+    trend.previous = sum(trend.counts.slice(-2 * window, -window));
+    trend.change = (trend.recent - trend.previous) / Math.max(trend.previous, 1);
+    trend.direction = trendDirection(trend.recent, trend.previous);
+  }
+
+  const delta = (trend: KeywordTrend) => trend.recent - trend.previous;
+  return {
+    granularity,
+    buckets,
+    window,
+    keywords: [...mentioned].sort((a, b) => b.total - a.total).slice(0, limit),
+    rising: mentioned.filter(trend => trend.direction === 'rising').sort((a, b) => delta(b) - delta(a)).slice(0, limit),
+    falling: mentioned.filter(trend => trend.direction === 'falling').sort((a, b) => delta(a) - delta(b)).slice(0, limit)
+  };
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0);
+}
+
+/**
+ * Keyword terms of every analyzed topic, with the user's synonyms as variants
+ * and without their stop-words
+ */
+export async function collectTrendKeywords(nodeOneCore: any, taxonomy: KeywordTaxonomy): Promise<TrendKeyword[]> {
+  const topicModel = nodeOneCore?.topicModel;
+  const topicAnalysisModel = nodeOneCore?.topicAnalysisModel;
+  if (!topicModel || !topicAnalysisModel) {
+    throw new Error('Topic analysis not initialized');
+  }
+
+  const terms = new Set<string>();
+  const topics = await topicModel.topics.all();
+  for (const topic of topics) {
+    try {
+      const keywords: any = await topicAnalysisModel.getKeywords(topic.id);
+      for (const keyword of keywords || []) {
+        if (keyword.term) terms.add(keyword.term);
+      }
+    } catch (error) {
+      console.warn(`[KeywordTrends] Skipping topic ${topic.id}:`, (error as Error).message);
+    }
+  }
+
+  const variants = new Map<string, string[]>();
+  for (const group of taxonomy.toJSON().synonymGroups) {
+    variants.set(group.canonical, group.variants);
+  }
+
+  return taxonomy.apply(Array.from(terms)).map(term => ({
+    term,
+    variants: variants.get(term)
+  }));
+}
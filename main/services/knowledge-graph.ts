@@ -0,0 +1,230 @@
+/**
+ * Knowledge Graph
+ * Subjects, keywords and topics of all conversations as one weighted graph.
+ *
+ * Subjects with the same keyword combination are one node, wherever they were
+ * discussed. Edges:
+ * - discussed-in:    subject -> topic, weighted by the subject's message count there
+ * - has-keyword:     subject -> keyword
+ * - co-occurrence:   keyword <-> keyword, number of subjects that use both
+ * - shared-keywords: topic <-> topic, number of keywords both conversations use
+ *
+ * buildKnowledgeGraph() is pure; collectGraphTopics() reads the stored analysis.
+ */
+
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+
+export type GraphNodeType = 'topic' | 'subject' | 'keyword';
+export type GraphEdgeType = 'discussed-in' | 'has-keyword' | 'co-occurrence' | 'shared-keywords';
+
+export interface GraphNode {
+  id: string;             // <type>:<topic id | keyword combination | term>
+  type: GraphNodeType;
+  label: string;
+  weight: number;         // Topic: subjects, subject: messages, keyword: subjects using it
+  topicIds: string[];     // Topics the node appears in, to open the source conversation
+}
+
+export interface GraphEdge {
+  source: string;
+  target: string;
+  type: GraphEdgeType;
+  weight: number;
+}
+
+export interface KnowledgeGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+}
+
+export interface GraphTopic {
+  id: string;
+  name: string;
+  subjects: Array<{
+    id: string;           // Keyword combination
+    keywords: string[];   // Terms
+    messageCount: number;
+    archived?: boolean;
+  }>;
+}
+
+export interface KnowledgeGraphOptions {
+  topicIds?: string[];    // Restrict to these topics
+  includeArchived?: boolean;
+  maxKeywords?: number;   // Most used keywords kept, to keep the graph readable
+  minEdgeWeight?: number; // For co-occurrence and shared-keywords edges
+}
+
+const DEFAULT_MAX_KEYWORDS = 60;
+
+export function buildKnowledgeGraph(topics: GraphTopic[], options: KnowledgeGraphOptions = {}): KnowledgeGraph {
+  const {
+    topicIds,
+    includeArchived = false,
+    maxKeywords = DEFAULT_MAX_KEYWORDS,
+    minEdgeWeight = 1
+  } = options;
+
+  const selected = topicIds ? topics.filter(topic => topicIds.includes(topic.id)) : topics;
+
+  // Subjects by keyword combination; keyword usage across all of them
+  const subjects = new Map<string, { node: GraphNode; keywords: Set<string>; countByTopic: Map<string, number> }>();
+  const keywordUse = new Map<string, Set<string>>();   // term -> subject ids
+  const keywordTopics = new Map<string, Set<string>>(); // term -> topic ids
+
+  for (const topic of selected) {
+    for (const subject of topic.subjects) {
+      if (subject.archived && !includeArchived) continue;
+
+      let entry = subjects.get(subject.id);
+      if (!entry) {
+        entry = {
+          node: { id: `subject:${subject.id}`, type: 'subject', label: subjectLabel(subject.id), weight: 0, topicIds: [] },
+          keywords: new Set(),
+          countByTopic: new Map()
+        };
+        subjects.set(subject.id, entry);
+      }
+      entry.node.weight += subject.messageCount || 0;
+      entry.countByTopic.set(topic.id, (entry.countByTopic.get(topic.id) || 0) + (subject.messageCount || 0));
+
+      for (const raw of subject.keywords) {
+        const term = raw.toLowerCase().trim();
+        if (!term) continue;
+        entry.keywords.add(term);
+        if (!keywordUse.has(term)) keywordUse.set(term, new Set());
+        keywordUse.get(term)!.add(subject.id);
+        if (!keywordTopics.has(term)) keywordTopics.set(term, new Set());
+        keywordTopics.get(term)!.add(topic.id);
+      }
+    }
+  }
+
+  const keptTerms = new Set(
+    Array.from(keywordUse.entries())
+      .sort((a, b) => (b[1].size - a[1].size) || a[0].localeCompare(b[0]))
+      .slice(0, maxKeywords)
+      .map(([term]) => term)
+  );
+
+  const nodes: GraphNode[] = [];
+  const edges: GraphEdge[] = [];
+
+  for (const topic of selected) {
+    const subjectCount = Array.from(subjects.values()).filter(entry => entry.countByTopic.has(topic.id)).length;
+    if (subjectCount === 0) continue;
+    nodes.push({ id: `topic:${topic.id}`, type: 'topic', label: topic.name || topic.id, weight: subjectCount, topicIds: [topic.id] });
+  }
+
+  for (const entry of subjects.values()) {
+    entry.node.topicIds = Array.from(entry.countByTopic.keys());
+    nodes.push(entry.node);
+    for (const [topicId, count] of entry.countByTopic) {
+      edges.push({ source: entry.node.id, target: `topic:${topicId}`, type: 'discussed-in', weight: Math.max(count, 1) });
+    }
+    for (const term of entry.keywords) {
+      if (keptTerms.has(term)) {
+        edges.push({ source: entry.node.id, target: `keyword:${term}`, type: 'has-keyword', weight: 1 });
+      }
+    }
+  }
+
+  for (const term of keptTerms) {
+    nodes.push({
+      id: `keyword:${term}`,
+      type: 'keyword',
+      label: term,
+      weight: keywordUse.get(term)!.size,
+      topicIds: Array.from(keywordTopics.get(term)!)
+    });
+  }
+
+  // Keyword pairs used by the same subject
+  const cooccurrence = new Map<string, number>();
+  for (const entry of subjects.values()) {
+    const terms = Array.from(entry.keywords).filter(term => keptTerms.has(term)).sort();
+    for (let i = 0; i < terms.length; i++) {
+      for (let j = i + 1; j < terms.length; j++) {
+        const key = `${terms[i]}\u0000${terms[j]}`;
+        cooccurrence.set(key, (cooccurrence.get(key) || 0) + 1);
+      }
+    }
+  }
+  for (const [key, weight] of cooccurrence) {
+    if (weight < minEdgeWeight) continue;
+    const [a, b] = key.split('\u0000');
+    edges.push({ source: `keyword:${a}`, target: `keyword:${b}`, type: 'co-occurrence', weight });
+  }
+
+  // Conversations that share keywords - all keywords count, not only the displayed ones
+  const shared = new Map<string, number>();
+  for (const topicSet of keywordTopics.values()) {
+    const ids = Array.from(topicSet).sort();
+    for (let i = 0; i < ids.length; i++) {
+      for (let j = i + 1; j < ids.length; j++) {
+        const key = `${ids[i]}\u0000${ids[j]}`;
+        shared.set(key, (shared.get(key) || 0) + 1);
+      }
+    }
+  }
+  for (const [key, weight] of shared) {
+    if (weight < minEdgeWeight) continue;
+    const [a, b] = key.split('\u0000');
+    edges.push({ source: `topic:${a}`, target: `topic:${b}`, type: 'shared-keywords', weight });
+  }
+
+  return { nodes, edges };
+}
+
+/**
+ * Subjects, with keyword terms, of every topic that has analysis data
+ */
+export async function collectGraphTopics(nodeOneCore: any): Promise<GraphTopic[]> {
+  const topicModel = nodeOneCore?.topicModel;
+  const topicAnalysisModel = nodeOneCore?.topicAnalysisModel;
+  if (!topicModel || !topicAnalysisModel) {
+    throw new Error('Topic analysis not initialized');
+  }
+
+  const result: GraphTopic[] = [];
+  const topics = await topicModel.topics.all();
+
+  for (const topic of topics) {
+    try {
+      const subjects: any = await topicAnalysisModel.getSubjects(topic.id);
+      if (!subjects || subjects.length === 0) continue;
+
+      // Subjects reference keywords by ID hash
+      const keywords: any = await topicAnalysisModel.getKeywords(topic.id);
+      const termByHash = new Map<string, string>();
+      for (const keyword of keywords || []) {
+        if (!keyword.term) continue;
+        termByHash.set(await calculateIdHashOfObj({ $type$: 'Keyword', term: keyword.term.toLowerCase().trim() } as any), keyword.term);
+      }
+
+      result.push({
+        id: topic.id,
+        name: topic.name || topic.id,
+        subjects: subjects.map((subject: any) => ({
+          id: subject.id,
+          keywords: (subject.keywords || [])
+            .map((hash: string) => termByHash.get(hash))
+            .filter((term: string | undefined): term is string => !!term),
+          messageCount: subject.messageCount || 0,
+          archived: subject.archived || false
+        }))
+      });
+    } catch (error) {
+      console.warn(`[KnowledgeGraph] Skipping topic ${topic.id}:`, (error as Error).message);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * "pizza+delivery+cost" -> "pizza, delivery, cost"
+ */
+function subjectLabel(keywordCombination: string): string {
+  return String(keywordCombination).split(/[+_]+/).filter(Boolean).join(', ');
+}
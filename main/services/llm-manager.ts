@@ -9,8 +9,26 @@ import EventEmitter from 'events';
 import { fileURLToPath } from 'url';
 import electron from 'electron';
 import mcpManager from './mcp-manager.js';
+import tokenCounter from './token-counter.js';
+import toolPermissions from './tool-permissions.js';
+import toolAuditLog, { type ToolOutcome } from './tool-audit-log.js';
+import {
+  MAX_TOOL_STEPS,
+  formatToolResult,
+  previewToolResult,
+  type ToolCall,
+  type ToolChatMessage,
+  type ToolStep
+} from './tool-calls.js';
 const { ipcMain, BrowserWindow } = electron;
 
+interface ToolRunContext {
+  onToolStep?: (toolStep: ToolStep) => void
+  topicId?: string
+  modelId?: string
+  signal?: AbortSignal
+}
+
 // Get __dirname equivalent in ESM
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -396,27 +414,32 @@ class LLMManager extends EventEmitter {
     }
   }
 
+  /**
+   * Copy the tools of the running MCP servers - called again when servers start or stop
+   */
+  syncMCPTools(): void {
+    const tools = mcpManager.getAvailableTools()
+    this.mcpTools.clear()
+
+    const registeredTools = []
+    for (const tool of tools) {
+      this.mcpTools.set(tool.fullName || tool.name, tool)
+      registeredTools.push(tool.fullName || tool.name)
+    }
+    // Log all tools at once instead of individually
+    if (registeredTools.length > 0) {
+      console.log(`[LLMManager] Registered ${registeredTools.length} MCP tools`)
+    }
+  }
+
   async initializeMCP(): Promise<any> {
     console.log('[LLMManager] Initializing MCP servers...')
     
     try {
       // Initialize MCP Manager
       await mcpManager.init()
-      
-      // Sync tools from MCP Manager
-      const tools = mcpManager.getAvailableTools()
-      this.mcpTools.clear()
-      
-      const registeredTools = []
-      for (const tool of tools) {
-        this.mcpTools.set(tool.fullName || tool.name, tool)
-        registeredTools.push(tool.fullName || tool.name)
-      }
-      // Log all tools at once instead of individually
-      if (registeredTools.length > 0) {
-        console.log(`[LLMManager] Registered ${registeredTools.length} MCP tools`)
-      }
-      
+      this.syncMCPTools()
+
       console.log(`[LLMManager] MCP initialized with ${this.mcpTools.size} tools`)
     } catch (error) {
       console.warn('[LLMManager] MCP initialization failed (non-critical):', error)
@@ -464,6 +487,16 @@ class LLMManager extends EventEmitter {
     }
   }
 
+  /**
+   * Run a chat completion against the model's provider.
+   * When options.onStream is set, every provider delivers text chunks through it
+   * as they arrive; the promise still resolves with the complete response.
+   * options.signal aborts the provider request; the promise then rejects.
+   *
+   * Claude and Ollama get the MCP tools as native tool definitions and run the
+   * tool loop (see chatWithTools); options.onToolStep reports every tool invocation.
+   * Other providers fall back to tool descriptions in the system prompt.
+   */
   async chat(messages: any, modelId: any, options: any = {}): Promise<unknown> {
     // modelId is required - no default
     if (!modelId) {
@@ -476,45 +509,222 @@ class LLMManager extends EventEmitter {
     }
 
     console.log(`[LLMManager] Chat with ${(model as any).id} (${messages.length} messages), ${this.mcpTools.size} MCP tools available`)
+
+    // Provider-reported token counts calibrate our estimates for this model
+    const usageOptions = (sentMessages: any) => ({
+      ...options,
+      onUsage: (usage: any) => {
+        tokenCounter.recordUsage(effectiveModelId, sentMessages, usage)
+        options.onUsage?.(usage)
+      }
+    })
+
+    const tools = mcpManager.getToolDefinitions()
+    const useNativeTools = tools.length > 0 &&
+      !options.format &&
+      this.supportsNativeTools(model) &&
+      !this.isWelcomeRequest(messages)
+
+    if (useNativeTools) {
+      try {
+        return await this.chatWithTools(model, messages, tools, usageOptions(messages))
+      } catch (error) {
+        // Older Ollama models reject the tools field - remember and use prompt-based tools
+        if (model.provider === 'ollama' && /does not support tools/i.test((error as Error).message)) {
+          console.warn(`[LLMManager] ${model.id} does not support native tools, using tool descriptions instead`)
+          model.supportsTools = false
+        } else {
+          throw error
+        }
+      }
+    }
+
     console.log(`[LLMManager] ABOUT TO ENHANCE MESSAGES`)
-    
+
     // Add tool descriptions to system message
     const enhancedMessages = this.enhanceMessagesWithTools(messages)
     console.log(`[LLMManager] ENHANCEMENT COMPLETE`)
-    
-    let response
-    
-    if ((model as any).provider === 'ollama') {
-      response = await this.chatWithOllama(model as any, enhancedMessages, options)
-    } else if ((model as any).provider === 'lmstudio') {
-      response = await this.chatWithLMStudio(model as any, enhancedMessages, options)
-    } else if ((model as any).provider === 'anthropic') {
-      response = await this.chatWithClaude(model as any, enhancedMessages, options)
-    } else {
-      throw new Error(`Unsupported provider: ${(model as any).provider}`)
-    }
-    
+
+    let response = await this.callProvider(model, enhancedMessages, usageOptions(enhancedMessages))
+
     // Process tool calls if present
-    response = await this.processToolCalls(response)
-    
+    response = await this.processToolCalls(response, {
+      topicId: options.topicId,
+      modelId: effectiveModelId,
+      signal: options.signal
+    })
+
     return response
   }
 
+  /**
+   * Send messages to the model's provider
+   */
+  async callProvider(model: any, messages: any, options: any = {}): Promise<any> {
+    if (model.provider === 'ollama') {
+      return await this.chatWithOllama(model, messages, options)
+    } else if (model.provider === 'lmstudio') {
+      return await this.chatWithLMStudio(model, messages, options)
+    } else if (model.provider === 'anthropic') {
+      return await this.chatWithClaude(model, messages, options)
+    }
+    throw new Error(`Unsupported provider: ${model.provider}`)
+  }
+
+  supportsNativeTools(model: any): boolean {
+    return (model.provider === 'anthropic' || model.provider === 'ollama') && model.supportsTools !== false
+  }
+
+  /**
+   * Native tool loop: call the model, execute the tools it asks for, feed the
+   * results back and continue until it answers without tool calls.
+   * After MAX_TOOL_STEPS rounds the model is told to answer with what it has.
+   * Text from every round is streamed and returned as one response.
+   */
+  async chatWithTools(model: any, messages: any, tools: any[], options: any = {}): Promise<string> {
+    const conversation: ToolChatMessage[] = [...messages]
+    let response = ''
+
+    for (let step = 1; step <= MAX_TOOL_STEPS + 1; step++) {
+      const isLastStep = step > MAX_TOOL_STEPS
+      if (isLastStep) {
+        conversation.push({
+          role: 'user',
+          content: 'Tool limit reached. Answer now with the information you have, without calling more tools.'
+        })
+      }
+
+      // Separate the text of consecutive rounds in the streamed response
+      let separator = response ? '\n\n' : ''
+      let toolCalls: ToolCall[] = []
+      const text = String(await this.callProvider(model, conversation, {
+        ...options,
+        tools,
+        onToolCalls: (calls: ToolCall[]) => { toolCalls = calls },
+        onStream: options.onStream && ((chunk: string, ...rest: any[]) => {
+          options.onStream(separator + chunk, ...rest)
+          separator = ''
+        })
+      }) || '')
+
+      if (text) {
+        response += (response ? '\n\n' : '') + text
+      }
+
+      if (toolCalls.length === 0) {
+        return response
+      }
+      if (isLastStep) {
+        console.warn(`[LLMManager] Tool step limit (${MAX_TOOL_STEPS}) reached, ignoring ${toolCalls.length} further tool call(s)`)
+        return response
+      }
+
+      console.log(`[LLMManager] Tool step ${step}: ${toolCalls.map(call => call.name).join(', ')}`)
+      conversation.push({ role: 'assistant', content: text, toolCalls })
+
+      for (const call of toolCalls) {
+        if (options.signal?.aborted) {
+          throw new Error('Request was cancelled')
+        }
+        const result = await this.executeToolStep(call, step, {
+          onToolStep: options.onToolStep,
+          topicId: options.topicId,
+          modelId: model.id,
+          signal: options.signal
+        })
+        conversation.push({ role: 'tool', content: result, toolCallId: call.id, toolName: call.name })
+      }
+    }
+
+    return response
+  }
+
+  /**
+   * Execute one tool call and report it as a visible step.
+   * Failures and denials are returned to the model as the tool result so it can recover.
+   */
+  async executeToolStep(call: ToolCall, step: number, context: ToolRunContext = {}): Promise<string> {
+    const toolStep: ToolStep = {
+      id: call.id,
+      step,
+      tool: mcpManager.resolveToolName(call.name),
+      arguments: call.arguments || {},
+      status: 'running'
+    }
+    context.onToolStep?.({ ...toolStep })
+
+    if (call.error) {
+      context.onToolStep?.({ ...toolStep, status: 'error', error: call.error })
+      return `Error: ${call.error}`
+    }
+
+    const run = await this.runTool(toolStep.tool, toolStep.arguments, context)
+    if (run.outcome === 'success') {
+      context.onToolStep?.({ ...toolStep, status: 'done', result: previewToolResult(run.text) })
+    } else {
+      context.onToolStep?.({ ...toolStep, status: run.outcome, error: run.error })
+    }
+    return run.text
+  }
+
+  /**
+   * Run an MCP tool for a model: check the permission policy (asking the user
+   * if needed), execute, and write the execution to the audit log.
+   */
+  async runTool(tool: string, args: Record<string, any>, context: ToolRunContext = {}): Promise<{ text: string, outcome: ToolOutcome, error?: string }> {
+    const started = Date.now()
+    const audit = { tool, input: args, topicId: context.topicId, modelId: context.modelId, started }
+
+    const allowed = await toolPermissions.authorize({
+      tool,
+      arguments: args,
+      topicId: context.topicId,
+      modelId: context.modelId,
+      signal: context.signal
+    })
+    if (!allowed) {
+      const error = 'Permission denied by the user'
+      console.log(`[LLMManager] Tool ${tool} denied`)
+      await toolAuditLog.record({ ...audit, outcome: 'denied', error, durationMs: Date.now() - started })
+      return { text: `Error: ${error}`, outcome: 'denied', error }
+    }
+
+    try {
+      const result = await mcpManager.executeTool(tool, args)
+      const text = formatToolResult(result)
+      const outcome: ToolOutcome = result?.isError ? 'error' : 'success'
+      await toolAuditLog.record({
+        ...audit,
+        output: text,
+        outcome,
+        error: result?.isError ? text : undefined,
+        durationMs: Date.now() - started
+      })
+      return { text, outcome, error: result?.isError ? text : undefined }
+    } catch (error) {
+      const message = (error as Error).message
+      console.error(`[LLMManager] Tool ${tool} failed:`, message)
+      await toolAuditLog.record({ ...audit, outcome: 'error', error: message, durationMs: Date.now() - started })
+      return { text: `Error: ${message}`, outcome: 'error', error: message }
+    }
+  }
+
   getToolDescriptions(): any {
     return mcpManager.getToolDescriptions()
   }
 
-  enhanceMessagesWithTools(messages: any): any {
-    // Check if this is a simple welcome message request
-    const isWelcomeMessage = messages.some((m: any) =>
-      m.content && (
+  isWelcomeRequest(messages: any): boolean {
+    return messages.some((m: any) =>
+      typeof m.content === 'string' && (
         m.content.includes('Generate a welcome message') ||
         m.content.includes('Generate a brief, friendly welcome')
       )
     )
+  }
 
+  enhanceMessagesWithTools(messages: any): any {
     // Skip tool enhancement for welcome messages
-    if (isWelcomeMessage) {
+    if (this.isWelcomeRequest(messages)) {
       console.log(`[LLMManager] Skipping tool enhancement for welcome message`)
       return messages
     }
@@ -564,7 +774,11 @@ class LLMManager extends EventEmitter {
     return enhanced
   }
 
-  async processToolCalls(response: any): Promise<any> {
+  /**
+   * Prompt-based tool calls for providers without native tool calling:
+   * a JSON block in the response is executed and replaced by the tool result.
+   */
+  async processToolCalls(response: any, context: ToolRunContext = {}): Promise<any> {
     console.log('[LLMManager] Checking for tool calls in response...')
     console.log('[LLMManager] Response preview:', response?.substring(0, 200))
     
@@ -590,104 +804,10 @@ class LLMManager extends EventEmitter {
       if (toolCall.tool) {
         console.log(`[LLMManager] Executing tool: ${toolCall.tool} with params:`, toolCall.parameters)
         
-        const result: any = await mcpManager.executeTool(
-          toolCall.tool,
-          toolCall.parameters || {}
-        )
-        
-        console.log('[LLMManager] Tool execution result:', JSON.stringify(result).substring(0, 200))
-        
-        // Format the result based on tool type with elegant, natural language
-        let formattedResult = ''
-        
-        if (toolCall.tool === 'filesystem:list_directory') {
-          // Parse and format directory listing elegantly
-          if (result.content && Array.isArray(result.content)) {
-            const textContent = result.content.find((c: any) => c.type === 'text')
-            if (textContent && textContent.text) {
-              // Parse the directory listing and format it nicely
-              const lines = textContent.text.split('\n').filter((line: any) => line.trim())
-              const dirs: string[] = []
-              const files: string[] = []
-              
-              lines.forEach((line: any) => {
-                if (line.includes('[DIR]')) {
-                  dirs.push(line.replace('[DIR]', '').trim())
-                } else if (line.includes('[FILE]')) {
-                  files.push(line.replace('[FILE]', '').trim())
-                }
-              })
-              
-              formattedResult = 'Here\'s what I found in the current directory:\n\n'
-              
-              if (dirs.length > 0) {
-                formattedResult += '**📁 Folders:**\n'
-                dirs.forEach(dir => {
-                  formattedResult += `• ${dir}\n`
-                })
-                if (files.length > 0) formattedResult += '\n'
-              }
-              
-              if (files.length > 0) {
-                formattedResult += '**📄 Files:**\n'
-                files.forEach(file => {
-                  formattedResult += `• ${file}\n`
-                })
-              }
-              
-              formattedResult += `\n_Total: ${dirs.length} folders and ${files.length} files_`
-            } else {
-              formattedResult = 'I found the following items:\n\n' + JSON.stringify(result, null, 2)
-            }
-          } else {
-            formattedResult = 'Directory contents:\n\n' + JSON.stringify(result, null, 2)
-          }
-        } else if (toolCall.tool.includes('read_file') || toolCall.tool.includes('read_text')) {
-          // Format file reading results
-          if (result.content && Array.isArray(result.content)) {
-            const textContent = result.content.find((c: any) => c.type === 'text')
-            if (textContent && textContent.text) {
-              const fileName = toolCall.parameters?.path || 'the file'
-              formattedResult = `Here's the content of ${fileName}:\n\n\`\`\`\n${textContent.text}\n\`\`\``
-            } else {
-              formattedResult = 'File content:\n\n' + JSON.stringify(result, null, 2)
-            }
-          } else {
-            formattedResult = result
-          }
-        } else if (toolCall.tool.includes('write_file') || toolCall.tool.includes('edit_file')) {
-          // Format file writing/editing results
-          formattedResult = '✅ File operation completed successfully.'
-          if (toolCall.parameters?.path) {
-            formattedResult = `✅ Successfully updated ${toolCall.parameters.path}`
-          }
-        } else if (toolCall.tool.includes('search')) {
-          // Format search results
-          if (result.content && Array.isArray(result.content)) {
-            const textContent = result.content.find((c: any) => c.type === 'text')
-            if (textContent && textContent.text) {
-              formattedResult = `Search results:\n\n${textContent.text}`
-            } else {
-              formattedResult = 'Search completed.'
-            }
-          } else {
-            formattedResult = result
-          }
-        } else if (result.content && Array.isArray(result.content)) {
-          // Generic MCP tool response with content array
-          const textParts = result.content
-            .filter((c: any) => c.type === 'text')
-            .map((c: any) => c.text)
-          formattedResult = textParts.join('\n\n')
-        } else if (typeof result === 'string') {
-          formattedResult = result
-        } else {
-          // Fallback to JSON for complex objects
-          formattedResult = JSON.stringify(result, null, 2)
-        }
-        
-        // Return the elegantly formatted result
-        return response.replace(toolCallMatch[0], formattedResult)
+        const run = await this.runTool(toolCall.tool, toolCall.parameters || {}, context)
+        console.log('[LLMManager] Tool execution result:', run.text.substring(0, 200))
+
+        return response.replace(toolCallMatch[0], run.text)
       }
     } catch (error) {
       console.error('[LLMManager] Tool execution failed:', error)
@@ -699,6 +819,13 @@ class LLMManager extends EventEmitter {
   async chatWithOllama(model: any, messages: any, options: any = {}): Promise<unknown> {
     const { chatWithOllama } = await import('./ollama.js')
 
+    // Size the window to this request - allocating the full trained context wastes memory
+    const neededTokens = tokenCounter.countMessages(messages, model.id) + (model.parameters.maxTokens || 2048)
+    const numCtx = Math.min(
+      model.contextLength || 8192,
+      Math.max(4096, Math.ceil(neededTokens / 1024) * 1024)
+    )
+
     return await chatWithOllama(
       model.parameters.modelName,
       messages,
@@ -706,7 +833,12 @@ class LLMManager extends EventEmitter {
         temperature: model.parameters.temperature,
         max_tokens: model.parameters.maxTokens,
         onStream: options.onStream,
-        format: options.format  // Pass through structured output schema
+        onUsage: options.onUsage,
+        signal: options.signal,
+        num_ctx: numCtx,
+        format: options.format,  // Pass through structured output schema
+        tools: options.tools,
+        onToolCalls: options.onToolCalls
       }
     )
   }
@@ -745,7 +877,7 @@ class LLMManager extends EventEmitter {
       console.log('[LLMManager] chatWithAnalysis: options.onStream =', typeof options.onStream)
 
       // Call chat() which handles tool execution, and pass through streaming options
-      fullResponse = await this.chat(messages, modelId, options) as string
+      fullResponse = await this.chat(messages, modelId, { ...options, topicId }) as string
 
       console.log('[LLMManager] chatWithAnalysis: chat() returned, fullResponse.length =', fullResponse.length)
 
@@ -893,22 +1025,23 @@ class LLMManager extends EventEmitter {
   async chatWithLMStudio(model: any, messages: any, options: any = {}): Promise<any> {
     const lmstudio: any = await import('./lmstudio.js')
     
-    // Handle streaming if requested
-    if (model.parameters.stream) {
+    // Stream when the caller wants chunks (same contract as Ollama and Claude)
+    if (options.onStream) {
       const stream = lmstudio.streamChatWithLMStudio(
         model.parameters.modelName,
         messages,
         {
           temperature: model.parameters.temperature,
-          max_tokens: model.parameters.maxTokens
+          max_tokens: model.parameters.maxTokens,
+          signal: options.signal,
+          onUsage: options.onUsage
         }
       )
-      
+
       let fullResponse = ''
       for await (const chunk of stream) {
         fullResponse += chunk
-        // Emit streaming event
-        this.onChatStream.emit({ chunk, partial: fullResponse })
+        options.onStream(chunk, false)
       }
       return fullResponse
     }
@@ -919,7 +1052,9 @@ class LLMManager extends EventEmitter {
       messages,
       {
         temperature: model.parameters.temperature,
-        max_tokens: model.parameters.maxTokens
+        max_tokens: model.parameters.maxTokens,
+        signal: options.signal,
+        onUsage: options.onUsage
       }
     )
   }
@@ -950,7 +1085,11 @@ class LLMManager extends EventEmitter {
         apiKey,
         temperature: model.parameters.temperature,
         max_tokens: model.parameters.maxTokens,
-        onStream: options.onStream
+        onStream: options.onStream,
+        onUsage: options.onUsage,
+        signal: options.signal,
+        tools: options.tools,
+        onToolCalls: options.onToolCalls
       }
     )
   }
@@ -978,6 +1117,33 @@ class LLMManager extends EventEmitter {
     return this.models.get(id)
   }
 
+  /**
+   * Context length of a model in tokens.
+   * Ollama models are registered with a placeholder; the real value is read once from /api/show.
+   */
+  async resolveContextLength(modelId: any): Promise<number> {
+    const model = this.models.get(modelId)
+    if (!model) {
+      return 4096
+    }
+
+    if (model.provider === 'ollama' && !model.contextLengthResolved) {
+      const { getOllamaContextLength } = await import('./ollama.js')
+      const contextLength = await getOllamaContextLength(
+        model.parameters.modelName,
+        this.getOllamaBaseUrl(),
+        await this.getOllamaAuthHeaders()
+      )
+      model.contextLengthResolved = true
+      if (contextLength) {
+        model.contextLength = contextLength
+        console.log(`[LLMManager] ${modelId} context length: ${contextLength} tokens`)
+      }
+    }
+
+    return model.contextLength || 4096
+  }
+
   /**
    * Get available models for external consumers
    */
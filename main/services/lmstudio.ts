@@ -11,6 +11,17 @@ interface LLMOptions {
   temperature?: number;
   max_tokens?: number;
   stream?: boolean;
+  signal?: AbortSignal;
+  onUsage?: (usage: { promptTokens?: number, completionTokens?: number }) => void;
+}
+
+function reportUsage(options: LLMOptions, usage: any): void {
+  if (options.onUsage && usage?.prompt_tokens) {
+    options.onUsage({
+      promptTokens: usage.prompt_tokens,
+      completionTokens: usage.completion_tokens
+    })
+  }
 }
 
 /**
@@ -73,6 +84,7 @@ async function chatWithLMStudio(modelName: any, messages: any, options: LLMOptio
       headers: { 
         'Content-Type': 'application/json'
       },
+      signal: options.signal as any,
       body: JSON.stringify(requestBody)
     })
     
@@ -84,6 +96,8 @@ async function chatWithLMStudio(modelName: any, messages: any, options: LLMOptio
     const data = await response.json()
     console.log('[LMStudio] Response received:', data.choices?.[0]?.message?.content?.substring(0, 100) + '...')
     
+    reportUsage(options, data.usage)
+
     if (data.choices && data.choices.length > 0) {
       return data.choices[0].message.content
     }
@@ -112,12 +126,14 @@ async function* streamChatWithLMStudio(modelName: any, messages: any, options: L
       headers: {
         'Content-Type': 'application/json'
       },
+      signal: options.signal as any,
       body: JSON.stringify({
         model: modelName || 'default',
         messages: formattedMessages,
         temperature: options.temperature ?? 0.7,
         max_tokens: options.max_tokens ?? 1000,
-        stream: true
+        stream: true,
+        stream_options: { include_usage: true }
       })
     })
     
@@ -141,6 +157,7 @@ async function* streamChatWithLMStudio(modelName: any, messages: any, options: L
           }
           try {
             const parsed = JSON.parse(data)
+            reportUsage(options, parsed.usage)
             if (parsed.choices?.[0]?.delta?.content) {
               yield parsed.choices[0].delta.content
             }
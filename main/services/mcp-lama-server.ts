@@ -3,7 +3,8 @@ import type { ConnectionsModel } from '@refinio/one.models/lib/models/index.js';
  * LAMA Application MCP Server
  * Provides access to LAMA-specific features like chat, contacts, connections, etc.
  * 
- * This runs in the Node.js main process where it has access to:
+ * This runs in a Node.js process that has booted ONE.core - either the Electron
+ * main process or the standalone entrypoint (lama-mcp-server.ts) - with access to:
  * - ONE.core instance
  * - LLMManager
  * - AIAssistantModel
@@ -12,8 +13,48 @@ import type { ConnectionsModel } from '@refinio/one.models/lib/models/index.js';
 
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import {
+  ListToolsRequestSchema,
+  CallToolRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema
+} from '@modelcontextprotocol/sdk/types.js';
 import { MCPToolInterface } from '../interfaces/tool-interface.js';
 
+// generate_ai_response waits this long for the AI message listener to answer
+const AI_REPLY_TIMEOUT_MS = 180000;
+
+// Resources are addressed as lama://topic/<encoded topic ID>/<kind>
+const RESOURCE_KINDS = ['transcript', 'summary', 'subjects'] as const;
+type ResourceKind = typeof RESOURCE_KINDS[number];
+
+const RESOURCE_DESCRIPTIONS: Record<ResourceKind, { name: string; mimeType: string; description: string }> = {
+  transcript: { name: 'Transcript', mimeType: 'text/plain', description: 'All messages of the topic, oldest first' },
+  summary: { name: 'Summary', mimeType: 'application/json', description: 'Current topic summary with its version history' },
+  subjects: { name: 'Subjects', mimeType: 'application/json', description: 'Subjects of the topic and the keywords linking them' }
+};
+
+const PROMPTS = [
+  {
+    name: 'summarize_topic',
+    description: 'Summarize a LAMA topic from its transcript',
+    arguments: [
+      { name: 'topicId', description: 'The topic to summarize', required: true },
+      { name: 'focus', description: 'Optional aspect to focus the summary on', required: false }
+    ]
+  },
+  {
+    name: 'continue_from_summary',
+    description: 'Pick up a LAMA topic from its summary and subjects instead of the full transcript',
+    arguments: [
+      { name: 'topicId', description: 'The topic to continue', required: true }
+    ]
+  }
+];
+
 export class LamaMCPServer {
   public nodeOneCore: any;
   public server: any;
@@ -30,7 +71,9 @@ export class LamaMCPServer {
       version: '1.0.0'
 }, {
       capabilities: {
-        tools: {}
+        tools: {},
+        resources: {},
+        prompts: {}
       }
     });
     
@@ -38,10 +81,12 @@ export class LamaMCPServer {
     this.toolInterface = new MCPToolInterface(this as any, this.nodeOneCore);
     
     this.setupTools();
+    this.setupResources();
+    this.setupPrompts();
   }
   
   setupTools(): any {
-    this.server.setRequestHandler('tools/list', async () => ({
+    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
       tools: [
         // Chat Tools
         {
@@ -173,7 +218,7 @@ export class LamaMCPServer {
         },
         {
           name: 'generate_ai_response',
-          description: 'Generate an AI response for a message',
+          description: 'Send a message to an AI topic and return the AI reply',
           inputSchema: {
             type: 'object',
             properties: {
@@ -187,7 +232,7 @@ export class LamaMCPServer {
               },
               topicId: {
                 type: 'string',
-                description: 'Optional topic ID for context'
+                description: 'AI topic to post in; a new topic is created when omitted'
               }
             },
             required: ['message', 'modelId']
@@ -196,7 +241,7 @@ export class LamaMCPServer {
       ]
     }));
     
-    this.server.setRequestHandler('tools/call', async (request: any) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request: any) => {
       const { name, arguments: args } = request.params;
       
       if (!this.nodeOneCore) {
@@ -260,6 +305,197 @@ export class LamaMCPServer {
     });
   }
   
+  setupResources(): void {
+    this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
+      const topics = await this.nodeOneCore.topicModel.topics.all();
+      return {
+        resources: topics.flatMap((topic: any) => RESOURCE_KINDS.map(kind => ({
+          uri: this.resourceUri(topic.id, kind),
+          name: `${topic.name || topic.id} - ${RESOURCE_DESCRIPTIONS[kind].name}`,
+          description: RESOURCE_DESCRIPTIONS[kind].description,
+          mimeType: RESOURCE_DESCRIPTIONS[kind].mimeType
+        })))
+      };
+    });
+
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: RESOURCE_KINDS.map(kind => ({
+        uriTemplate: `lama://topic/{topicId}/${kind}`,
+        name: `Topic ${RESOURCE_DESCRIPTIONS[kind].name}`,
+        description: RESOURCE_DESCRIPTIONS[kind].description,
+        mimeType: RESOURCE_DESCRIPTIONS[kind].mimeType
+      }))
+    }));
+
+    this.server.setRequestHandler(ReadResourceRequestSchema, async (request: any) => {
+      const { uri } = request.params;
+      const { topicId, kind } = this.parseResourceUri(uri);
+      return {
+        contents: [
+          {
+            uri,
+            mimeType: RESOURCE_DESCRIPTIONS[kind].mimeType,
+            text: await this.readResource(topicId, kind)
+          }
+        ]
+      };
+    });
+  }
+
+  setupPrompts(): void {
+    this.server.setRequestHandler(ListPromptsRequestSchema, async () => ({ prompts: PROMPTS }));
+
+    this.server.setRequestHandler(GetPromptRequestSchema, async (request: any) => {
+      const { name, arguments: args = {} } = request.params;
+      if (!args.topicId) {
+        throw new Error('topicId is required');
+      }
+
+      switch (name) {
+        case 'summarize_topic':
+          return {
+            description: `Summarize topic ${args.topicId}`,
+            messages: [
+              this.resourceMessage(args.topicId, 'transcript', await this.readResource(args.topicId, 'transcript')),
+              {
+                role: 'user',
+                content: {
+                  type: 'text',
+                  text: 'Summarize the conversation above. List the main subjects, decisions and open questions.' +
+                    (args.focus ? ` Focus on: ${args.focus}` : '')
+                }
+              }
+            ]
+          };
+
+        case 'continue_from_summary':
+          return {
+            description: `Continue topic ${args.topicId} from its summary`,
+            messages: [
+              this.resourceMessage(args.topicId, 'summary', await this.readResource(args.topicId, 'summary')),
+              this.resourceMessage(args.topicId, 'subjects', await this.readResource(args.topicId, 'subjects')),
+              {
+                role: 'user',
+                content: {
+                  type: 'text',
+                  text: 'This is the summary of an earlier conversation and the subjects it covered. ' +
+                    'Continue the conversation from where it left off; ask if something needed is missing from the summary.'
+                }
+              }
+            ]
+          };
+
+        default:
+          throw new Error(`Unknown prompt: ${name}`);
+      }
+    });
+  }
+
+  resourceUri(topicId: string, kind: ResourceKind): string {
+    return `lama://topic/${encodeURIComponent(topicId)}/${kind}`;
+  }
+
+  parseResourceUri(uri: string): { topicId: string; kind: ResourceKind } {
+    const match = uri.match(/^lama:\/\/topic\/([^/]+)\/([a-z]+)$/);
+    if (!match || !RESOURCE_KINDS.includes(match[2] as ResourceKind)) {
+      throw new Error(`Unknown resource: ${uri}`);
+    }
+    return { topicId: decodeURIComponent(match[1]), kind: match[2] as ResourceKind };
+  }
+
+  resourceMessage(topicId: string, kind: ResourceKind, text: string): any {
+    return {
+      role: 'user',
+      content: {
+        type: 'resource',
+        resource: {
+          uri: this.resourceUri(topicId, kind),
+          mimeType: RESOURCE_DESCRIPTIONS[kind].mimeType,
+          text
+        }
+      }
+    };
+  }
+
+  async readResource(topicId: string, kind: ResourceKind): Promise<string> {
+    switch (kind) {
+      case 'transcript':
+        return this.readTranscript(topicId);
+      case 'summary':
+        return JSON.stringify(await this.readSummary(topicId), null, 2);
+      case 'subjects':
+        return JSON.stringify(await this.readSubjectGraph(topicId), null, 2);
+    }
+  }
+
+  async readTranscript(topicId: string): Promise<string> {
+    const topicRoom = await this.nodeOneCore.topicModel.enterTopicRoom(topicId);
+    const messages = await topicRoom.retrieveAllMessages();
+
+    return messages
+      .filter((m: any) => m.data?.text)
+      .map((m: any) => {
+        const sender = m.data.sender || m.author;
+        const name = sender === this.nodeOneCore.ownerId
+          ? 'Me'
+          : this.aiAssistantModel?.getModelIdForPersonId(sender) || String(sender).substring(0, 8);
+        return `[${new Date(m.creationTime).toISOString()}] ${name}: ${m.data.text}`;
+      })
+      .join('\n');
+  }
+
+  async readSummary(topicId: string): Promise<any> {
+    const analysis = this.requireTopicAnalysis();
+    const summaries: any = await analysis.getSummaries(topicId).catch(() => []);
+
+    const versions = summaries.map((s: any) => ({
+      version: s.version,
+      content: s.content,
+      changeReason: s.changeReason,
+      createdAt: s.createdAt,
+      updatedAt: s.updatedAt
+    }));
+
+    return { topicId, current: versions[0] || null, history: versions.slice(1) };
+  }
+
+  /**
+   * Subjects and keywords as a graph: a subject links to each of its keywords.
+   * Subjects reference keywords by ID hash, so keyword hashes are recomputed from their terms.
+   */
+  async readSubjectGraph(topicId: string): Promise<any> {
+    const analysis = this.requireTopicAnalysis();
+    const { calculateIdHashOfObj } = await import('@refinio/one.core/lib/util/object.js');
+    const subjects: any = await analysis.getSubjects(topicId).catch(() => []);
+    const keywords: any = await analysis.getKeywords(topicId).catch(() => []);
+
+    const termByHash = new Map<string, string>();
+    for (const keyword of keywords) {
+      termByHash.set(await calculateIdHashOfObj({ $type$: 'Keyword', term: keyword.term } as any), keyword.term);
+    }
+
+    return {
+      topicId,
+      subjects: subjects.map((s: any) => ({
+        id: s.id,
+        messageCount: s.messageCount,
+        archived: s.archived || false,
+        lastSeenAt: s.lastSeenAt
+      })),
+      keywords: keywords.map((k: any) => ({ term: k.term, frequency: k.frequency, score: k.score })),
+      edges: subjects.flatMap((s: any) => (s.keywords || [])
+        .filter((hash: string) => termByHash.has(hash))
+        .map((hash: string) => ({ subject: s.id, keyword: termByHash.get(hash) })))
+    };
+  }
+
+  requireTopicAnalysis(): any {
+    if (!this.nodeOneCore.topicAnalysisModel) {
+      throw new Error('Topic analysis not initialized');
+    }
+    return this.nodeOneCore.topicAnalysisModel;
+  }
+
   // Chat implementations using ONE.core
   async sendMessage(topicId: any, message: any): Promise<any> {
     try {
@@ -288,13 +524,19 @@ export class LamaMCPServer {
   
   async getMessages(topicId: any, limit = 10): Promise<unknown> {
     try {
-      const messages = await this.nodeOneCore.topicModel.getMessages(topicId, limit);
-      
+      const topicRoom = await this.nodeOneCore.topicModel.enterTopicRoom(topicId);
+      const messages = await topicRoom.retrieveAllMessages();
+
       return {
         content: [
           {
             type: 'text',
-            text: JSON.stringify(messages, null, 2)
+            text: JSON.stringify(messages.slice(-limit).map((m: any) => ({
+              id: m.id,
+              author: m.data?.sender || m.author,
+              text: m.data?.text,
+              created: m.creationTime
+            })), null, 2)
           }
         ]
       };
@@ -312,7 +554,7 @@ export class LamaMCPServer {
   
   async listTopics(): Promise<any> {
     try {
-      const topics = await this.nodeOneCore.topicModel.getTopics();
+      const topics = await this.nodeOneCore.topicModel.topics.all();
       
       return {
         content: [
@@ -321,8 +563,7 @@ export class LamaMCPServer {
             text: JSON.stringify(topics.map((t: any) => ({
               id: t.id,
               name: t.name,
-              type: t.type,
-              memberCount: t.members?.length
+              aiModel: this.aiAssistantModel?.getModelIdForTopic(t.id) || undefined
             })), null, 2)
           }
         ]
@@ -448,7 +689,7 @@ export class LamaMCPServer {
   // LLM implementations
   async listModels(): Promise<any> {
     try {
-      const models = this.aiAssistantModel?.getAvailableLLMModels ? this.aiAssistantModel.getAvailableLLMModels() : [];
+      const models = this.aiAssistantModel?.llmManager?.getAvailableModels() || [];
       
       return {
         content: [
@@ -457,8 +698,8 @@ export class LamaMCPServer {
             text: JSON.stringify(models.map((m: any) => ({
               id: m.id,
               name: m.name,
-              displayName: m.displayName,
-              personId: m.personId
+              provider: m.provider,
+              personId: this.aiAssistantModel.getPersonIdForModel(m.id) || undefined
             })), null, 2)
           }
         ]
@@ -506,11 +747,18 @@ export class LamaMCPServer {
   // AI Assistant implementations
   async createAITopic(modelId: any): Promise<any> {
     try {
-      if (!this.aiAssistantModel) {
+      if (!this.aiAssistantModel || !this.nodeOneCore.topicGroupManager) {
         throw new Error('AI Assistant not initialized');
       }
       
-      const topicId = await this.aiAssistantModel.getOrCreateAITopic(modelId);
+      const aiPersonId = await this.aiAssistantModel.ensureAIContactForModel(modelId);
+      if (!aiPersonId) {
+        throw new Error(`Unknown model: ${modelId}`);
+      }
+
+      const topicId = `topic-${Date.now()}`;
+      await this.nodeOneCore.topicGroupManager.createGroupTopic(`Chat with ${modelId}`, topicId, [aiPersonId]);
+      this.aiAssistantModel.registerAITopic(topicId, modelId);
       
       return {
         content: [
@@ -532,17 +780,29 @@ export class LamaMCPServer {
     }
   }
   
+  /**
+   * Post the message to an AI topic as the instance owner and wait for the reply
+   * of the AI message listener. Without a topic ID a new topic is created for the model.
+   */
   async generateAIResponse(message: any, modelId: any, topicId: any): Promise<any> {
     try {
       if (!this.aiAssistantModel) {
         throw new Error('AI Assistant not initialized');
       }
-      
-      const response = await this.aiAssistantModel.generateResponse({
-        message,
-        modelId,
-        topicId
-      });
+
+      if (!topicId) {
+        const created = await this.createAITopic(modelId);
+        const match = created.content[0].text.match(/AI topic created: (\S+)/);
+        if (!match) {
+          throw new Error(created.content[0].text);
+        }
+        topicId = match[1];
+      }
+
+      const topicRoom = await this.nodeOneCore.topicModel.enterTopicRoom(topicId);
+      const sent = Date.now();
+      await topicRoom.sendMessage(message);
+      const response = await this.waitForAIReply(topicRoom, sent);
       
       return {
         content: [
@@ -563,11 +823,62 @@ export class LamaMCPServer {
       };
     }
   }
+
+  /**
+   * Resolves with the first AI message in the topic since the given time.
+   * The topic is only read again when its channel changes.
+   */
+  async waitForAIReply(topicRoom: any, since: number, timeoutMs = AI_REPLY_TIMEOUT_MS): Promise<string> {
+    const topicId = topicRoom.topic?.id;
+
+    return new Promise((resolve, reject) => {
+      let done = false;
+      let checking = Promise.resolve();
+
+      const finish = (error: Error | null, text?: string) => {
+        if (done) return;
+        done = true;
+        clearTimeout(timer);
+        unsubscribe?.();
+        if (error) {
+          reject(error);
+        } else {
+          resolve(text!);
+        }
+      };
+
+      const check = () => {
+        checking = checking.then(async () => {
+          if (done) return;
+          const messages = await topicRoom.retrieveAllMessages();
+          const reply = messages.find((m: any) =>
+            new Date(m.creationTime).getTime() >= since &&
+            this.aiAssistantModel.isAIPerson(m.data?.sender || m.author) &&
+            m.data?.text
+          );
+          if (reply) {
+            finish(null, reply.data.text);
+          }
+        }).catch(error => finish(error));
+      };
+
+      const timer = setTimeout(() => finish(new Error(`No AI reply within ${timeoutMs / 1000}s`)), timeoutMs);
+      const unsubscribe = this.nodeOneCore.channelManager.onUpdated(
+        (_channelInfoIdHash: any, channelId: string) => {
+          if (channelId === topicId) check();
+        }
+      );
+
+      // The reply may have been stored before we subscribed
+      check();
+    });
+  }
   
   async start(): Promise<any> {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
-    console.log('[LamaMCPServer] ✅ LAMA MCP Server started');
+    // stdout carries the protocol - log to stderr
+    console.error('[LamaMCPServer] ✅ LAMA MCP Server started');
   }
 }
 
@@ -6,53 +6,44 @@
 
 import { Client } from '@modelcontextprotocol/sdk/client/index.js';
 import { StdioClientTransport } from '@modelcontextprotocol/sdk/client/stdio.js';
-import path from 'path';
-import { fileURLToPath } from 'url';
-import os from 'os';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { toNativeToolName, type ToolDefinition } from './tool-calls.js';
+import mcpServerRegistry, { type MCPServerConfig } from './mcp-server-registry.js';
 
 interface MCPTool {
   name: string;
   fullName: string;
   description?: string;
   inputSchema?: any;
+  annotations?: any;  // MCP tool hints, e.g. readOnlyHint
   server?: string;
 }
 
+export interface MCPServerStatus extends MCPServerConfig {
+  running: boolean;
+  toolCount: number;
+  error?: string;  // Last connection error
+}
+
 class MCPManager {
   public clients: Map<string, any>;
   public servers: any[];
   public tools: Map<string, MCPTool>;
+  public serverErrors: Map<string, string>;
   public isInitialized: boolean;
 
   constructor() {
     this.clients = new Map();
     this.tools = new Map();
+    this.serverErrors = new Map();
     this.servers = [];
     this.isInitialized = false;
   }
 
-  getServerConfigurations(): any {
-    const projectRoot = path.resolve(__dirname, '../..');
-    const homeDir = os.homedir();
-    
-    return [
-      {
-        name: 'filesystem',
-        command: 'npx',
-        args: ['-y', '@modelcontextprotocol/server-filesystem', projectRoot],
-        description: 'File system operations for the project directory'
-      }
-      // Shell server not yet available in npm registry
-      // {
-      //   name: 'shell',
-      //   command: 'npx',
-      //   args: ['-y', '@modelcontextprotocol/server-shell'],
-      //   description: 'Shell command execution'
-      // }
-    ];
+  /**
+   * Configured servers - see mcp-server-registry.ts
+   */
+  getServerConfigurations(): MCPServerConfig[] {
+    return mcpServerRegistry.list();
   }
 
   async init(): Promise<any> {
@@ -64,7 +55,7 @@ class MCPManager {
     console.log('[MCPManager] Initializing MCP servers...');
     this.servers = this.getServerConfigurations();
     
-    for (const server of this.servers) {
+    for (const server of this.servers.filter((s: MCPServerConfig) => s.enabled && !this.clients.has(s.name))) {
       try {
         await this.connectToServer(server);
       } catch (error) {
@@ -85,8 +76,9 @@ class MCPManager {
         args: server.args,
         env: {
           ...process.env,
-          // Add any required environment variables
-        }
+          ...(server.env || {})
+        } as Record<string, string>,
+        ...(server.cwd ? { cwd: server.cwd } : {})
       });
       
       const client = new Client({
@@ -113,6 +105,7 @@ class MCPManager {
               name: tool.name,
               description: tool.description || '',
               inputSchema: tool.inputSchema,
+              annotations: tool.annotations,
               server: server.name,
               fullName: toolKey
             });
@@ -127,13 +120,91 @@ class MCPManager {
         console.warn(`[MCPManager] Failed to list tools for ${server.name}:`, (error as Error).message);
       }
       
+      this.serverErrors.delete(server.name);
       console.log(`[MCPManager] Connected to ${server.name} successfully`);
     } catch (error) {
+      this.serverErrors.set(server.name, (error as Error).message);
       console.error(`[MCPManager] Failed to connect to ${server.name}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Start a configured server without restarting the app
+   */
+  async startServer(name: string): Promise<void> {
+    const server = mcpServerRegistry.get(name);
+    if (!server) {
+      throw new Error(`MCP server ${name} is not configured`);
+    }
+    if (this.clients.has(name)) {
+      await this.stopServer(name);
+    }
+    await this.connectToServer(server);
+  }
+
+  /**
+   * Stop a running server and drop its tools
+   */
+  async stopServer(name: string): Promise<void> {
+    const serverData = this.clients.get(name);
+    this.serverErrors.delete(name);
+    if (!serverData) return;
+
+    this.clients.delete(name);
+    for (const [key, tool] of this.tools) {
+      if (tool.server === name) {
+        this.tools.delete(key);
+      }
+    }
+
+    try {
+      await serverData.client.close();
+      console.log(`[MCPManager] Stopped ${name}`);
+    } catch (error) {
+      console.error(`[MCPManager] Error closing ${name}:`, error);
+    }
+  }
+
+  /**
+   * Bring running servers in line with the registry:
+   * start enabled servers, stop disabled and removed ones
+   */
+  async syncWithRegistry(): Promise<void> {
+    this.servers = this.getServerConfigurations();
+    const enabled = new Set(this.servers.filter((s: MCPServerConfig) => s.enabled).map((s: MCPServerConfig) => s.name));
+
+    for (const name of Array.from(this.clients.keys())) {
+      if (!enabled.has(name)) {
+        await this.stopServer(name);
+      }
+    }
+
+    for (const name of enabled) {
+      if (!this.clients.has(name)) {
+        try {
+          await this.startServer(name);
+        } catch (error) {
+          console.error(`[MCPManager] Failed to start ${name}:`, (error as Error).message);
+        }
+      }
+    }
+
+    console.log(`[MCPManager] Synced with registry: ${this.clients.size} servers, ${this.tools.size} tools`);
+  }
+
+  /**
+   * Configured servers with their runtime state
+   */
+  getServerStatus(): MCPServerStatus[] {
+    return this.getServerConfigurations().map(server => ({
+      ...server,
+      running: this.clients.has(server.name),
+      toolCount: Array.from(this.tools.values()).filter(tool => tool.server === server.name).length,
+      error: this.serverErrors.get(server.name)
+    }));
+  }
+
   async shutdown(): Promise<any> {
     console.log('[MCPManager] Shutting down MCP servers...');
     
@@ -191,6 +262,25 @@ class MCPManager {
     return description;
   }
 
+  /**
+   * Tools as native definitions for providers with tool calling (Claude, Ollama)
+   */
+  getToolDefinitions(): ToolDefinition[] {
+    return this.getAvailableTools().map((tool: MCPTool) => ({
+      name: toNativeToolName(tool.fullName),
+      description: tool.description || '',
+      inputSchema: tool.inputSchema || { type: 'object', properties: {} }
+    }));
+  }
+
+  /**
+   * Map a native tool name from a model back to the MCP tool name
+   */
+  resolveToolName(nativeName: string): string {
+    const tool = Array.from(this.tools.values()).find(t => toNativeToolName(t.fullName) === nativeName);
+    return tool ? tool.fullName : nativeName;
+  }
+
   async executeTool(toolName: any, parameters: any): Promise<any> {
     const tool = this.tools.get(toolName);
     if (!tool) {
@@ -0,0 +1,193 @@
+/**
+ * MCP Server Registry
+ * User-configurable list of stdio MCP servers, persisted as versioned ONE objects.
+ *
+ * Until ONE.core storage is available (before provisioning) the registry serves
+ * the built-in defaults; load() replaces them with the stored configuration.
+ */
+
+import path from 'path';
+import { fileURLToPath } from 'url';
+import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js';
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = path.dirname(__filename);
+
+export interface MCPServerConfig {
+  name: string;
+  command: string;
+  args: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  description?: string;
+  enabled: boolean;
+}
+
+const REGISTRY_ID = 'mcp-servers';
+
+// Server names prefix tool names ("name:tool"), so no colons or spaces
+const SERVER_NAME_PATTERN = /^[a-zA-Z0-9_-]{1,32}$/;
+
+class MCPServerRegistry {
+  public servers: Map<string, MCPServerConfig>;
+  public isLoaded: boolean;
+
+  constructor() {
+    this.servers = new Map();
+    this.isLoaded = false;
+    for (const server of this.getDefaultServers()) {
+      this.servers.set(server.name, server);
+    }
+  }
+
+  /**
+   * Servers configured on first start
+   */
+  getDefaultServers(): MCPServerConfig[] {
+    const projectRoot = path.resolve(__dirname, '../..');
+
+    return [
+      {
+        name: 'filesystem',
+        command: 'npx',
+        args: ['-y', '@modelcontextprotocol/server-filesystem', projectRoot],
+        description: 'File system operations for the project directory',
+        enabled: true
+      }
+    ];
+  }
+
+  list(): MCPServerConfig[] {
+    return Array.from(this.servers.values());
+  }
+
+  get(name: string): MCPServerConfig | undefined {
+    return this.servers.get(name);
+  }
+
+  /**
+   * Load the stored registry. On first run the defaults are stored.
+   */
+  async load(): Promise<MCPServerConfig[]> {
+    const registryHash = await calculateIdHashOfObj({ $type$: 'MCPServerRegistry', name: REGISTRY_ID } as any);
+    let names: string[] | null = null;
+    try {
+      const stored: any = await getObjectByIdHash(registryHash);
+      names = stored?.obj?.servers || null;
+    } catch (error) {
+      // Nothing stored yet
+    }
+
+    if (!names) {
+      console.log('[MCPServerRegistry] No stored registry, storing defaults');
+      for (const server of this.list()) {
+        await this.storeServer(server);
+      }
+      await this.storeRegistry();
+      this.isLoaded = true;
+      return this.list();
+    }
+
+    const servers = new Map<string, MCPServerConfig>();
+    for (const name of names) {
+      try {
+        const idHash = await calculateIdHashOfObj({ $type$: 'MCPServer', name } as any);
+        const stored: any = await getObjectByIdHash(idHash);
+        if (stored?.obj) {
+          const { command, args, env, cwd, description, enabled } = stored.obj;
+          servers.set(name, { name, command, args: args || [], env, cwd, description, enabled });
+        }
+      } catch (error) {
+        console.warn(`[MCPServerRegistry] Could not load server ${name}:`, (error as Error).message);
+      }
+    }
+
+    this.servers = servers;
+    this.isLoaded = true;
+    console.log(`[MCPServerRegistry] Loaded ${servers.size} servers`);
+    return this.list();
+  }
+
+  /**
+   * Add or update a server
+   */
+  async save(config: MCPServerConfig): Promise<MCPServerConfig> {
+    if (!SERVER_NAME_PATTERN.test(config.name || '')) {
+      throw new Error('Server name may only contain letters, digits, "-" and "_" (max 32)');
+    }
+    if (!config.command || !config.command.trim()) {
+      throw new Error('Server command is required');
+    }
+    if (!this.isLoaded) {
+      await this.load();
+    }
+
+    const server: MCPServerConfig = {
+      name: config.name,
+      command: config.command.trim(),
+      args: (config.args || []).map(arg => String(arg)),
+      enabled: config.enabled !== false
+    };
+    if (config.env && Object.keys(config.env).length > 0) server.env = config.env;
+    if (config.cwd) server.cwd = config.cwd;
+    if (config.description) server.description = config.description;
+
+    const isNew = !this.servers.has(server.name);
+    this.servers.set(server.name, server);
+    await this.storeServer(server);
+    if (isNew) {
+      await this.storeRegistry();
+    }
+
+    console.log(`[MCPServerRegistry] Saved server ${server.name} (${server.enabled ? 'enabled' : 'disabled'})`);
+    return server;
+  }
+
+  /**
+   * Remove a server from the registry
+   */
+  async remove(name: string): Promise<boolean> {
+    if (!this.isLoaded) {
+      await this.load();
+    }
+    if (!this.servers.delete(name)) {
+      return false;
+    }
+    await this.storeRegistry();
+    console.log(`[MCPServerRegistry] Removed server ${name}`);
+    return true;
+  }
+
+  private async storeServer(server: MCPServerConfig): Promise<void> {
+    const now = Date.now();
+    let created = now;
+    try {
+      const idHash = await calculateIdHashOfObj({ $type$: 'MCPServer', name: server.name } as any);
+      const existing: any = await getObjectByIdHash(idHash);
+      created = existing?.obj?.created || now;
+    } catch (error) {
+      // First version of this server
+    }
+
+    await storeVersionedObject({
+      $type$: 'MCPServer',
+      ...server,
+      created,
+      modified: now
+    } as any);
+  }
+
+  private async storeRegistry(): Promise<void> {
+    await storeVersionedObject({
+      $type$: 'MCPServerRegistry',
+      name: REGISTRY_ID,
+      servers: Array.from(this.servers.keys()),
+      updated: Date.now()
+    } as any);
+  }
+}
+
+// Export singleton instance
+const mcpServerRegistry = new MCPServerRegistry();
+export default mcpServerRegistry;
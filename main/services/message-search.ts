@@ -0,0 +1,415 @@
+/**
+ * Message Search Service
+ * Full-text search over the messages of all topics.
+ *
+ * The peer message listener hands the new entries of every channel update to
+ * indexChannelEntries(), the AI message listener the messages it reads anyway to
+ * indexMessages(); unseen messages are tokenized into the in-memory InvertedIndex and
+ * persisted as SearchDocument objects, so the index survives restarts without
+ * re-reading every topic. On the first start all existing topics are backfilled.
+ *
+ * Edits are versions, not channel entries - the chat handler reindexes them through
+ * updateMessageText(). Each flush stores the ids it added as a SearchIndexBatch.
+ */
+
+import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js';
+import { storeUnversionedObject, getObject } from '@refinio/one.core/lib/storage-unversioned-objects.js';
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+import { InvertedIndex, tokenize, type IndexedDocument } from './inverted-index.js';
+
+export interface MessageSearchQuery {
+  query: string;
+  topicId?: string;
+  sender?: string;
+  from?: number | string;      // Date, inclusive
+  to?: number | string;        // Date, inclusive
+  hasAttachment?: boolean;
+  isAI?: boolean;
+  limit?: number;
+}
+
+export interface MessageSearchResult {
+  messageId: string;
+  topicId: string;
+  sender: string;
+  isAI: boolean;
+  hasAttachment: boolean;
+  timestamp: number;
+  snippet: string;
+  score: number;
+}
+
+const INDEX_ID = 'messages';
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+// Characters of context shown around the first match
+const SNIPPET_CONTEXT = 60;
+// New documents are collected for this long before they are stored
+const STORE_DELAY_MS = 2000;
+
+/**
+ * Topic ID as indexed - P2P channel ids are sorted the same way the UI sorts them
+ */
+export function normalizeTopicId(topicId: string): string {
+  return topicId.includes('<->') ? topicId.split('<->').sort().join('<->') : topicId;
+}
+
+class MessageSearchService {
+  public index: InvertedIndex;
+  public isLoaded: boolean;
+
+  private nodeOneCore: any;
+  private messageHashes: Map<string, string>;
+  private storedIds: Set<string>;
+  private head: string | null;
+  private pending: Map<string, IndexedDocument>;
+  private storeTimer: NodeJS.Timeout | null;
+  private queue: Promise<void>;
+
+  constructor() {
+    this.index = new InvertedIndex();
+    this.isLoaded = false;
+    this.nodeOneCore = null;
+    this.messageHashes = new Map();
+    this.storedIds = new Set();
+    this.head = null;
+    this.pending = new Map();
+    this.storeTimer = null;
+    this.queue = Promise.resolve();
+  }
+
+  /**
+   * Load the stored index; backfill all topics when nothing was indexed yet
+   */
+  async init(nodeOneCore: any): Promise<void> {
+    this.nodeOneCore = nodeOneCore;
+    await this.load();
+
+    if (this.index.size === 0) {
+      this.reindexAll().catch(error => {
+        console.warn('[MessageSearch] Backfill failed:', error.message);
+      });
+    }
+  }
+
+  shutdown(): void {
+    if (this.storeTimer) {
+      clearTimeout(this.storeTimer);
+      this.storeTimer = null;
+    }
+    this.pending.clear();
+  }
+
+  async load(): Promise<void> {
+    const indexHash = await calculateIdHashOfObj({ $type$: 'SearchIndex', name: INDEX_ID } as any);
+    let legacyIds: string[] = [];
+    this.head = null;
+    try {
+      const stored: any = await getObjectByIdHash(indexHash);
+      legacyIds = stored?.obj?.messageIds || [];
+      this.head = stored?.obj?.head || null;
+    } catch (error) {
+      // Nothing stored yet
+    }
+
+    this.index.clear();
+    this.messageHashes.clear();
+    this.storedIds = new Set(legacyIds);
+
+    let batchHash = this.head;
+    while (batchHash) {
+      try {
+        const batch: any = await getObject(batchHash as any);
+        for (const messageId of batch.messageIds || []) this.storedIds.add(messageId);
+        batchHash = batch.previous || null;
+      } catch (error) {
+        console.warn(`[MessageSearch] Could not load id batch ${batchHash}:`, (error as Error).message);
+        break;
+      }
+    }
+
+    // Indexes stored before id batches listed every id - move them into a batch once
+    if (legacyIds.length > 0) {
+      await this.storeIndex(legacyIds);
+    }
+
+    for (const messageId of this.storedIds) {
+      try {
+        const idHash = await calculateIdHashOfObj({ $type$: 'SearchDocument', messageId } as any);
+        const stored: any = await getObjectByIdHash(idHash);
+        const document = stored?.obj;
+        if (document) {
+          this.index.add(messageId, document.terms, {
+            topicId: document.topicId,
+            sender: document.sender,
+            isAI: document.isAI,
+            hasAttachment: document.hasAttachment,
+            timestamp: document.timestamp
+          });
+          this.messageHashes.set(messageId, document.messageHash);
+        }
+      } catch (error) {
+        console.warn(`[MessageSearch] Could not load search document ${messageId}:`, (error as Error).message);
+      }
+    }
+
+    this.isLoaded = true;
+    console.log(`[MessageSearch] Loaded ${this.index.size} indexed messages`);
+  }
+
+  /**
+   * Index the messages of a topic that are not indexed yet.
+   * Takes the ObjectData entries returned by topicRoom.retrieveAllMessages().
+   */
+  indexMessages(topicId: string, messages: any[]): number {
+    let added = 0;
+    for (const message of messages || []) {
+      const messageId = message.id || message.channelEntryHash;
+      if (this.addMessage(topicId, messageId, message.data, message.dataHash, message.author, message.creationTime)) {
+        added++;
+      }
+    }
+
+    if (added > 0) {
+      this.scheduleStore();
+    }
+    return added;
+  }
+
+  /**
+   * Index the new ChatMessages of a channel update (the data of channelManager.onUpdated),
+   * without reading the whole topic
+   */
+  async indexChannelEntries(topicId: string, entries: any[]): Promise<number> {
+    let added = 0;
+    for (const entry of entries || []) {
+      if (!entry.isNew || !entry.dataHash || !entry.channelInfoIdHash || !entry.channelEntryHash) continue;
+
+      // The entry id retrieveAllMessages() and the UI use for this message
+      const messageId = `${entry.channelInfoIdHash}_${entry.channelEntryHash}`;
+      if (this.index.has(messageId)) continue;
+
+      let obj: any;
+      try {
+        obj = await getObject(entry.dataHash);
+      } catch (error) {
+        continue;
+      }
+      if (obj?.$type$ !== 'ChatMessage') continue;
+
+      if (this.addMessage(topicId, messageId, obj, entry.dataHash, entry.author, entry.creationTime)) {
+        added++;
+      }
+    }
+
+    if (added > 0) {
+      this.scheduleStore();
+    }
+    return added;
+  }
+
+  /**
+   * Reindex an edited message with the text of its new version
+   */
+  updateMessageText(messageId: string, text: string, versionHash: string): boolean {
+    const document = this.index.get(messageId);
+    if (!document || typeof text !== 'string') return false;
+
+    const { id, terms, ...meta } = document;
+    this.pending.set(messageId, this.index.add(messageId, tokenize(text), meta));
+    // Snippets are read from the version, which has a text like the ChatMessage
+    this.messageHashes.set(messageId, versionHash);
+    this.scheduleStore();
+    return true;
+  }
+
+  /**
+   * The indexed message as a first version, for messages that were never edited
+   */
+  async getMessage(messageId: string): Promise<{ hash: string; text: string; sender: string; timestamp: number } | null> {
+    const document = this.index.get(messageId);
+    const hash = this.messageHashes.get(messageId);
+    if (!document || !hash) return null;
+
+    try {
+      const message: any = await getObject(hash as any);
+      return { hash, text: message?.text || '', sender: document.sender, timestamp: document.timestamp };
+    } catch (error) {
+      return null;
+    }
+  }
+
+  /**
+   * Index every message of every topic
+   */
+  async reindexAll(): Promise<number> {
+    const topicModel = this.nodeOneCore?.topicModel;
+    if (!topicModel) {
+      throw new Error('ONE.core not initialized');
+    }
+
+    let added = 0;
+    const topics = await topicModel.topics.all();
+    for (const topic of topics) {
+      try {
+        const topicRoom = await topicModel.enterTopicRoom(topic.id);
+        const messages = await topicRoom.retrieveAllMessages();
+        added += this.indexMessages(topic.id, messages);
+      } catch (error) {
+        console.warn(`[MessageSearch] Could not index topic ${topic.id}:`, (error as Error).message);
+      }
+    }
+    console.log(`[MessageSearch] Indexed ${added} messages from ${topics.length} topics`);
+    return added;
+  }
+
+  async search(query: MessageSearchQuery): Promise<MessageSearchResult[]> {
+    const limit = Math.min(Math.max(query.limit || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const hits = this.index.search(query.query || '', {
+      topicId: query.topicId ? normalizeTopicId(query.topicId) : undefined,
+      sender: query.sender || undefined,
+      from: this.toTime(query.from),
+      to: this.toTime(query.to),
+      hasAttachment: query.hasAttachment,
+      isAI: query.isAI
+    }, limit);
+
+    const terms = tokenize(query.query || '');
+    const results: MessageSearchResult[] = [];
+    for (const hit of hits) {
+      results.push({
+        messageId: hit.id,
+        topicId: hit.document.topicId,
+        sender: hit.document.sender,
+        isAI: hit.document.isAI,
+        hasAttachment: hit.document.hasAttachment,
+        timestamp: hit.document.timestamp,
+        snippet: await this.snippet(hit.id, terms),
+        score: hit.score
+      });
+    }
+    return results;
+  }
+
+  /**
+   * Indexed messages of a topic
+   */
+  topicDocuments(topicId: string): IndexedDocument[] {
+    return this.index.filter({ topicId: normalizeTopicId(topicId) });
+  }
+
+  getStatus(): { count: number; pending: number; isLoaded: boolean } {
+    return { count: this.index.size, pending: this.pending.size, isLoaded: this.isLoaded };
+  }
+
+  /**
+   * Text around the first matching term, or the start of the message
+   */
+  async snippet(messageId: string, terms: string[]): Promise<string> {
+    const messageHash = this.messageHashes.get(messageId);
+    if (!messageHash) return '';
+
+    let text = '';
+    try {
+      const message: any = await getObject(messageHash as any);
+      text = message?.text || '';
+    } catch (error) {
+      return '';
+    }
+
+    const lower = text.toLowerCase();
+    const positions = terms.map(term => lower.indexOf(term)).filter(position => position >= 0);
+    const position = positions.length > 0 ? Math.min(...positions) : 0;
+    const start = Math.max(0, position - SNIPPET_CONTEXT);
+    const end = Math.min(text.length, position + SNIPPET_CONTEXT * 2);
+    return `${start > 0 ? '…' : ''}${text.substring(start, end).trim()}${end < text.length ? '…' : ''}`;
+  }
+
+  private addMessage(topicId: string, messageId: string, data: any, dataHash: string, author: string, creationTime: any): boolean {
+    const text = data?.text;
+    if (!messageId || this.index.has(messageId) || typeof text !== 'string' || !text.trim()) return false;
+
+    const sender = String(data?.sender || author || '');
+    const document = this.index.add(messageId, tokenize(text), {
+      topicId: normalizeTopicId(topicId),
+      sender,
+      isAI: this.isAISender(sender),
+      hasAttachment: Array.isArray(data?.attachments) && data.attachments.length > 0,
+      timestamp: creationTime ? new Date(creationTime).getTime() : Date.now()
+    });
+    this.messageHashes.set(messageId, dataHash || '');
+    this.pending.set(messageId, document);
+    return true;
+  }
+
+  private isAISender(sender: string): boolean {
+    try {
+      return !!sender && !!this.nodeOneCore?.aiAssistantModel?.isAIPerson(sender);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private toTime(value: number | string | undefined): number | undefined {
+    if (value === undefined || value === null || value === '') return undefined;
+    const time = typeof value === 'number' ? value : new Date(value).getTime();
+    return Number.isNaN(time) ? undefined : time;
+  }
+
+  private scheduleStore(): void {
+    if (this.storeTimer) return;
+    this.storeTimer = setTimeout(() => {
+      this.storeTimer = null;
+      this.queue = this.queue.then(() => this.storePending()).catch(error => {
+        console.warn('[MessageSearch] Failed to store search documents:', error.message);
+      });
+    }, STORE_DELAY_MS);
+  }
+
+  private async storePending(): Promise<void> {
+    const documents = Array.from(this.pending.values());
+    this.pending.clear();
+    if (documents.length === 0) return;
+
+    for (const document of documents) {
+      await storeVersionedObject({
+        $type$: 'SearchDocument',
+        messageId: document.id,
+        messageHash: this.messageHashes.get(document.id) || '',
+        topicId: document.topicId,
+        sender: document.sender,
+        isAI: document.isAI,
+        hasAttachment: document.hasAttachment,
+        timestamp: document.timestamp,
+        terms: document.terms
+      } as any);
+    }
+
+    const newIds = documents.map(document => document.id).filter(id => !this.storedIds.has(id));
+    if (newIds.length > 0) {
+      await this.storeIndex(newIds);
+    }
+  }
+
+  /**
+   * Store the given message ids as a new batch and point the index to it
+   */
+  private async storeIndex(newIds: string[]): Promise<void> {
+    const batch: any = { $type$: 'SearchIndexBatch', messageIds: newIds, created: Date.now() };
+    if (this.head) batch.previous = this.head;
+    const result = await storeUnversionedObject(batch);
+    this.head = String(result.hash);
+    for (const id of newIds) this.storedIds.add(id);
+
+    await storeVersionedObject({
+      $type$: 'SearchIndex',
+      name: INDEX_ID,
+      head: this.head,
+      updated: Date.now()
+    } as any);
+  }
+}
+
+// Export singleton instance
+const messageSearchService = new MessageSearchService();
+export default messageSearchService;
@@ -75,10 +75,61 @@ async function testOllamaModel(modelName: any, baseUrl: string = 'http://localho
   }
 }
 
+/**
+ * Read a model's trained context length from /api/show (model_info "<arch>.context_length")
+ */
+async function getOllamaContextLength(modelName: any, baseUrl: string = 'http://localhost:11434', authHeaders?: Record<string, string>): Promise<number | null> {
+  try {
+    const response: any = await fetch(`${baseUrl}/api/show`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(authHeaders || {})
+      },
+      body: JSON.stringify({ model: modelName })
+    })
+
+    if (!response.ok) {
+      return null
+    }
+
+    const json: any = await response.json()
+    const modelInfo = json.model_info || {}
+    const key = Object.keys(modelInfo).find(k => k.endsWith('.context_length'))
+    return key ? Number(modelInfo[key]) || null : null
+  } catch (error) {
+    console.log(`[Ollama] Could not read context length for ${modelName}:`, (error as Error).message)
+    return null
+  }
+}
+
+/**
+ * Convert a chat message to Ollama format - tool calls and tool results have their own fields
+ */
+function toOllamaMessage(msg: any): any {
+  if (msg.role === 'assistant' && msg.toolCalls?.length) {
+    return {
+      role: 'assistant',
+      content: msg.content || '',
+      tool_calls: msg.toolCalls.map((call: any) => ({
+        function: { name: call.name, arguments: call.arguments }
+      }))
+    }
+  }
+  if (msg.role === 'tool') {
+    return { role: 'tool', content: msg.content, tool_name: msg.toolName }
+  }
+  return msg
+}
+
 /**
  * Chat with Ollama using the /api/chat endpoint
  *
  * @param options.format - Optional JSON schema for structured outputs (Ollama native)
+ * @param options.signal - Optional AbortSignal to cancel the request
+ * @param options.num_ctx - Context window to allocate (Ollama defaults to a small window otherwise)
+ * @param options.onUsage - Receives prompt/completion token counts reported by Ollama
+ * @param options.tools - Native tool definitions; requested calls are reported via options.onToolCalls
  */
 async function chatWithOllama(
   modelName: any,
@@ -94,12 +145,20 @@ async function chatWithOllama(
   activeRequests.set(requestId, controller)
   console.log(`[Ollama] Starting request ${requestId} to ${baseUrl}`)
 
+  // Let the caller abort this request (stop generation)
+  if (options.signal) {
+    if (options.signal.aborted) {
+      controller.abort()
+    } else {
+      options.signal.addEventListener('abort', () => controller.abort(), { once: true })
+    }
+  }
+
   try {
-    // Keep conversation structure for better context
+    // Keep conversation structure - callers already fit the history to the context window
     const systemMessages = messages.filter((msg: any) => msg.role === 'system')
     const nonSystemMessages = messages.filter((msg: any) => msg.role !== 'system')
-    const recentNonSystemMessages = nonSystemMessages.slice(-10) // Keep more context
-    const formattedMessages = [...systemMessages, ...recentNonSystemMessages]
+    const formattedMessages = [...systemMessages, ...nonSystemMessages].map(toOllamaMessage)
 
     const startTime = Date.now()
 
@@ -121,10 +180,43 @@ async function chatWithOllama(
         temperature: options.temperature || 0.7,
         num_predict: options.max_tokens || 2048,
         top_k: 40,
-        top_p: 0.95
+        top_p: 0.95,
+        ...(options.num_ctx ? { num_ctx: options.num_ctx } : {})
       }
     };
 
+    if (options.tools?.length) {
+      requestBody.tools = options.tools.map((tool: any) => ({
+        type: 'function',
+        function: {
+          name: tool.name,
+          description: tool.description,
+          parameters: tool.inputSchema
+        }
+      }))
+    }
+
+    // Tool calls can arrive in any chunk of a streamed response
+    const toolCalls: any[] = []
+    const collectToolCalls = (json: any) => {
+      for (const call of json.message?.tool_calls || []) {
+        toolCalls.push({
+          id: call.id || `call-${toolCalls.length + 1}`,
+          name: call.function?.name,
+          arguments: call.function?.arguments || {}
+        })
+      }
+    }
+
+    const reportUsage = (json: any) => {
+      if (options.onUsage && json.done && json.prompt_eval_count) {
+        options.onUsage({
+          promptTokens: json.prompt_eval_count,
+          completionTokens: json.eval_count
+        })
+      }
+    }
+
     // Add format parameter for structured outputs (Ollama native)
     if (options.format) {
       requestBody.format = options.format;
@@ -143,14 +235,23 @@ async function chatWithOllama(
     })
     
     if (!response.ok) {
-      throw new Error(`Ollama API error: ${response.statusText}`)
+      // The body names the cause, e.g. "<model> does not support tools"
+      const detail = await response.text().catch(() => '')
+      throw new Error(`Ollama API error: ${response.statusText}${detail ? ` - ${detail}` : ''}`)
     }
 
     // Non-streaming response (for structured outputs)
     if (!useStreaming) {
       const json = await response.json()
+      reportUsage(json)
+      collectToolCalls(json)
       const content = json.message?.content || ''
       console.log(`[Ollama] Non-streaming response: ${content.substring(0, 200)}...`)
+      if (toolCalls.length > 0) {
+        activeRequests.delete(requestId)
+        options.onToolCalls?.(toolCalls)
+        return content
+      }
       if (!content) {
         throw new Error('Ollama generated no response')
       }
@@ -179,6 +280,8 @@ async function chatWithOllama(
 
         try {
           const json = JSON.parse(line)
+          reportUsage(json)
+          collectToolCalls(json)
           // Chat endpoint uses 'message.content' instead of 'response'
           if (json.message && json.message.content) {
             const content = json.message.content
@@ -205,6 +308,8 @@ async function chatWithOllama(
     if (buffer.trim()) {
       try {
         const json = JSON.parse(buffer)
+        reportUsage(json)
+        collectToolCalls(json)
         if (json.message && json.message.content) {
           const content = json.message.content
           fullResponse += content
@@ -220,6 +325,13 @@ async function chatWithOllama(
     const responseTime = Date.now() - startTime
     console.log(`[Ollama] ⏱️ Full response completed in ${responseTime}ms`)
 
+    if (toolCalls.length > 0) {
+      activeRequests.delete(requestId)
+      console.log(`[Ollama] Request ${requestId} asked for ${toolCalls.length} tool call(s)`)
+      options.onToolCalls?.(toolCalls)
+      return fullResponse
+    }
+
     // Handle empty response - fail fast, no fallback
     if (!fullResponse || fullResponse === '') {
       throw new Error('Ollama generated no response - model may not support structured output or failed to generate')
@@ -275,6 +387,7 @@ async function generateWithOllama(
 export {
   isOllamaRunning,
   testOllamaModel,
+  getOllamaContextLength,
   chatWithOllama,
   generateWithOllama
 }
\ No newline at end of file
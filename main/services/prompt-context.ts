@@ -0,0 +1,63 @@
+/**
+ * Prompt Context Service
+ * Context the user added to a conversation's AI prompt without posting it as a
+ * message, e.g. excerpts of a shared proposal. Each item is sent as a system
+ * prompt part with every AI response in the topic until it is removed.
+ *
+ * Items are kept for the session only.
+ */
+
+export interface PromptContextItem {
+  id: string;
+  label: string;           // Shown to the user
+  text: string;            // Sent to the AI
+  added: number;
+}
+
+class PromptContextService {
+  private items: Map<string, PromptContextItem[]>;
+
+  constructor() {
+    this.items = new Map();
+  }
+
+  add(topicId: string, label: string, text: string): PromptContextItem {
+    const item: PromptContextItem = {
+      id: `ctx-${Date.now()}-${Math.random().toString(36).substring(2, 8)}`,
+      label,
+      text,
+      added: Date.now()
+    };
+    this.items.set(topicId, [...this.list(topicId), item]);
+    console.log(`[PromptContext] Added "${label}" to topic ${topicId}`);
+    return item;
+  }
+
+  list(topicId: string): PromptContextItem[] {
+    return this.items.get(topicId) || [];
+  }
+
+  remove(topicId: string, id: string): boolean {
+    const items = this.list(topicId);
+    const remaining = items.filter(item => item.id !== id);
+    if (remaining.length === items.length) return false;
+
+    if (remaining.length > 0) {
+      this.items.set(topicId, remaining);
+    } else {
+      this.items.delete(topicId);
+    }
+    return true;
+  }
+
+  /**
+   * System prompt parts for the topic
+   */
+  parts(topicId: string): string[] {
+    return this.list(topicId).map(item => item.text);
+  }
+}
+
+// Export singleton instance
+const promptContext = new PromptContextService();
+export default promptContext;
@@ -1,6 +1,8 @@
 /**
  * ProposalEngine Service
- * Generates knowledge sharing proposals by matching current subjects with past subjects
+ * Generates knowledge sharing proposals by matching current subjects with past subjects,
+ * by shared keywords (Jaccard) or by embedding similarity. Subjects contacts have shared
+ * with us match by keywords only and are weighted by how much we trust the contact.
  *
  * Reference: /specs/019-above-the-chat/data-model.md lines 146-190
  * Reference: /specs/019-above-the-chat/research.md lines 59-72
@@ -9,6 +11,11 @@
 import { getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js';
 import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
 import type { SHA256IdHash } from '@refinio/one.core/lib/util/type-checks.js';
+import embeddingService from './embeddings.js';
+import type { PeerSubject } from './shared-subjects.js';
+
+// Subjects without shared keywords still match when their embeddings are this close
+const SEMANTIC_MIN_SIMILARITY = 0.75;
 
 export interface Proposal {
   id: string;
@@ -16,11 +23,48 @@ export interface Proposal {
   currentSubject: SHA256IdHash<any>;
   matchedKeywords: string[];
   relevanceScore: number;
+  semanticScore?: number;  // Embedding similarity of the two subjects, when both are indexed
+  jaccardScore?: number;   // Shared keywords / all keywords
+  matchScore?: number;     // The better of jaccardScore and semanticScore
+  recencyScore?: number;   // 1 for a brand new past subject, 0 beyond the recency window
+  explanation?: ProposalScoreExplanation;
+  sharedBy?: ProposalSource; // Set when the past subject is a contact's
   sourceTopicId: string;
   pastSubjectName: string;
   createdAt: number;
 }
 
+/**
+ * The contact whose knowledge a proposal comes from
+ */
+export interface ProposalSource {
+  personId: string;
+  name: string;
+  trustLevel: string;       // ContactTrustManager trust level
+  trustFactor: number;      // Score factor for that trust level
+  accessRequested: boolean; // Whether we asked for the source conversation
+}
+
+/**
+ * How a proposal's relevanceScore came about, for the debug view
+ */
+export interface ProposalScoreExplanation {
+  match: number;
+  recency: number;
+  matchWeight: number;      // Weights used - learned from feedback
+  recencyWeight: number;
+  configuredMatchWeight: number;
+  configuredRecencyWeight: number;
+  weightConfidence: number; // How far the weights moved towards the learned ones (0-1)
+  feedbackSamples: number;
+  baseScore: number;        // match * matchWeight + recency * recencyWeight
+  penalty: number;          // Factor for a repeatedly dismissed past subject
+  trustFactor: number;      // Factor for the contact who shared the subject, 1 for our own
+  accepted: number;         // Feedback on this past subject
+  dismissed: number;
+  ignored: number;
+}
+
 export interface ProposalConfig {
   userEmail: string;
   matchWeight: number;
@@ -59,13 +103,15 @@ export class ProposalEngine {
    * @param currentSubjects - Array of current subject ID hashes
    * @param config - Proposal configuration
    * @param allSubjects - Optional pre-fetched array of all subjects (for performance)
+   * @param peerSubjects - Subjects contacts have shared with us
    * @returns Array of proposals with matched keywords
    */
   async getProposalsForTopic(
     topicId: string,
     currentSubjects: SHA256IdHash<any>[],
     config: ProposalConfig,
-    allSubjects?: Subject[]
+    allSubjects?: Subject[],
+    peerSubjects: PeerSubject[] = []
   ): Promise<Proposal[]> {
     if (!currentSubjects || currentSubjects.length === 0) {
       return [];
@@ -105,10 +151,17 @@ export class ProposalEngine {
           pastSubject.keywords
         );
 
-        // Skip if below threshold
-        if (jaccard < config.minJaccard) {
+        // Semantic similarity catches related subjects with different keywords
+        const semantic = embeddingService.similarity(
+          embeddingService.subjectKey(currentSubject.topic, currentSubject.id),
+          embeddingService.subjectKey(pastSubject.topic, pastSubject.id)
+        );
+
+        // Skip if below both thresholds
+        if (jaccard < config.minJaccard && (semantic === null || semantic < SEMANTIC_MIN_SIMILARITY)) {
           continue;
         }
+        const match = Math.max(jaccard, semantic ?? 0);
 
         // Calculate recency boost
         const pastCreatedAt = pastSubject.timeRanges?.[0]?.start || 0;
@@ -117,7 +170,7 @@ export class ProposalEngine {
 
         // Calculate combined relevance score
         const relevanceScore =
-          jaccard * config.matchWeight + recencyBoost * config.recencyWeight;
+          match * config.matchWeight + recencyBoost * config.recencyWeight;
 
         // Get matched keywords (intersection)
         const matchedKeywords = await this.getMatchedKeywords(
@@ -135,6 +188,10 @@ export class ProposalEngine {
           currentSubject: currentSubjectIdHash,
           matchedKeywords,
           relevanceScore,
+          ...(semantic !== null && { semanticScore: semantic }),
+          jaccardScore: jaccard,
+          matchScore: match,
+          recencyScore: recencyBoost,
           sourceTopicId: pastSubject.topic,
           pastSubjectName: pastSubject.id || pastSubject.description || 'Unknown Subject',
           createdAt: pastCreatedAt,
@@ -142,6 +199,61 @@ export class ProposalEngine {
 
         proposals.push(proposal);
       }
+
+      proposals.push(...(await this.getPeerProposals(currentSubject, peerSubjects, config)));
+    }
+
+    return proposals;
+  }
+
+  /**
+   * Proposals from the subjects contacts have shared with us. Their embeddings are
+   * not available here, so only shared keywords count.
+   */
+  private async getPeerProposals(
+    currentSubject: Subject,
+    peerSubjects: PeerSubject[],
+    config: ProposalConfig
+  ): Promise<Proposal[]> {
+    const proposals: Proposal[] = [];
+
+    for (const peerSubject of peerSubjects) {
+      const jaccard = this.calculateJaccard(currentSubject.keywords, peerSubject.keywords as SHA256IdHash<any>[]);
+      if (jaccard < config.minJaccard) {
+        continue;
+      }
+
+      const age = Date.now() - peerSubject.createdAt;
+      const recencyBoost = Math.max(0, 1 - age / config.recencyWindow);
+      const relevanceScore =
+        (jaccard * config.matchWeight + recencyBoost * config.recencyWeight) * peerSubject.trustFactor;
+
+      // Keyword IDs are the terms, so the contact's terms are ours too
+      const currentKeywords = new Set(currentSubject.keywords.map(String));
+      const matchedKeywords = peerSubject.keywordTerms.filter((term, i) =>
+        currentKeywords.has(peerSubject.keywords[i])
+      );
+
+      proposals.push({
+        id: `prop-${Date.now()}-${Math.random().toString(36).substring(7)}`,
+        pastSubject: peerSubject.idHash as SHA256IdHash<any>,
+        currentSubject: await calculateIdHashOfObj(currentSubject as any),
+        matchedKeywords,
+        relevanceScore,
+        jaccardScore: jaccard,
+        matchScore: jaccard,
+        recencyScore: recencyBoost,
+        sharedBy: {
+          personId: peerSubject.sharedBy,
+          name: peerSubject.sharedByName,
+          trustLevel: peerSubject.trustLevel,
+          trustFactor: peerSubject.trustFactor,
+          accessRequested: peerSubject.accessRequested,
+        },
+        sourceTopicId: peerSubject.topic,
+        pastSubjectName: peerSubject.name,
+        createdAt: peerSubject.createdAt,
+      });
     }
 
     return proposals;
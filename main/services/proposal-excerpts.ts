@@ -0,0 +1,144 @@
+/**
+ * Proposal Excerpts
+ * Picks what to preview of a proposal's source topic: the messages that mention
+ * most of the past subject's keywords, and the part of the topic summary about
+ * them. Also formats what the user chose to share for the AI's prompt.
+ *
+ * Everything here is pure; the proposals handlers load messages and summaries.
+ */
+
+import { tokenize, type IndexedDocument } from './inverted-index.js';
+
+export interface RankedExcerpt {
+  messageId: string;
+  matchedKeywords: string[];
+  occurrences: number;
+  timestamp: number;
+}
+
+export interface ProposalExcerpt {
+  messageId: string;
+  text: string;
+  sender: string;
+  isAI: boolean;
+  timestamp: number;
+  matchedKeywords: string[];
+}
+
+export interface ProposalPreview {
+  excerpts: ProposalExcerpt[];        // Best match first
+  summaryFragment: string | null;
+  available: boolean;                 // False for a contact's subject - its messages are not ours
+}
+
+export interface SharedProposalContent {
+  subjectName: string;
+  keywords: string[];
+  excerpts: ProposalExcerpt[];
+  summaryFragment?: string;
+}
+
+// Longest summary fragment, in characters
+const MAX_FRAGMENT_LENGTH = 400;
+// Longest shared excerpt - the preview only shows a snippet around the match
+const MAX_SHARED_EXCERPT_LENGTH = 4000;
+
+/**
+ * Messages of the source topic ranked by how many of the keywords they mention,
+ * then by how often, then newest first. A multi-word keyword counts when all of
+ * its words occur in the message.
+ */
+export function rankExcerpts(documents: IndexedDocument[], keywordTerms: string[], limit: number): RankedExcerpt[] {
+  const keywords = keywordTerms
+    .map(term => ({ term, tokens: tokenize(term) }))
+    .filter(keyword => keyword.tokens.length > 0);
+
+  const ranked: RankedExcerpt[] = [];
+  for (const document of documents) {
+    const counts = new Map<string, number>();
+    for (const term of document.terms) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+
+    const matchedKeywords: string[] = [];
+    let occurrences = 0;
+    for (const keyword of keywords) {
+      const found = keyword.tokens.map(token => counts.get(token) || 0);
+      if (found.some(count => count === 0)) continue;
+      matchedKeywords.push(keyword.term);
+      occurrences += Math.min(...found);
+    }
+
+    if (matchedKeywords.length > 0) {
+      ranked.push({ messageId: document.id, matchedKeywords, occurrences, timestamp: document.timestamp });
+    }
+  }
+
+  return ranked
+    .sort((a, b) =>
+      (b.matchedKeywords.length - a.matchedKeywords.length) ||
+      (b.occurrences - a.occurrences) ||
+      (b.timestamp - a.timestamp))
+    .slice(0, limit);
+}
+
+/**
+ * The sentences of a summary that mention most of the keywords, in their
+ * original order, or null when none does
+ */
+export function summaryFragment(summary: string, keywordTerms: string[], maxLength: number = MAX_FRAGMENT_LENGTH): string | null {
+  const sentences = (summary || '')
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(Boolean);
+  const terms = keywordTerms.map(term => term.toLowerCase());
+
+  const scored = sentences
+    .map((sentence, index) => {
+      const lower = sentence.toLowerCase();
+      return { sentence, index, score: terms.filter(term => lower.includes(term)).length };
+    })
+    .filter(entry => entry.score > 0)
+    .sort((a, b) => (b.score - a.score) || (a.index - b.index));
+  if (scored.length === 0) return null;
+
+  // Best sentences first while they fit, then back into reading order
+  const picked: typeof scored = [];
+  let length = 0;
+  for (const entry of scored) {
+    if (picked.length > 0 && length + entry.sentence.length + 1 > maxLength) continue;
+    picked.push(entry);
+    length += entry.sentence.length + 1;
+  }
+
+  const fragment = picked.sort((a, b) => a.index - b.index).map(entry => entry.sentence).join(' ');
+  return fragment.length > maxLength ? `${fragment.substring(0, maxLength - 1).trim()}…` : fragment;
+}
+
+/**
+ * A message's text as it is shared: whole, unless it is very long
+ */
+export function sharedExcerptText(text: string, maxLength = MAX_SHARED_EXCERPT_LENGTH): string {
+  const trimmed = text.trim();
+  if (trimmed.length <= maxLength) return trimmed;
+
+  // Up to the last whole word, unless that loses more than half
+  const lastSpace = trimmed.lastIndexOf(' ', maxLength - 1);
+  const end = lastSpace > maxLength / 2 ? lastSpace : maxLength - 1;
+  return `${trimmed.substring(0, end).trim()}…`;
+}
+
+/**
+ * Shared content as a system prompt part for the AI
+ */
+export function formatPromptContext(content: SharedProposalContent): string {
+  const lines = [`Related context from an earlier conversation about "${content.subjectName}" (keywords: ${content.keywords.join(', ')}):`];
+  if (content.summaryFragment) {
+    lines.push(`Summary: ${content.summaryFragment}`);
+  }
+  for (const excerpt of content.excerpts) {
+    const date = new Date(excerpt.timestamp).toISOString().substring(0, 10);
+    lines.push(`- [${date}${excerpt.isAI ? ', AI' : ''}] ${excerpt.text}`);
+  }
+  return lines.join('\n');
+}
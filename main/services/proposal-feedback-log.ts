@@ -0,0 +1,150 @@
+/**
+ * Proposal Feedback Log
+ * Stores what the user did with each proposal, as one ProposalFeedbackLog object
+ * per user, and infers ignored proposals.
+ *
+ * A proposal counts as shown when a fresh ranking returns it. If it is neither
+ * shared nor dismissed within IGNORED_AFTER_MS, the next fresh ranking for the
+ * topic records it as ignored.
+ */
+
+import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js';
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+import {
+  ProposalFeedbackModel,
+  type ProposalFeedbackAction,
+  type ProposalFeedbackEvent
+} from './proposal-feedback.js';
+import type { Proposal } from './proposal-engine.js';
+
+// Oldest events are dropped beyond this
+const MAX_EVENTS = 1000;
+const IGNORED_AFTER_MS = 10 * 60 * 1000;
+
+interface Impression {
+  topicId: string;
+  pastSubject: string;
+  match?: number;
+  recency?: number;
+  shownAt: number;
+}
+
+class ProposalFeedbackLog {
+  private events: ProposalFeedbackEvent[];
+  private loadedFor: string | null;
+  private impressions: Map<string, Impression>;
+  private model: ProposalFeedbackModel | null;
+
+  constructor() {
+    this.events = [];
+    this.loadedFor = null;
+    this.impressions = new Map();
+    this.model = null;
+  }
+
+  async getModel(userEmail: string): Promise<ProposalFeedbackModel> {
+    await this.load(userEmail);
+    if (!this.model) {
+      this.model = new ProposalFeedbackModel(this.events);
+    }
+    return this.model;
+  }
+
+  async getEvents(userEmail: string): Promise<ProposalFeedbackEvent[]> {
+    await this.load(userEmail);
+    return [...this.events];
+  }
+
+  /**
+   * Remember the proposals of a fresh ranking; stale unanswered ones become ignored
+   */
+  async recordShown(userEmail: string, topicId: string, proposals: Proposal[]): Promise<void> {
+    await this.load(userEmail);
+    const now = Date.now();
+
+    const ignored: ProposalFeedbackEvent[] = [];
+    for (const [key, impression] of this.impressions) {
+      if (impression.topicId !== topicId || now - impression.shownAt < IGNORED_AFTER_MS) continue;
+      this.impressions.delete(key);
+      ignored.push(this.toEvent(impression, 'ignored', now));
+    }
+
+    for (const proposal of proposals) {
+      const key = `${topicId}:${proposal.pastSubject}`;
+      if (this.impressions.has(key)) continue;
+      this.impressions.set(key, {
+        topicId,
+        pastSubject: String(proposal.pastSubject),
+        match: proposal.matchScore,
+        recency: proposal.recencyScore,
+        shownAt: now
+      });
+    }
+
+    if (ignored.length > 0) {
+      console.log(`[ProposalFeedback] ${ignored.length} proposal(s) ignored in topic ${topicId}`);
+      await this.append(userEmail, ignored);
+    }
+  }
+
+  /**
+   * Record a share or dismissal, with the values the proposal was scored with
+   */
+  async record(userEmail: string, topicId: string, pastSubject: string, action: ProposalFeedbackAction): Promise<void> {
+    await this.load(userEmail);
+    const key = `${topicId}:${pastSubject}`;
+    const impression = this.impressions.get(key) || { topicId, pastSubject, shownAt: Date.now() };
+    this.impressions.delete(key);
+
+    console.log(`[ProposalFeedback] Proposal ${action} in topic ${topicId}`);
+    await this.append(userEmail, [this.toEvent(impression, action, Date.now())]);
+  }
+
+  private toEvent(impression: Impression, action: ProposalFeedbackAction, timestamp: number): ProposalFeedbackEvent {
+    return {
+      pastSubject: impression.pastSubject,
+      topicId: impression.topicId,
+      action,
+      // Optional properties must be absent, not undefined
+      ...(impression.match !== undefined && { match: impression.match }),
+      ...(impression.recency !== undefined && { recency: impression.recency }),
+      timestamp
+    };
+  }
+
+  private async append(userEmail: string, events: ProposalFeedbackEvent[]): Promise<void> {
+    this.events = [...this.events, ...events].slice(-MAX_EVENTS);
+    this.model = null;
+
+    try {
+      await storeVersionedObject({
+        $type$: 'ProposalFeedbackLog',
+        userEmail,
+        events: this.events,
+        updated: Date.now()
+      } as any);
+    } catch (error) {
+      console.warn('[ProposalFeedback] Could not store feedback:', (error as Error).message);
+    }
+  }
+
+  private async load(userEmail: string): Promise<void> {
+    if (this.loadedFor === userEmail) return;
+
+    this.events = [];
+    this.impressions.clear();
+    this.model = null;
+    try {
+      const idHash = await calculateIdHashOfObj({ $type$: 'ProposalFeedbackLog', userEmail } as any);
+      const stored: any = await getObjectByIdHash(idHash);
+      this.events = stored?.obj?.events || [];
+    } catch (error) {
+      // No feedback yet
+    }
+    this.loadedFor = userEmail;
+  }
+}
+
+// Export singleton instance
+const proposalFeedbackLog = new ProposalFeedbackLog();
+export default proposalFeedbackLog;
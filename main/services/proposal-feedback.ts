@@ -0,0 +1,154 @@
+/**
+ * Proposal Feedback
+ * Learns from what the user does with proposals.
+ *
+ * Every shared (accepted), dismissed and ignored proposal is an event carrying the
+ * match and recency values it was scored with. From these the ranking weights are
+ * fitted per user (logistic regression, pulled towards the configured weights while
+ * there is little feedback), and past subjects that keep being dismissed are
+ * penalized.
+ */
+
+export type ProposalFeedbackAction = 'accepted' | 'dismissed' | 'ignored';
+
+export interface ProposalFeedbackEvent {
+  pastSubject: string;     // ID hash of the proposed past subject
+  topicId: string;         // Conversation it was proposed in
+  action: ProposalFeedbackAction;
+  match?: number;          // Match value (Jaccard or semantic) at the time, if known
+  recency?: number;        // Recency boost at the time, if known
+  timestamp: number;
+}
+
+export interface ProposalWeights {
+  matchWeight: number;
+  recencyWeight: number;
+}
+
+export interface LearnedWeights extends ProposalWeights {
+  samples: number;         // Events with match and recency values
+  confidence: number;      // 0 = configured weights, 1 = fully learned
+}
+
+export interface SubjectFeedback {
+  accepted: number;
+  dismissed: number;
+  ignored: number;
+  penalty: number;         // Score factor, 1 = no penalty
+}
+
+// Fewer samples than this keep the configured weights
+export const MIN_SAMPLES = 5;
+// Samples after which the learned weights are used as they are
+export const FULL_CONFIDENCE_SAMPLES = 40;
+// Ignoring is a weaker "no" than dismissing
+const IGNORED_SAMPLE_WEIGHT = 0.3;
+const EPOCHS = 300;
+const LEARNING_RATE = 0.5;
+// Pull towards the configured weights
+const REGULARIZATION = 0.05;
+const MIN_WEIGHT = 0.05;
+
+// Dismissals (net of accepts) from which a past subject is penalized, and by how much per dismissal
+export const REPEATED_DISMISSALS = 2;
+const PENALTY_FACTOR = 0.5;
+const MIN_PENALTY = 0.05;
+
+const sigmoid = (x: number) => 1 / (1 + Math.exp(-x));
+
+/**
+ * Weights fitted to the accepted vs. dismissed and ignored proposals, scaled to
+ * the configured total and blended with the configured weights by confidence
+ */
+export function learnWeights(events: ProposalFeedbackEvent[], base: ProposalWeights): LearnedWeights {
+  const samples = events
+    .filter(event => typeof event.match === 'number' && typeof event.recency === 'number')
+    .map(event => ({
+      x: [event.match as number, event.recency as number],
+      y: event.action === 'accepted' ? 1 : 0,
+      weight: event.action === 'ignored' ? IGNORED_SAMPLE_WEIGHT : 1
+    }));
+
+  if (samples.length < MIN_SAMPLES || !samples.some(s => s.y === 1) || !samples.some(s => s.y === 0)) {
+    return { ...base, samples: samples.length, confidence: 0 };
+  }
+
+  const prior = [base.matchWeight, base.recencyWeight];
+  let bias = 0;
+  const w = [...prior];
+  const totalWeight = samples.reduce((sum, s) => sum + s.weight, 0);
+
+  for (let epoch = 0; epoch < EPOCHS; epoch++) {
+    let gradBias = 0;
+    const grad = [0, 0];
+    for (const sample of samples) {
+      const error = (sigmoid(bias + w[0] * sample.x[0] + w[1] * sample.x[1]) - sample.y) * sample.weight;
+      gradBias += error;
+      grad[0] += error * sample.x[0];
+      grad[1] += error * sample.x[1];
+    }
+    bias -= LEARNING_RATE * gradBias / totalWeight;
+    for (let i = 0; i < 2; i++) {
+      w[i] -= LEARNING_RATE * (grad[i] / totalWeight + REGULARIZATION * (w[i] - prior[i]));
+    }
+  }
+
+  // Only the balance between the two matters for ranking - keep the configured total
+  const total = base.matchWeight + base.recencyWeight;
+  const fitted = w.map(value => Math.max(value, MIN_WEIGHT));
+  const fittedTotal = fitted[0] + fitted[1];
+  const confidence = Math.min(1, samples.length / FULL_CONFIDENCE_SAMPLES);
+  const blend = (configured: number, learned: number) => configured + (learned * total / fittedTotal - configured) * confidence;
+
+  return {
+    matchWeight: blend(base.matchWeight, fitted[0]),
+    recencyWeight: blend(base.recencyWeight, fitted[1]),
+    samples: samples.length,
+    confidence
+  };
+}
+
+/**
+ * Feedback on one past subject. Each accept cancels a dismissal; from the
+ * second remaining dismissal on, every dismissal halves the score.
+ */
+export function subjectFeedback(events: ProposalFeedbackEvent[], pastSubject: string): SubjectFeedback {
+  const feedback = { accepted: 0, dismissed: 0, ignored: 0, penalty: 1 };
+  for (const event of events) {
+    if (event.pastSubject !== pastSubject) continue;
+    feedback[event.action]++;
+  }
+
+  const netDismissals = feedback.dismissed - feedback.accepted;
+  if (netDismissals >= REPEATED_DISMISSALS) {
+    feedback.penalty = Math.max(MIN_PENALTY, PENALTY_FACTOR ** (netDismissals - REPEATED_DISMISSALS + 1));
+  }
+  return feedback;
+}
+
+/**
+ * Learned weights and per-subject feedback, computed once per ranking
+ */
+export class ProposalFeedbackModel {
+  private bySubject = new Map<string, ProposalFeedbackEvent[]>();
+
+  constructor(private events: ProposalFeedbackEvent[] = []) {
+    for (const event of events) {
+      const list = this.bySubject.get(event.pastSubject) || [];
+      list.push(event);
+      this.bySubject.set(event.pastSubject, list);
+    }
+  }
+
+  get eventCount(): number {
+    return this.events.length;
+  }
+
+  weights(base: ProposalWeights): LearnedWeights {
+    return learnWeights(this.events, base);
+  }
+
+  subject(pastSubject: string): SubjectFeedback {
+    return subjectFeedback(this.bySubject.get(pastSubject) || [], pastSubject);
+  }
+}
@@ -7,6 +7,7 @@
  */
 
 import type { Proposal, ProposalConfig } from './proposal-engine.js';
+import type { ProposalFeedbackModel } from './proposal-feedback.js';
 
 export class ProposalRanker {
   /**
@@ -28,6 +29,52 @@ export class ProposalRanker {
     return sorted.slice(0, config.maxProposals);
   }
 
+  /**
+   * Rescore proposals with the weights learned from the user's feedback and
+   * penalize past subjects the user keeps dismissing. Each proposal gets an
+   * explanation of its score.
+   *
+   * @param proposals - Proposals scored with the configured weights
+   * @param config - Proposal configuration
+   * @param feedback - The user's feedback so far
+   * @returns Rescored proposals (same order)
+   */
+  applyFeedback(proposals: Proposal[], config: ProposalConfig, feedback: ProposalFeedbackModel): Proposal[] {
+    const weights = feedback.weights({
+      matchWeight: config.matchWeight,
+      recencyWeight: config.recencyWeight
+    });
+
+    return proposals.map((proposal) => {
+      const match = proposal.matchScore ?? proposal.jaccardScore ?? 0;
+      const recency = proposal.recencyScore ?? 0;
+      const subject = feedback.subject(String(proposal.pastSubject));
+      const baseScore = match * weights.matchWeight + recency * weights.recencyWeight;
+      const trustFactor = proposal.sharedBy?.trustFactor ?? 1;
+
+      return {
+        ...proposal,
+        relevanceScore: baseScore * subject.penalty * trustFactor,
+        explanation: {
+          match,
+          recency,
+          matchWeight: weights.matchWeight,
+          recencyWeight: weights.recencyWeight,
+          configuredMatchWeight: config.matchWeight,
+          configuredRecencyWeight: config.recencyWeight,
+          weightConfidence: weights.confidence,
+          feedbackSamples: weights.samples,
+          baseScore,
+          penalty: subject.penalty,
+          trustFactor,
+          accepted: subject.accepted,
+          dismissed: subject.dismissed,
+          ignored: subject.ignored,
+        },
+      };
+    });
+  }
+
   /**
    * Calculate relevance score for a single proposal
    * This is a utility method for testing or recalculating scores
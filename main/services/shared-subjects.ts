@@ -0,0 +1,143 @@
+/**
+ * Shared Subjects
+ * Rules for sharing subjects with contacts, so that their proposals can draw
+ * on our knowledge and ours on theirs.
+ *
+ * A subject is shared with a person when the person is allowed at least one of
+ * its keywords and denied none (KeywordAccessState, latest state wins). What we
+ * receive is weighted by how much we trust the contact who shared it.
+ *
+ * Everything here is pure; subject-sharing.ts publishes and reads the objects.
+ */
+
+import type { KeywordAccessState } from '../core/one-ai/recipes/KeywordAccessState.js';
+
+export interface SharedSubject {
+  $type$: 'SharedSubject';
+  sharedBy: string;        // Person ID of the owner
+  sharedWith: string;      // Person ID of the recipient
+  topic: string;           // Source conversation, on the owner's side
+  subject: string;         // Subject id (keyword combination)
+  name: string;
+  keywords: string[];      // Keyword ID hashes - the term is the Keyword ID, so they match across instances
+  keywordTerms: string[];  // Same order as keywords
+  createdAt: number;       // Subject first seen
+  revoked?: boolean;       // The grant was withdrawn
+  updated: number;
+}
+
+export interface PeerSubject {
+  idHash: string;          // ID hash of the SharedSubject
+  sharedBy: string;
+  sharedByName: string;
+  trustLevel: string;
+  trustFactor: number;
+  topic: string;
+  subject: string;
+  name: string;
+  keywords: string[];
+  keywordTerms: string[];
+  createdAt: number;
+  accessRequested: boolean; // Whether we asked for the source conversation
+}
+
+export interface SubjectAccessRequest {
+  $type$: 'SubjectAccessRequest';
+  requester: string;       // Person ID
+  owner: string;           // Person ID of whoever shared the subject
+  topic: string;
+  subject: string;
+  subjectName: string;
+  requestedAt: number;
+}
+
+export type SubjectAccessDecisionState = 'granted' | 'declined';
+
+export interface SubjectAccessDecision {
+  $type$: 'SubjectAccessDecision';
+  requester: string;
+  topic: string;
+  subject: string;
+  state: SubjectAccessDecisionState;
+  decidedAt: number;
+}
+
+// Channels are per recipient, so each contact only receives what was shared with them
+export const SHARED_SUBJECTS_CHANNEL_PREFIX = 'shared-subjects:';
+export const ACCESS_REQUESTS_CHANNEL_PREFIX = 'subject-access-requests:';
+
+/**
+ * Score factor per ContactTrustManager trust level. Blocked contacts and
+ * contacts still awaiting a decision contribute nothing.
+ */
+const TRUST_FACTORS: Record<string, number> = {
+  trusted: 1,
+  accepted: 0.8,
+  discovered: 0.5
+};
+
+export function trustFactor(trustLevel: string): number {
+  return TRUST_FACTORS[trustLevel] ?? 0;
+}
+
+export function sharedSubjectKey(subject: Pick<SharedSubject, 'sharedBy' | 'sharedWith' | 'topic' | 'subject'>): string {
+  return `${subject.sharedBy}:${subject.sharedWith}:${subject.topic}:${subject.subject}`;
+}
+
+/**
+ * Latest access state per keyword and principal
+ */
+function latestAccessStates(accessStates: KeywordAccessState[]): Map<string, KeywordAccessState> {
+  const latest = new Map<string, KeywordAccessState>();
+  for (const state of accessStates) {
+    const key = `${state.keywordTerm}:${state.principalId}`;
+    const current = latest.get(key);
+    if (!current || state.updatedAt >= current.updatedAt) {
+      latest.set(key, state);
+    }
+  }
+  return latest;
+}
+
+/**
+ * Persons a subject with these keyword terms may be shared with. Only user
+ * grants count - groups are not resolved to their members.
+ */
+export function allowedRecipients(keywordTerms: string[], accessStates: KeywordAccessState[]): string[] {
+  const terms = new Set(keywordTerms.map(term => term.toLowerCase().trim()));
+  const allowed = new Set<string>();
+  const denied = new Set<string>();
+
+  for (const state of latestAccessStates(accessStates).values()) {
+    if (state.principalType !== 'user' || !terms.has(state.keywordTerm)) continue;
+    if (state.state === 'allow') allowed.add(state.principalId);
+    if (state.state === 'deny') denied.add(state.principalId);
+  }
+
+  return Array.from(allowed).filter(principal => !denied.has(principal)).sort();
+}
+
+/**
+ * Latest version of every shared subject, withdrawn ones included
+ */
+export function latestSharedSubjects(entries: SharedSubject[]): SharedSubject[] {
+  const latest = new Map<string, SharedSubject>();
+  for (const entry of entries) {
+    const key = sharedSubjectKey(entry);
+    const current = latest.get(key);
+    if (!current || entry.updated >= current.updated) {
+      latest.set(key, entry);
+    }
+  }
+  return Array.from(latest.values());
+}
+
+/**
+ * Whether a published subject differs from what should be published now
+ */
+export function sharedSubjectChanged(published: SharedSubject | undefined, next: SharedSubject): boolean {
+  if (!published || published.revoked) return true;
+  return published.name !== next.name ||
+    published.keywords.length !== next.keywords.length ||
+    published.keywords.some((keyword, i) => keyword !== next.keywords[i]);
+}
@@ -0,0 +1,221 @@
+/**
+ * Subject Lifecycle Service
+ * Background duplicate detection for the subjects of each topic.
+ *
+ * Whenever a Subject is posted to a topic channel the topic is re-scanned (debounced):
+ * all active subjects are scored pairwise by keyword overlap and name similarity and
+ * the likely duplicates are kept as merge suggestions. Windows are told through
+ * 'topicAnalysis:mergeSuggestions'. Merging and splitting go through TopicAnalysisModel;
+ * dismissed suggestions are stored as SubjectMergeDecisions and never offered again.
+ */
+
+import { BrowserWindow } from 'electron';
+import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js';
+import { getObject } from '@refinio/one.core/lib/storage-unversioned-objects.js';
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+import TopicAnalysisRoom from '../core/one-ai/models/TopicAnalysisRoom.js';
+import { findMergeCandidates, subjectPairKey, type MergeCandidate } from './subject-similarity.js';
+
+export interface MergeSuggestion extends MergeCandidate {
+  topicId: string;
+  keepKeywords: string[];   // Terms
+  mergeKeywords: string[];
+  keepMessageCount: number;
+  mergeMessageCount: number;
+}
+
+const DECISIONS_ID = 'subjects';
+// Subjects usually arrive in bursts during one analysis run
+const SCAN_DELAY_MS = 3000;
+
+class SubjectLifecycleService {
+  private nodeOneCore: any;
+  private suggestions: Map<string, MergeSuggestion[]>;
+  private dismissed: Set<string>;
+  private scanTimers: Map<string, NodeJS.Timeout>;
+  private unsubscribe: (() => void) | null;
+
+  constructor() {
+    this.nodeOneCore = null;
+    this.suggestions = new Map();
+    this.dismissed = new Set();
+    this.scanTimers = new Map();
+    this.unsubscribe = null;
+  }
+
+  /**
+   * Load dismissed suggestions and start watching for new subjects
+   */
+  async init(nodeOneCore: any): Promise<void> {
+    this.nodeOneCore = nodeOneCore;
+    await this.loadDecisions();
+
+    if (nodeOneCore.channelManager?.onUpdated && !this.unsubscribe) {
+      this.unsubscribe = nodeOneCore.channelManager.onUpdated(
+        (_channelInfoIdHash: any, channelId: string, _channelOwner: any, _time: any, data: any[]) => {
+          this.handleChannelEntries(channelId, data).catch(error => {
+            console.warn('[SubjectLifecycle] Failed to handle channel update:', error.message);
+          });
+        }
+      );
+    }
+  }
+
+  shutdown(): void {
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+    for (const timer of this.scanTimers.values()) {
+      clearTimeout(timer);
+    }
+    this.scanTimers.clear();
+  }
+
+  /**
+   * Merge suggestions for a topic, scanning it first if that has not happened yet
+   */
+  async getSuggestions(topicId: string): Promise<MergeSuggestion[]> {
+    if (!this.suggestions.has(topicId)) {
+      await this.scan(topicId);
+    }
+    return this.suggestions.get(topicId) || [];
+  }
+
+  /**
+   * Score all active subject pairs of a topic and replace its suggestions
+   */
+  async scan(topicId: string): Promise<MergeSuggestion[]> {
+    if (!this.nodeOneCore?.channelManager) {
+      throw new Error('ONE.core not initialized');
+    }
+
+    // Read the channel directly - the model caches subjects for a few seconds
+    const room = new TopicAnalysisRoom(topicId, this.nodeOneCore.channelManager);
+    let subjects: any[];
+    try {
+      subjects = (await room.retrieveAllSubjects()).filter((subject: any) => !subject.archived);
+    } catch (error) {
+      // Topic without channels
+      subjects = [];
+    }
+
+    const termByHash = new Map<string, string>();
+    if (subjects.length > 1) {
+      const keywords: any[] = await room.retrieveAllKeywords();
+      for (const keyword of keywords) {
+        if (!keyword.term) continue;
+        termByHash.set(await calculateIdHashOfObj({ $type$: 'Keyword', term: keyword.term } as any), keyword.term);
+      }
+    }
+
+    const byId = new Map<string, any>(subjects.map(subject => [subject.id, subject]));
+    const candidates = findMergeCandidates(
+      subjects.map(subject => ({
+        id: subject.id,
+        keywords: subject.keywords || [],
+        messageCount: subject.messageCount,
+        createdAt: subject.createdAt
+      })),
+      { exclude: (a, b) => this.dismissed.has(this.decisionKey(topicId, a, b)) }
+    );
+
+    const toTerms = (subject: any): string[] =>
+      (subject.keywords || []).map((hash: string) => termByHash.get(hash)).filter((term: string | undefined): term is string => !!term);
+
+    const suggestions: MergeSuggestion[] = candidates.map(candidate => {
+      const keep = byId.get(candidate.keepId);
+      const merge = byId.get(candidate.mergeId);
+      return {
+        ...candidate,
+        topicId,
+        keepKeywords: toTerms(keep),
+        mergeKeywords: toTerms(merge),
+        keepMessageCount: keep.messageCount || 0,
+        mergeMessageCount: merge.messageCount || 0
+      };
+    });
+
+    this.suggestions.set(topicId, suggestions);
+    if (suggestions.length > 0) {
+      console.log(`[SubjectLifecycle] ${suggestions.length} merge suggestion(s) for topic ${topicId}`);
+    }
+    this.notify(topicId, suggestions);
+    return suggestions;
+  }
+
+  /**
+   * Never suggest this pair again
+   */
+  async dismiss(topicId: string, subjectId1: string, subjectId2: string): Promise<void> {
+    this.dismissed.add(this.decisionKey(topicId, subjectId1, subjectId2));
+    await storeVersionedObject({
+      $type$: 'SubjectMergeDecisions',
+      name: DECISIONS_ID,
+      dismissed: Array.from(this.dismissed),
+      updated: Date.now()
+    } as any);
+
+    const remaining = (this.suggestions.get(topicId) || []).filter(suggestion =>
+      subjectPairKey(suggestion.keepId, suggestion.mergeId) !== subjectPairKey(subjectId1, subjectId2)
+    );
+    this.suggestions.set(topicId, remaining);
+    this.notify(topicId, remaining);
+  }
+
+  /**
+   * Re-scan a topic once its subjects settle
+   */
+  scheduleScan(topicId: string): void {
+    const existing = this.scanTimers.get(topicId);
+    if (existing) clearTimeout(existing);
+
+    this.scanTimers.set(topicId, setTimeout(() => {
+      this.scanTimers.delete(topicId);
+      this.scan(topicId).catch(error => {
+        console.warn(`[SubjectLifecycle] Scan of ${topicId} failed:`, error.message);
+      });
+    }, SCAN_DELAY_MS));
+  }
+
+  private async handleChannelEntries(topicId: string, entries: any[]): Promise<void> {
+    for (const entry of entries || []) {
+      if (!entry.isNew || !entry.dataHash) continue;
+
+      try {
+        const obj: any = await getObject(entry.dataHash);
+        if (obj?.$type$ === 'Subject') {
+          this.scheduleScan(topicId);
+          return;
+        }
+      } catch (error) {
+        // Not an unversioned object we can read
+      }
+    }
+  }
+
+  private async loadDecisions(): Promise<void> {
+    try {
+      const idHash = await calculateIdHashOfObj({ $type$: 'SubjectMergeDecisions', name: DECISIONS_ID } as any);
+      const stored: any = await getObjectByIdHash(idHash);
+      this.dismissed = new Set(stored?.obj?.dismissed || []);
+    } catch (error) {
+      // Nothing dismissed yet
+      this.dismissed = new Set();
+    }
+  }
+
+  private decisionKey(topicId: string, subjectId1: string, subjectId2: string): string {
+    return `${topicId}:${subjectPairKey(subjectId1, subjectId2)}`;
+  }
+
+  private notify(topicId: string, suggestions: MergeSuggestion[]): void {
+    for (const window of BrowserWindow.getAllWindows()) {
+      window.webContents.send('topicAnalysis:mergeSuggestions', { topicId, suggestions });
+    }
+  }
+}
+
+// Export singleton instance
+const subjectLifecycleService = new SubjectLifecycleService();
+export default subjectLifecycleService;
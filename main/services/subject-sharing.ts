@@ -0,0 +1,421 @@
+/**
+ * Subject Sharing Service
+ * Publishes our subjects to the contacts our keyword grants allow, reads the
+ * subjects contacts have shared with us, and carries requests for the source
+ * conversation of a shared subject.
+ *
+ * Each direction uses one channel per recipient, owned by the sender and
+ * readable only by the recipient:
+ *   shared-subjects:<recipient>          SharedSubject objects
+ *   subject-access-requests:<owner>      SubjectAccessRequest objects
+ */
+
+import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js';
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+import { getAllAccessStates } from '../core/one-ai/storage/keyword-access-storage.js';
+import ContactTrustManager from '../core/contact-trust-manager.js';
+import { getContactNames, grantChannelAccess } from './contact-channels.js';
+import {
+  SHARED_SUBJECTS_CHANNEL_PREFIX,
+  ACCESS_REQUESTS_CHANNEL_PREFIX,
+  allowedRecipients,
+  latestSharedSubjects,
+  sharedSubjectChanged,
+  sharedSubjectKey,
+  trustFactor,
+  type PeerSubject,
+  type SharedSubject,
+  type SubjectAccessDecision,
+  type SubjectAccessRequest
+} from './shared-subjects.js';
+
+// Subjects change with analysis, so publishing also runs now and then when proposals are fetched
+const PUBLISH_INTERVAL_MS = 10 * 60 * 1000;
+
+export interface IncomingAccessRequest extends SubjectAccessRequest {
+  requesterName: string;
+  state: 'pending' | SubjectAccessDecision['state'];
+}
+
+class SubjectSharingService {
+  private trustManager: ContactTrustManager | null;
+  private grantedChannels: Set<string>;
+  private publishing: Promise<number> | null;
+  private lastPublished: number;
+
+  constructor() {
+    this.trustManager = null;
+    this.grantedChannels = new Set();
+    this.publishing = null;
+    this.lastPublished = 0;
+  }
+
+  /**
+   * Bring our shared-subjects channels in line with the current keyword grants.
+   * Returns the number of subjects posted (new, changed or withdrawn).
+   */
+  publish(nodeOneCore: any): Promise<number> {
+    if (!this.publishing) {
+      this.publishing = this.doPublish(nodeOneCore).finally(() => {
+        this.publishing = null;
+        this.lastPublished = Date.now();
+      });
+    }
+    return this.publishing;
+  }
+
+  /**
+   * publish() in the background, unless it ran recently
+   */
+  schedulePublish(nodeOneCore: any): void {
+    if (this.publishing || Date.now() - this.lastPublished < PUBLISH_INTERVAL_MS) return;
+    this.publish(nodeOneCore).catch(error => {
+      console.warn('[SubjectSharing] Publishing failed:', (error as Error).message);
+    });
+  }
+
+  /**
+   * Subjects contacts currently share with us, from contacts we trust enough
+   */
+  async getPeerSubjects(nodeOneCore: any): Promise<PeerSubject[]> {
+    const myId = nodeOneCore.ownerId;
+    const channelManager = nodeOneCore.channelManager;
+    if (!myId || !channelManager) return [];
+
+    const entries = await this.readEntries<SharedSubject>(
+      channelManager,
+      `${SHARED_SUBJECTS_CHANNEL_PREFIX}${myId}`,
+      'SharedSubject',
+      // Only the owner may share their subjects
+      (data, channelOwner) => data.sharedWith === myId && data.sharedBy === channelOwner
+    );
+    const shared = latestSharedSubjects(entries).filter(entry => !entry.revoked);
+    if (shared.length === 0) return [];
+
+    const names = await getContactNames(nodeOneCore);
+    const trustLevels = new Map<string, string>();
+    const peerSubjects: PeerSubject[] = [];
+
+    for (const entry of shared) {
+      if (!trustLevels.has(entry.sharedBy)) {
+        trustLevels.set(entry.sharedBy, await this.getTrustManager(nodeOneCore).getContactTrustLevel(entry.sharedBy));
+      }
+      const trustLevel = trustLevels.get(entry.sharedBy)!;
+      const factor = trustFactor(trustLevel);
+      if (factor === 0) continue;
+
+      const peerSubject: PeerSubject = {
+        idHash: await calculateIdHashOfObj(entry as any),
+        sharedBy: entry.sharedBy,
+        sharedByName: names.get(entry.sharedBy) || `${entry.sharedBy.substring(0, 8)}...`,
+        trustLevel,
+        trustFactor: factor,
+        topic: entry.topic,
+        subject: entry.subject,
+        name: entry.name,
+        keywords: entry.keywords,
+        keywordTerms: entry.keywordTerms,
+        createdAt: entry.createdAt,
+        accessRequested: false
+      };
+      peerSubject.accessRequested = await this.hasRequestedAccess(nodeOneCore, peerSubject);
+      peerSubjects.push(peerSubject);
+    }
+
+    return peerSubjects;
+  }
+
+  /**
+   * Ask the owner of a shared subject for access to its source conversation
+   */
+  async requestAccess(nodeOneCore: any, sharedSubjectIdHash: string): Promise<SubjectAccessRequest> {
+    const myId = nodeOneCore.ownerId;
+    const result: any = await getObjectByIdHash(sharedSubjectIdHash as any);
+    const shared = result?.obj as SharedSubject | undefined;
+    if (!shared || shared.$type$ !== 'SharedSubject' || shared.sharedWith !== myId || shared.revoked) {
+      throw new Error('SUBJECT_NOT_FOUND: Subject is not shared with you');
+    }
+
+    const request: SubjectAccessRequest = {
+      $type$: 'SubjectAccessRequest',
+      requester: myId,
+      owner: shared.sharedBy,
+      topic: shared.topic,
+      subject: shared.subject,
+      subjectName: shared.name,
+      requestedAt: Date.now()
+    };
+
+    await this.post(nodeOneCore, `${ACCESS_REQUESTS_CHANNEL_PREFIX}${shared.sharedBy}`, shared.sharedBy, request);
+    console.log(`[SubjectSharing] Requested access to topic ${shared.topic} from ${shared.sharedBy.substring(0, 8)}`);
+    return request;
+  }
+
+  /**
+   * Requests contacts sent us, newest first, with our answer if we gave one
+   */
+  async getAccessRequests(nodeOneCore: any): Promise<IncomingAccessRequest[]> {
+    const myId = nodeOneCore.ownerId;
+    const channelManager = nodeOneCore.channelManager;
+    if (!myId || !channelManager) return [];
+
+    const entries = await this.readEntries<SubjectAccessRequest>(
+      channelManager,
+      `${ACCESS_REQUESTS_CHANNEL_PREFIX}${myId}`,
+      'SubjectAccessRequest',
+      (data, channelOwner) => data.owner === myId && data.requester === channelOwner
+    );
+
+    const latest = new Map<string, SubjectAccessRequest>();
+    for (const entry of entries) {
+      const key = `${entry.requester}:${entry.topic}:${entry.subject}`;
+      const current = latest.get(key);
+      if (!current || entry.requestedAt >= current.requestedAt) {
+        latest.set(key, entry);
+      }
+    }
+
+    const names = await getContactNames(nodeOneCore);
+    const requests: IncomingAccessRequest[] = [];
+    for (const request of latest.values()) {
+      const decision = await this.getDecision(request);
+      requests.push({
+        ...request,
+        requesterName: names.get(request.requester) || `${request.requester.substring(0, 8)}...`,
+        // A request made again after the answer is pending again
+        state: decision && decision.decidedAt >= request.requestedAt ? decision.state : 'pending'
+      });
+    }
+
+    return requests.sort((a, b) => b.requestedAt - a.requestedAt);
+  }
+
+  /**
+   * Grant or decline a request. Granting gives the requester read access to our
+   * channels of the source conversation.
+   */
+  async answerAccessRequest(
+    nodeOneCore: any,
+    { requester, topic, subject, grant }: { requester: string; topic: string; subject: string; grant: boolean }
+  ): Promise<SubjectAccessDecision> {
+    const requests = await this.getAccessRequests(nodeOneCore);
+    const request = requests.find(r => r.requester === requester && r.topic === topic && r.subject === subject);
+    if (!request) {
+      throw new Error('REQUEST_NOT_FOUND: No such access request');
+    }
+
+    if (grant) {
+      const channels = await nodeOneCore.channelManager.getMatchingChannelInfos({ channelId: topic });
+      const ownChannels = channels.filter((channel: any) => channel.owner === nodeOneCore.ownerId);
+      if (ownChannels.length === 0) {
+        throw new Error('TOPIC_NOT_FOUND: Source conversation no longer exists');
+      }
+
+      for (const channel of ownChannels) {
+        await grantChannelAccess(channel.id, channel.owner, requester);
+      }
+    }
+
+    const decision: SubjectAccessDecision = {
+      $type$: 'SubjectAccessDecision',
+      requester,
+      topic,
+      subject,
+      state: grant ? 'granted' : 'declined',
+      decidedAt: Date.now()
+    };
+    await storeVersionedObject(decision as any);
+
+    console.log(`[SubjectSharing] Access to topic ${topic} ${decision.state} for ${requester.substring(0, 8)}`);
+    return decision;
+  }
+
+  private async doPublish(nodeOneCore: any): Promise<number> {
+    const myId = nodeOneCore.ownerId;
+    const channelManager = nodeOneCore.channelManager;
+    if (!myId || !channelManager || !nodeOneCore.topicAnalysisModel || !nodeOneCore.topicModel) {
+      return 0;
+    }
+
+    const accessStates = await getAllAccessStates(channelManager).catch(() => []);
+    const desired = new Map<string, SharedSubject>();
+    const now = Date.now();
+
+    // Only compute subjects when there are grants at all
+    if (accessStates.some(state => state.state === 'allow')) {
+      for (const subject of await this.getOwnSubjects(nodeOneCore)) {
+        const recipients = allowedRecipients(subject.keywordTerms, accessStates).filter(person => person !== myId);
+        for (const recipient of recipients) {
+          const shared: SharedSubject = {
+            $type$: 'SharedSubject',
+            sharedBy: myId,
+            sharedWith: recipient,
+            topic: subject.topic,
+            subject: subject.subject,
+            name: subject.name,
+            keywords: subject.keywords,
+            keywordTerms: subject.keywordTerms,
+            createdAt: subject.createdAt,
+            updated: now
+          };
+          desired.set(sharedSubjectKey(shared), shared);
+        }
+      }
+    }
+
+    const ownChannels = (await channelManager.getMatchingChannelInfos({ owner: myId }))
+      .filter((channel: any) => channel.id.startsWith(SHARED_SUBJECTS_CHANNEL_PREFIX));
+    const publishedEntries: SharedSubject[] = [];
+    if (ownChannels.length > 0) {
+      for await (const entry of channelManager.multiChannelObjectIterator(ownChannels)) {
+        if (entry.data?.$type$ === 'SharedSubject') {
+          publishedEntries.push(entry.data);
+        }
+      }
+    }
+    const published = new Map(latestSharedSubjects(publishedEntries).map(entry => [sharedSubjectKey(entry), entry]));
+
+    let posted = 0;
+    for (const [key, shared] of desired) {
+      if (!sharedSubjectChanged(published.get(key), shared)) continue;
+      await this.post(nodeOneCore, `${SHARED_SUBJECTS_CHANNEL_PREFIX}${shared.sharedWith}`, shared.sharedWith, shared);
+      posted++;
+    }
+    for (const [key, shared] of published) {
+      if (desired.has(key) || shared.revoked) continue;
+      await this.post(nodeOneCore, `${SHARED_SUBJECTS_CHANNEL_PREFIX}${shared.sharedWith}`, shared.sharedWith, {
+        ...shared,
+        revoked: true,
+        updated: now
+      });
+      posted++;
+    }
+
+    if (posted > 0) {
+      console.log(`[SubjectSharing] Published ${posted} shared subject change(s)`);
+    }
+    return posted;
+  }
+
+  /**
+   * Our subjects with their keyword terms
+   */
+  private async getOwnSubjects(nodeOneCore: any): Promise<Array<Omit<SharedSubject, '$type$' | 'sharedBy' | 'sharedWith' | 'updated'>>> {
+    const subjects = [];
+    const topics = await nodeOneCore.topicModel.topics.all();
+
+    for (const topic of topics) {
+      try {
+        const topicSubjects: any[] = await nodeOneCore.topicAnalysisModel.getSubjects(topic.id);
+        for (const subject of topicSubjects || []) {
+          if (subject.archived) continue;
+
+          const keywords: string[] = [];
+          const keywordTerms: string[] = [];
+          for (const keywordIdHash of subject.keywords || []) {
+            const result: any = await getObjectByIdHash(keywordIdHash).catch(() => null);
+            if (result?.obj?.term) {
+              keywords.push(String(keywordIdHash));
+              keywordTerms.push(result.obj.term);
+            }
+          }
+          if (keywords.length === 0) continue;
+
+          subjects.push({
+            topic: topic.id,
+            subject: subject.id,
+            name: subject.id || subject.description || 'Unknown Subject',
+            keywords,
+            keywordTerms,
+            createdAt: subject.timeRanges?.[0]?.start || 0
+          });
+        }
+      } catch (error) {
+        console.warn(`[SubjectSharing] Skipping topic ${topic.id}:`, (error as Error).message);
+      }
+    }
+
+    return subjects;
+  }
+
+  private async readEntries<T extends { $type$: string }>(
+    channelManager: any,
+    channelId: string,
+    type: T['$type$'],
+    accept: (data: T, channelOwner: string) => boolean
+  ): Promise<T[]> {
+    const channelInfos = (await channelManager.getMatchingChannelInfos({ channelId }))
+      .filter((channel: any) => channel.owner);
+    if (channelInfos.length === 0) return [];
+
+    const entries: T[] = [];
+    for await (const entry of channelManager.multiChannelObjectIterator(channelInfos)) {
+      if (entry.data?.$type$ === type && accept(entry.data as T, entry.channelOwner)) {
+        entries.push(entry.data as T);
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Store the object and post it to our channel for the recipient
+   */
+  private async post(nodeOneCore: any, channelId: string, recipient: string, obj: SharedSubject | SubjectAccessRequest): Promise<void> {
+    const channelManager = nodeOneCore.channelManager;
+    const owner = nodeOneCore.ownerId;
+
+    if (!this.grantedChannels.has(channelId)) {
+      await channelManager.createChannel(channelId, owner);
+      await grantChannelAccess(channelId, owner, recipient);
+      this.grantedChannels.add(channelId);
+    }
+
+    await storeVersionedObject(obj as any);
+    await channelManager.postToChannel(channelId, obj, owner);
+  }
+
+  /**
+   * Whether we already asked for the source conversation of a shared subject
+   */
+  private async hasRequestedAccess(nodeOneCore: any, peerSubject: PeerSubject): Promise<boolean> {
+    try {
+      const idHash = await calculateIdHashOfObj({
+        $type$: 'SubjectAccessRequest',
+        requester: nodeOneCore.ownerId,
+        owner: peerSubject.sharedBy,
+        topic: peerSubject.topic,
+        subject: peerSubject.subject
+      } as any);
+      const result: any = await getObjectByIdHash(idHash);
+      return Boolean(result?.obj);
+    } catch (error) {
+      return false;
+    }
+  }
+
+  private async getDecision(request: SubjectAccessRequest): Promise<SubjectAccessDecision | null> {
+    try {
+      const idHash = await calculateIdHashOfObj({
+        $type$: 'SubjectAccessDecision',
+        requester: request.requester,
+        topic: request.topic,
+        subject: request.subject
+      } as any);
+      const result: any = await getObjectByIdHash(idHash);
+      return (result?.obj as SubjectAccessDecision) || null;
+    } catch (error) {
+      return null;
+    }
+  }
+
+  private getTrustManager(nodeOneCore: any): ContactTrustManager {
+    if (!this.trustManager) {
+      this.trustManager = new ContactTrustManager(nodeOneCore);
+    }
+    return this.trustManager;
+  }
+}
+
+// Export singleton instance
+const subjectSharing = new SubjectSharingService();
+export default subjectSharing;
@@ -0,0 +1,160 @@
+/**
+ * Subject Similarity
+ * Finds near-duplicate subjects of a topic ("college-savings" vs "saving-for-college").
+ *
+ * A pair is scored by the Jaccard overlap of its keywords and by how similar the
+ * subject names are - word overlap after dropping stop words and crude stemming,
+ * or character bigrams for spelling variants, whichever is higher.
+ */
+
+export interface SimilarSubject {
+  id: string              // Keyword combination
+  keywords: string[]      // Keyword ID hashes or terms - only compared with each other
+  messageCount?: number
+  createdAt?: number
+}
+
+export interface MergeCandidate {
+  keepId: string          // The subject that stays
+  mergeId: string         // The subject folded into it
+  score: number
+  keywordSimilarity: number
+  nameSimilarity: number
+}
+
+const STOP_WORDS = new Set(['a', 'an', 'and', 'the', 'of', 'for', 'to', 'in', 'on', 'with', 'about', 'my', 'our'])
+
+const KEYWORD_WEIGHT = 0.5
+const NAME_WEIGHT = 0.5
+export const DEFAULT_MIN_MERGE_SCORE = 0.6
+
+/**
+ * Words of a subject name, without stop words, crudely stemmed
+ */
+export function subjectNameStems(name: string): string[] {
+  return String(name)
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(word => word && !STOP_WORDS.has(word))
+    .map(stem)
+}
+
+function stem(word: string): string {
+  let result = word
+  if (result.length > 4 && result.endsWith('ies')) {
+    result = result.slice(0, -3) + 'y'
+  } else if (result.length > 3 && result.endsWith('s') && !result.endsWith('ss')) {
+    result = result.slice(0, -1)
+  }
+  if (result.length > 5 && result.endsWith('ing')) {
+    result = result.slice(0, -3)
+  }
+  return result
+}
+
+export function jaccard<T>(a: Iterable<T>, b: Iterable<T>): number {
+  const setA = new Set(a)
+  const setB = new Set(b)
+  if (setA.size === 0 && setB.size === 0) return 0
+  let intersection = 0
+  for (const item of setA) {
+    if (setB.has(item)) intersection++
+  }
+  return intersection / (setA.size + setB.size - intersection)
+}
+
+function bigrams(text: string): string[] {
+  const result: string[] = []
+  for (let i = 0; i + 2 <= text.length; i++) {
+    result.push(text.substring(i, i + 2))
+  }
+  return result
+}
+
+/**
+ * Sørensen-Dice coefficient over character bigrams
+ */
+function diceCoefficient(a: string, b: string): number {
+  const bigramsA = bigrams(a)
+  const bigramsB = bigrams(b)
+  if (bigramsA.length === 0 || bigramsB.length === 0) return a === b && a.length > 0 ? 1 : 0
+
+  const counts = new Map<string, number>()
+  for (const bigram of bigramsA) counts.set(bigram, (counts.get(bigram) || 0) + 1)
+  let overlap = 0
+  for (const bigram of bigramsB) {
+    const count = counts.get(bigram) || 0
+    if (count > 0) {
+      overlap++
+      counts.set(bigram, count - 1)
+    }
+  }
+  return (2 * overlap) / (bigramsA.length + bigramsB.length)
+}
+
+export function nameSimilarity(nameA: string, nameB: string): number {
+  const stemsA = subjectNameStems(nameA)
+  const stemsB = subjectNameStems(nameB)
+  const wordOverlap = jaccard(stemsA, stemsB)
+  const spelling = diceCoefficient([...stemsA].sort().join(' '), [...stemsB].sort().join(' '))
+  return Math.max(wordOverlap, spelling)
+}
+
+export function scoreSubjectPair(a: SimilarSubject, b: SimilarSubject): { score: number, keywordSimilarity: number, nameSimilarity: number } {
+  const keywordSimilarity = jaccard(a.keywords, b.keywords)
+  const names = nameSimilarity(a.id, b.id)
+  return {
+    score: KEYWORD_WEIGHT * keywordSimilarity + NAME_WEIGHT * names,
+    keywordSimilarity,
+    nameSimilarity: names
+  }
+}
+
+/**
+ * Pairs worth merging, best first. The subject with more messages (then the
+ * older one) is kept. Each subject appears in at most one suggestion.
+ */
+export function findMergeCandidates(
+  subjects: SimilarSubject[],
+  options: { minScore?: number, exclude?: (a: string, b: string) => boolean } = {}
+): MergeCandidate[] {
+  const { minScore = DEFAULT_MIN_MERGE_SCORE, exclude } = options
+  const scored: MergeCandidate[] = []
+
+  for (let i = 0; i < subjects.length; i++) {
+    for (let j = i + 1; j < subjects.length; j++) {
+      const a = subjects[i]
+      const b = subjects[j]
+      if (a.id === b.id || exclude?.(a.id, b.id)) continue
+
+      const { score, keywordSimilarity, nameSimilarity } = scoreSubjectPair(a, b)
+      if (score < minScore) continue
+
+      const [keep, merge] = preferKept(a, b)
+      scored.push({ keepId: keep.id, mergeId: merge.id, score, keywordSimilarity, nameSimilarity })
+    }
+  }
+
+  scored.sort((x, y) => y.score - x.score)
+  const used = new Set<string>()
+  return scored.filter(candidate => {
+    if (used.has(candidate.keepId) || used.has(candidate.mergeId)) return false
+    used.add(candidate.keepId)
+    used.add(candidate.mergeId)
+    return true
+  })
+}
+
+/**
+ * Order-independent key of a subject pair, safe to store
+ */
+export function subjectPairKey(a: string, b: string): string {
+  return JSON.stringify([a, b].sort())
+}
+
+function preferKept(a: SimilarSubject, b: SimilarSubject): [SimilarSubject, SimilarSubject] {
+  const countA = a.messageCount || 0
+  const countB = b.messageCount || 0
+  if (countA !== countB) return countA > countB ? [a, b] : [b, a]
+  return (a.createdAt || 0) <= (b.createdAt || 0) ? [a, b] : [b, a]
+}
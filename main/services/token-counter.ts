@@ -0,0 +1,216 @@
+/**
+ * Token Counter Service for Main Process
+ * Estimates prompt sizes per model family and calibrates against provider-reported counts
+ */
+
+export interface Tokenizer {
+  countTokens(text: string): number
+}
+
+export interface TokenUsage {
+  promptTokens?: number
+  completionTokens?: number
+}
+
+export interface TokenCountMessage {
+  role: string
+  content: string
+}
+
+/**
+ * Tuning for the segment-based tokenizer.
+ * BPE vocabularies differ mostly in how well they compress non-English text and code symbols.
+ */
+interface SegmentTokenizerProfile {
+  asciiCharsPerToken: number     // Latin words without diacritics
+  nonAsciiCharsPerToken: number  // Accented Latin, Cyrillic, Greek, Arabic, ...
+  cjkTokensPerChar: number       // Han, Kana, Hangul
+  symbolTokens: number           // Punctuation and operators
+}
+
+// Chat templates add role markers and separators around every message
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+// Bounds for the provider calibration factor - protects against one odd response
+const MIN_CALIBRATION = 0.5
+const MAX_CALIBRATION = 2.5
+const CALIBRATION_WEIGHT = 0.3
+
+const SEGMENT_PATTERN = /[\p{L}\p{M}\p{N}_]+|\n+|[^\S\n]+|[^\s\p{L}\p{M}\p{N}_]/gu
+const CJK_PATTERN = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/gu
+const NON_ASCII_PATTERN = /[^\x00-\x7F]/
+
+/**
+ * Heuristic BPE approximation that counts per segment instead of per character.
+ * Whitespace between words is free (BPE merges it into the next token), indentation
+ * runs are cheap, and scripts that tokenize poorly are counted closer to per-character.
+ */
+export class SegmentTokenizer implements Tokenizer {
+  private profile: SegmentTokenizerProfile
+
+  constructor(profile: SegmentTokenizerProfile) {
+    this.profile = profile
+  }
+
+  countTokens(text: string): number {
+    if (!text) return 0
+
+    let tokens = 0
+    for (const [segment] of text.matchAll(SEGMENT_PATTERN)) {
+      const first = segment[0]
+
+      if (first === '\n') {
+        tokens += 1
+      } else if (/\s/.test(first)) {
+        // Single spaces merge into the following word, longer runs (indentation) compress well
+        tokens += segment.length > 1 ? Math.ceil((segment.length - 1) / 4) : 0
+      } else if (/[\p{L}\p{M}\p{N}_]/u.test(first)) {
+        tokens += this.countWord(segment)
+      } else {
+        tokens += this.profile.symbolTokens
+      }
+    }
+
+    return Math.ceil(tokens)
+  }
+
+  private countWord(word: string): number {
+    const cjkCount = word.match(CJK_PATTERN)?.length || 0
+    const rest = word.length - cjkCount
+    let tokens = cjkCount * this.profile.cjkTokensPerChar
+
+    if (rest > 0) {
+      const charsPerToken = NON_ASCII_PATTERN.test(word)
+        ? this.profile.nonAsciiCharsPerToken
+        : this.profile.asciiCharsPerToken
+      tokens += Math.max(1, Math.ceil(rest / charsPerToken))
+    }
+
+    return tokens
+  }
+}
+
+class TokenCounter {
+  tokenizers: Map<string, Tokenizer>
+  calibration: Map<string, number>
+
+  constructor() {
+    this.tokenizers = new Map()
+    this.calibration = new Map()
+
+    this.registerTokenizer('default', new SegmentTokenizer({
+      asciiCharsPerToken: 5,
+      nonAsciiCharsPerToken: 2.5,
+      cjkTokensPerChar: 1,
+      symbolTokens: 0.8
+    }))
+    this.registerTokenizer('llama', new SegmentTokenizer({
+      asciiCharsPerToken: 6,
+      nonAsciiCharsPerToken: 2.2,
+      cjkTokensPerChar: 1.2,
+      symbolTokens: 0.75
+    }))
+    this.registerTokenizer('qwen', new SegmentTokenizer({
+      asciiCharsPerToken: 6,
+      nonAsciiCharsPerToken: 2.8,
+      cjkTokensPerChar: 0.7,
+      symbolTokens: 0.7
+    }))
+    this.registerTokenizer('claude', new SegmentTokenizer({
+      asciiCharsPerToken: 5,
+      nonAsciiCharsPerToken: 2.5,
+      cjkTokensPerChar: 1,
+      symbolTokens: 0.8
+    }))
+  }
+
+  /**
+   * Register a tokenizer for a model family, replacing any existing one.
+   * A real vocabulary-based tokenizer can be plugged in here without touching callers.
+   */
+  registerTokenizer(family: string, tokenizer: Tokenizer): void {
+    this.tokenizers.set(family, tokenizer)
+  }
+
+  /**
+   * Map a model ID (e.g. "ollama:llama3.2:3b", "claude:claude-3-5-sonnet") to a tokenizer family
+   */
+  getModelFamily(modelId: string): string {
+    // Drop the provider prefix - "ollama:" would otherwise match the llama family
+    const id = String(modelId || '').toLowerCase().replace(/^(ollama|lmstudio|claude|openai):/, '')
+
+    if (id.includes('claude')) return 'claude'
+    if (id.includes('qwen')) return 'qwen'
+    if (/llama|mistral|mixtral|phi|deepseek/.test(id)) return 'llama'
+
+    // Families registered at runtime match by name (e.g. "gemma")
+    for (const family of this.tokenizers.keys()) {
+      if (family !== 'default' && id.includes(family)) return family
+    }
+
+    return 'default'
+  }
+
+  getTokenizer(modelId: string): Tokenizer {
+    const family = this.getModelFamily(modelId)
+    return this.tokenizers.get(family) || this.tokenizers.get('default')!
+  }
+
+  /**
+   * Estimated token count of a text for the given model, corrected by provider calibration
+   */
+  countTokens(text: string, modelId: string): number {
+    const raw = this.getTokenizer(modelId).countTokens(text || '')
+    return Math.ceil(raw * this.getCalibration(modelId))
+  }
+
+  /**
+   * Estimated prompt size of a chat message list, including per-message template overhead
+   */
+  countMessages(messages: TokenCountMessage[], modelId: string): number {
+    let total = 0
+    for (const message of messages) {
+      total += this.countTokens(message.content, modelId) + MESSAGE_OVERHEAD_TOKENS
+    }
+    return total
+  }
+
+  getCalibration(modelId: string): number {
+    return this.calibration.get(String(modelId)) || 1
+  }
+
+  /**
+   * Learn from a provider-reported prompt token count.
+   * The ratio of reported to estimated tokens is blended into a per-model correction factor.
+   *
+   * Only first turns count: with prompt caching (Ollama's prompt_eval_count, Claude's
+   * input_tokens) providers leave out the prefix they already evaluated, which in a
+   * continued conversation is most of the prompt. A count far below the estimate is
+   * taken as such a cache hit, e.g. on a system prompt shared with an earlier chat.
+   */
+  recordUsage(modelId: string, messages: TokenCountMessage[], usage: TokenUsage): void {
+    if (!usage?.promptTokens || !messages?.length) return
+    if (messages.some(message => message.role !== 'system' && message.role !== 'user')) return
+
+    const tokenizer = this.getTokenizer(modelId)
+    let estimated = 0
+    for (const message of messages) {
+      estimated += tokenizer.countTokens(message.content || '') + MESSAGE_OVERHEAD_TOKENS
+    }
+    if (estimated === 0) return
+
+    const observed = usage.promptTokens / estimated
+    if (observed < MIN_CALIBRATION) return
+
+    const previous = this.calibration.get(String(modelId))
+    const blended = previous === undefined
+      ? observed
+      : previous * (1 - CALIBRATION_WEIGHT) + observed * CALIBRATION_WEIGHT
+
+    const factor = Math.min(MAX_CALIBRATION, Math.max(MIN_CALIBRATION, blended))
+    this.calibration.set(String(modelId), factor)
+    console.log(`[TokenCounter] ${modelId}: reported ${usage.promptTokens} prompt tokens, estimated ${estimated}, calibration ${factor.toFixed(2)}`)
+  }
+}
+
+export default new TokenCounter()
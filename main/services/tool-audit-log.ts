@@ -0,0 +1,140 @@
+/**
+ * Tool Audit Log
+ * Persists every AI tool execution (input, output, duration, outcome) as a
+ * ToolExecution object, indexed per day by a versioned ToolAuditLog.
+ */
+
+import { storeUnversionedObject, getObject } from '@refinio/one.core/lib/storage-unversioned-objects.js';
+import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js';
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+
+export type ToolOutcome = 'success' | 'error' | 'denied';
+
+export interface ToolExecutionEntry {
+  tool: string;
+  input: Record<string, any>;
+  output?: string;
+  outcome: ToolOutcome;
+  error?: string;
+  durationMs: number;
+  topicId?: string;
+  modelId?: string;
+  started: number;
+}
+
+export interface ToolExecutionRecord extends ToolExecutionEntry {
+  hash: string;
+}
+
+// Large outputs (file contents) are cut to keep the log reviewable
+const MAX_OUTPUT_LENGTH = 50000;
+
+function dayOf(timestamp: number): string {
+  return new Date(timestamp).toISOString().substring(0, 10);
+}
+
+class ToolAuditLog {
+  // Appends to a day's index run one after another so none are lost
+  private writeQueue: Promise<unknown>;
+
+  constructor() {
+    this.writeQueue = Promise.resolve();
+  }
+
+  /**
+   * Store one execution. Failures are logged, never thrown - auditing must not break the tool loop.
+   */
+  async record(entry: ToolExecutionEntry): Promise<string | null> {
+    const write = this.writeQueue.then(() => this.store(entry));
+    this.writeQueue = write.catch(() => undefined);
+
+    try {
+      return await write;
+    } catch (error) {
+      console.error(`[ToolAuditLog] Failed to record ${entry.tool}:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Executions of the last days, newest first
+   */
+  async list(days: number = 7, limit: number = 200): Promise<ToolExecutionRecord[]> {
+    const records: ToolExecutionRecord[] = [];
+    const now = Date.now();
+
+    for (let i = 0; i < days && records.length < limit; i++) {
+      const hashes = await this.getDayIndex(dayOf(now - i * 24 * 60 * 60 * 1000));
+      for (const hash of [...hashes].reverse()) {
+        if (records.length >= limit) break;
+        try {
+          const obj: any = await getObject(hash as any);
+          records.push({
+            hash,
+            tool: obj.tool,
+            input: JSON.parse(obj.input || '{}'),
+            output: obj.output,
+            outcome: obj.outcome,
+            error: obj.error,
+            durationMs: obj.durationMs,
+            topicId: obj.topicId,
+            modelId: obj.modelId,
+            started: obj.started
+          });
+        } catch (error) {
+          console.warn(`[ToolAuditLog] Could not load execution ${hash}:`, (error as Error).message);
+        }
+      }
+    }
+
+    return records;
+  }
+
+  private async store(entry: ToolExecutionEntry): Promise<string> {
+    const obj: any = {
+      $type$: 'ToolExecution',
+      tool: entry.tool,
+      input: JSON.stringify(entry.input || {}),
+      outcome: entry.outcome,
+      durationMs: Math.round(entry.durationMs),
+      started: entry.started
+    };
+    if (entry.output !== undefined) {
+      obj.output = entry.output.length > MAX_OUTPUT_LENGTH
+        ? `${entry.output.substring(0, MAX_OUTPUT_LENGTH)}\n[... ${entry.output.length - MAX_OUTPUT_LENGTH} more characters]`
+        : entry.output;
+    }
+    if (entry.error) obj.error = entry.error;
+    if (entry.topicId) obj.topicId = entry.topicId;
+    if (entry.modelId) obj.modelId = entry.modelId;
+
+    const result = await storeUnversionedObject(obj);
+    const hash = String(result.hash);
+
+    const day = dayOf(entry.started);
+    const executions = await this.getDayIndex(day);
+    await storeVersionedObject({
+      $type$: 'ToolAuditLog',
+      day,
+      executions: [...executions, hash]
+    } as any);
+
+    console.log(`[ToolAuditLog] ${entry.tool}: ${entry.outcome} in ${obj.durationMs}ms`);
+    return hash;
+  }
+
+  private async getDayIndex(day: string): Promise<string[]> {
+    try {
+      const idHash = await calculateIdHashOfObj({ $type$: 'ToolAuditLog', day } as any);
+      const stored: any = await getObjectByIdHash(idHash);
+      return stored?.obj?.executions || [];
+    } catch (error) {
+      // Nothing logged that day
+      return [];
+    }
+  }
+}
+
+// Export singleton instance
+const toolAuditLog = new ToolAuditLog();
+export default toolAuditLog;
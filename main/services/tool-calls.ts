@@ -0,0 +1,78 @@
+/**
+ * Native Tool Calling
+ * Provider-neutral types for tool definitions, tool calls and tool results.
+ *
+ * Claude and Ollama receive MCP tools as native tool definitions and return
+ * structured tool calls. LLMManager runs the call → observe → continue loop;
+ * each provider translates these messages into its own wire format.
+ */
+
+export interface ToolDefinition {
+  name: string           // Provider-safe name, see toNativeToolName
+  description: string
+  inputSchema: any       // JSON schema of the arguments
+}
+
+export interface ToolCall {
+  id: string
+  name: string           // Provider-safe name as returned by the model
+  arguments: Record<string, any>
+  error?: string         // The call could not be decoded - answered with this instead of running
+}
+
+export interface ToolStep {
+  id: string
+  step: number           // Loop iteration the call belongs to (1-based)
+  tool: string           // MCP tool name (server:tool)
+  arguments: Record<string, any>
+  status: 'running' | 'done' | 'error' | 'denied'
+  result?: string        // Shortened result text shown in the chat
+  error?: string
+}
+
+/**
+ * Conversation message as used by the tool loop.
+ * Assistant turns may carry toolCalls; role 'tool' answers one call.
+ */
+export interface ToolChatMessage {
+  role: 'system' | 'user' | 'assistant' | 'tool'
+  content: string
+  toolCalls?: ToolCall[]
+  toolCallId?: string
+  toolName?: string
+}
+
+// Upper bound for model → tool → model iterations per reply
+export const MAX_TOOL_STEPS = 6
+
+// Result text kept in a visible step; the model always gets the full result
+const STEP_RESULT_PREVIEW = 500
+
+/**
+ * Tool names may only contain [a-zA-Z0-9_-] (max 64 chars) for Claude,
+ * so "filesystem:list_directory" becomes "filesystem__list_directory".
+ */
+export function toNativeToolName(fullName: string): string {
+  return fullName.replace(/:/g, '__').replace(/[^a-zA-Z0-9_-]/g, '_').substring(0, 64)
+}
+
+/**
+ * Text content of an MCP tool result
+ */
+export function formatToolResult(result: any): string {
+  if (typeof result === 'string') {
+    return result
+  }
+  if (result?.content && Array.isArray(result.content)) {
+    const text = result.content
+      .filter((c: any) => c.type === 'text' && c.text)
+      .map((c: any) => c.text)
+      .join('\n\n')
+    if (text) return text
+  }
+  return JSON.stringify(result, null, 2)
+}
+
+export function previewToolResult(text: string): string {
+  return text.length > STEP_RESULT_PREVIEW ? `${text.substring(0, STEP_RESULT_PREVIEW)}…` : text
+}
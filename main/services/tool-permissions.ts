@@ -0,0 +1,223 @@
+/**
+ * Tool Permissions
+ * Per-tool policies for AI tool execution: always allow, ask each time, or deny.
+ *
+ * Rules apply to one tool (or '*') globally, in one topic or for one model.
+ * The most specific rule wins: topic, then model, then global. Without a rule,
+ * read-only tools run and tools with side effects ask the user in the renderer.
+ */
+
+import electron from 'electron';
+import { storeVersionedObject, getObjectByIdHash } from '@refinio/one.core/lib/storage-versioned-objects.js';
+import { calculateIdHashOfObj } from '@refinio/one.core/lib/util/object.js';
+import mcpManager from './mcp-manager.js';
+const { BrowserWindow } = electron;
+
+export type ToolPolicy = 'allow' | 'ask' | 'deny';
+export type ToolPermissionScope = 'global' | 'topic' | 'model';
+
+export interface ToolPermissionRule {
+  tool: string;                 // MCP tool name (server:tool) or '*'
+  scope: ToolPermissionScope;
+  scopeId?: string;             // topicId or modelId
+  policy: ToolPolicy;
+  created: number;
+}
+
+export interface ToolPermissionRequest {
+  tool: string;
+  arguments: Record<string, any>;
+  topicId?: string;
+  modelId?: string;
+  signal?: AbortSignal;
+}
+
+// Answer from the confirmation dialog
+export type ToolPermissionDecision = 'allow-once' | 'allow-topic' | 'allow-model' | 'deny';
+
+const PERMISSIONS_ID = 'tool-permissions';
+
+// Unanswered prompts are denied after this long
+const PROMPT_TIMEOUT_MS = 120000;
+
+// Tools whose names start like this only read
+const READ_ONLY_TOOL = /^(read|list|get|search|find|query|describe|show|view|directory_tree)/i;
+
+const SCOPE_ORDER: ToolPermissionScope[] = ['topic', 'model', 'global'];
+
+class ToolPermissionManager {
+  public rules: ToolPermissionRule[];
+  public isLoaded: boolean;
+  private pending: Map<string, { request: ToolPermissionRequest, resolve: (decision: ToolPermissionDecision) => void }>;
+  private requestCounter: number;
+
+  constructor() {
+    this.rules = [];
+    this.isLoaded = false;
+    this.pending = new Map();
+    this.requestCounter = 0;
+  }
+
+  async load(): Promise<ToolPermissionRule[]> {
+    try {
+      const idHash = await calculateIdHashOfObj({ $type$: 'ToolPermissions', name: PERMISSIONS_ID } as any);
+      const stored: any = await getObjectByIdHash(idHash);
+      this.rules = stored?.obj?.rules || [];
+    } catch (error) {
+      // No rules stored yet
+      this.rules = [];
+    }
+    this.isLoaded = true;
+    console.log(`[ToolPermissions] Loaded ${this.rules.length} rules`);
+    return this.rules;
+  }
+
+  async getRules(): Promise<ToolPermissionRule[]> {
+    if (!this.isLoaded) {
+      await this.load();
+    }
+    return this.rules;
+  }
+
+  /**
+   * Add a rule, replacing an existing one for the same tool and scope
+   */
+  async setRule(rule: Omit<ToolPermissionRule, 'created'>): Promise<ToolPermissionRule[]> {
+    if (rule.scope !== 'global' && !rule.scopeId) {
+      throw new Error(`A ${rule.scope} rule needs a scopeId`);
+    }
+    await this.getRules();
+
+    const newRule: ToolPermissionRule = { ...rule, created: Date.now() };
+    if (rule.scope === 'global') {
+      delete newRule.scopeId;
+    }
+    this.rules = [...this.rules.filter(r => !this.sameTarget(r, newRule)), newRule];
+    await this.storeRules();
+
+    console.log(`[ToolPermissions] ${newRule.policy} ${newRule.tool} (${newRule.scope}${newRule.scopeId ? ` ${newRule.scopeId}` : ''})`);
+    return this.rules;
+  }
+
+  async removeRule(target: Pick<ToolPermissionRule, 'tool' | 'scope' | 'scopeId'>): Promise<ToolPermissionRule[]> {
+    await this.getRules();
+    this.rules = this.rules.filter(r => !this.sameTarget(r, target));
+    await this.storeRules();
+    return this.rules;
+  }
+
+  /**
+   * Whether a tool may change anything. MCP servers can say so with the
+   * readOnlyHint annotation; otherwise the tool name decides.
+   */
+  hasSideEffects(tool: string): boolean {
+    const definition: any = mcpManager.tools.get(tool);
+    if (definition?.annotations?.readOnlyHint !== undefined) {
+      return !definition.annotations.readOnlyHint;
+    }
+    const shortName = tool.includes(':') ? tool.substring(tool.indexOf(':') + 1) : tool;
+    return !READ_ONLY_TOOL.test(shortName);
+  }
+
+  /**
+   * Policy for a request - most specific rule first
+   */
+  resolvePolicy(request: Pick<ToolPermissionRequest, 'tool' | 'topicId' | 'modelId'>): ToolPolicy {
+    for (const scope of SCOPE_ORDER) {
+      const scopeId = scope === 'topic' ? request.topicId : scope === 'model' ? request.modelId : undefined;
+      if (scope !== 'global' && !scopeId) continue;
+
+      const matching = this.rules.filter(r => r.scope === scope && (scope === 'global' || r.scopeId === scopeId));
+      const rule = matching.find(r => r.tool === request.tool) || matching.find(r => r.tool === '*');
+      if (rule) return rule.policy;
+    }
+    return this.hasSideEffects(request.tool) ? 'ask' : 'allow';
+  }
+
+  /**
+   * Decide whether a tool call may run, asking the user when the policy says so
+   */
+  async authorize(request: ToolPermissionRequest): Promise<boolean> {
+    await this.getRules();
+    const policy = this.resolvePolicy(request);
+    if (policy !== 'ask') {
+      return policy === 'allow';
+    }
+
+    const decision = await this.ask(request);
+    if (decision === 'allow-topic' && request.topicId) {
+      await this.setRule({ tool: request.tool, scope: 'topic', scopeId: request.topicId, policy: 'allow' });
+    } else if (decision === 'allow-model' && request.modelId) {
+      await this.setRule({ tool: request.tool, scope: 'model', scopeId: request.modelId, policy: 'allow' });
+    }
+    return decision !== 'deny';
+  }
+
+  /**
+   * Answer from the renderer's confirmation dialog
+   */
+  respond(requestId: string, decision: ToolPermissionDecision): boolean {
+    const pending = this.pending.get(requestId);
+    if (!pending) return false;
+    pending.resolve(decision);
+    return true;
+  }
+
+  private ask(request: ToolPermissionRequest): Promise<ToolPermissionDecision> {
+    const windows = BrowserWindow.getAllWindows();
+    if (windows.length === 0 || request.signal?.aborted) {
+      return Promise.resolve('deny');
+    }
+
+    const requestId = `tool-permission-${Date.now()}-${++this.requestCounter}`;
+
+    return new Promise(resolve => {
+      const finish = (decision: ToolPermissionDecision) => {
+        if (!this.pending.has(requestId)) return;
+        this.pending.delete(requestId);
+        clearTimeout(timer);
+        request.signal?.removeEventListener('abort', onAbort);
+        // Close the dialog in every window
+        for (const window of BrowserWindow.getAllWindows()) {
+          window.webContents.send('tools:permissionResolved', { requestId, decision });
+        }
+        console.log(`[ToolPermissions] ${request.tool}: ${decision}`);
+        resolve(decision);
+      };
+      const onAbort = () => finish('deny');
+      const timer = setTimeout(() => finish('deny'), PROMPT_TIMEOUT_MS);
+
+      this.pending.set(requestId, { request, resolve: finish });
+      request.signal?.addEventListener('abort', onAbort, { once: true });
+
+      for (const window of windows) {
+        window.webContents.send('tools:permissionRequest', {
+          requestId,
+          tool: request.tool,
+          arguments: request.arguments,
+          topicId: request.topicId,
+          modelId: request.modelId,
+          description: mcpManager.tools.get(request.tool)?.description || '',
+          timeoutMs: PROMPT_TIMEOUT_MS
+        });
+      }
+    });
+  }
+
+  private sameTarget(a: Pick<ToolPermissionRule, 'tool' | 'scope' | 'scopeId'>, b: Pick<ToolPermissionRule, 'tool' | 'scope' | 'scopeId'>): boolean {
+    return a.tool === b.tool && a.scope === b.scope && (a.scope === 'global' || a.scopeId === b.scopeId);
+  }
+
+  private async storeRules(): Promise<void> {
+    await storeVersionedObject({
+      $type$: 'ToolPermissions',
+      name: PERMISSIONS_ID,
+      rules: this.rules,
+      updated: Date.now()
+    } as any);
+  }
+}
+
+// Export singleton instance
+const toolPermissions = new ToolPermissionManager();
+export default toolPermissions;
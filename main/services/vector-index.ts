@@ -0,0 +1,120 @@
+/**
+ * Vector Index
+ * In-memory nearest-neighbour index over normalized embedding vectors.
+ *
+ * Vectors are normalized on insert, so similarity is a dot product. Search is a flat
+ * scan - exact, and fast enough for the few thousand subjects, keywords and messages
+ * of a personal instance. Entries can be added and replaced one at a time.
+ */
+
+export interface VectorEntry<M> {
+  key: string
+  vector: Float32Array
+  meta: M
+}
+
+export interface VectorMatch<M> {
+  key: string
+  score: number          // Cosine similarity, -1..1
+  meta: M
+}
+
+export function normalizeVector(vector: ArrayLike<number>): Float32Array {
+  const result = Float32Array.from(vector)
+  let norm = 0
+  for (let i = 0; i < result.length; i++) {
+    norm += result[i] * result[i]
+  }
+  norm = Math.sqrt(norm)
+  if (norm > 0) {
+    for (let i = 0; i < result.length; i++) {
+      result[i] /= norm
+    }
+  }
+  return result
+}
+
+export function cosineSimilarity(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length || a.length === 0) {
+    return 0
+  }
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0
+}
+
+/**
+ * Float32 vectors are stored as base64 strings in ONE objects
+ */
+export function encodeVector(vector: Float32Array): string {
+  return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength).toString('base64')
+}
+
+export function decodeVector(encoded: string): Float32Array {
+  const buffer = Buffer.from(encoded, 'base64')
+  const copy = new Uint8Array(buffer.length)
+  copy.set(buffer)
+  return new Float32Array(copy.buffer)
+}
+
+export class VectorIndex<M = unknown> {
+  private entries = new Map<string, VectorEntry<M>>()
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  has(key: string): boolean {
+    return this.entries.has(key)
+  }
+
+  get(key: string): VectorEntry<M> | undefined {
+    return this.entries.get(key)
+  }
+
+  /**
+   * Add or replace an entry
+   */
+  add(key: string, vector: ArrayLike<number>, meta: M): void {
+    this.entries.set(key, { key, vector: normalizeVector(vector), meta })
+  }
+
+  remove(key: string): boolean {
+    return this.entries.delete(key)
+  }
+
+  clear(): void {
+    this.entries.clear()
+  }
+
+  /**
+   * The k entries most similar to the query vector, best first.
+   * Entries with a different dimension (other embedding model) never match.
+   */
+  search(query: ArrayLike<number>, options: { k?: number, minScore?: number, filter?: (entry: VectorEntry<M>) => boolean } = {}): VectorMatch<M>[] {
+    const { k = 10, minScore = -1, filter } = options
+    const normalized = normalizeVector(query)
+    const matches: VectorMatch<M>[] = []
+
+    for (const entry of this.entries.values()) {
+      if (entry.vector.length !== normalized.length) continue
+      if (filter && !filter(entry)) continue
+
+      let score = 0
+      for (let i = 0; i < normalized.length; i++) {
+        score += normalized[i] * entry.vector[i]
+      }
+      if (score >= minScore) {
+        matches.push({ key: entry.key, score, meta: entry.meta })
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score).slice(0, k)
+  }
+}
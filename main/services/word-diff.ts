@@ -0,0 +1,116 @@
+/**
+ * Word Diff
+ * Word-level difference between two texts, for comparing summary versions.
+ *
+ * Words are compared without their surrounding whitespace. Joining the equal and
+ * added segments gives the new text back; joining the equal and removed segments
+ * gives the old one, up to changes in whitespace.
+ */
+
+export type DiffSegmentType = 'equal' | 'added' | 'removed'
+
+export interface DiffSegment {
+  type: DiffSegmentType
+  text: string
+}
+
+export interface WordDiff {
+  segments: DiffSegment[]
+  added: number      // Words
+  removed: number
+  unchanged: number
+}
+
+// Above this many cells the middle part is reported as replaced instead of aligned
+const MAX_TABLE_CELLS = 4_000_000
+
+/**
+ * Split into words, each with the whitespace that follows it
+ */
+function splitWords(text: string): string[] {
+  const words = String(text || '').match(/\S+\s*/g) || []
+  const leading = String(text || '').match(/^\s+/)
+  if (leading && words.length > 0) words[0] = leading[0] + words[0]
+  return words
+}
+
+const bare = (word: string) => word.trim()
+
+export function diffWords(before: string, after: string): WordDiff {
+  const oldWords = splitWords(before)
+  const newWords = splitWords(after)
+  const operations: Array<{ type: DiffSegmentType, word: string }> = []
+
+  // Common prefix and suffix need no alignment
+  let start = 0
+  while (start < oldWords.length && start < newWords.length && bare(oldWords[start]) === bare(newWords[start])) {
+    start++
+  }
+  let oldEnd = oldWords.length
+  let newEnd = newWords.length
+  while (oldEnd > start && newEnd > start && bare(oldWords[oldEnd - 1]) === bare(newWords[newEnd - 1])) {
+    oldEnd--
+    newEnd--
+  }
+
+  for (let i = 0; i < start; i++) operations.push({ type: 'equal', word: newWords[i] })
+  operations.push(...alignMiddle(oldWords.slice(start, oldEnd), newWords.slice(start, newEnd)))
+  for (let i = newEnd; i < newWords.length; i++) operations.push({ type: 'equal', word: newWords[i] })
+
+  const segments: DiffSegment[] = []
+  const counts = { equal: 0, added: 0, removed: 0 }
+  for (const operation of operations) {
+    counts[operation.type]++
+    const last = segments[segments.length - 1]
+    if (last && last.type === operation.type) {
+      last.text += operation.word
+    } else {
+      segments.push({ type: operation.type, text: operation.word })
+    }
+  }
+
+  return { segments, added: counts.added, removed: counts.removed, unchanged: counts.equal }
+}
+
+/**
+ * Longest common subsequence alignment of the differing middle part
+ */
+function alignMiddle(oldWords: string[], newWords: string[]): Array<{ type: DiffSegmentType, word: string }> {
+  const n = oldWords.length
+  const m = newWords.length
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_TABLE_CELLS) {
+    return [
+      ...oldWords.map(word => ({ type: 'removed' as const, word })),
+      ...newWords.map(word => ({ type: 'added' as const, word }))
+    ]
+  }
+
+  // lengths[i * (m + 1) + j] = LCS length of oldWords[i..] and newWords[j..]
+  const width = m + 1
+  const lengths = new Uint32Array((n + 1) * width)
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * width + j] = bare(oldWords[i]) === bare(newWords[j])
+        ? lengths[(i + 1) * width + j + 1] + 1
+        : Math.max(lengths[(i + 1) * width + j], lengths[i * width + j + 1])
+    }
+  }
+
+  const result: Array<{ type: DiffSegmentType, word: string }> = []
+  let i = 0
+  let j = 0
+  while (i < n && j < m) {
+    if (bare(oldWords[i]) === bare(newWords[j])) {
+      result.push({ type: 'equal', word: newWords[j] })
+      i++
+      j++
+    } else if (lengths[(i + 1) * width + j] >= lengths[i * width + j + 1]) {
+      result.push({ type: 'removed', word: oldWords[i++] })
+    } else {
+      result.push({ type: 'added', word: newWords[j++] })
+    }
+  }
+  while (i < n) result.push({ type: 'removed', word: oldWords[i++] })
+  while (j < m) result.push({ type: 'added', word: newWords[j++] })
+  return result
+}
@@ -0,0 +1,15 @@
+/**
+ * Module loader hook that resolves 'electron' to the headless stand-in.
+ * Registered by lama-mcp-server.ts before anything imports the main-process code.
+ */
+
+import type { ResolveHook } from 'module';
+
+const HEADLESS_ELECTRON_URL = new URL('./headless-electron.js', import.meta.url).href;
+
+export const resolve: ResolveHook = (specifier, context, nextResolve) => {
+  if (specifier === 'electron') {
+    return { url: HEADLESS_ELECTRON_URL, format: 'module', shortCircuit: true };
+  }
+  return nextResolve(specifier, context);
+};
@@ -0,0 +1,106 @@
+/**
+ * Headless Electron
+ * Stands in for the 'electron' module when main-process code runs under plain
+ * Node.js (see lama-mcp-server.ts). There are no windows, IPC handlers are never
+ * invoked, and dialogs are cancelled.
+ *
+ * safeStorage is unavailable, so tokens encrypted by the app (e.g. Ollama auth
+ * tokens) cannot be decrypted - those providers need the app or an unencrypted config.
+ */
+
+import os from 'os';
+import path from 'path';
+import { EventEmitter } from 'events';
+
+const dataDir = process.env.LAMA_STORAGE_DIR || path.join(os.homedir(), '.lama');
+
+const PATHS: Record<string, string> = {
+  home: os.homedir(),
+  appData: dataDir,
+  userData: dataDir,
+  temp: os.tmpdir(),
+  downloads: path.join(os.homedir(), 'Downloads'),
+  documents: path.join(os.homedir(), 'Documents'),
+  logs: path.join(dataDir, 'logs')
+};
+
+class HeadlessApp extends EventEmitter {
+  isPackaged = false;
+
+  getPath(name: string): string {
+    return PATHS[name] || dataDir;
+  }
+
+  getName(): string {
+    return 'LAMA';
+  }
+
+  getVersion(): string {
+    return process.env.npm_package_version || '0.0.0';
+  }
+
+  isReady(): boolean {
+    return true;
+  }
+
+  whenReady(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  quit(): void {
+    process.exit(0);
+  }
+
+  exit(code = 0): void {
+    process.exit(code);
+  }
+}
+
+class HeadlessIpcMain extends EventEmitter {
+  handle(_channel: string, _listener: (...args: any[]) => any): void {}
+  handleOnce(_channel: string, _listener: (...args: any[]) => any): void {}
+  removeHandler(_channel: string): void {}
+}
+
+export const app = new HeadlessApp();
+export const ipcMain = new HeadlessIpcMain();
+
+export const BrowserWindow = {
+  getAllWindows: (): any[] => [],
+  getFocusedWindow: (): any => null,
+  fromWebContents: (): any => null
+};
+
+export const safeStorage = {
+  isEncryptionAvailable: (): boolean => false,
+  encryptString: (_text: string): Buffer => {
+    throw new Error('safeStorage is not available without Electron');
+  },
+  decryptString: (_buffer: Buffer): string => {
+    throw new Error('safeStorage is not available without Electron');
+  }
+};
+
+export const dialog = {
+  showSaveDialog: async () => ({ canceled: true, filePath: undefined }),
+  showOpenDialog: async () => ({ canceled: true, filePaths: [] as string[] }),
+  showMessageBox: async () => ({ response: 0, checkboxChecked: false }),
+  showErrorBox: (title: string, content: string) => console.error(`${title}: ${content}`)
+};
+
+export class Notification {
+  static isSupported(): boolean {
+    return false;
+  }
+
+  constructor(_options?: any) {}
+
+  show(): void {}
+}
+
+export const shell = {
+  openExternal: async (_url: string) => {},
+  openPath: async (_path: string) => ''
+};
+
+export default { app, ipcMain, BrowserWindow, safeStorage, dialog, Notification, shell };
@@ -0,0 +1,138 @@
+/**
+ * Analysis Jobs Tests
+ *
+ * Verifies de-duplication, retry backoff and restart recovery of the analysis queue.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  AnalysisJobQueue,
+  MAX_ATTEMPTS,
+  BASE_RETRY_DELAY_MS,
+  MAX_RETRY_DELAY_MS,
+  retryDelay
+} from '../../main/services/analysis-jobs.js';
+
+function createQueue() {
+  const clock = { now: 1_000 };
+  const queue = new AnalysisJobQueue(() => clock.now);
+  return { queue, clock };
+}
+
+describe('AnalysisJobQueue', () => {
+  test('returns the waiting job when the same work is queued again', () => {
+    const { queue } = createQueue();
+    const first = queue.enqueue({ topicId: 'a', kind: 'summary' });
+    const second = queue.enqueue({ topicId: 'a', kind: 'summary', changeReason: 'new messages' });
+    const other = queue.enqueue({ topicId: 'b', kind: 'summary' });
+
+    expect(first.added).toBe(true);
+    expect(second.added).toBe(false);
+    expect(second.job.id).toBe(first.job.id);
+    expect(second.job.changeReason).toBe('new messages');
+    expect(other.added).toBe(true);
+    expect(queue.list()).toHaveLength(2);
+  });
+
+  test('folds partial work into a full analysis', () => {
+    const { queue } = createQueue();
+    const subjects = queue.enqueue({ topicId: 'a', kind: 'subjects' });
+    const analyze = queue.enqueue({ topicId: 'a', kind: 'analyze' });
+    expect(analyze.added).toBe(false);
+    expect(analyze.job.id).toBe(subjects.job.id);
+    expect(analyze.job.kind).toBe('analyze');
+
+    // A waiting full analysis already covers a summary
+    const summary = queue.enqueue({ topicId: 'a', kind: 'summary' });
+    expect(summary.added).toBe(false);
+    expect(queue.list('a')).toHaveLength(1);
+  });
+
+  test('folds every waiting job of the topic into one full analysis', () => {
+    const { queue } = createQueue();
+    const subjects = queue.enqueue({ topicId: 'a', kind: 'subjects' });
+    const summary = queue.enqueue({ topicId: 'a', kind: 'summary' });
+    const other = queue.enqueue({ topicId: 'b', kind: 'summary' });
+
+    const analyze = queue.enqueue({ topicId: 'a', kind: 'analyze' });
+    expect(analyze.job.id).toBe(subjects.job.id);
+    expect(analyze.folded).toEqual([summary.job.id]);
+    expect(queue.list('a').map(job => job.kind)).toEqual(['analyze']);
+    expect(queue.get(other.job.id)?.state).toBe('pending');
+  });
+
+  test('queues new work while the same kind is running', () => {
+    const { queue } = createQueue();
+    const { job } = queue.enqueue({ topicId: 'a', kind: 'analyze' });
+    queue.start(job);
+
+    const again = queue.enqueue({ topicId: 'a', kind: 'analyze' });
+    expect(again.added).toBe(true);
+    // Nothing else starts while a job runs
+    expect(queue.next()).toBeUndefined();
+
+    queue.complete(job, { ok: true });
+    expect(queue.next()?.id).toBe(again.job.id);
+  });
+
+  test('retries with exponential backoff and gives up after the last attempt', () => {
+    const { queue, clock } = createQueue();
+    const { job } = queue.enqueue({ topicId: 'a', kind: 'analyze' });
+
+    queue.start(job);
+    queue.fail(job, 'LLM not available', true);
+    expect(job.state).toBe('retrying');
+    expect(job.nextAttemptAt).toBe(clock.now + BASE_RETRY_DELAY_MS);
+    expect(queue.next()).toBeUndefined();
+    expect(queue.nextWakeUp()).toBe(job.nextAttemptAt);
+
+    clock.now = job.nextAttemptAt;
+    expect(queue.next()?.id).toBe(job.id);
+
+    for (let attempt = 2; attempt <= MAX_ATTEMPTS; attempt++) {
+      queue.start(job);
+      queue.fail(job, 'LLM not available', true);
+      clock.now = job.nextAttemptAt;
+    }
+    expect(job.attempts).toBe(MAX_ATTEMPTS);
+    expect(job.state).toBe('failed');
+    expect(queue.nextWakeUp()).toBeUndefined();
+
+    expect(retryDelay(2)).toBe(BASE_RETRY_DELAY_MS * 2);
+    expect(retryDelay(100)).toBe(MAX_RETRY_DELAY_MS);
+  });
+
+  test('fails at once on errors that will not go away and can be retried by hand', () => {
+    const { queue } = createQueue();
+    const { job } = queue.enqueue({ topicId: 'a', kind: 'summary' });
+
+    queue.start(job);
+    queue.fail(job, 'No messages to summarize', false);
+    expect(job.state).toBe('failed');
+    expect(queue.next()).toBeUndefined();
+
+    expect(queue.retry(job.id)?.state).toBe('pending');
+    expect(queue.next()?.id).toBe(job.id);
+  });
+
+  test('keeps unfinished jobs across a restart', () => {
+    const { queue } = createQueue();
+    const done = queue.enqueue({ topicId: 'a', kind: 'analyze' }).job;
+    queue.start(done);
+    queue.complete(done);
+
+    const running = queue.enqueue({ topicId: 'b', kind: 'analyze' }).job;
+    queue.start(running);
+    const waiting = queue.enqueue({ topicId: 'c', kind: 'summary', changeReason: 'edited' }).job;
+
+    const persisted = queue.toPersisted();
+    expect(persisted.map(job => job.id)).toEqual([running.id, waiting.id]);
+
+    const { queue: restarted } = createQueue();
+    restarted.restore(persisted);
+    const resumed = restarted.list();
+    expect(resumed.every(job => job.state === 'pending')).toBe(true);
+    expect(resumed[1].changeReason).toBe('edited');
+    expect(restarted.next()?.id).toBe(running.id);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Corpus Export Tests
+ *
+ * Verifies how training corpus entries become chat-format JSONL: consent,
+ * filters, PII redaction, deduplication and the provenance manifest.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  buildCorpusExport,
+  compileRules,
+  keywordHash,
+  redact,
+  subjectKeywordHashes,
+  DEFAULT_REDACTION_RULES,
+  type CorpusMessage,
+  type TrainingCorpusEntry
+} from '../../main/core/feed-forward/corpus-export.js';
+
+function message(content: string, isAI: boolean, timestamp: number): CorpusMessage {
+  return { id: `m${timestamp}`, authorId: isAI ? 'ai' : 'alice', isAI, content, keywords: [], timestamp, trustScore: 0.5 };
+}
+
+function entry(overrides: Partial<TrainingCorpusEntry> = {}): TrainingCorpusEntry {
+  return {
+    $type$: 'TrainingCorpusEntry',
+    conversationId: 'conversation-a',
+    messages: [message('How big should the battery be?', false, 1), message('About 10 kWh.', true, 2)],
+    keywords: [keywordHash('solar'), keywordHash('battery')],
+    participants: [
+      { personId: 'alice', isAI: false, trustScore: 0.8 },
+      { personId: 'ai', isAI: true, trustScore: 0.5 }
+    ],
+    qualityScore: 0.9,
+    created: 100,
+    ...overrides
+  };
+}
+
+function exportOf(sources: Array<{ hash: string; entry: TrainingCorpusEntry }>, options: Partial<Parameters<typeof buildCorpusExport>[1]> = {}) {
+  return buildCorpusExport(sources, {
+    filters: {},
+    rules: DEFAULT_REDACTION_RULES,
+    isConsented: () => true,
+    now: 1000,
+    ...options
+  });
+}
+
+describe('corpus export', () => {
+  test('writes chats that start with the user and end with the assistant', () => {
+    const source = entry({
+      messages: [
+        message('Hi there', true, 1),
+        message('Solar question', false, 2),
+        message('About batteries', false, 3),
+        message('Sure, ask.', true, 4),
+        message('Thanks!', false, 5)
+      ]
+    });
+
+    const { lines } = exportOf([{ hash: 'h1', entry: source }], { systemPrompt: 'Be brief.' });
+
+    expect(lines).toHaveLength(1);
+    expect(JSON.parse(lines[0])).toEqual({
+      messages: [
+        { role: 'system', content: 'Be brief.' },
+        { role: 'user', content: 'Solar question\n\nAbout batteries' },
+        { role: 'assistant', content: 'Sure, ask.' }
+      ]
+    });
+  });
+
+  test('redacts PII with the default rules and counts what was replaced', () => {
+    const counts: Record<string, number> = {};
+    const text = redact(
+      'Mail bob@example.org or call +49 30 1234567, card 4111 1111 1111 1111, IBAN DE89 3704 0044 0532 0130 00, host 10.0.0.1, on 01.02.2024',
+      compileRules(DEFAULT_REDACTION_RULES),
+      counts
+    );
+
+    expect(text).toBe('Mail [EMAIL] or call [PHONE], card [CARD], IBAN [IBAN], host [IP], on 01.02.2024');
+    expect(counts).toEqual({ email: 1, iban: 1, card: 1, phone: 1, ip: 1 });
+  });
+
+  test('applies custom rules and rejects invalid ones', () => {
+    const rules = compileRules([{ name: 'name', pattern: '\\bAlice\\b', flags: 'i', replacement: '[NAME]' }]);
+
+    expect(redact('alice met ALICE', rules, {})).toBe('[NAME] met [NAME]');
+    expect(() => compileRules([{ name: 'broken', pattern: '(', replacement: '' }])).toThrow("Invalid redaction rule 'broken'");
+  });
+
+  test('skips entries without consent or outside the filters', () => {
+    const sources = [
+      { hash: 'private', entry: entry({ conversationId: 'private' }) },
+      { hash: 'old', entry: entry({ created: 10, messages: [message('Old', false, 1), message('Yes', true, 2)] }) },
+      { hash: 'untrusted', entry: entry({ participants: [{ personId: 'eve', isAI: false, trustScore: 0.2 }] }) },
+      { hash: 'garden', entry: entry({ keywords: [keywordHash('garden')] }) },
+      { hash: 'kept', entry: entry({ created: 200, messages: [message('New', false, 1), message('Ok', true, 2)] }) }
+    ];
+
+    const { lines, manifest } = exportOf(sources, {
+      filters: { since: 50, minTrust: 0.5, subjects: [subjectKeywordHashes('solar+battery')] },
+      isConsented: conversationId => conversationId !== 'private'
+    });
+
+    expect(lines).toHaveLength(1);
+    expect(manifest.entries.map(e => e.sourceHash)).toEqual(['kept']);
+    expect(manifest.counts).toEqual({ sources: 5, exported: 1, notConsented: 1, filtered: 3, duplicates: 0, empty: 0 });
+  });
+
+  test('writes identical chats once and lists source hashes per line', () => {
+    const sources = [
+      { hash: 'a', entry: entry({ created: 1 }) },
+      { hash: 'b', entry: entry({ created: 2 }) },
+      { hash: 'a', entry: entry({ created: 1 }) },
+      { hash: 'c', entry: entry({ created: 3, messages: [message('Only a question', false, 1)] }) }
+    ];
+
+    const { lines, manifest } = exportOf(sources);
+
+    expect(lines).toHaveLength(1);
+    expect(manifest.entries).toHaveLength(1);
+    expect(manifest.entries[0].line).toBe(1);
+    expect(manifest.entries[0].sourceHash).toBe('a');
+    expect(manifest.counts.duplicates).toBe(2);
+    expect(manifest.counts.empty).toBe(1);
+    expect(manifest.redactionRules).toEqual(['email', 'iban', 'card', 'phone', 'ip']);
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Feed-Forward Corpus Tests
+ *
+ * Runs the corpus stream and export through FeedForwardManager on a ONE.core
+ * instance in a temporary directory: entries come from the conversations with
+ * sharing enabled, and pages follow each other without gaps.
+ */
+
+import { describe, test, expect, beforeAll, afterAll } from '@jest/globals';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import FeedForwardManager from '../../main/core/feed-forward/manager.js';
+import { FeedForwardRecipes } from '../../main/recipes/feed-forward-recipes.js';
+
+const conversations = new Map<string, any[]>();
+
+function say(conversationId: string, sender: string, text: string, time: number): void {
+  const messages = conversations.get(conversationId) || [];
+  messages.push({
+    data: { $type$: 'ChatMessage', text, sender },
+    creationTime: new Date(time),
+    dataHash: `${conversationId}-${messages.length}`
+  });
+  conversations.set(conversationId, messages);
+}
+
+const nodeOneCore = {
+  ownerId: 'me',
+  channelManager: {
+    getMatchingChannelInfos: async (options?: { channelId?: string }) =>
+      Array.from(conversations.keys())
+        .filter(id => !options?.channelId || id === options.channelId)
+        .map(id => ({ id, owner: 'me' })),
+    multiChannelObjectIterator: async function* () {}
+  },
+  topicModel: {
+    enterTopicRoom: async (conversationId: string) => ({
+      retrieveAllMessages: async () => conversations.get(conversationId) || []
+    })
+  },
+  aiAssistantModel: {
+    isAIPerson: (personId: string) => personId === 'ai'
+  }
+};
+
+const manager = new FeedForwardManager({
+  nodeOneCore,
+  keywordExtractor: { extractSingleWords: (text: string) => text.toLowerCase().match(/[a-z]{4,}/g) || [] },
+  trustManager: { getContactTrustLevel: async () => 'trusted' }
+});
+
+let directory: string;
+
+describe('feed-forward corpus', () => {
+  beforeAll(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'feed-forward-corpus-'));
+    await import('@refinio/one.core/lib/system/load-nodejs.js');
+    const { initInstance } = await import('@refinio/one.core/lib/instance.js');
+    await initInstance({
+      name: 'feed-forward-corpus',
+      email: 'corpus@example.com',
+      secret: 'corpus-secret',
+      directory,
+      initialRecipes: FeedForwardRecipes as any
+    });
+
+    const now = Date.now();
+    say('private', 'alice', 'Keep this between us', now - 5000);
+    say('private', 'ai', 'Sure', now - 4000);
+
+    // Three shared conversations ending at the same time
+    for (const id of ['solar', 'wind', 'water']) {
+      say(id, 'alice', `Tell me about ${id} power`, now - 3000);
+      say(id, 'ai', `Here is how ${id} power works`, now - 2000);
+      await manager.enableSharing({ conversationId: id, enabled: true, retroactive: true });
+    }
+  });
+
+  afterAll(async () => {
+    const { closeInstance } = await import('@refinio/one.core/lib/instance.js');
+    closeInstance();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test('streams the shared conversations only', async () => {
+    const result = await manager.getCorpusStream({});
+
+    expect(result.success).toBe(true);
+    expect(result.entries!.map(entry => entry.conversationId).sort()).toEqual(['solar', 'water', 'wind']);
+    expect(result.entries![0].messages.map(message => message.isAI)).toEqual([false, true]);
+    expect(result.entries![0].participants.map(participant => participant.personId)).toEqual(['alice', 'ai']);
+    expect(result.hasMore).toBe(false);
+    expect(result.nextCursor).toBe('end');
+  });
+
+  test('pages through entries of the same time without skipping any', async () => {
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    for (let page = 0; page < 5; page++) {
+      const result = await manager.getCorpusStream({ limit: 1, cursor });
+      expect(result.success).toBe(true);
+      seen.push(...result.entries!.map(entry => entry.conversationId));
+      cursor = result.nextCursor;
+      if (!result.hasMore) break;
+    }
+
+    expect(seen.sort()).toEqual(['solar', 'water', 'wind']);
+    expect(cursor).toBe('end');
+    expect((await manager.getCorpusStream({ cursor: 'end' })).entries).toEqual([]);
+  });
+
+  test('rejects cursors it did not hand out', async () => {
+    for (const cursor of ['abc', '123', `12:${'x'.repeat(64)}`]) {
+      const result = await manager.getCorpusStream({ cursor });
+      expect(result.success).toBe(false);
+      expect(result.error).toBe('Invalid cursor');
+    }
+  });
+
+  test('leaves out messages from before sharing was enabled unless retroactive', async () => {
+    say('later', 'alice', 'Earlier question', Date.now() - 1000);
+    await manager.enableSharing({ conversationId: 'later', enabled: true });
+    expect((await manager.getCorpusStream({})).entries!.some(entry => entry.conversationId === 'later')).toBe(false);
+
+    say('later', 'alice', 'Newer question', Date.now() + 1000);
+    const entry = (await manager.getCorpusStream({})).entries!.find(entry => entry.conversationId === 'later');
+    expect(entry!.messages.map(message => message.content)).toEqual(['Newer question']);
+
+    await manager.enableSharing({ conversationId: 'later', enabled: false });
+  });
+
+  test('exports the shared conversations as JSONL', async () => {
+    const outputPath = path.join(directory, 'corpus.jsonl');
+    const result = await manager.exportCorpus({ outputPath });
+
+    expect(result.success).toBe(true);
+    expect(result.counts!.exported).toBe(3);
+    const lines = (await fs.readFile(outputPath, 'utf8')).trim().split('\n');
+    expect(lines).toHaveLength(3);
+    expect(JSON.parse(lines[0]).messages.map((message: any) => message.role)).toEqual(['system', 'user', 'assistant']);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Feed-Forward Supply/Demand Tests
+ *
+ * Verifies how supplies received from contacts match a demand and when a
+ * match counts as accepted by both sides.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  isExchangeContact,
+  isExpired,
+  matchDecisions,
+  scoreMatches,
+  type FeedForwardDemand,
+  type FeedForwardSupply,
+  type SupplyDemandMatchDecision
+} from '../../main/core/feed-forward/supply-demand.js';
+
+function supply(id: string, keywords: string[], creatorId = 'bob'): FeedForwardSupply {
+  return {
+    $type$: 'FeedForwardSupply',
+    id,
+    keywords,
+    contextLevel: 2,
+    conversationId: `conversation-${id}`,
+    creatorId,
+    trustScore: 1,
+    created: 1,
+    isRecursive: false
+  };
+}
+
+function demand(keywords: string[], overrides: Partial<FeedForwardDemand> = {}): FeedForwardDemand {
+  return {
+    $type$: 'FeedForwardDemand',
+    id: 'demand-1',
+    keywords,
+    urgency: 5,
+    context: 'Looking for solar advice',
+    requesterId: 'alice',
+    created: 1,
+    ...overrides
+  };
+}
+
+function decision(personId: string, value: 'accepted' | 'rejected', decidedAt: number): SupplyDemandMatchDecision {
+  return { $type$: 'SupplyDemandMatchDecision', demandId: 'demand-1', supplyId: 's1', personId, decision: value, decidedAt };
+}
+
+describe('feed-forward supply/demand', () => {
+  test('scores by keyword overlap weighted with the trust we hold for the supplier', () => {
+    const candidates = [
+      { supply: supply('s1', ['solar', 'battery']), supplyHash: 'h1', trustScore: 0.5 },
+      { supply: supply('s2', ['solar', 'battery'], 'carol'), supplyHash: 'h2', trustScore: 0.9 },
+      { supply: supply('s3', ['garden']), supplyHash: 'h3', trustScore: 1 },
+      { supply: supply('s4', ['solar']), supplyHash: 'h4', trustScore: 0.2 }
+    ];
+
+    const matches = scoreMatches(demand(['solar', 'battery']), candidates, { minTrust: 0.3, limit: 10 });
+
+    expect(matches.map(match => match.supplyId)).toEqual(['s2', 's1']);
+    expect(matches[0].supplierId).toBe('carol');
+    expect(matches[0].matchScore).toBe(1);
+    expect(matches[0].conversationId).toBe('conversation-s2');
+    expect(matches[1].trustWeight).toBeCloseTo(0.5);
+  });
+
+  test('limits results to what the demand asks for', () => {
+    const candidates = ['s1', 's2', 's3'].map(id => ({ supply: supply(id, ['solar']), supplyHash: id, trustScore: 0.5 }));
+
+    expect(scoreMatches(demand(['solar'], { maxResults: 2 }), candidates, { minTrust: 0, limit: 10 })).toHaveLength(2);
+    expect(scoreMatches(demand(['solar']), candidates, { minTrust: 0, limit: 1 })).toHaveLength(1);
+  });
+
+  test('is accepted only once requester and supplier both accepted', () => {
+    expect(matchDecisions([], 'alice', 'bob').state).toBe('pending');
+    expect(matchDecisions([decision('alice', 'accepted', 1)], 'alice', 'bob')).toEqual({
+      state: 'pending',
+      requesterDecision: 'accepted'
+    });
+    expect(matchDecisions([decision('alice', 'accepted', 1), decision('bob', 'accepted', 2)], 'alice', 'bob').state).toBe('accepted');
+    expect(matchDecisions([decision('alice', 'accepted', 1), decision('bob', 'rejected', 2)], 'alice', 'bob').state).toBe('rejected');
+  });
+
+  test('ignores decisions of anyone but the two sides and keeps the latest of each', () => {
+    const decisions = [
+      decision('mallory', 'accepted', 5),
+      decision('bob', 'rejected', 1),
+      decision('bob', 'accepted', 3),
+      decision('alice', 'accepted', 2)
+    ];
+
+    expect(matchDecisions(decisions, 'alice', 'bob').state).toBe('accepted');
+    expect(matchDecisions(decisions.slice(0, 2), 'alice', 'bob').state).toBe('rejected');
+  });
+
+  test('exchanges only with contacts the user accepted or trusts', () => {
+    expect(['discovered', 'pending', 'accepted', 'trusted', 'blocked'].filter(isExchangeContact)).toEqual(['accepted', 'trusted']);
+  });
+
+  test('expires demands at their expiry time', () => {
+    expect(isExpired(demand(['solar']), 100)).toBe(false);
+    expect(isExpired(demand(['solar'], { expires: 100 }), 99)).toBe(false);
+    expect(isExpired(demand(['solar'], { expires: 100 }), 100)).toBe(true);
+  });
+});
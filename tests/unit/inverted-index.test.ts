@@ -0,0 +1,76 @@
+/**
+ * Inverted Index Tests
+ *
+ * Verifies tokenizing, AND/prefix matching and the message search filters.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { InvertedIndex, tokenize } from '../../main/services/inverted-index.js';
+
+const meta = (overrides: Record<string, any> = {}) => ({
+  topicId: 'topic-a',
+  sender: 'alice',
+  isAI: false,
+  hasAttachment: false,
+  timestamp: 1000,
+  ...overrides
+});
+
+describe('tokenize', () => {
+  test('lowercases, splits on punctuation and drops single characters', () => {
+    expect(tokenize('Hello, World! a Größe 42')).toEqual(['hello', 'world', 'größe', '42']);
+  });
+});
+
+describe('InvertedIndex', () => {
+  test('matches documents containing every query term', () => {
+    const index = new InvertedIndex();
+    index.add('m1', 'the red car is fast', meta());
+    index.add('m2', 'a red bicycle', meta());
+    index.add('m3', 'fast food', meta());
+
+    expect(index.search('red fast').map(hit => hit.id)).toEqual(['m1']);
+  });
+
+  test('treats the last query term as a prefix', () => {
+    const index = new InvertedIndex();
+    index.add('m1', 'vacation planning', meta());
+    index.add('m2', 'vacuum cleaner', meta());
+
+    expect(index.search('vaca').map(hit => hit.id)).toEqual(['m1']);
+    expect(index.search('vac').map(hit => hit.id).sort()).toEqual(['m1', 'm2']);
+  });
+
+  test('ranks by occurrences, then newest first', () => {
+    const index = new InvertedIndex();
+    index.add('old', 'budget', meta({ timestamp: 1 }));
+    index.add('new', 'budget', meta({ timestamp: 2 }));
+    index.add('many', 'budget budget budget', meta({ timestamp: 0 }));
+
+    expect(index.search('budget').map(hit => hit.id)).toEqual(['many', 'new', 'old']);
+  });
+
+  test('applies topic, sender, date, attachment and AI filters', () => {
+    const index = new InvertedIndex();
+    index.add('m1', 'report', meta());
+    index.add('m2', 'report', meta({ topicId: 'topic-b' }));
+    index.add('m3', 'report', meta({ sender: 'bob', isAI: true }));
+    index.add('m4', 'report', meta({ hasAttachment: true, timestamp: 5000 }));
+
+    expect(index.search('report', { topicId: 'topic-b' }).map(hit => hit.id)).toEqual(['m2']);
+    expect(index.search('report', { sender: 'bob' }).map(hit => hit.id)).toEqual(['m3']);
+    expect(index.search('report', { isAI: true }).map(hit => hit.id)).toEqual(['m3']);
+    expect(index.search('report', { hasAttachment: true }).map(hit => hit.id)).toEqual(['m4']);
+    expect(index.search('report', { from: 2000, to: 6000 }).map(hit => hit.id)).toEqual(['m4']);
+  });
+
+  test('forgets the terms of replaced documents', () => {
+    const index = new InvertedIndex();
+    index.add('m1', 'first draft', meta());
+    index.add('m1', 'final version', meta());
+
+    expect(index.size).toBe(1);
+    expect(index.search('draft')).toHaveLength(0);
+    expect(index.search('final').map(hit => hit.id)).toEqual(['m1']);
+  });
+});
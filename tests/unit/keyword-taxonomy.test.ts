@@ -0,0 +1,56 @@
+/**
+ * Keyword Taxonomy Tests
+ *
+ * Verifies user-defined stop-words, synonym groups and pinned keywords.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { KeywordTaxonomy } from '../../main/core/one-ai/models/KeywordTaxonomy.js';
+
+const taxonomy = new KeywordTaxonomy({
+  stopWords: ['meeting', 'Update'],
+  synonymGroups: [{ canonical: 'Kubernetes', variants: ['k8s', 'kube'] }],
+  pinned: ['budget', 'kubernetes', 'release train']
+});
+
+describe('KeywordTaxonomy', () => {
+  test('maps synonyms to their canonical term', () => {
+    expect(taxonomy.canonical('K8s')).toBe('kubernetes');
+    expect(taxonomy.canonical('kube')).toBe('kubernetes');
+    expect(taxonomy.canonical('docker')).toBe('docker');
+  });
+
+  test('drops stop-words unless pinned', () => {
+    expect(taxonomy.isStopWord('meeting')).toBe(true);
+    expect(taxonomy.isStopWord('update')).toBe(true);
+    expect(taxonomy.isStopWord('budget')).toBe(false);
+
+    const pinnedStopWord = new KeywordTaxonomy({ stopWords: ['budget'], pinned: ['budget'] });
+    expect(pinnedStopWord.isStopWord('budget')).toBe(false);
+  });
+
+  test('apply canonicalizes, dedupes and puts pinned keywords first', () => {
+    expect(taxonomy.apply(['docker', 'k8s', 'meeting', 'kube', 'budget'])).toEqual([
+      'kubernetes',
+      'budget',
+      'docker'
+    ]);
+  });
+
+  test('apply surfaces pinned keywords mentioned in the source text', () => {
+    const keywords = taxonomy.apply(['deploy'], 'We move the kube cluster onto the release train next week');
+
+    expect(keywords).toEqual(['kubernetes', 'release train', 'deploy']);
+  });
+
+  test('an empty taxonomy leaves keywords as they are', () => {
+    const empty = new KeywordTaxonomy();
+
+    expect(empty.isEmpty).toBe(true);
+    expect(empty.apply(['Docker', 'deploy'])).toEqual(['docker', 'deploy']);
+  });
+
+  test('toJSON round-trips', () => {
+    expect(new KeywordTaxonomy(taxonomy.toJSON()).apply(['kube', 'meeting'])).toEqual(['kubernetes']);
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * Keyword Trends Tests
+ *
+ * Verifies bucketing, phrase and synonym counting and rising/falling detection.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { bucketStart, bucketStarts, computeKeywordTrends, trendDirection } from '../../main/services/keyword-trends.js';
+import { tokenize, type IndexedDocument } from '../../main/services/inverted-index.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+// Noon, so that days stay apart in any time zone
+const NOW = new Date(2026, 5, 17, 12).getTime(); // A Wednesday
+
+let counter = 0;
+function doc(text: string, daysAgo: number, topicId = 'topic-a'): IndexedDocument {
+  return {
+    id: `m${counter++}`,
+    terms: tokenize(text),
+    topicId,
+    sender: 'me',
+    isAI: false,
+    hasAttachment: false,
+    timestamp: NOW - daysAgo * DAY
+  };
+}
+
+describe('keyword trends', () => {
+  test('buckets by local day and by week starting on Monday', () => {
+    const day = new Date(bucketStart(NOW, 'day'));
+    expect(day.getHours()).toBe(0);
+    expect(day.getDate()).toBe(17);
+
+    const week = new Date(bucketStart(NOW, 'week'));
+    expect(week.getDay()).toBe(1);
+    expect(week.getDate()).toBe(15);
+
+    const starts = bucketStarts(NOW, 'day', 3);
+    expect(starts).toHaveLength(3);
+    expect(starts[2]).toBe(bucketStart(NOW, 'day'));
+    expect(new Date(starts[0]).getDate()).toBe(15);
+  });
+
+  test('counts words, phrases and synonyms per bucket and topic', () => {
+    const documents = [
+      doc('The budget for the release train', 0),
+      doc('Budget again, k8s budget', 1, 'topic-b'),
+      doc('Kubernetes cluster', 40) // Outside the range
+    ];
+    const report = computeKeywordTrends(documents, [
+      { term: 'budget' },
+      { term: 'release train' },
+      { term: 'kubernetes', variants: ['k8s'] }
+    ], { granularity: 'day', buckets: 10, now: NOW });
+
+    const budget = report.keywords.find(trend => trend.term === 'budget')!;
+    expect(budget.total).toBe(3);
+    expect(budget.counts.slice(-2)).toEqual([2, 1]);
+    expect(budget.topics).toEqual({ 'topic-a': 1, 'topic-b': 2 });
+
+    expect(report.keywords.find(trend => trend.term === 'release train')?.total).toBe(1);
+    expect(report.keywords.find(trend => trend.term === 'kubernetes')?.total).toBe(1);
+    expect(report.keywords[0].term).toBe('budget');
+  });
+
+  test('restricts counts to one topic', () => {
+    const documents = [doc('budget', 0), doc('budget budget', 0, 'topic-b')];
+    const report = computeKeywordTrends(documents, [{ term: 'budget' }], { now: NOW, topicId: 'topic-a' });
+    expect(report.keywords[0].total).toBe(1);
+  });
+
+  test('detects rising and falling keywords from the last two windows', () => {
+    const documents = [
+      // Rust: 4 mentions this week, none the week before
+      ...[0, 1, 2, 3].map(daysAgo => doc('rust', daysAgo)),
+      // Java: 5 mentions the week before, 1 this week
+      ...[8, 9, 10, 11, 12].map(daysAgo => doc('java', daysAgo)),
+      doc('java', 2),
+      // Go: the same both weeks
+      doc('go go', 1),
+      doc('go go', 9)
+    ];
+    const report = computeKeywordTrends(documents, [{ term: 'rust' }, { term: 'java' }, { term: 'go' }], {
+      granularity: 'day',
+      buckets: 14,
+      window: 7,
+      now: NOW
+    });
+
+    expect(report.rising.map(trend => trend.term)).toEqual(['rust']);
+    expect(report.falling.map(trend => trend.term)).toEqual(['java']);
+    const java = report.falling[0];
+    expect(java.recent).toBe(1);
+    expect(java.previous).toBe(5);
+    expect(report.keywords.find(trend => trend.term === 'go')?.direction).toBe('steady');
+
+    // Small changes are noise
+    expect(trendDirection(2, 0)).toBe('steady');
+    expect(trendDirection(13, 10)).toBe('steady');
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * Knowledge Graph Tests
+ *
+ * Verifies subject merging across topics and the weighted edges.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { buildKnowledgeGraph, type GraphTopic } from '../../main/services/knowledge-graph.js';
+
+const topics: GraphTopic[] = [
+  {
+    id: 'trip',
+    name: 'Trip planning',
+    subjects: [
+      { id: 'train+tickets', keywords: ['train', 'tickets'], messageCount: 4 },
+      { id: 'hotel+budget', keywords: ['hotel', 'budget'], messageCount: 2 }
+    ]
+  },
+  {
+    id: 'finance',
+    name: 'Finances',
+    subjects: [
+      { id: 'hotel+budget', keywords: ['hotel', 'budget'], messageCount: 3 },
+      { id: 'old+topic', keywords: ['old'], messageCount: 1, archived: true }
+    ]
+  },
+  { id: 'empty', name: 'Nothing analysed', subjects: [] }
+];
+
+const edge = (graph: ReturnType<typeof buildKnowledgeGraph>, source: string, target: string) =>
+  graph.edges.find(e => (e.source === source && e.target === target) || (e.source === target && e.target === source));
+
+describe('buildKnowledgeGraph', () => {
+  test('merges subjects with the same keyword combination across topics', () => {
+    const graph = buildKnowledgeGraph(topics);
+    const subject = graph.nodes.find(n => n.id === 'subject:hotel+budget');
+
+    expect(subject?.weight).toBe(5);
+    expect(subject?.topicIds.sort()).toEqual(['finance', 'trip']);
+    expect(edge(graph, 'subject:hotel+budget', 'topic:finance')?.weight).toBe(3);
+  });
+
+  test('links keywords used together and topics sharing keywords', () => {
+    const graph = buildKnowledgeGraph(topics);
+
+    expect(edge(graph, 'keyword:budget', 'keyword:hotel')?.weight).toBe(1);
+    expect(edge(graph, 'topic:finance', 'topic:trip')?.weight).toBe(2);
+    expect(edge(graph, 'keyword:train', 'keyword:hotel')).toBe(undefined);
+  });
+
+  test('skips archived subjects and topics without subjects', () => {
+    const graph = buildKnowledgeGraph(topics);
+    const ids = graph.nodes.map(n => n.id);
+
+    expect(ids).not.toContain('subject:old+topic');
+    expect(ids).not.toContain('keyword:old');
+    expect(ids).not.toContain('topic:empty');
+  });
+
+  test('keeps only the most used keywords', () => {
+    const graph = buildKnowledgeGraph(topics, { maxKeywords: 2 });
+    const keywords = graph.nodes.filter(n => n.type === 'keyword').map(n => n.label).sort();
+
+    expect(keywords).toEqual(['budget', 'hotel']);
+    expect(graph.edges.some(e => e.target === 'keyword:train')).toBe(false);
+  });
+
+  test('restricts the graph to the requested topics', () => {
+    const graph = buildKnowledgeGraph(topics, { topicIds: ['trip'] });
+
+    expect(graph.nodes.filter(n => n.type === 'topic').map(n => n.id)).toEqual(['topic:trip']);
+    expect(graph.edges.some(e => e.type === 'shared-keywords')).toBe(false);
+  });
+});
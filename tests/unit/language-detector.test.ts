@@ -0,0 +1,70 @@
+/**
+ * Language Detector Tests
+ *
+ * Verifies per-message language detection, stop-words and stemming tables.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  detectLanguage,
+  resolveSummaryLanguage,
+  stem,
+  stopWordsFor,
+  tokenize
+} from '../../main/core/one-ai/services/LanguageDetector.js';
+
+describe('detectLanguage', () => {
+  test('detects English, German, French and Spanish messages', () => {
+    expect(detectLanguage('We should move the release to next week because the tests are failing').language).toBe('en');
+    expect(detectLanguage('Können wir die Rechnung für den Kunden bis morgen fertig machen?').language).toBe('de');
+    expect(detectLanguage('Nous devons envoyer les factures avant la fin du mois').language).toBe('fr');
+    expect(detectLanguage('¿Podemos revisar el presupuesto del proyecto mañana por la tarde?').language).toBe('es');
+  });
+
+  test('falls back to English without any signal', () => {
+    expect(detectLanguage('Kubernetes 1.29')).toEqual({ language: 'en', confidence: 0 });
+    expect(detectLanguage('')).toEqual({ language: 'en', confidence: 0 });
+  });
+});
+
+describe('tokenize', () => {
+  test('keeps umlauts and accents inside words', () => {
+    expect(tokenize('Größe, Übersicht & réunion!')).toEqual(['größe', 'übersicht', 'réunion']);
+  });
+});
+
+describe('stem', () => {
+  test('groups singular and plural forms', () => {
+    expect(stem('rechnungen', 'de')).toBe(stem('rechnung', 'de'));
+    expect(stem('kunden', 'de')).toBe(stem('kunde', 'de'));
+    expect(stem('factures', 'fr')).toBe(stem('facture', 'fr'));
+    expect(stem('ciudades', 'es')).toBe(stem('ciudad', 'es'));
+    expect(stem('proyectos', 'es')).toBe(stem('proyecto', 'es'));
+    expect(stem('deployments', 'en')).toBe(stem('deployment', 'en'));
+    expect(stem('policies', 'en')).toBe('policy');
+  });
+
+  test('leaves short words alone', () => {
+    expect(stem('bus', 'en')).toBe('bus');
+    expect(stem('tee', 'de')).toBe('tee');
+  });
+});
+
+describe('stopWordsFor', () => {
+  test('has tables for every supported language', () => {
+    expect(stopWordsFor('de').has('nicht')).toBe(true);
+    expect(stopWordsFor('fr').has('avec')).toBe(true);
+    expect(stopWordsFor('es').has('porque')).toBe(true);
+    expect(stopWordsFor('de').has('rechnung')).toBe(false);
+  });
+});
+
+describe('resolveSummaryLanguage', () => {
+  test('follows the conversation unless a fixed language is set', () => {
+    const german = 'Wir haben die Rechnung noch nicht bezahlt, aber das machen wir morgen';
+
+    expect(resolveSummaryLanguage('auto', german)).toBe('de');
+    expect(resolveSummaryLanguage(undefined, german)).toBe('de');
+    expect(resolveSummaryLanguage('fr', german)).toBe('fr');
+  });
+});
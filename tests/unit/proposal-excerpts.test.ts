@@ -0,0 +1,77 @@
+/**
+ * Proposal Excerpts Tests
+ *
+ * Verifies which source messages a proposal preview shows, which part of the
+ * summary is picked and how shared content reads in the AI's prompt.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { rankExcerpts, summaryFragment, formatPromptContext, sharedExcerptText } from '../../main/services/proposal-excerpts.js';
+import { tokenize, type IndexedDocument } from '../../main/services/inverted-index.js';
+
+function message(id: string, text: string, timestamp: number): IndexedDocument {
+  return { id, terms: tokenize(text), topicId: 'topic-a', sender: 'alice', isAI: false, hasAttachment: false, timestamp };
+}
+
+describe('proposal excerpts', () => {
+  test('ranks messages by keywords matched, then occurrences, then recency', () => {
+    const documents = [
+      message('one', 'solar panels on the roof', 1),
+      message('both', 'solar panels and a battery', 2),
+      message('twice', 'solar here, solar there', 3),
+      message('newer', 'more solar', 4),
+      message('none', 'weather is nice', 5)
+    ];
+
+    const ranked = rankExcerpts(documents, ['solar', 'battery'], 10);
+
+    expect(ranked.map(excerpt => excerpt.messageId)).toEqual(['both', 'twice', 'newer', 'one']);
+    expect(ranked[0].matchedKeywords).toEqual(['solar', 'battery']);
+    expect(rankExcerpts(documents, ['solar', 'battery'], 2)).toHaveLength(2);
+  });
+
+  test('counts a multi-word keyword only when all its words occur', () => {
+    const documents = [
+      message('partial', 'heat is expensive', 1),
+      message('full', 'a heat pump for the house', 2)
+    ];
+
+    expect(rankExcerpts(documents, ['heat pump'], 5).map(excerpt => excerpt.messageId)).toEqual(['full']);
+  });
+
+  test('picks the summary sentences about the keywords in reading order', () => {
+    const summary = 'We talked about the trip. The battery was too small. Solar and battery prices went down! Lunch was good.';
+
+    expect(summaryFragment(summary, ['solar', 'battery'])).toBe('The battery was too small. Solar and battery prices went down!');
+    expect(summaryFragment(summary, ['solar', 'battery'], 40)).toBe('Solar and battery prices went down!');
+    expect(summaryFragment(summary, ['garden'])).toBeNull();
+  });
+
+  test('shares whole messages and cuts only very long ones at a word', () => {
+    const text = 'The battery arrived yesterday and the installer comes on Monday.';
+    expect(sharedExcerptText(`  ${text}\n`)).toBe(text);
+    expect(sharedExcerptText(text, 30)).toBe('The battery arrived yesterday…');
+  });
+
+  test('formats shared content for the prompt', () => {
+    const text = formatPromptContext({
+      subjectName: 'solar+battery',
+      keywords: ['solar', 'battery'],
+      summaryFragment: 'Prices went down.',
+      excerpts: [{
+        messageId: 'm1',
+        text: 'The battery arrived',
+        sender: 'alice',
+        isAI: true,
+        timestamp: Date.UTC(2025, 0, 2),
+        matchedKeywords: ['battery']
+      }]
+    });
+
+    expect(text.split('\n')).toEqual([
+      'Related context from an earlier conversation about "solar+battery" (keywords: solar, battery):',
+      'Summary: Prices went down.',
+      '- [2025-01-02, AI] The battery arrived'
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Proposal Feedback Tests
+ *
+ * Verifies weight learning from shared, dismissed and ignored proposals and the
+ * penalty for repeatedly dismissed past subjects.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  learnWeights,
+  subjectFeedback,
+  MIN_SAMPLES,
+  type ProposalFeedbackAction,
+  type ProposalFeedbackEvent
+} from '../../main/services/proposal-feedback.js';
+
+const BASE = { matchWeight: 0.7, recencyWeight: 0.3 };
+
+function event(action: ProposalFeedbackAction, match: number, recency: number, pastSubject = 'subject-a'): ProposalFeedbackEvent {
+  return { pastSubject, topicId: 'topic-a', action, match, recency, timestamp: 0 };
+}
+
+describe('proposal feedback', () => {
+  test('keeps the configured weights with too little feedback', () => {
+    const events = Array.from({ length: MIN_SAMPLES - 1 }, (_, i) => event(i % 2 ? 'accepted' : 'dismissed', 0.5, 0.5));
+    const weights = learnWeights(events, BASE);
+
+    expect(weights.matchWeight).toBe(BASE.matchWeight);
+    expect(weights.recencyWeight).toBe(BASE.recencyWeight);
+    expect(weights.confidence).toBe(0);
+  });
+
+  test('keeps the configured weights when every proposal was dismissed', () => {
+    const events = Array.from({ length: 10 }, () => event('dismissed', 0.5, 0.5));
+    expect(learnWeights(events, BASE).confidence).toBe(0);
+  });
+
+  test('shifts weight to recency when recent proposals are shared and old ones dismissed', () => {
+    const events: ProposalFeedbackEvent[] = [];
+    for (let i = 0; i < 20; i++) {
+      events.push(event('accepted', 0.4, 0.9));
+      events.push(event('dismissed', 0.6, 0.1));
+      events.push(event('ignored', 0.5, 0.2));
+    }
+    const weights = learnWeights(events, BASE);
+
+    expect(weights.confidence).toBe(1);
+    expect(weights.recencyWeight).toBeGreaterThan(BASE.recencyWeight);
+    expect(weights.matchWeight).toBeLessThan(BASE.matchWeight);
+    // The configured total is kept
+    expect(weights.matchWeight + weights.recencyWeight).toBeCloseTo(1, 5);
+  });
+
+  test('penalizes repeatedly dismissed subjects, shares cancel dismissals', () => {
+    const once = [event('dismissed', 0.5, 0.5)];
+    expect(subjectFeedback(once, 'subject-a').penalty).toBe(1);
+
+    const twice = [...once, event('dismissed', 0.5, 0.5)];
+    expect(subjectFeedback(twice, 'subject-a').penalty).toBe(0.5);
+
+    const thrice = [...twice, event('dismissed', 0.5, 0.5)];
+    expect(subjectFeedback(thrice, 'subject-a').penalty).toBe(0.25);
+
+    const shared = [...twice, event('accepted', 0.5, 0.5), event('ignored', 0.5, 0.5)];
+    const feedback = subjectFeedback(shared, 'subject-a');
+    expect(feedback).toEqual({ accepted: 1, dismissed: 2, ignored: 1, penalty: 1 });
+
+    expect(subjectFeedback(thrice, 'subject-b').penalty).toBe(1);
+  });
+});
@@ -0,0 +1,23 @@
+/**
+ * Recipe Tests
+ *
+ * ONE.core checks every recipe when the instance is created at login, so one
+ * malformed recipe keeps everyone from logging in.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { ensureRecipeObj } from '@refinio/one.core/lib/util/recipe-checks.js';
+import { LamaRecipes } from '../../main/recipes/index.js';
+
+describe('LamaRecipes', () => {
+  for (const recipe of LamaRecipes as any[]) {
+    test(`${recipe.name} passes the ONE.core recipe checks`, () => {
+      expect(() => ensureRecipeObj(recipe)).not.toThrow();
+    });
+  }
+
+  test('recipe names are unique', () => {
+    const names = LamaRecipes.map((recipe: any) => recipe.name);
+    expect(new Set(names).size).toBe(names.length);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Shared Subjects Tests
+ *
+ * Verifies who a subject is shared with under keyword grants, how published
+ * versions are reconciled and how trust levels weigh.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  allowedRecipients,
+  latestSharedSubjects,
+  sharedSubjectChanged,
+  trustFactor,
+  type SharedSubject
+} from '../../main/services/shared-subjects.js';
+import type { KeywordAccessState, AccessStateValue } from '../../main/core/one-ai/recipes/KeywordAccessState.js';
+
+function grant(keywordTerm: string, principalId: string, state: AccessStateValue, updatedAt: string, principalType: 'user' | 'group' = 'user'): KeywordAccessState {
+  return { $type$: 'KeywordAccessState', keywordTerm, principalId, principalType, state, updatedAt, updatedBy: 'me' };
+}
+
+function shared(overrides: Partial<SharedSubject> = {}): SharedSubject {
+  return {
+    $type$: 'SharedSubject',
+    sharedBy: 'me',
+    sharedWith: 'alice',
+    topic: 'topic-a',
+    subject: 'solar+battery',
+    name: 'solar+battery',
+    keywords: ['hash-solar', 'hash-battery'],
+    keywordTerms: ['solar', 'battery'],
+    createdAt: 1,
+    updated: 1,
+    ...overrides
+  };
+}
+
+describe('shared subjects', () => {
+  test('shares with persons allowed any keyword and denied none', () => {
+    const states = [
+      grant('solar', 'alice', 'allow', '2026-01-01'),
+      grant('battery', 'bob', 'allow', '2026-01-01'),
+      grant('solar', 'bob', 'deny', '2026-01-01'),
+      grant('wind', 'carol', 'allow', '2026-01-01'),
+      grant('solar', 'team', 'allow', '2026-01-01', 'group')
+    ];
+
+    expect(allowedRecipients(['Solar', 'battery'], states)).toEqual(['alice']);
+  });
+
+  test('the latest access state wins', () => {
+    const states = [
+      grant('solar', 'alice', 'allow', '2026-01-01T10:00:00Z'),
+      grant('solar', 'alice', 'none', '2026-01-02T10:00:00Z')
+    ];
+    expect(allowedRecipients(['solar'], states)).toEqual([]);
+
+    states.push(grant('solar', 'alice', 'allow', '2026-01-03T10:00:00Z'));
+    expect(allowedRecipients(['solar'], states)).toEqual(['alice']);
+  });
+
+  test('keeps the latest version per subject and recipient, withdrawals included', () => {
+    const latest = latestSharedSubjects([
+      shared({ updated: 1 }),
+      shared({ updated: 3, revoked: true }),
+      shared({ updated: 2 }),
+      shared({ sharedWith: 'bob', updated: 1 })
+    ]);
+
+    expect(latest).toHaveLength(2);
+    expect(latest.find(s => s.sharedWith === 'alice')?.revoked).toBe(true);
+    expect(latest.find(s => s.sharedWith === 'bob')?.revoked).toBeUndefined();
+  });
+
+  test('republishes only changed or withdrawn subjects', () => {
+    expect(sharedSubjectChanged(undefined, shared())).toBe(true);
+    expect(sharedSubjectChanged(shared(), shared({ updated: 5 }))).toBe(false);
+    expect(sharedSubjectChanged(shared(), shared({ keywords: ['hash-solar'] }))).toBe(true);
+    expect(sharedSubjectChanged(shared({ revoked: true }), shared())).toBe(true);
+  });
+
+  test('weighs by trust and leaves out blocked and pending contacts', () => {
+    expect(trustFactor('trusted')).toBe(1);
+    expect(trustFactor('accepted')).toBeGreaterThan(trustFactor('discovered'));
+    expect(trustFactor('pending')).toBe(0);
+    expect(trustFactor('blocked')).toBe(0);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Subject Similarity Tests
+ *
+ * Verifies name and keyword scoring and the merge suggestions built from them.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import {
+  subjectNameStems,
+  nameSimilarity,
+  jaccard,
+  findMergeCandidates,
+  subjectPairKey
+} from '../../main/services/subject-similarity.js';
+
+describe('subjectNameStems', () => {
+  test('drops stop words and stems plurals and gerunds', () => {
+    expect(subjectNameStems('saving-for-college')).toEqual(['sav', 'college']);
+    expect(subjectNameStems('college+savings')).toEqual(['college', 'sav']);
+    expect(subjectNameStems('Pizza Deliveries')).toEqual(['pizza', 'delivery']);
+  });
+});
+
+describe('nameSimilarity', () => {
+  test('matches reordered and inflected names', () => {
+    expect(nameSimilarity('college-savings', 'saving-for-college')).toBe(1);
+  });
+
+  test('tolerates spelling variants', () => {
+    expect(nameSimilarity('retirement', 'retirment')).toBeGreaterThan(0.8);
+  });
+
+  test('is low for unrelated names', () => {
+    expect(nameSimilarity('pizza+delivery', 'college+savings')).toBeLessThan(0.3);
+  });
+});
+
+describe('jaccard', () => {
+  test('is the overlap of two sets', () => {
+    expect(jaccard(['a', 'b', 'c'], ['b', 'c', 'd'])).toBe(0.5);
+    expect(jaccard([], [])).toBe(0);
+  });
+});
+
+describe('findMergeCandidates', () => {
+  const subjects = [
+    { id: 'college+savings', keywords: ['college', 'savings'], messageCount: 2, createdAt: 1 },
+    { id: 'saving+for+college', keywords: ['saving', 'college'], messageCount: 5, createdAt: 2 },
+    { id: 'pizza+delivery', keywords: ['pizza', 'delivery'], messageCount: 3, createdAt: 3 }
+  ];
+
+  test('suggests near-duplicates and keeps the busier subject', () => {
+    const candidates = findMergeCandidates(subjects);
+
+    expect(candidates).toHaveLength(1);
+    expect(candidates[0].keepId).toBe('saving+for+college');
+    expect(candidates[0].mergeId).toBe('college+savings');
+  });
+
+  test('skips excluded pairs', () => {
+    const dismissed = new Set([subjectPairKey('saving+for+college', 'college+savings')]);
+    const candidates = findMergeCandidates(subjects, { exclude: (a, b) => dismissed.has(subjectPairKey(a, b)) });
+
+    expect(candidates).toHaveLength(0);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Token Counter and Context Window Builder Tests
+ *
+ * Verifies per-family token estimates, provider calibration and sliding-window packing.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import tokenCounter, { type Tokenizer } from '../../main/services/token-counter.js';
+import { buildContextWindow } from '../../main/services/context-window-builder.js';
+
+describe('TokenCounter', () => {
+  test('maps model IDs to tokenizer families', () => {
+    expect(tokenCounter.getModelFamily('ollama:llama3.2:3b')).toBe('llama');
+    expect(tokenCounter.getModelFamily('ollama:qwen2.5-coder:7b')).toBe('qwen');
+    expect(tokenCounter.getModelFamily('claude:claude-3-5-sonnet')).toBe('claude');
+    expect(tokenCounter.getModelFamily('lmstudio:unknown-model')).toBe('default');
+  });
+
+  test('counts non-English text higher than chars/4', () => {
+    const german = 'Die Größenänderung der Überschriften funktioniert nicht zuverlässig.';
+    const chinese = '这个函数在处理大文件时会崩溃，我们需要修复它。';
+
+    expect(tokenCounter.countTokens(german, 'test-german')).toBeGreaterThan(Math.ceil(german.length / 4));
+    expect(tokenCounter.countTokens(chinese, 'test-chinese')).toBeGreaterThan(Math.ceil(chinese.length / 4));
+  });
+
+  test('treats indentation as cheap', () => {
+    const flat = 'return a;';
+    const indented = '                return a;';
+
+    expect(tokenCounter.countTokens(indented, 'test-indent') - tokenCounter.countTokens(flat, 'test-indent'))
+      .toBeLessThanOrEqual(4);
+  });
+
+  test('uses a registered tokenizer for its family', () => {
+    const fixed: Tokenizer = { countTokens: () => 42 };
+    tokenCounter.registerTokenizer('gemma', fixed);
+
+    expect(tokenCounter.getModelFamily('ollama:gemma2:9b')).toBe('gemma');
+    expect(tokenCounter.countTokens('anything', 'ollama:gemma2:9b')).toBe(42);
+  });
+
+  test('calibrates against provider-reported prompt tokens', () => {
+    const modelId = 'ollama:llama3.2:calibration';
+    const messages = [{ role: 'user', content: 'Hello there, how are you doing today?' }];
+    const estimated = tokenCounter.countMessages(messages, modelId);
+
+    tokenCounter.recordUsage(modelId, messages, { promptTokens: estimated * 2 });
+
+    expect(tokenCounter.getCalibration(modelId)).toBeCloseTo(2);
+    expect(tokenCounter.countMessages(messages, modelId)).toBeGreaterThan(estimated);
+  });
+
+  test('ignores usage without a prompt token count', () => {
+    const modelId = 'ollama:llama3.2:no-usage';
+    tokenCounter.recordUsage(modelId, [{ role: 'user', content: 'hi' }], { completionTokens: 10 });
+
+    expect(tokenCounter.getCalibration(modelId)).toBe(1);
+  });
+
+  test('ignores continued conversations, whose prefix may be cached', () => {
+    const modelId = 'ollama:llama3.2:cached';
+    const messages = [
+      { role: 'user', content: 'Hello there, how are you doing today?' },
+      { role: 'assistant', content: 'Fine, thanks. What can I do for you?' },
+      { role: 'user', content: 'Tell me a joke.' }
+    ];
+
+    tokenCounter.recordUsage(modelId, messages, { promptTokens: 6 });
+    tokenCounter.recordUsage(modelId, messages.slice(0, 1), { promptTokens: 1 });
+
+    expect(tokenCounter.getCalibration(modelId)).toBe(1);
+  });
+});
+
+describe('buildContextWindow', () => {
+  const messages = Array.from({ length: 50 }, (_, i) => ({
+    role: (i % 2 === 0 ? 'user' : 'assistant') as 'user' | 'assistant',
+    content: `Message ${i}: some content that takes up a reasonable number of tokens in the window.`
+  }));
+
+  test('includes everything when it fits', () => {
+    const window = buildContextWindow({
+      modelId: 'test-model',
+      contextLength: 32768,
+      reservedTokens: 2048,
+      systemParts: ['You are helpful.'],
+      messages,
+      summary: 'Earlier summary'
+    });
+
+    expect(window.droppedMessages).toBe(0);
+    expect(window.history).toHaveLength(messages.length + 1);
+    expect(window.history.some(msg => msg.content === 'Earlier summary')).toBe(false);
+  });
+
+  test('drops the oldest messages and adds the summary when over budget', () => {
+    const window = buildContextWindow({
+      modelId: 'test-model',
+      contextLength: 1024,
+      reservedTokens: 512,
+      systemParts: ['You are helpful.', '[Context hints]'],
+      messages,
+      summary: 'Earlier summary'
+    });
+
+    expect(window.droppedMessages).toBeGreaterThan(0);
+    expect(window.totalTokens).toBeLessThanOrEqual(window.budget);
+    expect(window.history.slice(0, 3).map(msg => msg.content))
+      .toEqual(['You are helpful.', '[Context hints]', 'Earlier summary']);
+    expect(window.history[window.history.length - 1]).toEqual(messages[messages.length - 1]);
+  });
+
+  test('always keeps the newest message', () => {
+    const window = buildContextWindow({
+      modelId: 'test-model',
+      contextLength: 10,
+      reservedTokens: 10,
+      systemParts: [],
+      messages
+    });
+
+    expect(window.includedMessages).toBe(1);
+    expect(window.history).toEqual([messages[messages.length - 1]]);
+  });
+});
@@ -0,0 +1,43 @@
+/**
+ * Native Tool Calling Helper Tests
+ *
+ * Verifies provider-safe tool names and MCP result formatting.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { toNativeToolName, formatToolResult, previewToolResult } from '../../main/services/tool-calls.js';
+
+describe('toNativeToolName', () => {
+  test('replaces the server separator', () => {
+    expect(toNativeToolName('filesystem:list_directory')).toBe('filesystem__list_directory');
+  });
+
+  test('keeps only characters Claude accepts, up to 64', () => {
+    const name = toNativeToolName(`lama:${'x'.repeat(80)}.v2`);
+    expect(name).toMatch(/^[a-zA-Z0-9_-]{1,64}$/);
+  });
+});
+
+describe('formatToolResult', () => {
+  test('joins the text parts of an MCP result', () => {
+    const result = {
+      content: [
+        { type: 'text', text: '[DIR] src' },
+        { type: 'image', data: '...' },
+        { type: 'text', text: '[FILE] package.json' }
+      ]
+    };
+    expect(formatToolResult(result)).toBe('[DIR] src\n\n[FILE] package.json');
+  });
+
+  test('passes strings through and falls back to JSON', () => {
+    expect(formatToolResult('done')).toBe('done');
+    expect(formatToolResult({ ok: true })).toBe(JSON.stringify({ ok: true }, null, 2));
+  });
+
+  test('shortens long results for display', () => {
+    const preview = previewToolResult('a'.repeat(2000));
+    expect(preview.length).toBeLessThan(2000);
+    expect(preview.endsWith('…')).toBe(true);
+  });
+});
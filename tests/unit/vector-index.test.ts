@@ -0,0 +1,65 @@
+/**
+ * Vector Index Tests
+ *
+ * Verifies similarity ranking, filtering and the base64 vector encoding.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { VectorIndex, cosineSimilarity, encodeVector, decodeVector } from '../../main/services/vector-index.js';
+
+describe('cosineSimilarity', () => {
+  test('is 1 for parallel and 0 for orthogonal vectors', () => {
+    expect(cosineSimilarity([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+  });
+
+  test('is 0 for vectors of different length', () => {
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+});
+
+describe('VectorIndex', () => {
+  test('returns the nearest entries first', () => {
+    const index = new VectorIndex<{ kind: string }>();
+    index.add('car', [1, 0.1, 0], { kind: 'keyword' });
+    index.add('automobile', [0.9, 0.2, 0], { kind: 'keyword' });
+    index.add('banana', [0, 0, 1], { kind: 'keyword' });
+
+    const matches = index.search([1, 0.15, 0], { k: 2 });
+    expect(matches.map(m => m.key)).toEqual(['car', 'automobile']);
+  });
+
+  test('replaces an entry added under the same key', () => {
+    const index = new VectorIndex();
+    index.add('a', [1, 0], null);
+    index.add('a', [0, 1], null);
+
+    expect(index.size).toBe(1);
+    expect(index.search([0, 1])[0].score).toBeCloseTo(1);
+  });
+
+  test('applies the filter and minimum score', () => {
+    const index = new VectorIndex<{ topicId: string }>();
+    index.add('x', [1, 0], { topicId: 't1' });
+    index.add('y', [1, 0.1], { topicId: 't2' });
+    index.add('z', [0, 1], { topicId: 't2' });
+
+    const matches = index.search([1, 0], { minScore: 0.5, filter: entry => entry.meta.topicId === 't2' });
+    expect(matches.map(m => m.key)).toEqual(['y']);
+  });
+
+  test('skips entries of another dimension', () => {
+    const index = new VectorIndex();
+    index.add('old-model', [1, 0, 0, 0], null);
+    index.add('new-model', [1, 0], null);
+
+    expect(index.search([1, 0]).map(m => m.key)).toEqual(['new-model']);
+  });
+});
+
+describe('encodeVector', () => {
+  test('round-trips through base64', () => {
+    const vector = Float32Array.from([0.25, -1.5, 3]);
+    expect(Array.from(decodeVector(encodeVector(vector)))).toEqual([0.25, -1.5, 3]);
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Word Diff Tests
+ *
+ * Verifies word-level diffs between summary versions.
+ */
+
+import { describe, test, expect } from '@jest/globals';
+import { diffWords } from '../../main/services/word-diff.js';
+
+const join = (segments: Array<{ type: string; text: string }>, types: string[]) =>
+  segments.filter(segment => types.includes(segment.type)).map(segment => segment.text).join('');
+
+describe('diffWords', () => {
+  test('reports identical texts as unchanged', () => {
+    const diff = diffWords('We planned the trip.', 'We planned the trip.');
+
+    expect(diff.segments).toEqual([{ type: 'equal', text: 'We planned the trip.' }]);
+    expect(diff.added).toBe(0);
+    expect(diff.removed).toBe(0);
+    expect(diff.unchanged).toBe(4);
+  });
+
+  test('finds replaced and inserted words', () => {
+    const diff = diffWords(
+      'We discussed pizza delivery costs.',
+      'We discussed pizza delivery times and costs.'
+    );
+
+    expect(diff.segments).toEqual([
+      { type: 'equal', text: 'We discussed pizza delivery ' },
+      { type: 'added', text: 'times and ' },
+      { type: 'equal', text: 'costs.' }
+    ]);
+    expect(diff.added).toBe(2);
+    expect(diff.removed).toBe(0);
+  });
+
+  test('ignores changes in whitespace only', () => {
+    const diff = diffWords('one two\nthree', 'one  two three');
+
+    expect(diff.added).toBe(0);
+    expect(diff.removed).toBe(0);
+  });
+
+  test('segments rebuild both versions', () => {
+    const before = 'The budget was approved by the board on Monday.';
+    const after = 'The revised budget was rejected by the board on Friday.';
+    const diff = diffWords(before, after);
+
+    expect(join(diff.segments, ['equal', 'removed'])).toBe(before);
+    expect(join(diff.segments, ['equal', 'added'])).toBe(after);
+    expect(diff.removed).toBe(2);
+    expect(diff.added).toBe(3);
+  });
+
+  test('handles empty texts', () => {
+    expect(diffWords('', 'new summary').segments).toEqual([{ type: 'added', text: 'new summary' }]);
+    expect(diffWords('old summary', '').segments).toEqual([{ type: 'removed', text: 'old summary' }]);
+  });
+});